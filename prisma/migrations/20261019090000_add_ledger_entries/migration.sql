@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "LedgerDirection" AS ENUM ('DEBIT', 'CREDIT');
+
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('USER', 'TREASURY', 'COMMUNITY_CHEST');
+
+-- CreateEnum
+CREATE TYPE "LedgerReason" AS ENUM ('SUBMISSION', 'PUSH', 'DIGOUT', 'DISRUPT', 'REMOVAL_FORFEIT', 'REMOVAL_REFUND_AUTHOR', 'REMOVAL_REFUND_PUSHER');
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "ledger_entry_id" SERIAL NOT NULL,
+    "transaction_ref" TEXT NOT NULL,
+    "direction" "LedgerDirection" NOT NULL,
+    "account_type" "LedgerAccountType" NOT NULL,
+    "account_user_id" INTEGER,
+    "counterparty_type" "LedgerAccountType" NOT NULL,
+    "counterparty_user_id" INTEGER,
+    "amount" BIGINT NOT NULL,
+    "reason" "LedgerReason" NOT NULL,
+    "challenge_id" INTEGER,
+    "stream_session_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("ledger_entry_id")
+);
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_account_type_account_user_id_idx" ON "ledger_entries"("account_type", "account_user_id");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_reason_idx" ON "ledger_entries"("reason");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_challenge_id_idx" ON "ledger_entries"("challenge_id");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_transaction_ref_idx" ON "ledger_entries"("transaction_ref");
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_account_user_id_fkey" FOREIGN KEY ("account_user_id") REFERENCES "users"("user_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: Opening entries for the spending history that is still reconstructible (pushes and submissions).
+INSERT INTO "ledger_entries" ("transaction_ref", "direction", "account_type", "account_user_id", "counterparty_type", "counterparty_user_id", "amount", "reason", "challenge_id", "created_at")
+SELECT 'backfill:push:' || "push_id", 'DEBIT', 'USER', "user_id", 'TREASURY', NULL, "cost", 'PUSH', "challenge_id", "timestamp" FROM "pushes"
+UNION ALL
+SELECT 'backfill:push:' || "push_id", 'CREDIT', 'TREASURY', NULL, 'USER', "user_id", "cost", 'PUSH', "challenge_id", "timestamp" FROM "pushes";
+
+INSERT INTO "ledger_entries" ("transaction_ref", "direction", "account_type", "account_user_id", "counterparty_type", "counterparty_user_id", "amount", "reason", "challenge_id", "created_at")
+SELECT 'backfill:submission:' || "challenge_id", 'DEBIT', 'USER', "proposer_user_id", 'TREASURY', NULL, "submission_cost", 'SUBMISSION', "challenge_id", "timestamp_submitted" FROM "challenges"
+UNION ALL
+SELECT 'backfill:submission:' || "challenge_id", 'CREDIT', 'TREASURY', NULL, 'USER', "proposer_user_id", "submission_cost", 'SUBMISSION', "challenge_id", "timestamp_submitted" FROM "challenges";
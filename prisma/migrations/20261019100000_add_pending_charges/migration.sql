@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ChargeStatus" AS ENUM ('PENDING', 'COMMITTED', 'FAILED', 'REFUNDED', 'STUCK', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "pending_charges" (
+    "charge_id" SERIAL NOT NULL,
+    "idempotency_key" TEXT NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "platform_id" TEXT NOT NULL,
+    "platform_name" "PlatformName" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "reason" "LedgerReason" NOT NULL,
+    "challenge_id" INTEGER,
+    "status" "ChargeStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "resolution_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "pending_charges_pkey" PRIMARY KEY ("charge_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pending_charges_idempotency_key_key" ON "pending_charges"("idempotency_key");
+
+-- CreateIndex
+CREATE INDEX "pending_charges_status_created_at_idx" ON "pending_charges"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "pending_charges" ADD CONSTRAINT "pending_charges_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
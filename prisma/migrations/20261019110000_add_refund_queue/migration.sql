@@ -0,0 +1,44 @@
+-- AlterEnum
+ALTER TYPE "LedgerReason" ADD VALUE 'REFUND_REVERSAL';
+
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "pushes" ADD COLUMN     "account_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "pending_refunds" (
+    "refund_id" SERIAL NOT NULL,
+    "idempotency_key" TEXT NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "account_id" INTEGER,
+    "amount" INTEGER NOT NULL,
+    "reason" "LedgerReason" NOT NULL,
+    "challenge_id" INTEGER,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolution_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "pending_refunds_pkey" PRIMARY KEY ("refund_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pending_refunds_idempotency_key_key" ON "pending_refunds"("idempotency_key");
+
+-- CreateIndex
+CREATE INDEX "pending_refunds_status_next_attempt_at_idx" ON "pending_refunds"("status", "next_attempt_at");
+
+-- AddForeignKey
+ALTER TABLE "pushes" ADD CONSTRAINT "pushes_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("account_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pending_refunds" ADD CONSTRAINT "pending_refunds_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pending_refunds" ADD CONSTRAINT "pending_refunds_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("account_id") ON DELETE SET NULL ON UPDATE CASCADE;
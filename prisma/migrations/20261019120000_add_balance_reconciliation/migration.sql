@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "reconciliation_runs" (
+    "run_id" SERIAL NOT NULL,
+    "trigger" "ReconciliationTrigger" NOT NULL,
+    "triggered_by_user_id" INTEGER,
+    "accounts_checked" INTEGER NOT NULL DEFAULT 0,
+    "accounts_drifted" INTEGER NOT NULL DEFAULT 0,
+    "accounts_flagged" INTEGER NOT NULL DEFAULT 0,
+    "accounts_failed" INTEGER NOT NULL DEFAULT 0,
+    "total_absolute_drift" BIGINT NOT NULL DEFAULT 0,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "reconciliation_runs_pkey" PRIMARY KEY ("run_id")
+);
+
+-- CreateTable
+CREATE TABLE "reconciliation_results" (
+    "result_id" SERIAL NOT NULL,
+    "run_id" INTEGER NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "mirrored_balance" INTEGER NOT NULL,
+    "lumia_balance" INTEGER,
+    "drift" INTEGER NOT NULL DEFAULT 0,
+    "is_flagged" BOOLEAN NOT NULL DEFAULT false,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reconciliation_results_pkey" PRIMARY KEY ("result_id")
+);
+
+-- CreateIndex
+CREATE INDEX "reconciliation_results_run_id_idx" ON "reconciliation_results"("run_id");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_results_account_id_idx" ON "reconciliation_results"("account_id");
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_results" ADD CONSTRAINT "reconciliation_results_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "reconciliation_runs"("run_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_results" ADD CONSTRAINT "reconciliation_results_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("account_id") ON DELETE CASCADE ON UPDATE CASCADE;
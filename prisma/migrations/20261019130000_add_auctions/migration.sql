@@ -0,0 +1,72 @@
+-- AlterEnum
+ALTER TYPE "LedgerReason" ADD VALUE 'AUCTION_BID';
+ALTER TYPE "LedgerReason" ADD VALUE 'AUCTION_REFUND';
+ALTER TYPE "LedgerReason" ADD VALUE 'AUCTION_WIN';
+
+-- AlterEnum
+ALTER TYPE "LedgerAccountType" ADD VALUE 'ESCROW';
+
+-- CreateEnum
+CREATE TYPE "AuctionStatus" AS ENUM ('OPEN', 'CLOSED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "AuctionWinnerMode" AS ENUM ('REVIVE', 'OWNERSHIP');
+
+-- CreateEnum
+CREATE TYPE "AuctionBidStatus" AS ENUM ('LEADING', 'OUTBID', 'WON', 'RELEASED');
+
+-- CreateTable
+CREATE TABLE "auctions" (
+    "auction_id" SERIAL NOT NULL,
+    "challenge_id" INTEGER NOT NULL,
+    "status" "AuctionStatus" NOT NULL DEFAULT 'OPEN',
+    "winner_mode" "AuctionWinnerMode" NOT NULL,
+    "minimum_bid" INTEGER NOT NULL,
+    "highest_bid" INTEGER NOT NULL DEFAULT 0,
+    "total_bids" INTEGER NOT NULL DEFAULT 0,
+    "closes_at" TIMESTAMP(3),
+    "closes_at_stream_day" INTEGER,
+    "opened_by_user_id" INTEGER NOT NULL,
+    "winner_user_id" INTEGER,
+    "opened_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" TIMESTAMP(3),
+
+    CONSTRAINT "auctions_pkey" PRIMARY KEY ("auction_id")
+);
+
+-- CreateTable
+CREATE TABLE "auction_bids" (
+    "bid_id" SERIAL NOT NULL,
+    "auction_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "status" "AuctionBidStatus" NOT NULL DEFAULT 'LEADING',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auction_bids_pkey" PRIMARY KEY ("bid_id")
+);
+
+-- CreateIndex
+CREATE INDEX "auctions_status_idx" ON "auctions"("status");
+
+-- CreateIndex
+CREATE INDEX "auctions_challenge_id_idx" ON "auctions"("challenge_id");
+
+-- CreateIndex
+CREATE INDEX "auction_bids_auction_id_status_idx" ON "auction_bids"("auction_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "auctions" ADD CONSTRAINT "auctions_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auctions" ADD CONSTRAINT "auctions_opened_by_user_id_fkey" FOREIGN KEY ("opened_by_user_id") REFERENCES "users"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auction_bids" ADD CONSTRAINT "auction_bids_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("auction_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auction_bids" ADD CONSTRAINT "auction_bids_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auction_bids" ADD CONSTRAINT "auction_bids_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("account_id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "DisruptEffect" AS ENUM ('CONSTRAINT', 'SHORTEN', 'EXTEND', 'SWAP');
+
+-- CreateTable
+CREATE TABLE "disrupts" (
+    "disrupt_id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "challenge_id" INTEGER NOT NULL,
+    "effect" "DisruptEffect" NOT NULL,
+    "constraint_text" TEXT,
+    "session_shift_ms" INTEGER,
+    "swapped_to_challenge_id" INTEGER,
+    "cost" INTEGER NOT NULL,
+    "stream_session_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "disrupts_pkey" PRIMARY KEY ("disrupt_id")
+);
+
+-- CreateIndex
+CREATE INDEX "disrupts_challenge_id_idx" ON "disrupts"("challenge_id");
+
+-- AddForeignKey
+ALTER TABLE "disrupts" ADD CONSTRAINT "disrupts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disrupts" ADD CONSTRAINT "disrupts_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "disrupts" ADD CONSTRAINT "disrupts_swapped_to_challenge_id_fkey" FOREIGN KEY ("swapped_to_challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- CreateIndex
+CREATE INDEX "pushes_challenge_id_user_id_idx" ON "pushes"("challenge_id", "user_id");
+
+-- Backfill: unique_pusher was never maintained before this migration
+UPDATE "challenges" AS c
+SET "unique_pusher" = (
+    SELECT COUNT(DISTINCT p."user_id")
+    FROM "pushes" AS p
+    WHERE p."challenge_id" = c."challenge_id"
+);
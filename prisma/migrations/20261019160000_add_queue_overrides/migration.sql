@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "QueueOverrideType" AS ENUM ('PIN', 'SKIP');
+
+-- CreateTable
+CREATE TABLE "queue_overrides" (
+    "queue_override_id" SERIAL NOT NULL,
+    "challenge_id" INTEGER NOT NULL,
+    "type" "QueueOverrideType" NOT NULL,
+    "note" TEXT,
+    "created_by_user_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "queue_overrides_pkey" PRIMARY KEY ("queue_override_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "queue_overrides_challenge_id_key" ON "queue_overrides"("challenge_id");
+
+-- AddForeignKey
+ALTER TABLE "queue_overrides" ADD CONSTRAINT "queue_overrides_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "queue_overrides" ADD CONSTRAINT "queue_overrides_created_by_user_id_fkey" FOREIGN KEY ("created_by_user_id") REFERENCES "users"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
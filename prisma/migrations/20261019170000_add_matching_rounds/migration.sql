@@ -0,0 +1,52 @@
+-- AlterEnum
+ALTER TYPE "LedgerReason" ADD VALUE 'MATCHING_POOL';
+
+-- CreateEnum
+CREATE TYPE "MatchingRoundTrigger" AS ENUM ('STREAM_END', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "challenges" ADD COLUMN "matched_numbers" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "matching_rounds" (
+    "round_id" SERIAL NOT NULL,
+    "trigger" "MatchingRoundTrigger" NOT NULL,
+    "triggered_by_user_id" INTEGER,
+    "stream_session_id" INTEGER,
+    "period_start" TIMESTAMP(3) NOT NULL,
+    "period_end" TIMESTAMP(3) NOT NULL,
+    "pool_amount" INTEGER NOT NULL,
+    "total_matched" INTEGER NOT NULL DEFAULT 0,
+    "challenges_matched" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "matching_rounds_pkey" PRIMARY KEY ("round_id")
+);
+
+-- CreateTable
+CREATE TABLE "matching_matches" (
+    "match_id" SERIAL NOT NULL,
+    "round_id" INTEGER NOT NULL,
+    "challenge_id" INTEGER NOT NULL,
+    "contributors" INTEGER NOT NULL,
+    "total_contributed" INTEGER NOT NULL,
+    "ideal_match" INTEGER NOT NULL,
+    "matched_amount" INTEGER NOT NULL,
+
+    CONSTRAINT "matching_matches_pkey" PRIMARY KEY ("match_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matching_rounds_stream_session_id_key" ON "matching_rounds"("stream_session_id");
+
+-- CreateIndex
+CREATE INDEX "matching_matches_round_id_idx" ON "matching_matches"("round_id");
+
+-- CreateIndex
+CREATE INDEX "matching_matches_challenge_id_idx" ON "matching_matches"("challenge_id");
+
+-- AddForeignKey
+ALTER TABLE "matching_matches" ADD CONSTRAINT "matching_matches_round_id_fkey" FOREIGN KEY ("round_id") REFERENCES "matching_rounds"("round_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "matching_matches" ADD CONSTRAINT "matching_matches_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "temp_quotes" ADD COLUMN "basket_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "temp_quotes_basket_id_idx" ON "temp_quotes"("basket_id");
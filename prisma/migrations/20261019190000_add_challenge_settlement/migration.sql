@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "challenges" ADD COLUMN "timestamp_settled" TIMESTAMP(3);
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "LedgerReason" ADD VALUE 'COMPLETION_PAYOUT_PROPOSER';
+ALTER TYPE "LedgerReason" ADD VALUE 'COMPLETION_PAYOUT_PUSHER';
+
+-- AlterTable
+ALTER TABLE "challenges" ADD COLUMN "timestamp_paid_out" TIMESTAMP(3);
+
+-- Backfill: challenges completed before payouts existed are not paid retroactively
+UPDATE "challenges" SET "timestamp_paid_out" = COALESCE("timestamp_completed", CURRENT_TIMESTAMP) WHERE "status" = 'COMPLETED';
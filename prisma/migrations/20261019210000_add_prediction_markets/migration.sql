@@ -0,0 +1,68 @@
+-- AlterEnum
+ALTER TYPE "LedgerReason" ADD VALUE 'PREDICTION_STAKE';
+ALTER TYPE "LedgerReason" ADD VALUE 'PREDICTION_PAYOUT';
+ALTER TYPE "LedgerReason" ADD VALUE 'PREDICTION_REFUND';
+ALTER TYPE "LedgerReason" ADD VALUE 'PREDICTION_RAKE';
+
+-- CreateEnum
+CREATE TYPE "PredictionOutcome" AS ENUM ('COMPLETES', 'FAILS');
+
+-- CreateEnum
+CREATE TYPE "PredictionMarketStatus" AS ENUM ('OPEN', 'SETTLED', 'VOIDED');
+
+-- CreateEnum
+CREATE TYPE "PredictionStakeStatus" AS ENUM ('ESCROWED', 'WON', 'LOST', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "prediction_markets" (
+    "market_id" SERIAL NOT NULL,
+    "challenge_id" INTEGER NOT NULL,
+    "status" "PredictionMarketStatus" NOT NULL DEFAULT 'OPEN',
+    "pool_completes" INTEGER NOT NULL DEFAULT 0,
+    "pool_fails" INTEGER NOT NULL DEFAULT 0,
+    "outcome" "PredictionOutcome",
+    "rake_amount" INTEGER NOT NULL DEFAULT 0,
+    "opened_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "prediction_markets_pkey" PRIMARY KEY ("market_id")
+);
+
+-- CreateTable
+CREATE TABLE "prediction_stakes" (
+    "stake_id" SERIAL NOT NULL,
+    "market_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "outcome" "PredictionOutcome" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "payout" INTEGER NOT NULL DEFAULT 0,
+    "status" "PredictionStakeStatus" NOT NULL DEFAULT 'ESCROWED',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prediction_stakes_pkey" PRIMARY KEY ("stake_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prediction_markets_challenge_id_key" ON "prediction_markets"("challenge_id");
+
+-- CreateIndex
+CREATE INDEX "prediction_markets_status_idx" ON "prediction_markets"("status");
+
+-- CreateIndex
+CREATE INDEX "prediction_stakes_market_id_status_idx" ON "prediction_stakes"("market_id", "status");
+
+-- CreateIndex
+CREATE INDEX "prediction_stakes_user_id_idx" ON "prediction_stakes"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "prediction_markets" ADD CONSTRAINT "prediction_markets_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prediction_stakes" ADD CONSTRAINT "prediction_stakes_market_id_fkey" FOREIGN KEY ("market_id") REFERENCES "prediction_markets"("market_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prediction_stakes" ADD CONSTRAINT "prediction_stakes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prediction_stakes" ADD CONSTRAINT "prediction_stakes_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("account_id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- AlterEnum
+ALTER TYPE "LedgerReason" ADD VALUE 'GIFT';
+ALTER TYPE "LedgerReason" ADD VALUE 'DONATION';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "total_numbers_gifted" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN "total_numbers_received_as_gifts" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN "total_gifts_sent" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "gifts" (
+    "gift_id" SERIAL NOT NULL,
+    "sender_user_id" INTEGER NOT NULL,
+    "sender_account_id" INTEGER NOT NULL,
+    "recipient_user_id" INTEGER NOT NULL,
+    "recipient_account_id" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "is_donation" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "gifts_pkey" PRIMARY KEY ("gift_id")
+);
+
+-- CreateIndex
+CREATE INDEX "gifts_sender_user_id_created_at_idx" ON "gifts"("sender_user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "gifts_recipient_user_id_idx" ON "gifts"("recipient_user_id");
+
+-- AddForeignKey
+ALTER TABLE "gifts" ADD CONSTRAINT "gifts_sender_user_id_fkey" FOREIGN KEY ("sender_user_id") REFERENCES "users"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gifts" ADD CONSTRAINT "gifts_sender_account_id_fkey" FOREIGN KEY ("sender_account_id") REFERENCES "accounts"("account_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gifts" ADD CONSTRAINT "gifts_recipient_user_id_fkey" FOREIGN KEY ("recipient_user_id") REFERENCES "users"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gifts" ADD CONSTRAINT "gifts_recipient_account_id_fkey" FOREIGN KEY ("recipient_account_id") REFERENCES "accounts"("account_id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "account_link_codes" (
+    "link_code_id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "account_id" INTEGER NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "redeemed_at" TIMESTAMP(3),
+    "redeemed_by_account_id" INTEGER,
+    "merged_user_id" INTEGER,
+
+    CONSTRAINT "account_link_codes_pkey" PRIMARY KEY ("link_code_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "account_link_codes_code_key" ON "account_link_codes"("code");
+
+-- CreateIndex
+CREATE INDEX "account_link_codes_user_id_idx" ON "account_link_codes"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "account_link_codes" ADD CONSTRAINT "account_link_codes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "account_link_codes" ADD CONSTRAINT "account_link_codes_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("account_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "account_link_codes" ADD CONSTRAINT "account_link_codes_redeemed_by_account_id_fkey" FOREIGN KEY ("redeemed_by_account_id") REFERENCES "accounts"("account_id") ON DELETE SET NULL ON UPDATE CASCADE;
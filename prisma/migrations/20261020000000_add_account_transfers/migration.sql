@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "LedgerReason" ADD VALUE 'ACCOUNT_TRANSFER';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "spend_from_any_account" BOOLEAN NOT NULL DEFAULT false;
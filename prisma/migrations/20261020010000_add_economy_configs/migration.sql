@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "economy_configs" (
+    "version" SERIAL NOT NULL,
+    "submission_base_cost" INTEGER NOT NULL,
+    "push_base_cost" INTEGER NOT NULL,
+    "disrupt_cost" INTEGER NOT NULL,
+    "digout_percent" INTEGER NOT NULL,
+    "live_discount_percent" INTEGER NOT NULL,
+    "note" TEXT,
+    "proposed_by_user_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "activated_at" TIMESTAMP(3),
+    "effective_from" TIMESTAMP(3),
+
+    CONSTRAINT "economy_configs_pkey" PRIMARY KEY ("version")
+);
+
+-- CreateIndex
+CREATE INDEX "economy_configs_effective_from_idx" ON "economy_configs"("effective_from");
+
+-- AlterTable
+ALTER TABLE "challenges" ADD COLUMN "economy_config_version" INTEGER;
+
+-- AlterTable
+ALTER TABLE "pushes" ADD COLUMN "economy_config_version" INTEGER;
+
+-- AlterTable
+ALTER TABLE "temp_quotes" ADD COLUMN "economy_config_version" INTEGER;
+
+-- Version 1: the prices hard-coded in gameConfig.ts until now, effective for all existing history
+INSERT INTO "economy_configs" ("version", "submission_base_cost", "push_base_cost", "disrupt_cost", "digout_percent", "live_discount_percent", "note", "activated_at", "effective_from")
+VALUES (1, 210, 21, 2100, 21, 21, 'Initial prices (formerly gameConfig.ts constants)', CURRENT_TIMESTAMP, '1970-01-01 00:00:00');
+
+SELECT setval(pg_get_serial_sequence('economy_configs', 'version'), 1);
+
+-- Backfill: everything so far was priced with version 1
+UPDATE "challenges" SET "economy_config_version" = 1;
+UPDATE "pushes" SET "economy_config_version" = 1;
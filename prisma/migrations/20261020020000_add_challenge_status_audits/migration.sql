@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "challenge_status_audits" (
+    "challenge_status_audit_id" SERIAL NOT NULL,
+    "challenge_id" INTEGER NOT NULL,
+    "from_status" "ChallengeStatus" NOT NULL,
+    "to_status" "ChallengeStatus" NOT NULL,
+    "forced" BOOLEAN NOT NULL DEFAULT false,
+    "actor_user_id" INTEGER,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "challenge_status_audits_pkey" PRIMARY KEY ("challenge_status_audit_id")
+);
+
+-- CreateIndex
+CREATE INDEX "challenge_status_audits_challenge_id_created_at_idx" ON "challenge_status_audits"("challenge_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "challenge_status_audits" ADD CONSTRAINT "challenge_status_audits_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "LedgerReason" ADD VALUE 'MODERATION_REFUND';
+
+-- CreateEnum
+CREATE TYPE "ModerationVerdict" AS ENUM ('APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "moderation_decisions" (
+    "moderation_decision_id" SERIAL NOT NULL,
+    "challenge_id" INTEGER NOT NULL,
+    "verdict" "ModerationVerdict" NOT NULL,
+    "reason" TEXT,
+    "refund_percent" INTEGER NOT NULL DEFAULT 0,
+    "refund_amount" INTEGER NOT NULL DEFAULT 0,
+    "decided_by_user_id" INTEGER NOT NULL,
+    "decided_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "moderation_decisions_pkey" PRIMARY KEY ("moderation_decision_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "moderation_decisions_challenge_id_key" ON "moderation_decisions"("challenge_id");
+
+-- CreateIndex
+CREATE INDEX "moderation_decisions_decided_at_idx" ON "moderation_decisions"("decided_at");
+
+-- AddForeignKey
+ALTER TABLE "moderation_decisions" ADD CONSTRAINT "moderation_decisions_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "challenges" ADD COLUMN "revision" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "challenge_revisions" (
+    "challenge_revision_id" SERIAL NOT NULL,
+    "challenge_id" INTEGER NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "challenge_text" JSONB NOT NULL,
+    "requires_review" BOOLEAN NOT NULL DEFAULT false,
+    "edited_by_user_id" INTEGER NOT NULL,
+    "is_game_master_edit" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "challenge_revisions_pkey" PRIMARY KEY ("challenge_revision_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "challenge_revisions_challenge_id_revision_key" ON "challenge_revisions"("challenge_id", "revision");
+
+-- AddForeignKey
+ALTER TABLE "challenge_revisions" ADD CONSTRAINT "challenge_revisions_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: the submitted text of every existing challenge is its revision 1
+INSERT INTO "challenge_revisions" ("challenge_id", "revision", "challenge_text", "requires_review", "edited_by_user_id", "created_at")
+SELECT "challenge_id", 1, "challenge_text", COALESCE(("challenge_text"->'system'->>'requiresReview')::boolean, false), "proposer_user_id", "timestamp_submitted"
+FROM "challenges";
+
+-- DropIndex: a challenge can be reviewed again after an edit
+DROP INDEX "moderation_decisions_challenge_id_key";
+
+-- CreateIndex
+CREATE INDEX "moderation_decisions_challenge_id_idx" ON "moderation_decisions"("challenge_id");
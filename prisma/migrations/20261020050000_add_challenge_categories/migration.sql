@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "challenge_categories" (
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "challenge_categories_pkey" PRIMARY KEY ("slug")
+);
+
+-- Initial taxonomy ("general" is DEFAULT_CHALLENGE_CATEGORY in gameConfig.ts)
+INSERT INTO "challenge_categories" ("slug", "name", "description", "sort_order", "updated_at") VALUES
+    ('general', 'General', 'Anything that does not fit another category', 0, CURRENT_TIMESTAMP),
+    ('rudiments', 'Rudiments', 'Sticking patterns, strokes and hand technique', 10, CURRENT_TIMESTAMP),
+    ('grooves', 'Grooves', 'Beats, feels and pocket', 20, CURRENT_TIMESTAMP),
+    ('reading', 'Reading', 'Notation and sight-reading', 30, CURRENT_TIMESTAMP),
+    ('independence', 'Independence', 'Limb coordination, ostinatos and polyrhythms', 40, CURRENT_TIMESTAMP),
+    ('speed', 'Speed & Endurance', 'Tempo, stamina and footwork', 50, CURRENT_TIMESTAMP),
+    ('timing', 'Timing', 'Time feel, click work and micro-timing', 60, CURRENT_TIMESTAMP),
+    ('dynamics', 'Dynamics', 'Volume control, touch and balance', 70, CURRENT_TIMESTAMP),
+    ('creativity', 'Creativity', 'Improvisation, soundscapes and musical storytelling', 80, CURRENT_TIMESTAMP),
+    ('genre-study', 'Genre Study', 'Styles and the drummers who defined them', 90, CURRENT_TIMESTAMP);
+
+-- Backfill: existing challenges were all submitted as "General"
+UPDATE "challenges" SET "category" = COALESCE(
+    (SELECT "slug" FROM "challenge_categories" WHERE "slug" = LOWER("challenges"."category") OR LOWER("name") = LOWER("challenges"."category")),
+    'general'
+);
+
+-- AlterTable
+ALTER TABLE "challenges" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "challenges_category_idx" ON "challenges"("category");
+
+-- CreateIndex
+CREATE INDEX "challenges_tags_idx" ON "challenges" USING GIN ("tags");
+
+-- AddForeignKey
+ALTER TABLE "challenges" ADD CONSTRAINT "challenges_category_fkey" FOREIGN KEY ("category") REFERENCES "challenge_categories"("slug") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "stream_stats" ADD COLUMN "total_series_completed" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "challenge_series" (
+    "series_id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "created_by_user_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "timestamp_completed" TIMESTAMP(3),
+
+    CONSTRAINT "challenge_series_pkey" PRIMARY KEY ("series_id")
+);
+
+-- AlterTable
+ALTER TABLE "challenges" ADD COLUMN "series_id" INTEGER,
+ADD COLUMN "series_position" INTEGER;
+
+-- CreateTable
+CREATE TABLE "challenge_prerequisites" (
+    "challenge_id" INTEGER NOT NULL,
+    "prerequisite_challenge_id" INTEGER NOT NULL,
+    "created_by_user_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "challenge_prerequisites_pkey" PRIMARY KEY ("challenge_id","prerequisite_challenge_id")
+);
+
+-- CreateIndex
+CREATE INDEX "challenges_series_id_idx" ON "challenges"("series_id");
+
+-- CreateIndex
+CREATE INDEX "challenge_prerequisites_prerequisite_challenge_id_idx" ON "challenge_prerequisites"("prerequisite_challenge_id");
+
+-- AddForeignKey
+ALTER TABLE "challenges" ADD CONSTRAINT "challenges_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "challenge_series"("series_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "challenge_prerequisites" ADD CONSTRAINT "challenge_prerequisites_challenge_id_fkey" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "challenge_prerequisites" ADD CONSTRAINT "challenge_prerequisites_prerequisite_challenge_id_fkey" FOREIGN KEY ("prerequisite_challenge_id") REFERENCES "challenges"("challenge_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "ledger_baseline_numbers_spent" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN "ledger_baseline_received_from_removals" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "ledger_baseline_caused_by_removals" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN "ledger_baseline_to_community_chest" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN "ledger_baseline_to_pushers" BIGINT NOT NULL DEFAULT 0;
+
+-- Backfill: the baseline is whatever the counters hold beyond what the ledger explains
+-- (pre-ledger digouts and removals were never posted). Same derivation as rebuildUserTotalsFromLedger.
+WITH "user_flows" AS (
+    SELECT "account_user_id" AS "user_id",
+        SUM(CASE
+            WHEN "direction" = 'DEBIT' AND "reason" IN ('SUBMISSION', 'PUSH', 'DIGOUT', 'DISRUPT', 'AUCTION_WIN', 'AUCTION_BID') THEN "amount"
+            WHEN "direction" = 'CREDIT' AND "reason" IN ('AUCTION_REFUND', 'MODERATION_REFUND') THEN -"amount"
+            ELSE 0
+        END) AS "spent",
+        SUM(CASE WHEN "direction" = 'CREDIT' AND "reason" = 'REMOVAL_REFUND_PUSHER' THEN "amount" ELSE 0 END) AS "received"
+    FROM "ledger_entries"
+    WHERE "account_type" = 'USER' AND "account_user_id" IS NOT NULL
+    GROUP BY "account_user_id"
+),
+"removal_flows" AS (
+    SELECT "challenges"."proposer_user_id" AS "user_id",
+        SUM("ledger_entries"."amount") AS "caused",
+        SUM(CASE WHEN "ledger_entries"."reason" = 'REMOVAL_FORFEIT' THEN "ledger_entries"."amount" ELSE 0 END) AS "to_chest",
+        SUM(CASE WHEN "ledger_entries"."reason" = 'REMOVAL_REFUND_PUSHER' THEN "ledger_entries"."amount" ELSE 0 END) AS "to_pushers"
+    FROM "ledger_entries"
+    JOIN "challenges" ON "challenges"."challenge_id" = "ledger_entries"."challenge_id"
+    WHERE "ledger_entries"."account_type" = 'TREASURY'
+      AND "ledger_entries"."direction" = 'DEBIT'
+      AND "ledger_entries"."reason" IN ('REMOVAL_FORFEIT', 'REMOVAL_REFUND_AUTHOR', 'REMOVAL_REFUND_PUSHER')
+    GROUP BY "challenges"."proposer_user_id"
+)
+UPDATE "users" SET
+    "ledger_baseline_numbers_spent" = "users"."total_numbers_spent" - COALESCE("user_flows"."spent", 0),
+    "ledger_baseline_received_from_removals" = "users"."total_received_from_removals" - COALESCE("user_flows"."received", 0)::INTEGER,
+    "ledger_baseline_caused_by_removals" = "users"."total_caused_by_removals" - COALESCE("removal_flows"."caused", 0),
+    "ledger_baseline_to_community_chest" = "users"."total_to_community_chest" - COALESCE("removal_flows"."to_chest", 0),
+    "ledger_baseline_to_pushers" = "users"."total_to_pushers" - COALESCE("removal_flows"."to_pushers", 0)
+FROM "users" AS "base"
+LEFT JOIN "user_flows" ON "user_flows"."user_id" = "base"."user_id"
+LEFT JOIN "removal_flows" ON "removal_flows"."user_id" = "base"."user_id"
+WHERE "users"."user_id" = "base"."user_id";
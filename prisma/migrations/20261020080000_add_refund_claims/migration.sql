@@ -0,0 +1,18 @@
+-- AlterEnum
+ALTER TYPE "RefundStatus" ADD VALUE 'PROCESSING';
+
+-- AlterTable
+ALTER TABLE "pending_refunds" ADD COLUMN "claimed_at" TIMESTAMP(3);
+
+-- Backfill: pushes made before account_id existed, attributed to the user's only player account.
+-- Users with several player accounts are left NULL (refunds fall back to the most recently active one).
+UPDATE "pushes" SET "account_id" = "sole_accounts"."account_id"
+FROM (
+    SELECT "user_id", MIN("account_id") AS "account_id"
+    FROM "accounts"
+    WHERE "platform_name" <> 'GAME_MASTER'
+    GROUP BY "user_id"
+    HAVING COUNT(*) = 1
+) AS "sole_accounts"
+WHERE "pushes"."account_id" IS NULL
+  AND "pushes"."user_id" = "sole_accounts"."user_id";
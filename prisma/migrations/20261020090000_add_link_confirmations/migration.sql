@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "account_link_codes" ADD COLUMN "requested_at" TIMESTAMP(3);
+
+-- Backfill: codes redeemed before confirmations existed were requested when they were redeemed
+UPDATE "account_link_codes" SET "requested_at" = "redeemed_at" WHERE "redeemed_at" IS NOT NULL;
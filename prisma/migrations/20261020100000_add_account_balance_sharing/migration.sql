@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "accounts" ADD COLUMN "shares_balance" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable: the User-wide opt-in is replaced by a per-account one. It is not carried over:
+-- it could be turned on from any linked account, without the consent of the accounts it exposed.
+ALTER TABLE "users" DROP COLUMN "spend_from_any_account";
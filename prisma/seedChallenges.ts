@@ -22,6 +22,7 @@ const challengeSeeds = [
       ],
       constraints: ["No rimshots allowed", "Must use matched grip"]
     }, 
+    category: "rudiments", tags: ["moeller", "hand-technique"],
     totalSessions: 21, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 21 days" 
   },
   { 
@@ -34,6 +35,7 @@ const challengeSeeds = [
       ],
       constraints: ["Metronome set to 90bpm", "No cymbals, hi-hat only"]
     }, 
+    category: "grooves", tags: ["funk", "ghost-notes"],
     totalSessions: 14, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 14 days" 
   },
   { 
@@ -46,6 +48,7 @@ const challengeSeeds = [
       ],
       constraints: ["Feathered kick drum mandatory", "Brushes or light sticks only"]
     }, 
+    category: "genre-study", tags: ["jazz", "ride-cymbal"],
     totalSessions: 10, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 10 days" 
   },
   { 
@@ -58,6 +61,7 @@ const challengeSeeds = [
       ],
       constraints: ["Must maintain 85bpm minimum", "Practice on a practice pad"]
     }, 
+    category: "speed", tags: ["double-strokes", "stamina"],
     totalSessions: 21, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 21 days" 
   },
   { 
@@ -70,6 +74,7 @@ const challengeSeeds = [
       ],
       constraints: ["Single pedal only", "Heel-up position"]
     }, 
+    category: "speed", tags: ["heel-toe", "kick"],
     totalSessions: 15, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 15 days" 
   },
   { 
@@ -81,6 +86,7 @@ const challengeSeeds = [
       ],
       constraints: ["No metronome (Internal clock practice)"]
     }, 
+    category: "rudiments", tags: ["nard", "fundamentals"],
     totalSessions: 21, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 21 days" 
   },
   { 
@@ -93,6 +99,7 @@ const challengeSeeds = [
       ],
       constraints: ["Blindfolded (Focus on ears)", "Snare only"]
     }, 
+    category: "creativity", tags: ["speech-rhythm"],
     totalSessions: 1, durationType: DurationType.ONE_OFF, cadenceUnit: null, cadenceText: "ONE_OFF: 1 session(s)." 
   },
   { 
@@ -104,6 +111,7 @@ const challengeSeeds = [
       ],
       constraints: ["Must be a 4/4 time signature"]
     }, 
+    category: "creativity", tags: ["speech-rhythm", "groove"],
     totalSessions: 1, durationType: DurationType.ONE_OFF, cadenceUnit: null, cadenceText: "ONE_OFF: 1 session(s)." 
   },
   { 
@@ -116,6 +124,7 @@ const challengeSeeds = [
       ],
       constraints: ["No cymbals", "Continuous playing for 5 mins"]
     }, 
+    category: "creativity", tags: ["soundtrack", "improvisation"],
     totalSessions: 1, durationType: DurationType.ONE_OFF, cadenceUnit: null, cadenceText: "ONE_OFF: 1 session(s)." 
   },
   { 
@@ -127,6 +136,7 @@ const challengeSeeds = [
       ],
       constraints: ["Use mallets or brushes only", "Minimum 10 minutes per session"]
     }, 
+    category: "creativity", tags: ["soundscape", "improvisation"],
     totalSessions: 4, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.MONTHLY, cadenceText: "1 session per month for 4 months" 
   },
   { 
@@ -138,6 +148,7 @@ const challengeSeeds = [
       ],
       constraints: ["Must use at least 1 non-instrumental object"]
     }, 
+    category: "creativity", tags: ["electronic-kit", "sound-design"],
     totalSessions: 1, durationType: DurationType.ONE_OFF, cadenceUnit: null, cadenceText: "ONE_OFF: 1 session(s)." 
   },
   { 
@@ -149,6 +160,7 @@ const challengeSeeds = [
       ],
       constraints: ["Must maintain consistent hi-hat chick on beats 2 and 4 when not muted"]
     }, 
+    category: "independence", tags: ["coordination"],
     totalSessions: 1, durationType: DurationType.ONE_OFF, cadenceUnit: null, cadenceText: "ONE_OFF: 1 session(s)." 
   },
   { 
@@ -161,6 +173,7 @@ const challengeSeeds = [
       ],
       constraints: ["Left foot cowbell required"]
     }, 
+    category: "independence", tags: ["clave", "latin"],
     totalSessions: 7, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 7 days" 
   },
   { 
@@ -172,6 +185,7 @@ const challengeSeeds = [
       ],
       constraints: ["No post-processing allowed"]
     }, 
+    category: "dynamics", tags: ["balance", "acoustic"],
     totalSessions: 1, durationType: DurationType.ONE_OFF, cadenceUnit: null, cadenceText: "ONE_OFF: 1 session(s)." 
   },
   { 
@@ -184,6 +198,7 @@ const challengeSeeds = [
       ],
       constraints: ["Must use triplets", "Snare ghost notes required"]
     }, 
+    category: "grooves", tags: ["shuffle", "purdie"],
     totalSessions: 21, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 21 days" 
   },
   { 
@@ -195,6 +210,7 @@ const challengeSeeds = [
       ],
       constraints: ["No metronome for the final 5 minutes"]
     }, 
+    category: "timing", tags: ["odd-meter"],
     totalSessions: 14, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 14 days" 
   },
   { 
@@ -206,6 +222,7 @@ const challengeSeeds = [
       ],
       constraints: ["Brushes only", "Tempo under 60bpm"]
     }, 
+    category: "genre-study", tags: ["brushes", "electronic-kit"],
     totalSessions: 10, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 10 days" 
   },
   { 
@@ -218,6 +235,7 @@ const challengeSeeds = [
       ],
       constraints: ["No unison hits allowed"]
     }, 
+    category: "independence", tags: ["linear", "gadd"],
     totalSessions: 14, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 14 days" 
   },
   { 
@@ -229,6 +247,7 @@ const challengeSeeds = [
       ],
       constraints: ["Kick/Snare must stay on the grid"]
     }, 
+    category: "independence", tags: ["polyrhythm"],
     totalSessions: 21, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 21 days" 
   },
   { 
@@ -240,6 +259,7 @@ const challengeSeeds = [
       ],
       constraints: ["Traditional grip for snare hand optional"]
     }, 
+    category: "speed", tags: ["metal", "stamina"],
     totalSessions: 21, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 21 days" 
   },
   { 
@@ -252,6 +272,7 @@ const challengeSeeds = [
       ],
       constraints: ["Kick only on beat 3", "Cross-stick snare only"]
     }, 
+    category: "genre-study", tags: ["reggae", "one-drop"],
     totalSessions: 7, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 7 days" 
   },
   { 
@@ -263,6 +284,7 @@ const challengeSeeds = [
       ],
       constraints: ["Consistent ride cymbal mandatory"]
     }, 
+    category: "genre-study", tags: ["bossa-nova", "latin"],
     totalSessions: 14, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 14 days" 
   },
   { 
@@ -274,6 +296,7 @@ const challengeSeeds = [
       ],
       constraints: ["Mallets only", "Minimum 30s crescendo"]
     }, 
+    category: "dynamics", tags: ["cymbals", "swell"],
     totalSessions: 1, durationType: DurationType.ONE_OFF, cadenceUnit: null, cadenceText: "ONE_OFF: 1 session(s)." 
   },
   { 
@@ -286,6 +309,7 @@ const challengeSeeds = [
       ],
       constraints: ["Must maintain consistent volume across hands and feet"]
     }, 
+    category: "rudiments", tags: ["triplets", "bonham"],
     totalSessions: 10, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 10 days" 
   },
   { 
@@ -297,6 +321,7 @@ const challengeSeeds = [
       ],
       constraints: ["Start at 60bpm", "Record and check if you 'flipped' back"]
     }, 
+    category: "timing", tags: ["metronome", "displacement"],
     totalSessions: 5, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "1 session per day for 5 days" 
   },
   { 
@@ -308,6 +333,7 @@ const challengeSeeds = [
       ],
       constraints: ["Single hand for hi-hat only"]
     }, 
+    category: "genre-study", tags: ["trap", "hi-hat"],
     totalSessions: 10, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "10 days of hats" 
   },
   { 
@@ -319,6 +345,7 @@ const challengeSeeds = [
       ],
       constraints: ["Absolutely no snare drum", "No cymbals"]
     }, 
+    category: "grooves", tags: ["toms", "minimal"],
     totalSessions: 1, durationType: DurationType.ONE_OFF, cadenceUnit: null, cadenceText: "ONE_OFF: 1 session(s)." 
   },
   { 
@@ -330,6 +357,7 @@ const challengeSeeds = [
       ],
       constraints: ["Must maintain consistent 2/4 backbeat"]
     }, 
+    category: "timing", tags: ["showmanship"],
     totalSessions: 12, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.WEEKLY, cadenceText: "3 sessions per week for 4 weeks" 
   },
   { 
@@ -341,6 +369,7 @@ const challengeSeeds = [
       ],
       constraints: ["Focus on even stick heights"]
     }, 
+    category: "rudiments", tags: ["paradiddle", "fills"],
     totalSessions: 14, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "14 days of fills" 
   },
   { 
@@ -352,6 +381,7 @@ const challengeSeeds = [
       ],
       constraints: ["Slightly behind the beat (laid back)"]
     }, 
+    category: "grooves", tags: ["funk", "half-time"],
     totalSessions: 7, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "7 days of funk" 
   },
   { 
@@ -363,6 +393,7 @@ const challengeSeeds = [
       ],
       constraints: ["Must maintain for 60 seconds without stopping"]
     }, 
+    category: "speed", tags: ["double-kick", "footwork"],
     totalSessions: 21, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "21 days of double kick" 
   },
   { 
@@ -374,6 +405,7 @@ const challengeSeeds = [
       ],
       constraints: ["No extra kick notes allowed"]
     }, 
+    category: "grooves", tags: ["bass", "pocket"],
     totalSessions: 1, durationType: DurationType.ONE_OFF, cadenceUnit: null, cadenceText: "ONE_OFF: 1 session(s)." 
   },
   { 
@@ -385,6 +417,7 @@ const challengeSeeds = [
       ],
       constraints: ["Must be perfectly on the grid"]
     }, 
+    category: "timing", tags: ["metronome", "precision"],
     totalSessions: 7, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "7 days of precision" 
   },
   { 
@@ -396,6 +429,7 @@ const challengeSeeds = [
       ],
       constraints: ["Sticks must not rise above 2 inches"]
     }, 
+    category: "dynamics", tags: ["metal", "low-volume"],
     totalSessions: 14, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "14 days of control" 
   },
   { 
@@ -407,6 +441,7 @@ const challengeSeeds = [
       ],
       constraints: ["No stopping, no metronome"]
     }, 
+    category: "creativity", tags: ["improvisation", "habit"],
     totalSessions: 8, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.CUSTOM_DAYS, cadenceText: "2 sessions every 3 days then repeat this 4 times." 
   },
   { 
@@ -418,6 +453,7 @@ const challengeSeeds = [
       ],
       constraints: ["Main backbeat must stay consistent"]
     }, 
+    category: "grooves", tags: ["ghost-notes", "syncopation"],
     totalSessions: 7, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "7 days of ghost notes" 
   },
   { 
@@ -429,6 +465,7 @@ const challengeSeeds = [
       ],
       constraints: ["Maximum speed during bursts"]
     }, 
+    category: "speed", tags: ["double-kick", "metal"],
     totalSessions: 21, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "21 days of sprints" 
   },
   { 
@@ -440,6 +477,7 @@ const challengeSeeds = [
       ],
       constraints: ["Must use at least 2 different types of cymbal sustain"]
     }, 
+    category: "grooves", tags: ["bass", "note-length"],
     totalSessions: 1, durationType: DurationType.ONE_OFF, cadenceUnit: null, cadenceText: "ONE_OFF: 1 session(s)." 
   },
   { 
@@ -451,6 +489,7 @@ const challengeSeeds = [
       ],
       constraints: ["Record and listen for unison accuracy"]
     }, 
+    category: "independence", tags: ["coordination", "unison"],
     totalSessions: 7, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "7 days of unison" 
   },
   { 
@@ -462,6 +501,7 @@ const challengeSeeds = [
       ],
       constraints: ["No arm movement allowed"]
     }, 
+    category: "speed", tags: ["finger-control"],
     totalSessions: 14, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "14 days of stealth speed" 
   },
   { 
@@ -474,6 +514,7 @@ const challengeSeeds = [
       ],
       constraints: ["Tempo must stay above 165bpm"]
     }, 
+    category: "genre-study", tags: ["breakbeat", "ghost-notes"],
     totalSessions: 12, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.WEEKLY, cadenceText: "3 sessions per week for 4 weeks" 
   },
   { 
@@ -487,6 +528,7 @@ const challengeSeeds = [
       ],
       constraints: ["Use a high-pitch cowbell click for Phase 1", "Record sessions and compare the 'offset' of each hit"]
     }, 
+    category: "timing", tags: ["micro-timing", "lofi"],
     totalSessions: 7, durationType: DurationType.RECURRING, cadenceUnit: CadenceUnit.DAILY, cadenceText: "7 days" 
   }
 ];
@@ -539,7 +581,8 @@ export async function main() {
           seed.totalSessions,
           seed.durationType,
           seed.cadenceText || undefined,
-          seed.cadenceUnit || undefined
+          seed.cadenceUnit || undefined,
+          { category: seed.category, tags: seed.tags }
         );
 
         const cId = result.newChallenge.challengeId;
@@ -6,8 +6,9 @@
  * It also synchronizes aggregate counters on both Challenge and User records so the Explorer reflects the seeded activity accurately.
  */
 
-import { PrismaClient } from '@prisma/client';
+import { LedgerReason, PrismaClient } from '@prisma/client';
 import logger from '../src/logger';
+import { TREASURY, recordLedgerTransfer, userParty } from '../src/services/ledgerService';
 
 
 const prisma = new PrismaClient();
@@ -142,10 +143,19 @@ export async function main() {
           quantity,
           userId: sender.id,
           challengeId: targetChallenge.challengeId,
+          accountId: sender.accounts[0]?.id ?? null,
           timestamp
         }
       });
 
+      await recordLedgerTransfer(prisma, {
+        from: userParty(sender.id),
+        to: TREASURY,
+        amount: cost,
+        reason: LedgerReason.PUSH,
+        challengeId: targetChallenge.challengeId
+      });
+
       userChallengePushCounts[trackerKey] = currentUserPushCount + quantity;
 
       // Update memory trackers for the Sync Phase
@@ -191,16 +201,10 @@ export async function main() {
     });
   }
 
-  // 4. Update Global Ledger (User ID 1)
-  // This accounts for all the Push spending generated in this seed.
-  // Note: Challenge submission costs were already handled by the challengeService during Phase 2.
-  logger.info(`🌐 GLOBAL LEDGER: Incrementing community spending by ${totalPushSpendingGenerated} (Push Activity Only)...`);
-  await prisma.user.update({
-    where: { id: 1 },
-    data: {
-      totalNumbersSpentGameWide: { increment: BigInt(totalPushSpendingGenerated) }
-    }
-  });
+  // 4. Global Ledger
+  // Every seeded push already wrote its User -> Treasury transfer above.
+  // Note: Challenge submission costs were already recorded by the challengeService during Phase 2.
+  logger.info(`🌐 GLOBAL LEDGER: Recorded ${totalPushSpendingGenerated} NUMBERS of push spending.`);
 
   logger.info(`✅ SEED COMPLETE: Generated ${createdCount} pushes and synced all counters.`);
 }
@@ -14,6 +14,7 @@ export async function main() {
   
   // These match your schema @@map attributes exactly
   const tables = [
+    'ledger_entries', 'pending_charges', 'pending_refunds', 'reconciliation_results', 'reconciliation_runs', 'auction_bids', 'auctions', 'disrupts', 'queue_overrides', 'matching_matches', 'matching_rounds', 'prediction_stakes', 'prediction_markets', 'gifts', 'account_link_codes', 'challenge_status_audits', 'moderation_decisions', 'challenge_revisions', 'challenge_prerequisites', 'challenge_series',
     'temp_quotes', 
     'perennial_tokens', 
     'pushes',
@@ -9,12 +9,107 @@ export const INITIAL_BALANCE = 500; // Starting balance for new users
 export const MAX_TOKEN_DURATION_MINUTES = 210; 
 
 // --- GAME COST & RULES CONFIGURATION ---
+// Prices are versioned in the economy_configs table (see economyConfigService). The constants below
+// are version 1, seeded by its migration, and the fallback if the table has no active version.
 export const SUBMISSION_BASE_COST = 210; 
 export const PUSH_BASE_COST = 21;
+export const MAX_BASKET_LINES = 5; // Challenges a single !push basket may quote at once
+
+// --- PUSH QUOTES ---
+export const PUSH_QUOTE_EXPIRATION_MS = 30 * 1000; // A quote must be confirmed within this window
+export const MAX_QUOTE_QUANTITY = 210; // Pushes per quote line (keeps the quadratic cost inside an Int)
+export const QUOTE_LOCK_STALE_MS = 5 * 60 * 1000; // A quote still locked after this long belongs to a crashed confirm
 export const DISRUPT_COST = 2100;
+export const DISRUPT_SESSION_SHIFT_MS = 5 * 60 * 1000; // How far !disrupt shorten/extend moves the running session's end
+export const DISRUPT_MAX_CONSTRAINT_LENGTH = 140; // Characters allowed in a !disrupt constraint
+
+// --- LUMIA CHARGE COMPENSATION ---
+export const CHARGE_COMPENSATION_GRACE_MARGIN_MS = 60 * 1000; // Added to a Lumia transaction's maxWait + timeout: PENDING charges younger than that may still be in flight
+export const CHARGE_RESERVATION_MAX_ATTEMPTS = 3; // Replays of a transaction whose charge (price, paying account) changed between attempts
+export const CHARGE_COMPENSATION_MAX_ATTEMPTS = 5; // After this many failed refunds the charge is STUCK and needs the GM
+
+// --- REFUND QUEUE ---
+export const REFUND_MAX_ATTEMPTS = 8; // After this many failures the refund is FAILED and needs the GM
+export const REFUND_RETRY_BASE_DELAY_MS = 60 * 1000; // Backoff doubles per attempt: 1m, 2m, 4m... (capped below)
+export const REFUND_RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000; // Never wait more than 6 hours between attempts
+export const REFUND_QUEUE_BATCH_SIZE = 50; // Refunds processed per scheduler run
+export const REFUND_CLAIM_LEASE_MS = 5 * 60 * 1000; // A refund still PROCESSING after this long belongs to a crashed attempt
+
+// --- BALANCE RECONCILIATION ---
+export const RECONCILIATION_FLAG_THRESHOLD = 21000; // |drift| in NUMBERS at or above which an account is flagged in the report
+export const RECONCILIATION_BATCH_SIZE = 21; // Accounts read from Lumia in parallel
+
+// --- AUCTIONS ---
+export const AUCTION_DEFAULT_DURATION_MS = 24 * 60 * 60 * 1000; // Used when the GM sets neither a duration nor a stream-day count
+export const AUCTION_MIN_BID_INCREMENT = 21; // A new bid must beat the highest bid by at least this many NUMBERS
+
+// --- PUSHER LEADERBOARD ---
+export const PUSHER_LEADERBOARD_DEFAULT_LIMIT = 21; // Rows returned by GET /challenges/:id/pushers without ?limit
+export const PUSHER_LEADERBOARD_MAX_LIMIT = 100;
+export const PUSHER_LEADERBOARD_CHAT_LIMIT = 5; // Rows shown by !pushers (chat messages must stay short)
+
+// --- EXECUTION QUEUE RANKING ---
+// Score of an ACTIVE challenge = sum of weight x factor (see queueService for the factors).
+// Bump `version` whenever a weight or factor changes: clients show it to explain the ranking.
+export const QUEUE_RANKING_RULES = {
+    version: 1,
+    weights: {
+        totalPush: 1,        // x sqrt(totalPush): pushes are priced quadratically, so their influence is damped the same way
+        uniquePusher: 3,     // x uniquePusher: many backers beat one whale
+        archiveUrgency: 10,  // x streamDaysSinceActivation / ARCHIVE_AFTER_STREAM_DAYS: challenges close to archival move up
+        pushRecency: 5,      // x 0.5 ^ (hours since last push / half-life): recent momentum
+    },
+    pushRecencyHalfLifeHours: 24,
+} as const;
+export const QUEUE_CHAT_LIMIT = 5; // Entries shown by !queue
+
+// --- QUADRATIC MATCHING (COMMUNITY CHEST) ---
+export const MATCHING_MAX_CHALLENGE_SHARE = 0.5; // No single challenge receives more than this share of a round's pool
+
+// --- TERMINAL SETTLEMENT (FAILED / ARCHIVED / REMOVED BY GM) ---
+// Applied to the Push history when a challenge ends without the author's !remove (see settlementService).
+// refundPercent: share of each contributor's spend paid back to the recipients (the rest stays in the Treasury).
+// chestPercent: share of the total spend moved from the Treasury to the Community Chest.
+export const SETTLEMENT_POLICIES = {
+    FAILED: { refundPercent: 21, recipients: { pushers: true, author: false }, chestPercent: 21 },
+    ARCHIVED: { refundPercent: 21, recipients: { pushers: true, author: true }, chestPercent: 0 },
+    REMOVED: { refundPercent: 50, recipients: { pushers: true, author: true }, chestPercent: 0 },
+} as const;
+
+// --- COMPLETION PAYOUTS ---
+// Paid from the Treasury when a challenge reaches COMPLETED (see payoutService).
+// sharePercent: share of Challenge.totalNumbersSpent; fixedBounty: NUMBERS added on top.
+export const COMPLETION_PAYOUT_RULES = {
+    proposer: { sharePercent: 10, fixedBounty: 210 },
+    earlyPushers: { count: 3, sharePercent: 2, fixedBounty: 21 }, // Each of the first `count` distinct pushers (the proposer excluded)
+} as const;
+
+// --- PREDICTION MARKETS ---
+export const PREDICTION_MIN_STAKE = 21;
+export const PREDICTION_MAX_STAKE = 21000; // Per stake (a viewer may stake several times on the same side)
+export const PREDICTION_RAKE_PERCENT = 5; // Cut of a settled pool sent to the Community Chest (only when both sides staked)
+
+// --- GIFTS ---
+export const GIFT_MIN_AMOUNT = 21;
+export const GIFT_DAILY_CAP = 2100; // Per sender over a rolling 24 hours (Community Chest donations are not capped)
+
+// --- ACCOUNT LINKING ---
+export const LINK_CODE_TTL_MS = 10 * 60 * 1000; // A !link code must be redeemed and confirmed within 10 minutes
+export const LINK_CODE_LENGTH = 6;
+export const ACCOUNT_TRANSFER_MIN_AMOUNT = 21; // !transfer between a user's own linked accounts
+
+// --- MODERATION ---
+export const MODERATION_REJECTION_REFUND_PERCENT = 100; // Default share of the submissionCost refunded when the GM rejects a submission
+export const MODERATION_QUEUE_CHAT_LIMIT = 5; // Pending submissions listed by !review
+
+// --- CATEGORIES & TAGS ---
+export const DEFAULT_CHALLENGE_CATEGORY = 'general'; // ChallengeCategory.slug used when a submission names none
+export const CHALLENGE_MAX_TAGS = 5; // Free tags per challenge
+export const CHALLENGE_TAG_MAX_LENGTH = 24;
 
 // --- DURATION & TIMING ---
 export const SESSION_DURATION_MS = 21 * 60 * 1000; // 21 minutes in milliseconds
+export const ARCHIVE_AFTER_STREAM_DAYS = 21; // ACTIVE challenges are archived after this many stream days
 
 // --- MULTIPLIERS & PERCENTAGES (Standard Numbers for display/simplicity) ---
 export const DIGOUT_COST_PERCENTAGE = 0.21; // 21%
@@ -23,4 +118,14 @@ export const LIVE_DISCOUNT_MULTIPLIER = 0.79; // 1 - 0.21
 // --- BIGINT MATH CONFIGURATION (For high-precision calculations) ---
 export const DISCOUNT_DIVISOR = 100n; // Used to divide multipliers (e.g., 79/100)
 export const LIVE_DISCOUNT_MULTIPLIER_NUMERATOR = 79n; // Represents 0.79
-export const DIGOUT_PERCENTAGE_NUMERATOR = 21n; // Represents 0.21
\ No newline at end of file
+export const DIGOUT_PERCENTAGE_NUMERATOR = 21n; // Represents 0.21
+
+// --- ECONOMY CONFIG (VERSION 1 DEFAULTS) ---
+export const ECONOMY_CONFIG_DEFAULTS = {
+    version: 1,
+    submissionBaseCost: SUBMISSION_BASE_COST,
+    pushBaseCost: PUSH_BASE_COST,
+    disruptCost: DISRUPT_COST,
+    digoutPercent: Number(DIGOUT_PERCENTAGE_NUMERATOR),
+    liveDiscountPercent: 100 - Number(LIVE_DISCOUNT_MULTIPLIER_NUMERATOR),
+} as const;
@@ -0,0 +1,116 @@
+// src/devtools/lumiaStubServer.ts
+// Local stand-in for the Lumia balance API, so the whole economy can be exercised offline.
+// Balances live in memory and reset on restart. Run with: npm run lumia:stub
+//
+// Implements the same contract the client in services/lumiaService.ts speaks:
+//   GET  /v1/balances/:platformName/:platformId          -> { platformName, platformId, balance }
+//   POST /v1/balances/:platformName/:platformId/deduct   -> { newBalance } | 402 { error: 'INSUFFICIENT_FUNDS', balance }
+//   POST /v1/balances/:platformName/:platformId/add      -> { newBalance }
+//   PUT  /v1/balances/:platformName/:platformId          -> { platformName, platformId, balance }   (test helper: force a balance)
+//   GET  /v1/operations/:idempotencyKey                   -> { status, body } | 404   (was this mutation applied?)
+// A wallet is one platform account: the same platformId on two platforms is two wallets.
+// Mutations honour the Idempotency-Key header: a replayed key returns the original response.
+import express, { Request, Response } from 'express';
+
+const PORT = Number(process.env.LUMIA_STUB_PORT || 4021);
+const DEFAULT_BALANCE = Number(process.env.LUMIA_STUB_DEFAULT_BALANCE || 21_000_000); // Matches the seeded accounts
+const FAILURE_RATE = Number(process.env.LUMIA_STUB_FAILURE_RATE || 0); // 0..1, simulates flaky 503s
+
+const balances = new Map<string, number>(); // Keyed by walletKey()
+const idempotentResponses = new Map<string, { status: number; body: any }>();
+
+const app = express();
+app.use(express.json());
+
+/**
+ * The wallet of one platform account ("TWITCH:12345").
+ */
+function walletKey(req: Request): string {
+    return `${req.params.platformName}:${req.params.platformId}`;
+}
+
+/**
+ * Returns the balance of a wallet, opening it with the default balance on first sight.
+ */
+function getBalance(wallet: string): number {
+    if (!balances.has(wallet)) {
+        balances.set(wallet, DEFAULT_BALANCE);
+    }
+    return balances.get(wallet)!;
+}
+
+/**
+ * Shared handler for deduct/add: validates, applies once per idempotency key, and records the response.
+ */
+function applyMutation(req: Request, res: Response, direction: 'deduct' | 'add') {
+    const idempotencyKey = req.header('Idempotency-Key');
+
+    if (idempotencyKey && idempotentResponses.has(idempotencyKey)) {
+        const replay = idempotentResponses.get(idempotencyKey)!;
+        console.log(`[LumiaStub] Replay ${direction} for key ${idempotencyKey}.`);
+        return res.status(replay.status).json(replay.body);
+    }
+
+    if (FAILURE_RATE > 0 && Math.random() < FAILURE_RATE) {
+        // Simulated outage: nothing is applied or recorded, so the client retry succeeds cleanly.
+        return res.status(503).json({ error: 'UNAVAILABLE', message: 'Simulated outage.' });
+    }
+
+    const wallet = walletKey(req);
+    const amount = Number(req.body?.amount);
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+        return res.status(400).json({ error: 'INVALID_AMOUNT', message: 'amount must be a positive number.' });
+    }
+
+    const current = getBalance(wallet);
+    let status = 200;
+    let body: any;
+
+    if (direction === 'deduct' && current < amount) {
+        status = 402;
+        body = { error: 'INSUFFICIENT_FUNDS', balance: current };
+    } else {
+        const newBalance = direction === 'deduct' ? current - amount : current + amount;
+        balances.set(wallet, newBalance);
+        body = { newBalance };
+    }
+
+    if (idempotencyKey) {
+        idempotentResponses.set(idempotencyKey, { status, body });
+    }
+
+    console.log(`[LumiaStub] ${direction.toUpperCase()} ${amount} for ${wallet} -> ${status} ${JSON.stringify(body)}`);
+    return res.status(status).json(body);
+}
+
+app.get('/v1/balances/:platformName/:platformId', (req: Request, res: Response) => {
+    const { platformName, platformId } = req.params;
+    res.json({ platformName, platformId, balance: getBalance(walletKey(req)) });
+});
+
+app.post('/v1/balances/:platformName/:platformId/deduct', (req: Request, res: Response) => applyMutation(req, res, 'deduct'));
+
+app.post('/v1/balances/:platformName/:platformId/add', (req: Request, res: Response) => applyMutation(req, res, 'add'));
+
+app.get('/v1/operations/:idempotencyKey', (req: Request, res: Response) => {
+    const operation = idempotentResponses.get(req.params.idempotencyKey);
+    if (!operation) {
+        return res.status(404).json({ error: 'NOT_FOUND', message: 'No operation recorded for this key.' });
+    }
+    res.json(operation);
+});
+
+app.put('/v1/balances/:platformName/:platformId', (req: Request, res: Response) => {
+    const balance = Number(req.body?.balance);
+    if (!Number.isFinite(balance) || balance < 0) {
+        return res.status(400).json({ error: 'INVALID_BALANCE', message: 'balance must be a non-negative number.' });
+    }
+    const { platformName, platformId } = req.params;
+    balances.set(walletKey(req), balance);
+    res.json({ platformName, platformId, balance });
+});
+
+app.listen(PORT, () => {
+    console.log(`[LumiaStub] Lumia stand-in listening on http://127.0.0.1:${PORT} (default balance ${DEFAULT_BALANCE}).`);
+});
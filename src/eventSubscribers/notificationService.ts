@@ -98,6 +98,117 @@ const handleGMStatusChange = (challenge: Challenge) => {
     // ACTION 2: Internal Audit Log
 };
 
+/**
+ * Handles the event when a viewer disrupts the executing challenge.
+ */
+const handleChallengeDisrupted = (data: Challenge & { disrupt: { userId: number; effect: string; constraintText: string | null } }) => {
+    logger.warn(`[NOTIFY] Challenge Disrupted: #${data.challengeId} hit by ${data.disrupt.effect} from User ${data.disrupt.userId}`);
+
+    // ACTION 1: Update UI/Client State (New constraint, moved session clock or swapped challenge)
+    // TODO: WebSocketManager.broadcast({ event: 'CHALLENGE_DISRUPTED', payload: data });
+
+    // ACTION 2: Send Chat Notification (the drummer must see injected constraints right away)
+};
+
+/**
+ * Handles the event when a FAILED, ARCHIVED or GM-REMOVED challenge has been settled.
+ */
+const handleChallengeSettled = (data: Challenge & { settlement: { status: string; toPushers: number; toAuthor: number; toCommunityChest: number } }) => {
+    logger.info(`[NOTIFY] Challenge Settled: #${data.challengeId} ${data.settlement.status} (${data.settlement.toPushers} to pushers, ${data.settlement.toAuthor} to the author, ${data.settlement.toCommunityChest} to the Community Chest)`);
+
+    // ACTION 1: Update UI/Client State (The challenge leaves the active lists)
+    // TODO: WebSocketManager.broadcast({ event: 'CHALLENGE_SETTLED', payload: data });
+
+    // ACTION 2: Send Chat Notification
+    // TODO: Chat message: "Challenge #XX was [status]. XX NUMBERS were refunded to its pushers."
+};
+
+/**
+ * Handles the event when the GM puts an ARCHIVED challenge up for auction.
+ */
+const handleAuctionOpened = (data: { challengeId: number; auction: { id: number; minimumBid: number } }) => {
+    logger.info(`[NOTIFY] Auction Opened: Challenge #${data.challengeId} (minimum bid ${data.auction.minimumBid} NUMBERS)`);
+
+    // ACTION 1: Update UI/Client State (The challenge moves from Archived to the Auction list)
+    // TODO: WebSocketManager.broadcast({ event: 'AUCTION_OPENED', payload: data });
+
+    // ACTION 2: Send Chat Notification
+    // TODO: Chat message: "Challenge #XX is up for auction! Bid with !bid XX [amount]"
+};
+
+/**
+ * Handles the event when a viewer takes the lead in an auction.
+ */
+const handleAuctionBidPlaced = (data: { challengeId: number; userId: number; amount: number; outbidUserId: number | null }) => {
+    logger.info(`[NOTIFY] Auction Bid: Challenge #${data.challengeId} now led by User ${data.userId} with ${data.amount} NUMBERS`);
+
+    // ACTION 1: Update UI/Client State (Refresh the leading bid)
+    // TODO: WebSocketManager.broadcast({ event: 'AUCTION_BID', payload: data });
+
+    // ACTION 2: Send Chat Notification (mention the outbid viewer, if any)
+};
+
+/**
+ * Handles the event when an auction is settled or cancelled.
+ */
+const handleAuctionClosed = (data: { challengeId: number; winnerUserId: number | null; winningBid: number | null }) => {
+    logger.warn(`[NOTIFY] Auction Closed: Challenge #${data.challengeId} ${data.winnerUserId ? `won by User ${data.winnerUserId} for ${data.winningBid} NUMBERS` : 'without a winner'}`);
+
+    // ACTION 1: Update UI/Client State (Revived challenges move back to the Active list)
+    // TODO: WebSocketManager.broadcast({ event: 'AUCTION_CLOSED', payload: data });
+
+    // ACTION 2: Send Chat Notification
+};
+
+/**
+ * Handles the event when a prediction market is settled or voided.
+ */
+const handlePredictionResolved = (data: { challengeId: number; market: { id: number; status: string; outcome: string | null; poolCompletes: number; poolFails: number } }) => {
+    logger.info(`[NOTIFY] Prediction ${data.market.status}: Challenge #${data.challengeId} (${data.market.outcome ?? 'no outcome'}, pool ${data.market.poolCompletes + data.market.poolFails} NUMBERS)`);
+
+    // ACTION 1: Update UI/Client State (Close the betting panel)
+    // TODO: WebSocketManager.broadcast({ event: 'PREDICTION_RESOLVED', payload: data });
+
+    // ACTION 2: Send Chat Notification
+    // TODO: Chat message: "Challenge #XX [completed/failed]! The [side] side shares XX NUMBERS."
+};
+
+/**
+ * Handles the event when the GM approves or rejects an UNDER_REVIEW submission (the proposer must hear either way).
+ */
+const handleSubmissionReviewed = (data: Challenge & { decision: { verdict: string; reason: string | null; refundAmount: number } }) => {
+    logger.info(`[NOTIFY] Submission ${data.decision.verdict}: Challenge #${data.challengeId} for User ${data.proposerUserId}${data.decision.reason ? ` (${data.decision.reason})` : ''}${data.decision.refundAmount > 0 ? `, ${data.decision.refundAmount} NUMBERS refunded` : ''}`);
+
+    // ACTION 1: Update UI/Client State (Approved challenges join the Active list)
+    // TODO: WebSocketManager.broadcast({ event: 'CHALLENGE_REVIEWED', payload: data });
+
+    // ACTION 2: Notify the proposer
+    // TODO: Chat message: "@proposer your Challenge #XX was [approved/rejected: reason]."
+};
+
+/**
+ * Handles the event when the author or the GM revises a challenge's text.
+ */
+const handleChallengeEdited = (data: Challenge & { revision: { revision: number; isGameMasterEdit: boolean }; sentToReview: boolean }) => {
+    logger.info(`[NOTIFY] Challenge Edited: #${data.challengeId} revision ${data.revision.revision} by ${data.revision.isGameMasterEdit ? 'the GM' : 'the author'}${data.sentToReview ? ' (back under review)' : ''}`);
+
+    // ACTION 1: Update UI/Client State (Refresh the challenge card)
+    // TODO: WebSocketManager.broadcast({ event: 'CHALLENGE_EDITED', payload: data });
+};
+
+/**
+ * Handles the event when every challenge of a series is completed.
+ */
+const handleSeriesCompleted = (data: { id: number; name: string; challengeIds: number[] }) => {
+    logger.warn(`[NOTIFY] Series Completed: #${data.id} '${data.name}' (${data.challengeIds.length} challenges)`);
+
+    // ACTION 1: Update UI/Client State (Mark the series as completed in the explorer)
+    // TODO: WebSocketManager.broadcast({ event: 'SERIES_COMPLETED', payload: data });
+
+    // ACTION 2: Send major Chat Notification
+    // TODO: Send a chat message: "🏆 SERIES COMPLETE: ${data.name}!"
+};
+
 // --- Initialization ---
 
 /**
@@ -111,6 +222,16 @@ export function initializeNotificationService() {
     subscribeToChallengeEvent(ChallengeEvents.SESSION_TICKED, handleSessionTicked);
     subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_COMPLETED, handleChallengeCompleted);
     subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_REMOVED_BY_AUTHOR, handleChallengeRemovedByAuthor);
+    subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_DISRUPTED, handleChallengeDisrupted);
+    subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_SETTLED, handleChallengeSettled);
+    subscribeToChallengeEvent(ChallengeEvents.AUCTION_OPENED, handleAuctionOpened);
+    subscribeToChallengeEvent(ChallengeEvents.AUCTION_BID_PLACED, handleAuctionBidPlaced);
+    subscribeToChallengeEvent(ChallengeEvents.AUCTION_CLOSED, handleAuctionClosed);
+    subscribeToChallengeEvent(ChallengeEvents.PREDICTION_RESOLVED, handlePredictionResolved);
+    subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_APPROVED, handleSubmissionReviewed);
+    subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_REJECTED, handleSubmissionReviewed);
+    subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_EDITED, handleChallengeEdited);
+    subscribeToChallengeEvent(ChallengeEvents.SERIES_COMPLETED, handleSeriesCompleted);
     
     // Subscribe the same handler to multiple GM override events
     subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_REMOVED, handleGMStatusChange);
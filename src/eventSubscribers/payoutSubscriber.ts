@@ -0,0 +1,25 @@
+// src/eventSubscribers/payoutSubscriber.ts
+// Pays the completion rewards (see payoutService) whenever a challenge is completed.
+
+import { ChallengeEvents, subscribeToChallengeEvent } from '../services/eventService';
+import { payCompletionRewards } from '../services/payoutService';
+import { Challenge } from '@prisma/client';
+import logger from '../logger';
+
+// Define the logic that runs when a CHALLENGE_COMPLETED event fires
+const handleChallengeCompleted = async (challenge: Challenge) => {
+    try {
+        await payCompletionRewards(challenge.challengeId);
+    } catch (error) {
+        // Nothing was claimed: the scheduled sweep pays the challenge on its next run.
+        logger.error(`[Payouts] Completion payouts failed for Challenge #${challenge.challengeId}:`, error);
+    }
+};
+
+/**
+ * Initializes the completion payout subscriber.
+ */
+export function initializePayoutSubscribers() {
+    subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_COMPLETED, handleChallengeCompleted);
+    console.log('[Event Subscriptions] Completion payouts initialized.');
+}
@@ -0,0 +1,26 @@
+// src/eventSubscribers/predictionSubscriber.ts
+// Resolves the prediction market (see predictionService) whenever a challenge is decided or ends.
+
+import { ChallengeEvents, subscribeToChallengeEvent } from '../services/eventService';
+import { resolvePredictionMarket } from '../services/predictionService';
+import { Challenge } from '@prisma/client';
+import logger from '../logger';
+
+// Define the logic that runs when a challenge is COMPLETED, FAILED, ARCHIVED or REMOVED by the GM
+const handleChallengeDecided = async (challenge: Challenge) => {
+    try {
+        await resolvePredictionMarket(challenge.challengeId);
+    } catch (error) {
+        // The market stays OPEN: the scheduled sweep resolves it on its next run.
+        logger.error(`[Predictions] Resolution failed for Challenge #${challenge.challengeId}:`, error);
+    }
+};
+
+/**
+ * Initializes the prediction market subscribers.
+ */
+export function initializePredictionSubscribers() {
+    subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_COMPLETED, handleChallengeDecided);
+    subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_SETTLED, handleChallengeDecided);
+    console.log('[Event Subscriptions] Prediction markets initialized.');
+}
@@ -0,0 +1,29 @@
+// src/eventSubscribers/seriesSubscriber.ts
+// Completes the challenge's series (see challengeSeriesService) whenever a challenge is completed.
+
+import { ChallengeEvents, subscribeToChallengeEvent } from '../services/eventService';
+import { completeSeriesIfDone } from '../services/challengeSeriesService';
+import { Challenge } from '@prisma/client';
+import logger from '../logger';
+
+// Define the logic that runs when a CHALLENGE_COMPLETED event fires
+const handleChallengeCompleted = async (challenge: Challenge) => {
+    if (challenge.seriesId === null || challenge.seriesId === undefined) {
+        return;
+    }
+
+    try {
+        await completeSeriesIfDone(challenge.seriesId);
+    } catch (error) {
+        // The series stays open: the scheduled sweep completes it on its next run.
+        logger.error(`[Series] Completion check failed for Series #${challenge.seriesId} (Challenge #${challenge.challengeId}):`, error);
+    }
+};
+
+/**
+ * Initializes the challenge series subscriber.
+ */
+export function initializeSeriesSubscribers() {
+    subscribeToChallengeEvent(ChallengeEvents.CHALLENGE_COMPLETED, handleChallengeCompleted);
+    console.log('[Event Subscriptions] Challenge series initialized.');
+}
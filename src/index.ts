@@ -24,6 +24,7 @@ import adminRoutes from './routes/adminRoutes';
 import challengesRoutes from './routes/challengesRoutes';
 import clockRoutes from './routes/clockRoutes';
 import gamemasterRoutes from './routes/gamemasterRoutes';
+import priceRoutes from './routes/priceRoutes';
 import referenceRoutes from './routes/referenceRoutes';
 import streamRoutes from './routes/streamRoutes';
 import tokenRoutes from './routes/tokenRoutes';
@@ -31,6 +32,9 @@ import userRoutes from './routes/userRoutes';
 
 import { initializeConsoleSubscribers } from './eventSubscribers/consoleLogger';
 import { initializeNotificationService } from './eventSubscribers/notificationService'; 
+import { initializePayoutSubscribers } from './eventSubscribers/payoutSubscriber';
+import { initializePredictionSubscribers } from './eventSubscribers/predictionSubscriber';
+import { initializeSeriesSubscribers } from './eventSubscribers/seriesSubscriber';
 import { initializeStreamState } from './services/streamService'; 
 import { startChallengeScheduler } from './scheduler'; 
 
@@ -92,6 +96,7 @@ app.use('/api/v1/admin', adminRoutes);
 app.use('/api/v1/challenges', challengesRoutes)
 app.use('/api/v1/clock', clockRoutes);
 app.use('/api/v1/gamemaster', gamemasterRoutes);
+app.use('/api/v1/prices', priceRoutes);
 app.use('/api/v1/references', referenceRoutes);
 app.use('/api/v1/stream', streamRoutes);
 app.use('/api/v1/token', tokenRoutes);
@@ -130,6 +135,9 @@ async function startServer() {
     startChallengeScheduler();
     initializeConsoleSubscribers();
     initializeNotificationService();
+    initializePayoutSubscribers();
+    initializePredictionSubscribers();
+    initializeSeriesSubscribers();
     
   } catch (error) {
     console.error("CRITICAL ERROR: Failed during application state initialization (initializeStreamState). Server cannot start.", error);
@@ -24,37 +24,36 @@ export interface PulseResponse {
 }
 
 import { Router } from 'express';
+import { LedgerReason } from '@prisma/client';
 import prisma from '../prisma';
+import { getGlobalLedgerTotals, listLedgerEntries, rebuildUserTotalsFromLedger } from '../services/ledgerService';
 import { redis } from '../services/upstashService'; 
 
 const router = Router();
 
 /**
- * Returns System Health (DB/Redis), Economy Stats (BigInt totals), and Maintenance history.
+ * Shared X-Admin-Secret check for the admin endpoints.
  */
-router.get('/pulse', async (req: any, res: any) => {
+function isAdminRequest(req: any, endpointName: string): boolean {
     const authHeader = req.header('X-Admin-Secret');
     if (!authHeader || authHeader !== process.env.ADMIN_SECRET) {
-        console.warn(`Unauthorized Pulse access attempt from: ${req.ip}`);
+        console.warn(`Unauthorized ${endpointName} access attempt from: ${req.ip}`);
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Returns System Health (DB/Redis), Economy Stats (BigInt totals), and Maintenance history.
+ */
+router.get('/pulse', async (req: any, res: any) => {
+    if (!isAdminRequest(req, 'Pulse')) {
         return res.status(401).json({ error: "Unauthorized" });
     }
 
     try {
-        // 1. Get Global Stats from the World User (ID 1)
-        const globalCounter = await prisma.user.findUnique({
-            where: { id: 1 },
-            select: { 
-                totalNumbersSpentGameWide: true,
-                totalNumbersReturnedFromRemovalsGameWide: true,
-                totalCausedByRemovals: true,
-                totalToCommunityChest: true,
-                totalToPushers: true
-            }
-        });
-
-        if (!globalCounter) {
-            return res.status(404).json({ status: "ERROR", message: "Global Counter (User ID 1) not found." });
-        }
+        // 1. Derive Global Financials from the Ledger
+        const ledgerTotals = await getGlobalLedgerTotals();
 
         // 2. Get Maintenance Info
         const streamStat = await prisma.streamStat.findUnique({ where: { id: 1 } });
@@ -64,8 +63,8 @@ router.get('/pulse', async (req: any, res: any) => {
         const redisHealth = redis ? await redis.ping().then(() => "UP").catch(() => "DOWN") : "DISABLED";
 
         // 4. Calculate Net Economy (Gross - Refunded)
-        const gross = globalCounter.totalNumbersSpentGameWide;
-        const refunded = globalCounter.totalNumbersReturnedFromRemovalsGameWide;
+        const gross = ledgerTotals.grossSpent;
+        const refunded = ledgerTotals.refunded;
         const netEconomy = gross - refunded;
 
         // Use the interface in your response
@@ -79,9 +78,10 @@ router.get('/pulse', async (req: any, res: any) => {
                 grossSpent: gross.toString(),
                 refunded: refunded.toString(),
                 netEconomy: netEconomy.toString(),
-                totalCausedByRemovals: globalCounter.totalCausedByRemovals.toString(),
-                communityChest: globalCounter.totalToCommunityChest.toString(),
-                totalToPushers: globalCounter.totalToPushers.toString()
+                // Everything removals returned; `refunded` also holds rejected submissions' refunds.
+                totalCausedByRemovals: (ledgerTotals.toCommunityChest + ledgerTotals.toPushers + ledgerTotals.toAuthors).toString(),
+                communityChest: ledgerTotals.toCommunityChest.toString(),
+                totalToPushers: ledgerTotals.toPushers.toString()
             },
             maintenance: {
                 realDay: streamStat?.daysSinceInception || 0,
@@ -97,4 +97,50 @@ router.get('/pulse', async (req: any, res: any) => {
     }
 });
 
+/**
+ * GET /api/v1/admin/ledger?userId=&challengeId=&reason=&limit=
+ * Lists raw ledger rows for auditing (newest first).
+ */
+router.get('/ledger', async (req: any, res: any) => {
+    if (!isAdminRequest(req, 'Ledger')) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { userId, challengeId, reason, limit } = req.query;
+    const normalizedReason = typeof reason === 'string' ? reason.toUpperCase() : undefined;
+
+    if (normalizedReason && !Object.values(LedgerReason).includes(normalizedReason as LedgerReason)) {
+        return res.status(400).json({ status: "ERROR", message: `Invalid ledger reason: ${reason}.` });
+    }
+
+    try {
+        const entries = await listLedgerEntries({
+            userId: userId !== undefined ? parseInt(userId, 10) : undefined,
+            challengeId: challengeId !== undefined ? parseInt(challengeId, 10) : undefined,
+            reason: normalizedReason as LedgerReason | undefined,
+            limit: limit !== undefined ? parseInt(limit, 10) : undefined,
+        });
+        res.json({ status: "OK", count: entries.length, entries });
+    } catch (error: any) {
+        res.status(500).json({ status: "ERROR", message: error.message });
+    }
+});
+
+/**
+ * POST /api/v1/admin/ledger/rebuild
+ * Rewrites the cached financial counters on every User from the Ledger (on top of their pre-ledger baseline).
+ */
+router.post('/ledger/rebuild', async (req: any, res: any) => {
+    if (!isAdminRequest(req, 'Ledger Rebuild')) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    try {
+        const usersRebuilt = await rebuildUserTotalsFromLedger();
+        res.json({ status: "OK", usersRebuilt });
+    } catch (error: any) {
+        res.status(500).json({ status: "ERROR", message: error.message });
+    }
+});
+
 export default router;
\ No newline at end of file
@@ -3,14 +3,27 @@
 import { Request, Response, Router } from 'express';
 import prisma from '../prisma';
 import logger from '../logger';
+import { getChallengePushers } from '../services/challengeService';
+import { getExecutionQueue, getRankingRules } from '../services/queueService';
+import { getPredictionMarket } from '../services/predictionService';
+import { listChallengeRevisions } from '../services/challengeRevisionService';
+import { challengeClassificationFilter, listCategories } from '../services/challengeCategoryService';
+import { getDependencyGraph, getSeries, listSeries } from '../services/challengeSeriesService';
 
 export const router = Router();
 
 /**
- * GET /api/v1/challenges
+ * GET /api/v1/challenges?category=rudiments&tags=ghost-notes,funk
+ * Optional filters: a category slug, and tags the challenge must all carry.
  */
 router.get('/', async (req, res) => {
+    const { category, tags } = req.query;
+
     const all = await prisma.challenge.findMany({
+        where: challengeClassificationFilter({
+            category: typeof category === 'string' ? category : undefined,
+            tags,
+        }),
         orderBy: { timestampSubmitted: 'desc' }
     });
     res.json(all);
@@ -22,6 +35,129 @@ router.get('/', async (req, res) => {
 
 
 
+/**
+ * GET /api/v1/challenges/categories
+ * The active categories in display order, with their challenge counts (submission form and explorer facets).
+ */
+router.get('/categories', async (req: Request, res: Response) => {
+    try {
+        const categories = await listCategories();
+        return res.status(200).json(categories);
+    } catch (error) {
+        logger.error('Challenge Categories Fetch Failed:', error);
+        return res.status(500).json({ message: 'Internal Server Error while fetching categories.' });
+    }
+});
+
+
+
+
+
+
+
+/**
+ * GET /api/v1/challenges/queue?limit=10
+ * ACTIVE challenges in execution order, with each score's breakdown and the ranking rules.
+ */
+router.get('/queue', async (req: Request, res: Response) => {
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        return res.status(400).json({ message: 'Invalid limit.' });
+    }
+
+    try {
+        const queue = await getExecutionQueue(limit);
+        return res.status(200).json({ ...queue, rules: getRankingRules() });
+    } catch (error) {
+        logger.error('Execution Queue Fetch Failed:', error);
+        return res.status(500).json({ message: 'Internal Server Error while building the queue.' });
+    }
+});
+
+
+
+
+
+
+
+/**
+ * GET /api/v1/challenges/graph?seriesId=&challengeId=
+ * The prerequisite graph for the explorer: nodes, and edges from each prerequisite to the challenge waiting for it.
+ * By series, around one challenge, or (no parameter) every challenge linked by a prerequisite.
+ */
+router.get('/graph', async (req: Request, res: Response) => {
+    const seriesId = req.query.seriesId !== undefined ? Number(req.query.seriesId) : undefined;
+    const challengeId = req.query.challengeId !== undefined ? Number(req.query.challengeId) : undefined;
+
+    if (seriesId !== undefined && (!Number.isInteger(seriesId) || seriesId < 1)) {
+        return res.status(400).json({ message: 'Invalid seriesId.' });
+    }
+    if (challengeId !== undefined && (!Number.isInteger(challengeId) || challengeId < 1)) {
+        return res.status(400).json({ message: 'Invalid challengeId.' });
+    }
+
+    try {
+        const graph = await getDependencyGraph({ seriesId, challengeId });
+        return res.status(200).json(graph);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        if (errorMessage.includes('not found')) {
+            return res.status(404).json({ message: errorMessage });
+        }
+        logger.error('Dependency Graph Fetch Failed:', error);
+        return res.status(500).json({ message: 'Internal Server Error while building the dependency graph.' });
+    }
+});
+
+
+
+
+
+
+
+/**
+ * GET /api/v1/challenges/series
+ * Every challenge series with its progress (completed / total challenges).
+ */
+router.get('/series', async (req: Request, res: Response) => {
+    try {
+        const series = await listSeries();
+        return res.status(200).json(series);
+    } catch (error) {
+        logger.error('Challenge Series Fetch Failed:', error);
+        return res.status(500).json({ message: 'Internal Server Error while fetching series.' });
+    }
+});
+
+// GET /api/v1/challenges/series/:seriesId
+// One series: its challenges in order, its progress and its prerequisite graph.
+router.get('/series/:seriesId', async (req: Request, res: Response) => {
+    const seriesId = Number(req.params.seriesId);
+
+    if (!Number.isInteger(seriesId) || seriesId < 1) {
+        return res.status(400).json({ message: 'Invalid series id.' });
+    }
+
+    try {
+        const series = await getSeries(seriesId);
+        return res.status(200).json(series);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        if (errorMessage.includes('not found')) {
+            return res.status(404).json({ message: 'Series not found.' });
+        }
+        logger.error('Challenge Series Fetch Failed:', error);
+        return res.status(500).json({ message: 'Internal Server Error while fetching the series.' });
+    }
+});
+
+
+
+
+
+
+
 // GET /api/v1/challenges/:id
 router.get('/:id', async (req: Request, res: Response) => {
     const challengeId = Number(req.params.id);
@@ -52,6 +188,89 @@ router.get('/:id', async (req: Request, res: Response) => {
 
 
 
+// GET /api/v1/challenges/:id/pushers?limit=21
+router.get('/:id/pushers', async (req: Request, res: Response) => {
+    const challengeId = Number(req.params.id);
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+
+    if (!Number.isInteger(challengeId) || challengeId < 1) {
+        return res.status(400).json({ message: 'Invalid challenge id.' });
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        return res.status(400).json({ message: 'Invalid limit.' });
+    }
+
+    try {
+        const leaderboard = await getChallengePushers(challengeId, limit);
+        return res.status(200).json(leaderboard);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        if (errorMessage.includes('not found')) {
+            return res.status(404).json({ message: 'Challenge not found.' });
+        }
+        logger.error('Pusher Leaderboard Fetch Failed:', error);
+        return res.status(500).json({ message: 'Internal Server Error while fetching pushers.' });
+    }
+});
+
+
+
+
+// GET /api/v1/challenges/:id/prediction
+// The prediction market with its pools, odds and whether stakes are accepted.
+router.get('/:id/prediction', async (req: Request, res: Response) => {
+    const challengeId = Number(req.params.id);
+
+    if (!Number.isInteger(challengeId) || challengeId < 1) {
+        return res.status(400).json({ message: 'Invalid challenge id.' });
+    }
+
+    try {
+        const market = await getPredictionMarket(challengeId);
+        if (!market) {
+            return res.status(404).json({ message: 'No prediction market for this challenge yet.' });
+        }
+        return res.status(200).json(market);
+    } catch (error) {
+        logger.error('Prediction Market Fetch Failed:', error);
+        return res.status(500).json({ message: 'Internal Server Error while fetching the prediction market.' });
+    }
+});
+
+
+
+
+
+
+
+// GET /api/v1/challenges/:id/revisions
+// Every revision of the challenge text, oldest first (revision 1 is the submission).
+router.get('/:id/revisions', async (req: Request, res: Response) => {
+    const challengeId = Number(req.params.id);
+
+    if (!Number.isInteger(challengeId) || challengeId < 1) {
+        return res.status(400).json({ message: 'Invalid challenge id.' });
+    }
+
+    try {
+        const revisions = await listChallengeRevisions(challengeId);
+        return res.status(200).json(revisions);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        if (errorMessage.includes('not found')) {
+            return res.status(404).json({ message: 'Challenge not found.' });
+        }
+        logger.error('Challenge Revisions Fetch Failed:', error);
+        return res.status(500).json({ message: 'Internal Server Error while fetching revisions.' });
+    }
+});
+
+
+
+
+
+
+
 /**
  * GET /api/v1/challenges/delta
  */
@@ -5,8 +5,27 @@
  * This is the correct entry point for all chat commands. 
  */
 import { Router, Request, Response } from 'express';
-import { ChallengeStatus } from '@prisma/client';
+import { AuctionStatus, AuctionWinnerMode, ChallengeStatus, ChargeStatus, MatchingRoundTrigger, QueueOverrideType, ReconciliationTrigger, RefundStatus } from '@prisma/client';
 import * as challengeService from '../services/challengeService';
+import { getChallengeStatusHistory } from '../services/challengeStateMachine';
+import { editChallengeText } from '../services/challengeRevisionService';
+import { ChallengeCategoryChanges, createCategory, listCategories, setChallengeClassification, updateCategory } from '../services/challengeCategoryService';
+import { addChallengeToSeries, addPrerequisite, createSeries, removeChallengeFromSeries, removePrerequisite } from '../services/challengeSeriesService';
+import { approveSubmission, getSubmissionForReview, listPendingSubmissions, rejectSubmission } from '../services/moderationService';
+import { closeAuction, listAuctions, openAuction } from '../services/auctionService';
+import { listCharges, resolveCharge } from '../services/chargeService';
+import { cancelRefund, listRefunds, retryRefund } from '../services/refundService';
+import { voidPredictionMarket } from '../services/predictionService';
+import { activateEconomyConfig, EconomyPriceChanges, listEconomyConfigs, proposeEconomyConfig } from '../services/economyConfigService';
+import { clearQueueOverride, listQueueOverrides, setQueueOverride } from '../services/queueService';
+import {
+    getMatchingRoundReport,
+    getNextMatchingPeriodStart,
+    listMatchingRounds,
+    previewMatchingRound,
+    runMatchingRound,
+} from '../services/matchingService';
+import { getReconciliationReport, listReconciliationRuns, runBalanceReconciliation } from '../services/reconciliationService';
 import logger from '../logger'; // Winston Logger
 import { getServiceErrorStatus } from '../utils/routeUtils';
 import { authenticateUser, authenticateGameMaster } from '../middleware/authMiddleware';
@@ -202,12 +221,13 @@ router.post('/challenge/execute', authenticateGameMaster, async (req: Request, r
 // ⭐ SET CHALLENGE STATUS (ADMIN)
 // -----------------------------------------------------------
 /**
- * Allows the Game Master to set an arbitrary status for a challenge.
- * PUT /gm/challenge/:challengeId/status
+ * Allows the Game Master to set a status for a challenge, through the challenge state machine.
+ * Transitions outside the allowed ones need { force: true } and are audited as forced.
+ * PUT /gm/challenge/:challengeId/status  { status, force?, reason? }
  */
 router.put('/challenge/:challengeId/status', authenticateGameMaster, async (req: Request, res: Response) => {
     const challengeId = parseInt(req.params.challengeId, 10);
-    const { status } = req.body; 
+    const { status, force, reason } = req.body; 
 
     if (!status) {
         return res.status(400).json({ message: "Missing 'status' in request body." });
@@ -219,15 +239,17 @@ router.put('/challenge/:challengeId/status', authenticateGameMaster, async (req:
     const newStatus = status.toUpperCase() as ChallengeStatus;
     
     try {
-        const updatedChallenge = await challengeService.setChallengeStatusByAdmin(
+        const { updatedChallenge, settlement } = await challengeService.setChallengeStatusByAdmin(
             challengeId,
-            newStatus
+            newStatus,
+            { force: force === true, actorUserId: req.userId, reason: typeof reason === 'string' ? reason : undefined }
         );
 
         return res.status(200).json({ 
             message: `Challenge #${challengeId} status successfully set to ${newStatus} by the Game Master.`,
             action: 'gm_status_update_success',
-            challenge: updatedChallenge
+            challenge: updatedChallenge,
+            settlement,
         });
 
     } catch (error) {
@@ -244,4 +266,1300 @@ router.put('/challenge/:challengeId/status', authenticateGameMaster, async (req:
 });
 
 
-export default router;
\ No newline at end of file
+/**
+ * Lists every status change of a challenge (forced GM overrides included), oldest first.
+ * GET /gm/challenge/:challengeId/status-history
+ */
+router.get('/challenge/:challengeId/status-history', authenticateGameMaster, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId, 10);
+
+    if (isNaN(challengeId)) {
+        return res.status(400).json({ message: "Missing or invalid challengeId parameter." });
+    }
+
+    try {
+        const history = await getChallengeStatusHistory(challengeId);
+
+        return res.status(200).json({
+            message: `${history.length} status change(s) found for Challenge #${challengeId}.`,
+            history,
+        });
+    } catch (error) {
+        logger.error(`Status History Fetch Error for #${challengeId}:`, error);
+        return res.status(500).json({ message: 'Internal Server Error while fetching the status history.' });
+    }
+});
+
+
+
+/**
+ * Replaces a challenge's text with a new revision, in any status (the GM's edits never trigger review).
+ * PUT /gm/challenge/:challengeId/text
+ */
+router.put('/challenge/:challengeId/text', authenticateGameMaster, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId, 10);
+    const { challengeText } = req.body;
+
+    if (isNaN(challengeId)) {
+        return res.status(400).json({ message: "Missing or invalid challengeId parameter." });
+    }
+    if (!challengeText) {
+        return res.status(400).json({ message: "Missing 'challengeText' in request body." });
+    }
+
+    try {
+        const { challenge, revision } = await editChallengeText(req.userId, challengeId, challengeText, true);
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} text updated to revision ${revision.revision} by the Game Master.`,
+            action: 'gm_challenge_edit_success',
+            challenge,
+            revision,
+        });
+    } catch (error) {
+        logger.error(`GM Challenge Edit Error for #${challengeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_challenge_edit_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+// -----------------------------------------------------------
+// ⭐ LUMIA CHARGES (COMPENSATION SAGA)
+// -----------------------------------------------------------
+/**
+ * Lists Lumia charges, by default those still PENDING or STUCK.
+ * GET /gm/charges?status=STUCK
+ */
+router.get('/charges', authenticateGameMaster, async (req: Request, res: Response) => {
+    const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+
+    if (status && !Object.values(ChargeStatus).includes(status as ChargeStatus)) {
+        return res.status(400).json({ message: `Invalid status. Use one of: ${Object.values(ChargeStatus).join(', ')}.` });
+    }
+
+    try {
+        const charges = await listCharges(status as ChargeStatus | undefined);
+
+        return res.status(200).json({
+            message: `${charges.length} charge(s) found.`,
+            action: 'gm_charges_list_success',
+            charges,
+        });
+    } catch (error) {
+        logger.error('GM Charges List Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+
+        return res.status(500).json({
+            message: errorMessage,
+            action: 'gm_charges_list_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Resolves an open charge: 'refund' retries compensation now, 'resolve' closes it as settled by hand.
+ * POST /gm/charges/:chargeId/resolve  { action: 'refund' | 'resolve', note?: string }
+ */
+router.post('/charges/:chargeId/resolve', authenticateGameMaster, async (req: Request, res: Response) => {
+    const chargeId = parseInt(req.params.chargeId, 10);
+    const { action, note } = req.body;
+
+    if (isNaN(chargeId)) {
+        return res.status(400).json({ message: "Missing or invalid chargeId parameter." });
+    }
+    if (action !== 'refund' && action !== 'resolve') {
+        return res.status(400).json({ message: "Body 'action' must be 'refund' or 'resolve'." });
+    }
+
+    try {
+        const charge = await resolveCharge(chargeId, action, note);
+
+        logger.info(`CHARGE RESOLVE Success: Charge ${chargeId} is now ${charge.status} (action: ${action}) by Admin User ${req.userId}.`, {
+            chargeId,
+            userId: charge.userId,
+            action: 'gm_charge_resolve_success',
+        });
+
+        return res.status(200).json({
+            message: `Charge ${chargeId} is now ${charge.status}.`,
+            action: 'gm_charge_resolve_success',
+            charge,
+        });
+    } catch (error) {
+        logger.error(`GM Charge Resolve Error for ${chargeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_charge_resolve_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+
+// -----------------------------------------------------------
+// ⭐ REFUND QUEUE
+// -----------------------------------------------------------
+/**
+ * Lists queued refunds, by default those still PENDING, PROCESSING or FAILED.
+ * GET /gm/refunds?status=FAILED&challengeId=12
+ */
+router.get('/refunds', authenticateGameMaster, async (req: Request, res: Response) => {
+    const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+    const challengeId = req.query.challengeId !== undefined ? parseInt(String(req.query.challengeId), 10) : undefined;
+
+    if (status && !Object.values(RefundStatus).includes(status as RefundStatus)) {
+        return res.status(400).json({ message: `Invalid status. Use one of: ${Object.values(RefundStatus).join(', ')}.` });
+    }
+    if (challengeId !== undefined && isNaN(challengeId)) {
+        return res.status(400).json({ message: "Invalid challengeId parameter." });
+    }
+
+    try {
+        const refunds = await listRefunds({ status: status as RefundStatus | undefined, challengeId });
+
+        return res.status(200).json({
+            message: `${refunds.length} refund(s) found.`,
+            action: 'gm_refunds_list_success',
+            refunds,
+        });
+    } catch (error) {
+        logger.error('GM Refunds List Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+
+        return res.status(500).json({
+            message: errorMessage,
+            action: 'gm_refunds_list_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Retries a PENDING or FAILED refund immediately, optionally to another account of the same user.
+ * POST /gm/refunds/:refundId/retry  { accountId?: number }
+ */
+router.post('/refunds/:refundId/retry', authenticateGameMaster, async (req: Request, res: Response) => {
+    const refundId = parseInt(req.params.refundId, 10);
+    const accountId = req.body?.accountId !== undefined ? parseInt(req.body.accountId, 10) : undefined;
+
+    if (isNaN(refundId)) {
+        return res.status(400).json({ message: "Missing or invalid refundId parameter." });
+    }
+    if (accountId !== undefined && isNaN(accountId)) {
+        return res.status(400).json({ message: "Invalid accountId in request body." });
+    }
+
+    try {
+        const refund = await retryRefund(refundId, accountId);
+
+        logger.info(`REFUND RETRY: Refund ${refundId} is now ${refund.status} after a GM retry by Admin User ${req.userId}.`, {
+            refundId,
+            userId: refund.userId,
+            action: 'gm_refund_retry',
+        });
+
+        return res.status(200).json({
+            message: `Refund ${refundId} is now ${refund.status}.${refund.lastError && refund.status !== RefundStatus.SUCCEEDED ? ` Last error: ${refund.lastError}` : ''}`,
+            action: 'gm_refund_retry',
+            refund,
+        });
+    } catch (error) {
+        logger.error(`GM Refund Retry Error for ${refundId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_refund_retry_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Cancels a PENDING or FAILED refund; its Ledger credit is reversed.
+ * POST /gm/refunds/:refundId/cancel  { note?: string }
+ */
+router.post('/refunds/:refundId/cancel', authenticateGameMaster, async (req: Request, res: Response) => {
+    const refundId = parseInt(req.params.refundId, 10);
+
+    if (isNaN(refundId)) {
+        return res.status(400).json({ message: "Missing or invalid refundId parameter." });
+    }
+
+    try {
+        const refund = await cancelRefund(refundId, req.body?.note);
+
+        logger.info(`REFUND CANCEL Success: Refund ${refundId} (${refund.amount} NUMBERS to User ${refund.userId}) cancelled by Admin User ${req.userId}.`, {
+            refundId,
+            userId: refund.userId,
+            action: 'gm_refund_cancel_success',
+        });
+
+        return res.status(200).json({
+            message: `Refund ${refundId} cancelled. ${refund.amount} NUMBERS remain in the Treasury.`,
+            action: 'gm_refund_cancel_success',
+            refund,
+        });
+    } catch (error) {
+        logger.error(`GM Refund Cancel Error for ${refundId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_refund_cancel_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+
+// -----------------------------------------------------------
+// ⭐ BALANCE RECONCILIATION
+// -----------------------------------------------------------
+/**
+ * Runs a reconciliation against Lumia now and returns its report.
+ * POST /gm/reconciliation/run
+ */
+router.post('/reconciliation/run', authenticateGameMaster, async (req: Request, res: Response) => {
+    try {
+        const run = await runBalanceReconciliation(ReconciliationTrigger.MANUAL, req.userId);
+        const report = await getReconciliationReport(run.id);
+
+        logger.info(`RECONCILIATION Success: Manual run ${run.id} by Admin User ${req.userId}.`, {
+            runId: run.id,
+            action: 'gm_reconciliation_run',
+        });
+
+        return res.status(200).json({
+            message: `Reconciliation run ${run.id}: ${run.accountsChecked} checked, ${run.accountsDrifted} corrected, ${run.accountsFlagged} flagged, ${run.accountsFailed} failed.`,
+            action: 'gm_reconciliation_run',
+            report,
+        });
+    } catch (error) {
+        logger.error('GM Reconciliation Run Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+
+        return res.status(500).json({
+            message: errorMessage,
+            action: 'gm_reconciliation_run_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Lists recent reconciliation runs.
+ * GET /gm/reconciliation/runs?limit=20
+ */
+router.get('/reconciliation/runs', authenticateGameMaster, async (req: Request, res: Response) => {
+    const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : undefined;
+
+    try {
+        const runs = await listReconciliationRuns(limit && !isNaN(limit) ? limit : undefined);
+
+        return res.status(200).json({
+            message: `${runs.length} run(s) found.`,
+            action: 'gm_reconciliation_runs',
+            runs,
+        });
+    } catch (error) {
+        logger.error('GM Reconciliation Runs Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+
+        return res.status(500).json({
+            message: errorMessage,
+            action: 'gm_reconciliation_runs_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Report of flagged and failed accounts for one run (latest by default).
+ * GET /gm/reconciliation/report?runId=12
+ */
+router.get('/reconciliation/report', authenticateGameMaster, async (req: Request, res: Response) => {
+    const runId = req.query.runId !== undefined ? parseInt(String(req.query.runId), 10) : undefined;
+
+    if (runId !== undefined && isNaN(runId)) {
+        return res.status(400).json({ message: "Invalid runId parameter." });
+    }
+
+    try {
+        const report = await getReconciliationReport(runId);
+
+        return res.status(200).json({
+            message: `Reconciliation run ${report.run.id}: ${report.flagged.length} flagged, ${report.failed.length} failed.`,
+            action: 'gm_reconciliation_report',
+            report,
+        });
+    } catch (error) {
+        logger.error('GM Reconciliation Report Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = errorMessage.includes('not found') ? 404 : 500;
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_reconciliation_report_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+
+// -----------------------------------------------------------
+// ⭐ AUCTIONS
+// -----------------------------------------------------------
+/**
+ * Opens an auction on an ARCHIVED challenge.
+ * POST /gm/auction/open  { challengeId, winnerMode: 'REVIVE' | 'OWNERSHIP', minimumBid?, durationMinutes?, streamDays? }
+ */
+router.post('/auction/open', authenticateGameMaster, async (req: Request, res: Response) => {
+    const { challengeId, winnerMode, minimumBid, durationMinutes, streamDays } = req.body;
+    const mode = typeof winnerMode === 'string' ? winnerMode.toUpperCase() : AuctionWinnerMode.REVIVE;
+
+    if (challengeId === undefined || isNaN(parseInt(challengeId))) {
+        return res.status(400).json({ message: 'Missing or invalid challengeId parameter.' });
+    }
+    if (!Object.values(AuctionWinnerMode).includes(mode as AuctionWinnerMode)) {
+        return res.status(400).json({ message: `Invalid winnerMode. Use one of: ${Object.values(AuctionWinnerMode).join(', ')}.` });
+    }
+
+    const toOptionalInt = (value: unknown) => value !== undefined && value !== null ? parseInt(String(value), 10) : undefined;
+    const options = {
+        winnerMode: mode as AuctionWinnerMode,
+        minimumBid: toOptionalInt(minimumBid),
+        durationMinutes: toOptionalInt(durationMinutes),
+        streamDays: toOptionalInt(streamDays),
+    };
+
+    if ([options.minimumBid, options.durationMinutes, options.streamDays].some(value => value !== undefined && isNaN(value))) {
+        return res.status(400).json({ message: 'minimumBid, durationMinutes and streamDays must be numbers.' });
+    }
+
+    try {
+        const auction = await openAuction(req.userId, parseInt(challengeId), options);
+
+        logger.info(`AUCTION OPEN Success: Auction ${auction.id} for #${challengeId} opened by Admin User ${req.userId}.`, {
+            auctionId: auction.id,
+            challengeId: auction.challengeId,
+            action: 'gm_auction_open_success',
+        });
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} is now up for auction (minimum bid ${auction.minimumBid} NUMBERS).`,
+            action: 'gm_auction_open_success',
+            auction,
+        });
+    } catch (error) {
+        logger.error(`GM Auction Open Error for #${challengeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_auction_open_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Closes (settles) or cancels an OPEN auction before its timer.
+ * POST /gm/auction/:auctionId/close   |   POST /gm/auction/:auctionId/cancel
+ */
+router.post('/auction/:auctionId/:operation(close|cancel)', authenticateGameMaster, async (req: Request, res: Response) => {
+    const auctionId = parseInt(req.params.auctionId, 10);
+    const isCancel = req.params.operation === 'cancel';
+
+    if (isNaN(auctionId)) {
+        return res.status(400).json({ message: "Missing or invalid auctionId parameter." });
+    }
+
+    try {
+        const { auction, winningBid } = await closeAuction(auctionId, isCancel);
+
+        return res.status(200).json({
+            message: isCancel
+                ? `Auction ${auctionId} cancelled. Escrowed bids are being released.`
+                : `Auction ${auctionId} closed. ${winningBid ? `Won by User ${winningBid.userId} for ${winningBid.amount} NUMBERS.` : 'No bids: the challenge returns to the archive.'}`,
+            action: isCancel ? 'gm_auction_cancel_success' : 'gm_auction_close_success',
+            auction,
+        });
+    } catch (error) {
+        logger.error(`GM Auction Close Error for ${auctionId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: isCancel ? 'gm_auction_cancel_failure' : 'gm_auction_close_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Lists auctions, optionally by status.
+ * GET /gm/auctions?status=OPEN
+ */
+router.get('/auctions', authenticateGameMaster, async (req: Request, res: Response) => {
+    const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined;
+
+    if (status && !Object.values(AuctionStatus).includes(status as AuctionStatus)) {
+        return res.status(400).json({ message: `Invalid status. Use one of: ${Object.values(AuctionStatus).join(', ')}.` });
+    }
+
+    try {
+        const auctions = await listAuctions(status as AuctionStatus | undefined);
+
+        return res.status(200).json({
+            message: `${auctions.length} auction(s) found.`,
+            action: 'gm_auctions_list_success',
+            auctions,
+        });
+    } catch (error) {
+        logger.error('GM Auctions List Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+
+        return res.status(500).json({
+            message: errorMessage,
+            action: 'gm_auctions_list_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+
+// -----------------------------------------------------------
+// ⭐ EXECUTION QUEUE OVERRIDES
+// -----------------------------------------------------------
+/**
+ * Pins an ACTIVE challenge to the top of the queue, or skips it to the bottom.
+ * POST /gm/queue/:challengeId/pin   |   POST /gm/queue/:challengeId/skip   { note? }
+ */
+router.post('/queue/:challengeId/:operation(pin|skip)', authenticateGameMaster, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId, 10);
+    const type = req.params.operation === 'pin' ? QueueOverrideType.PIN : QueueOverrideType.SKIP;
+    const { note } = req.body;
+
+    if (isNaN(challengeId)) {
+        return res.status(400).json({ message: "Missing or invalid challengeId parameter." });
+    }
+
+    try {
+        const override = await setQueueOverride(req.userId, challengeId, type, typeof note === 'string' ? note : undefined);
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} ${type === QueueOverrideType.PIN ? 'pinned to the top of' : 'skipped to the bottom of'} the queue.`,
+            action: `gm_queue_${req.params.operation}_success`,
+            override,
+        });
+    } catch (error) {
+        logger.error(`GM Queue Override Error for #${challengeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: `gm_queue_${req.params.operation}_failure`,
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Removes a pin or skip, returning the challenge to the ranking.
+ * POST /gm/queue/:challengeId/clear
+ */
+router.post('/queue/:challengeId/clear', authenticateGameMaster, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId, 10);
+
+    if (isNaN(challengeId)) {
+        return res.status(400).json({ message: "Missing or invalid challengeId parameter." });
+    }
+
+    try {
+        await clearQueueOverride(challengeId);
+
+        return res.status(200).json({
+            message: `Queue override cleared for Challenge #${challengeId}.`,
+            action: 'gm_queue_clear_success',
+        });
+    } catch (error) {
+        logger.error(`GM Queue Clear Error for #${challengeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_queue_clear_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Lists the current pins and skips.
+ * GET /gm/queue/overrides
+ */
+router.get('/queue/overrides', authenticateGameMaster, async (req: Request, res: Response) => {
+    try {
+        const overrides = await listQueueOverrides();
+
+        return res.status(200).json({
+            message: `${overrides.length} queue override(s) found.`,
+            action: 'gm_queue_overrides_list_success',
+            overrides,
+        });
+    } catch (error) {
+        logger.error('GM Queue Overrides List Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+
+        return res.status(500).json({
+            message: errorMessage,
+            action: 'gm_queue_overrides_list_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+
+// -----------------------------------------------------------
+// ⭐ QUADRATIC MATCHING ROUNDS
+// -----------------------------------------------------------
+/**
+ * Reads { from?, to? } from the body. 'from' defaults to the end of the latest round, 'to' to now.
+ */
+async function parseMatchingPeriod(body: { from?: string; to?: string }) {
+    return {
+        periodStart: body.from ? new Date(body.from) : await getNextMatchingPeriodStart(),
+        periodEnd: body.to ? new Date(body.to) : new Date(),
+    };
+}
+
+/**
+ * Dry run: what a round for the period would pay from the current chest balance.
+ * POST /gm/matching/preview  { from?, to? }
+ */
+router.post('/matching/preview', authenticateGameMaster, async (req: Request, res: Response) => {
+    try {
+        const preview = await previewMatchingRound(await parseMatchingPeriod(req.body));
+
+        return res.status(200).json({
+            message: `Preview: ${preview.totalMatched} of ${preview.poolAmount} NUMBERS would be matched across ${preview.matches.filter(match => match.matchedAmount > 0).length} challenges.`,
+            action: 'gm_matching_preview_success',
+            preview,
+        });
+    } catch (error) {
+        logger.error('GM Matching Preview Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_matching_preview_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Runs a round for a GM-defined period and pays the matches from the Community Chest.
+ * POST /gm/matching/run  { from?, to? }
+ */
+router.post('/matching/run', authenticateGameMaster, async (req: Request, res: Response) => {
+    try {
+        const round = await runMatchingRound(MatchingRoundTrigger.MANUAL, await parseMatchingPeriod(req.body), {
+            triggeredByUserId: req.userId,
+        });
+
+        return res.status(200).json({
+            message: `Matching Round ${round.id} paid ${round.totalMatched} of ${round.poolAmount} NUMBERS across ${round.challengesMatched} challenges.`,
+            action: 'gm_matching_run_success',
+            round,
+        });
+    } catch (error) {
+        logger.error('GM Matching Run Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_matching_run_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Lists recent rounds.
+ * GET /gm/matching/rounds?limit=20
+ */
+router.get('/matching/rounds', authenticateGameMaster, async (req: Request, res: Response) => {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+    try {
+        const rounds = await listMatchingRounds(limit && !isNaN(limit) ? limit : undefined);
+
+        return res.status(200).json({
+            message: `${rounds.length} matching round(s) found.`,
+            action: 'gm_matching_rounds_success',
+            rounds,
+        });
+    } catch (error) {
+        logger.error('GM Matching Rounds List Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+
+        return res.status(500).json({
+            message: errorMessage,
+            action: 'gm_matching_rounds_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Report for one round, with the match of every challenge.
+ * GET /gm/matching/rounds/:roundId
+ */
+router.get('/matching/rounds/:roundId', authenticateGameMaster, async (req: Request, res: Response) => {
+    const roundId = parseInt(req.params.roundId, 10);
+
+    if (isNaN(roundId)) {
+        return res.status(400).json({ message: "Missing or invalid roundId parameter." });
+    }
+
+    try {
+        const round = await getMatchingRoundReport(roundId);
+
+        return res.status(200).json({
+            message: `Matching Round ${round.id}: ${round.totalMatched} NUMBERS matched.`,
+            action: 'gm_matching_report_success',
+            round,
+        });
+    } catch (error) {
+        logger.error(`GM Matching Report Error for ${roundId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_matching_report_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+// -----------------------------------------------------------
+// ⭐ PREDICTION MARKETS
+// -----------------------------------------------------------
+/**
+ * Voids the open prediction market of a challenge: every stake is refunded.
+ * Markets are resolved automatically when the challenge ends; this is the manual override.
+ * POST /gm/prediction/:challengeId/void
+ */
+router.post('/prediction/:challengeId/void', authenticateGameMaster, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId, 10);
+
+    if (isNaN(challengeId)) {
+        return res.status(400).json({ message: "Missing or invalid challengeId parameter." });
+    }
+
+    try {
+        const market = await voidPredictionMarket(challengeId);
+
+        logger.info(`PREDICTION VOID Success: Market ${market.id} for #${challengeId} voided by Admin User ${req.userId}.`, {
+            marketId: market.id,
+            challengeId,
+            action: 'gm_prediction_void_success',
+        });
+
+        return res.status(200).json({
+            message: `Prediction market for Challenge #${challengeId} voided. Every stake is being refunded.`,
+            action: 'gm_prediction_void_success',
+            market,
+        });
+    } catch (error) {
+        logger.error(`GM Prediction Void Error for #${challengeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_prediction_void_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+// -----------------------------------------------------------
+// ⭐ ECONOMY CONFIG (VERSIONED PRICES)
+// -----------------------------------------------------------
+/**
+ * Lists every economy config version and the one in force.
+ * GET /gm/economy
+ */
+router.get('/economy', authenticateGameMaster, async (req: Request, res: Response) => {
+    try {
+        const { active, versions } = await listEconomyConfigs();
+
+        return res.status(200).json({
+            message: `Economy config version ${active.version} is active (${versions.length} version(s) on record).`,
+            action: 'gm_economy_list_success',
+            active,
+            versions,
+        });
+    } catch (error) {
+        logger.error('GM Economy List Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+
+        return res.status(500).json({
+            message: errorMessage,
+            action: 'gm_economy_list_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Proposes a new version. Omitted prices are copied from the active version.
+ * POST /gm/economy/propose  { submissionBaseCost?, pushBaseCost?, disruptCost?, digoutPercent?, liveDiscountPercent?, note? }
+ */
+router.post('/economy/propose', authenticateGameMaster, async (req: Request, res: Response) => {
+    const { note } = req.body;
+    const changes: EconomyPriceChanges = {};
+
+    for (const field of ['submissionBaseCost', 'pushBaseCost', 'disruptCost', 'digoutPercent', 'liveDiscountPercent'] as const) {
+        const value = req.body[field];
+        if (value === undefined || value === null) continue;
+
+        if (isNaN(Number(value))) {
+            return res.status(400).json({ message: `${field} must be a number.` });
+        }
+        changes[field] = Number(value);
+    }
+
+    if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ message: 'Provide at least one price to change.' });
+    }
+
+    try {
+        const proposal = await proposeEconomyConfig(req.userId, changes, typeof note === 'string' ? note : undefined);
+
+        return res.status(200).json({
+            message: `Economy config version ${proposal.version} proposed. Activate it with POST /gm/economy/${proposal.version}/activate.`,
+            action: 'gm_economy_propose_success',
+            config: proposal,
+        });
+    } catch (error) {
+        logger.error('GM Economy Propose Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_economy_propose_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Activates a proposed version, now or from a future timestamp.
+ * POST /gm/economy/:version/activate  { effectiveFrom?: ISO date }
+ */
+router.post('/economy/:version/activate', authenticateGameMaster, async (req: Request, res: Response) => {
+    const version = parseInt(req.params.version, 10);
+    const { effectiveFrom } = req.body;
+
+    if (isNaN(version)) {
+        return res.status(400).json({ message: "Missing or invalid version parameter." });
+    }
+
+    const startsAt = effectiveFrom !== undefined && effectiveFrom !== null ? new Date(effectiveFrom) : undefined;
+    if (startsAt && isNaN(startsAt.getTime())) {
+        return res.status(400).json({ message: 'effectiveFrom must be a valid date.' });
+    }
+
+    try {
+        const config = await activateEconomyConfig(version, startsAt);
+
+        logger.info(`ECONOMY ACTIVATE Success: Version ${version} activated by Admin User ${req.userId}.`, {
+            version,
+            action: 'gm_economy_activate_success',
+        });
+
+        return res.status(200).json({
+            message: `Economy config version ${version} is active from ${config.effectiveFrom?.toISOString()}.`,
+            action: 'gm_economy_activate_success',
+            config,
+        });
+    } catch (error) {
+        logger.error(`GM Economy Activate Error for version ${version}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_economy_activate_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+// -----------------------------------------------------------
+// ⭐ MODERATION (UNDER_REVIEW SUBMISSIONS)
+// -----------------------------------------------------------
+/**
+ * Lists the submissions waiting for review, oldest first, with their flagged references.
+ * GET /gm/moderation/queue?limit=20
+ */
+router.get('/moderation/queue', authenticateGameMaster, async (req: Request, res: Response) => {
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        return res.status(400).json({ message: 'Invalid limit.' });
+    }
+
+    try {
+        const pending = await listPendingSubmissions(limit);
+
+        return res.status(200).json({
+            message: `${pending.length} submission(s) waiting for review.`,
+            action: 'gm_moderation_queue_success',
+            pending,
+        });
+    } catch (error) {
+        logger.error('GM Moderation Queue Error:', error);
+        return res.status(500).json({ message: 'Internal Server Error while fetching the review queue.' });
+    }
+});
+
+
+/**
+ * Inspects one submission: all references, the flagged ones, and the decision if taken.
+ * GET /gm/moderation/:challengeId
+ */
+router.get('/moderation/:challengeId', authenticateGameMaster, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId, 10);
+
+    if (isNaN(challengeId)) {
+        return res.status(400).json({ message: "Missing or invalid challengeId parameter." });
+    }
+
+    try {
+        const submission = await getSubmissionForReview(challengeId);
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} is ${submission.status} (${submission.flaggedReferences.length} flagged reference(s)).`,
+            action: 'gm_moderation_inspect_success',
+            submission,
+        });
+    } catch (error) {
+        logger.error(`GM Moderation Inspect Error for #${challengeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_moderation_inspect_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Approves a submission (ACTIVE, stream-day clock starts) or rejects it with a reason and a refund.
+ * POST /gm/moderation/:challengeId/approve  { note? }
+ * POST /gm/moderation/:challengeId/reject   { reason, refundPercent? }
+ */
+router.post('/moderation/:challengeId/:verdict(approve|reject)', authenticateGameMaster, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId, 10);
+    const isApproval = req.params.verdict === 'approve';
+    const { note, reason, refundPercent } = req.body;
+
+    if (isNaN(challengeId)) {
+        return res.status(400).json({ message: "Missing or invalid challengeId parameter." });
+    }
+    if (refundPercent !== undefined && isNaN(Number(refundPercent))) {
+        return res.status(400).json({ message: 'refundPercent must be a number.' });
+    }
+
+    try {
+        const result = isApproval
+            ? await approveSubmission(req.userId, challengeId, typeof note === 'string' ? note : undefined)
+            : await rejectSubmission(req.userId, challengeId, typeof reason === 'string' ? reason : '', refundPercent !== undefined ? Number(refundPercent) : undefined);
+
+        return res.status(200).json({
+            message: isApproval
+                ? `Challenge #${challengeId} approved and now ACTIVE.`
+                : `Challenge #${challengeId} rejected. ${result.decision.refundAmount} NUMBERS refunded to the proposer${result.refundPaid ? '' : ' (queued)'}.`,
+            action: isApproval ? 'gm_moderation_approve_success' : 'gm_moderation_reject_success',
+            challenge: result.challenge,
+            decision: result.decision,
+        });
+    } catch (error) {
+        logger.error(`GM Moderation Decision Error for #${challengeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: isApproval ? 'gm_moderation_approve_failure' : 'gm_moderation_reject_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+// -----------------------------------------------------------
+// ⭐ CHALLENGE CATEGORIES & TAGS
+// -----------------------------------------------------------
+/**
+ * Lists every category, inactive ones included, with their challenge counts.
+ * GET /gm/categories
+ */
+router.get('/categories', authenticateGameMaster, async (req: Request, res: Response) => {
+    try {
+        const categories = await listCategories(true);
+
+        return res.status(200).json({
+            message: `${categories.length} challenge categor${categories.length === 1 ? 'y' : 'ies'} defined.`,
+            action: 'gm_categories_list_success',
+            categories,
+        });
+    } catch (error) {
+        logger.error('GM Categories List Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+
+        return res.status(500).json({
+            message: errorMessage,
+            action: 'gm_categories_list_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Defines a new category.
+ * POST /gm/categories  { slug, name, description?, sortOrder? }
+ */
+router.post('/categories', authenticateGameMaster, async (req: Request, res: Response) => {
+    const { slug, name, description, sortOrder } = req.body;
+
+    if (typeof slug !== 'string' || typeof name !== 'string') {
+        return res.status(400).json({ message: "Missing 'slug' or 'name' in request body." });
+    }
+
+    try {
+        const category = await createCategory(req.userId, {
+            slug,
+            name,
+            description: typeof description === 'string' ? description : undefined,
+            sortOrder: sortOrder !== undefined ? Number(sortOrder) : undefined,
+        });
+
+        return res.status(200).json({
+            message: `Category '${category.slug}' created.`,
+            action: 'gm_category_create_success',
+            category,
+        });
+    } catch (error) {
+        logger.error('GM Category Create Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_category_create_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Renames, describes, reorders, deactivates or reactivates a category (the slug never changes).
+ * PUT /gm/categories/:slug  { name?, description?, sortOrder?, isActive? }
+ */
+router.put('/categories/:slug', authenticateGameMaster, async (req: Request, res: Response) => {
+    const { name, description, sortOrder, isActive } = req.body;
+    const changes: ChallengeCategoryChanges = {};
+
+    if (typeof name === 'string') changes.name = name;
+    if (typeof description === 'string' || description === null) changes.description = description;
+    if (sortOrder !== undefined) changes.sortOrder = Number(sortOrder);
+    if (typeof isActive === 'boolean') changes.isActive = isActive;
+
+    if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ message: 'Provide at least one of name, description, sortOrder or isActive.' });
+    }
+
+    try {
+        const category = await updateCategory(req.userId, req.params.slug, changes);
+
+        return res.status(200).json({
+            message: `Category '${category.slug}' updated.`,
+            action: 'gm_category_update_success',
+            category,
+        });
+    } catch (error) {
+        logger.error(`GM Category Update Error for '${req.params.slug}':`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_category_update_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Reclassifies a challenge. Omitted fields are left as they are.
+ * PUT /gm/challenge/:challengeId/classification  { category?, tags? }
+ */
+router.put('/challenge/:challengeId/classification', authenticateGameMaster, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId, 10);
+    const { category, tags } = req.body;
+
+    if (isNaN(challengeId)) {
+        return res.status(400).json({ message: "Missing or invalid challengeId parameter." });
+    }
+    if (category === undefined && tags === undefined) {
+        return res.status(400).json({ message: "Provide 'category' and/or 'tags'." });
+    }
+
+    try {
+        const challenge = await setChallengeClassification(challengeId, {
+            category: typeof category === 'string' ? category : undefined,
+            tags,
+        });
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} filed under '${challenge.category}'${challenge.tags.length > 0 ? ` with tags ${challenge.tags.join(', ')}` : ''}.`,
+            action: 'gm_challenge_classification_success',
+            challenge,
+        });
+    } catch (error) {
+        logger.error(`GM Challenge Classification Error for #${challengeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_challenge_classification_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+// -----------------------------------------------------------
+// ⭐ CHALLENGE SERIES & PREREQUISITES
+// -----------------------------------------------------------
+/**
+ * Creates an empty series.
+ * POST /gm/series  { name, description? }
+ */
+router.post('/series', authenticateGameMaster, async (req: Request, res: Response) => {
+    const { name, description } = req.body;
+
+    if (typeof name !== 'string') {
+        return res.status(400).json({ message: "Missing 'name' in request body." });
+    }
+
+    try {
+        const series = await createSeries(req.userId, name, typeof description === 'string' ? description : undefined);
+
+        return res.status(200).json({
+            message: `Series #${series.id} '${series.name}' created. Add challenges with POST /gm/series/${series.id}/challenges.`,
+            action: 'gm_series_create_success',
+            series,
+        });
+    } catch (error) {
+        logger.error('GM Series Create Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_series_create_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Adds a challenge to a series, at `position` or after the last one.
+ * POST /gm/series/:seriesId/challenges  { challengeId, position? }
+ */
+router.post('/series/:seriesId/challenges', authenticateGameMaster, async (req: Request, res: Response) => {
+    const seriesId = parseInt(req.params.seriesId, 10);
+    const challengeId = parseInt(req.body.challengeId, 10);
+    const { position } = req.body;
+
+    if (isNaN(seriesId) || isNaN(challengeId)) {
+        return res.status(400).json({ message: "Missing or invalid seriesId or challengeId." });
+    }
+
+    try {
+        const challenge = await addChallengeToSeries(seriesId, challengeId, position !== undefined ? Number(position) : undefined);
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} added to Series #${seriesId} at position ${challenge.seriesPosition}.`,
+            action: 'gm_series_add_success',
+            challenge,
+        });
+    } catch (error) {
+        logger.error(`GM Series Add Error for Series #${seriesId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_series_add_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Takes a challenge out of a series.
+ * DELETE /gm/series/:seriesId/challenges/:challengeId
+ */
+router.delete('/series/:seriesId/challenges/:challengeId', authenticateGameMaster, async (req: Request, res: Response) => {
+    const seriesId = parseInt(req.params.seriesId, 10);
+    const challengeId = parseInt(req.params.challengeId, 10);
+
+    if (isNaN(seriesId) || isNaN(challengeId)) {
+        return res.status(400).json({ message: "Missing or invalid seriesId or challengeId parameter." });
+    }
+
+    try {
+        const challenge = await removeChallengeFromSeries(seriesId, challengeId);
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} removed from Series #${seriesId}.`,
+            action: 'gm_series_remove_success',
+            challenge,
+        });
+    } catch (error) {
+        logger.error(`GM Series Remove Error for Series #${seriesId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_series_remove_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+/**
+ * Adds or removes a prerequisite on any challenge, in any status (cycles are still refused).
+ * POST /gm/challenge/:challengeId/prerequisites  { prerequisiteChallengeId }
+ * DELETE /gm/challenge/:challengeId/prerequisites/:prerequisiteChallengeId
+ */
+router.post('/challenge/:challengeId/prerequisites', authenticateGameMaster, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId, 10);
+    const prerequisiteChallengeId = parseInt(req.body.prerequisiteChallengeId, 10);
+
+    if (isNaN(challengeId) || isNaN(prerequisiteChallengeId)) {
+        return res.status(400).json({ message: "Missing or invalid challengeId or prerequisiteChallengeId." });
+    }
+
+    try {
+        const prerequisite = await addPrerequisite(req.userId, challengeId, prerequisiteChallengeId, true);
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} now requires Challenge #${prerequisiteChallengeId} to be completed first.`,
+            action: 'gm_prerequisite_add_success',
+            prerequisite,
+        });
+    } catch (error) {
+        logger.error(`GM Prerequisite Add Error for #${challengeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_prerequisite_add_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+router.delete('/challenge/:challengeId/prerequisites/:prerequisiteChallengeId', authenticateGameMaster, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId, 10);
+    const prerequisiteChallengeId = parseInt(req.params.prerequisiteChallengeId, 10);
+
+    if (isNaN(challengeId) || isNaN(prerequisiteChallengeId)) {
+        return res.status(400).json({ message: "Missing or invalid challengeId or prerequisiteChallengeId parameter." });
+    }
+
+    try {
+        await removePrerequisite(req.userId, challengeId, prerequisiteChallengeId, true);
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} no longer requires Challenge #${prerequisiteChallengeId}.`,
+            action: 'gm_prerequisite_remove_success',
+        });
+    } catch (error) {
+        logger.error(`GM Prerequisite Remove Error for #${challengeId}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: errorMessage,
+            action: 'gm_prerequisite_remove_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+export default router;
@@ -0,0 +1,89 @@
+// src/routes/priceRoutes.ts
+// Read-only price previews. No authentication: nothing is written, and an unknown identity
+// is simply priced as a new user (authenticateUser would create it). Since anyone can ask for
+// any identity, the sheet carries prices only: never the identity's userId or balance.
+
+import { Request, Response, Router } from 'express';
+import { PlatformName } from '@prisma/client';
+import logger from '../logger';
+import { getPriceSheet, PRICED_ACTIONS, PricedAction, PriceRequest } from '../services/priceService';
+
+const router = Router();
+
+
+/**
+ * Reads ?platformId=&platformName=&challengeId=&quantity= into a PriceRequest.
+ * @returns The request, or an error message for a 400.
+ */
+function parsePriceQuery(req: Request): PriceRequest | string {
+    const { platformId, platformName, challengeId, quantity } = req.query;
+    const request: PriceRequest = {};
+
+    if (platformId !== undefined || platformName !== undefined) {
+        const normalizedPlatform = typeof platformName === 'string' ? platformName.toUpperCase() : undefined;
+
+        if (typeof platformId !== 'string' || !platformId || !normalizedPlatform || !(normalizedPlatform in PlatformName)) {
+            return 'platformId and a valid platformName must be given together.';
+        }
+        request.platformId = platformId;
+        request.platformName = normalizedPlatform as PlatformName;
+    }
+
+    if (challengeId !== undefined) {
+        const id = Number(challengeId);
+        if (!Number.isInteger(id) || id < 1) {
+            return 'Invalid challengeId.';
+        }
+        request.challengeId = id;
+    }
+
+    if (quantity !== undefined) {
+        const count = Number(quantity);
+        if (!Number.isInteger(count) || count < 1) {
+            return 'Invalid quantity: must be a positive integer.';
+        }
+        request.quantity = count;
+    }
+
+    return request;
+}
+
+
+async function sendPriceSheet(req: Request, res: Response, actions: PricedAction[]) {
+    const request = parsePriceQuery(req);
+
+    if (typeof request === 'string') {
+        return res.status(400).json({ message: request });
+    }
+
+    try {
+        const sheet = await getPriceSheet({ ...request, actions });
+        return res.status(200).json(sheet);
+    } catch (error) {
+        logger.error('Price Preview Failed:', error);
+        return res.status(500).json({ message: 'Internal Server Error while pricing.' });
+    }
+}
+
+
+/**
+ * GET /api/v1/prices?platformId=&platformName=&challengeId=&quantity=
+ * Every action priced at once (push and digout need challengeId).
+ */
+router.get('/', (req: Request, res: Response) => sendPriceSheet(req, res, PRICED_ACTIONS));
+
+/**
+ * GET /api/v1/prices/:action (submit | push | digout | disrupt), same query parameters.
+ */
+router.get('/:action', (req: Request, res: Response) => {
+    const action = req.params.action.toLowerCase() as PricedAction;
+
+    if (!PRICED_ACTIONS.includes(action)) {
+        return res.status(404).json({ message: `Unknown action '${req.params.action}'. Use one of: ${PRICED_ACTIONS.join(', ')}.` });
+    }
+
+    return sendPriceSheet(req, res, [action]);
+});
+
+
+export default router;
@@ -87,6 +87,7 @@ router.get('/stats', async (req: Request, res: Response) => {
       message: 'Global stream statistics retrieved.',
       isStreamLive: isLive,
       streamDaysSinceInception: globalStats ? globalStats.streamDaysSinceInception : 0,
+      totalSeriesCompleted: globalStats ? globalStats.totalSeriesCompleted : 0,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -122,7 +122,7 @@ router.post('/verify-explorer', async (req: Request, res: Response) => {
 
         if (needsPayment) {
             // This calls your Lumia service to actually take the money
-            await processExplorerAccessFee(payload.platformId, fee); 
+            await processExplorerAccessFee(payload.platformId, payload.platformName, fee); 
             
             // Update the timestamp so they aren't charged again for 21 mins
             await prisma.user.update({
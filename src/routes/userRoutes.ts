@@ -1,12 +1,19 @@
 // src/routes/userRoutes.ts
 import { Router, Request, Response } from 'express'; 
 import * as challengeService from '../services/challengeService'; 
+import { placeBid } from '../services/auctionService';
+import { placePrediction } from '../services/predictionService';
+import { processGift } from '../services/giftService';
+import { confirmLinkRequest, issueLinkCode, redeemLinkCode, unlinkAccount } from '../services/accountLinkService';
+import { setAccountBalanceShared, transferBetweenAccounts } from '../services/accountTransferService';
+import { editChallengeText } from '../services/challengeRevisionService';
+import { addPrerequisite, removePrerequisite } from '../services/challengeSeriesService';
 import logger from '../logger'; // Winston Logger
-import { RefundOption } from '../services/challengeService';
+import { DisruptRequest, RefundOption } from '../services/challengeService';
 import { verifyToken } from '../services/jwtService'; 
 import { getServiceErrorStatus } from '../utils/routeUtils';
 import { authenticateUser } from '../middleware/authMiddleware';
-import { PlatformName } from '@prisma/client';
+import { PlatformName, PredictionOutcome } from '@prisma/client';
 
 
 const router = Router();
@@ -126,7 +133,7 @@ router.post('/submit', authenticateUser, async (req: Request, res: Response) =>
  */
 router.post('/submit/web', async (req: Request, res: Response) => {
     // Expected inputs from the web form: token, form fields
-    const { token, challengeText, totalSessions, durationType, sessionCadenceText, cadenceUnit, cost: clientCostEstimate } = req.body;
+    const { token, challengeText, totalSessions, durationType, sessionCadenceText, cadenceUnit, category, tags, cost: clientCostEstimate } = req.body;
     let userId: number;
     let platformId: string;
     let platformName: PlatformName; // Declare platformName using the PlatformName enum type
@@ -209,7 +216,8 @@ router.post('/submit/web', async (req: Request, res: Response) => {
             sessions, 
             durationType,
             sessionCadenceText, 
-            cadenceUnit         
+            cadenceUnit,
+            { category: typeof category === 'string' ? category : undefined, tags }
         );
         
         // AUDIT LOG (Success)
@@ -224,6 +232,7 @@ router.post('/submit/web', async (req: Request, res: Response) => {
             pushBaseCost: newChallenge.pushBaseCost,
             totalSessions: newChallenge.totalSessions,
             category: newChallenge.category,
+            tags: newChallenge.tags,
             durationType: newChallenge.durationType,
             sessionCadenceText: newChallenge.sessionCadenceText,
             proposerUserId: userId,
@@ -250,6 +259,7 @@ router.post('/submit/web', async (req: Request, res: Response) => {
                     challengeText: newChallenge.challengeText,
                     totalSessions: newChallenge.totalSessions, 
                     category: newChallenge.category, 
+                    tags: newChallenge.tags,
                     durationType: newChallenge.durationType,
                     sessionCadenceText: newChallenge.sessionCadenceText, 
                     status: newChallenge.status,
@@ -337,6 +347,113 @@ router.post('/push/quote', authenticateUser, async (req: Request, res: Response)
 });
 
 
+// -----------------------------------------------------------
+// 2b. PUSH BASKET QUOTE (several challenges, one confirm)
+// -----------------------------------------------------------
+router.post('/push/basket/quote', authenticateUser, async (req: Request, res: Response) => {
+    const { lines } = req.body;
+    const userId = req.userId;
+
+    const isValidLine = (line: any) =>
+        line && Number.isInteger(Number(line.challengeId)) && Number.isInteger(Number(line.quantity)) &&
+        Number(line.challengeId) > 0 && Number(line.quantity) > 0;
+
+    if (!Array.isArray(lines) || lines.length === 0 || !lines.every(isValidLine)) {
+        return res.status(400).json({ error: "Missing or invalid lines. Expected [{ challengeId, quantity }, ...]." });
+    }
+
+    try {
+        const basket = await challengeService.processPushBasketQuote(
+            userId,
+            req.platformId,
+            req.platformName,
+            lines.map((line: any) => ({ challengeId: Number(line.challengeId), quantity: Number(line.quantity) }))
+        );
+
+        logger.info(`BASKET QUOTE Success: ${basket.lines.length} lines for ${basket.totalCost} by User ${userId}`, {
+            basketId: basket.basketId,
+            totalCost: basket.totalCost,
+            platformId: req.platformId,
+            action: 'basket_quote_success'
+        });
+
+        return res.status(200).json({
+            message: `Basket quote generated for ${basket.lines.length} challenges. Total: ${basket.totalCost} NUMBERS. Confirm with !push confirm ${basket.basketId.slice(0, 8)}`,
+            action: 'basket_quote_success',
+            details: basket
+        });
+    } catch (error) {
+        logger.error('Push Basket Quote Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage); 
+        
+        return res.status(status).json({
+            message: status === 500 ? 'Push basket quote failed due to a server error.' : errorMessage,
+            action: 'basket_quote_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+// -----------------------------------------------------------
+// 2c. LIST / CANCEL OUTSTANDING PUSH QUOTES
+// -----------------------------------------------------------
+router.get('/push/quotes', authenticateUser, async (req: Request, res: Response) => {
+    const userId = req.userId;
+
+    try {
+        const quotes = await challengeService.listPushQuotes(userId);
+
+        return res.status(200).json({
+            message: `${quotes.length} outstanding quote(s).`,
+            action: 'quotes_retrieved',
+            data: quotes
+        });
+    } catch (error) {
+        logger.error('List Push Quotes Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+
+        return res.status(500).json({
+            message: 'Failed to retrieve quotes due to a server error.',
+            error: errorMessage,
+        });
+    }
+});
+
+
+router.post('/push/cancel', authenticateUser, async (req: Request, res: Response) => {
+    const { quoteId } = req.body; // Optional: without it, every outstanding quote is cancelled
+    const userId = req.userId;
+
+    try {
+        const cancelledCount = await challengeService.cancelPushQuotes(userId, quoteId);
+
+        logger.info(`QUOTE CANCEL Success: ${cancelledCount} line(s) by User ${userId}`, {
+            quoteId: quoteId ?? null,
+            platformId: req.platformId,
+            action: 'quote_cancel_success'
+        });
+
+        return res.status(200).json({
+            message: `Cancelled ${cancelledCount} quote line(s).`,
+            action: 'quote_cancel_success',
+            details: { cancelledCount }
+        });
+    } catch (error) {
+        logger.error('Push Quote Cancel Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Quote cancel failed due to a server error.' : errorMessage,
+            action: 'quote_cancel_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
 // -----------------------------------------------------------
 // 3. PUSH CONFIRM
 // -----------------------------------------------------------
@@ -345,7 +462,7 @@ router.post('/push/confirm', authenticateUser, async (req: Request, res: Respons
     const userId = req.userId;
 
     try {
-        const { updatedChallenge, transactionCost, quantity } = await challengeService.processPushConfirm(
+        const { basketId, lines, updatedChallenge, transactionCost, quantity } = await challengeService.processPushConfirm(
             userId,
             req.platformId, 
             req.platformName, 
@@ -353,8 +470,9 @@ router.post('/push/confirm', authenticateUser, async (req: Request, res: Respons
         );
         
         // AUDIT LOG (Success)
-        logger.info(`PUSH CONFIRM Success: ${quantity} pushes on #${updatedChallenge.challengeId} for User ${userId}`, {
+        logger.info(`PUSH CONFIRM Success: ${quantity} pushes on ${lines.length > 1 ? `basket ${basketId}` : `#${updatedChallenge.challengeId}`} for User ${userId}`, {
             challengeId: updatedChallenge.challengeId,
+            basketId: basketId,
             cost: transactionCost,
             quantity: quantity,
             platformId: req.platformId,
@@ -363,13 +481,17 @@ router.post('/push/confirm', authenticateUser, async (req: Request, res: Respons
 
         // RETURN RESPONSE
         return res.status(200).json({
-            message: `Push confirmed! ${quantity} pushes applied to Challenge #${updatedChallenge.challengeId}.`,
+            message: lines.length > 1
+                ? `Basket confirmed! ${quantity} pushes applied across ${lines.filter(line => line.status === 'CONFIRMED').length} of ${lines.length} challenges.`
+                : `Push confirmed! ${quantity} pushes applied to Challenge #${updatedChallenge.challengeId}.`,
             action: 'push_confirm_success',
             details: {
                 challengeId: updatedChallenge.challengeId,
                 totalPush: updatedChallenge.totalPush,
                 cost: transactionCost,
-                quantity: quantity
+                quantity: quantity,
+                basketId: basketId,
+                lines: lines
             }
         });
     } catch (error) {
@@ -445,32 +567,52 @@ router.post('/digout', authenticateUser, async (req: Request, res: Response) =>
 });
 
 // -----------------------------------------------------------
-// 5. DISRUPT (Placeholder for future chaos)
+// 5. DISRUPT (Hits the executing challenge)
 // -----------------------------------------------------------
 router.post('/disrupt', authenticateUser, async (req: Request, res: Response) => {
     const userId = req.userId; // AuthenticateUser middleware handles finding/creating the user
+    const { effect, text, targetChallengeId } = req.body;
+
+    let disruptRequest: DisruptRequest;
+    if (effect === 'constraint' && typeof text === 'string') {
+        disruptRequest = { effect, text };
+    } else if (effect === 'shorten' || effect === 'extend') {
+        disruptRequest = { effect };
+    } else if (effect === 'swap' && Number.isInteger(Number(targetChallengeId)) && Number(targetChallengeId) > 0) {
+        disruptRequest = { effect, targetChallengeId: Number(targetChallengeId) };
+    } else {
+        return res.status(400).json({
+            message: "Invalid disrupt. 'effect' must be 'constraint' (with 'text'), 'shorten', 'extend' or 'swap' (with 'targetChallengeId').",
+            action: 'disrupt_failure',
+        });
+    }
 
     try {
-        // Calls the placeholder function created earlier
-        const message = await challengeService.processDisrupt(
+        const result = await challengeService.processDisrupt(
             userId,
             req.platformId, 
-            req.platformName
+            req.platformName,
+            disruptRequest
         );
         
         // AUDIT LOG (Success)
-        logger.info(`DISRUPT Success: Cost 2100 by User ${userId}`, {
-            cost: 2100,
+        logger.info(`DISRUPT Success: ${result.disrupt.effect} on Challenge #${result.disruptedChallenge.challengeId} by User ${userId}`, {
+            cost: result.disrupt.cost,
+            challengeId: result.disruptedChallenge.challengeId,
             platformId: req.platformId,
             action: 'disrupt_success'
         });
 
-        // RETURN RESPONSE (Uses the unique message from processDisrupt)
         return res.status(200).json({
-            message: message,
+            message: result.message,
             action: 'disrupt_success',
             details: {
-                cost: 2100,
+                disruptId: result.disrupt.id,
+                effect: result.disrupt.effect,
+                challengeId: result.disruptedChallenge.challengeId,
+                disruptCount: result.disruptedChallenge.disruptCount,
+                swappedToChallengeId: result.swappedToChallenge?.challengeId ?? null,
+                cost: result.disrupt.cost,
             }
         });
     } catch (error) {
@@ -486,6 +628,520 @@ router.post('/disrupt', authenticateUser, async (req: Request, res: Response) =>
     }
 });
 
+// -----------------------------------------------------------
+// 6. AUCTION BID
+// -----------------------------------------------------------
+router.post('/auction/bid', authenticateUser, async (req: Request, res: Response) => {
+    const { challengeId, amount } = req.body;
+    const userId = req.userId;
+
+    if (challengeId === undefined || isNaN(parseInt(challengeId))) {
+        return res.status(400).json({ error: "Missing or invalid challengeId." });
+    }
+    if (amount === undefined || isNaN(parseInt(amount)) || parseInt(amount) <= 0) {
+        return res.status(400).json({ error: "Missing or invalid bid amount." });
+    }
+
+    try {
+        const { bid, updatedAccount, outbidUserId } = await placeBid(
+            userId,
+            req.platformId,
+            req.platformName,
+            parseInt(challengeId),
+            parseInt(amount)
+        );
+
+        // AUDIT LOG (Success)
+        logger.info(`BID Success: ${bid.amount} on #${challengeId} by User ${userId}`, {
+            challengeId: parseInt(challengeId),
+            amount: bid.amount,
+            outbidUserId,
+            newBalance: updatedAccount.currentBalance,
+            platformId: req.platformId,
+            action: 'auction_bid_success'
+        });
+
+        // RETURN RESPONSE
+        return res.status(200).json({
+            message: `You lead the auction for Challenge #${challengeId} with ${bid.amount} NUMBERS!`,
+            action: 'auction_bid_success',
+            details: {
+                challengeId: parseInt(challengeId),
+                bidId: bid.id,
+                amount: bid.amount,
+                newBalance: updatedAccount.currentBalance
+            }
+        });
+    } catch (error) {
+        logger.error('Auction Bid Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Bid failed due to a server error.' : errorMessage,
+            action: 'auction_bid_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+// -----------------------------------------------------------
+// 7. PREDICTION STAKE
+// -----------------------------------------------------------
+router.post('/predict', authenticateUser, async (req: Request, res: Response) => {
+    const { challengeId, outcome, amount } = req.body;
+    const userId = req.userId;
+    const predictedOutcome = typeof outcome === 'string' ? outcome.toUpperCase() as PredictionOutcome : undefined;
+
+    if (challengeId === undefined || isNaN(parseInt(challengeId))) {
+        return res.status(400).json({ error: "Missing or invalid challengeId." });
+    }
+    if (!predictedOutcome || !Object.values(PredictionOutcome).includes(predictedOutcome)) {
+        return res.status(400).json({ error: "Missing or invalid outcome. Use 'COMPLETES' or 'FAILS'." });
+    }
+    if (amount === undefined || isNaN(parseInt(amount)) || parseInt(amount) <= 0) {
+        return res.status(400).json({ error: "Missing or invalid stake amount." });
+    }
+
+    try {
+        const { stake, odds, updatedAccount } = await placePrediction(
+            userId,
+            req.platformId,
+            req.platformName,
+            parseInt(challengeId),
+            predictedOutcome,
+            parseInt(amount)
+        );
+
+        // AUDIT LOG (Success)
+        logger.info(`PREDICT Success: ${stake.amount} on #${challengeId} ${stake.outcome} by User ${userId}`, {
+            challengeId: parseInt(challengeId),
+            amount: stake.amount,
+            outcome: stake.outcome,
+            newBalance: updatedAccount.currentBalance,
+            platformId: req.platformId,
+            action: 'prediction_success'
+        });
+
+        // RETURN RESPONSE
+        return res.status(200).json({
+            message: `You staked ${stake.amount} NUMBERS that Challenge #${challengeId} ${stake.outcome.toLowerCase()}.`,
+            action: 'prediction_success',
+            details: {
+                challengeId: parseInt(challengeId),
+                stakeId: stake.id,
+                outcome: stake.outcome,
+                amount: stake.amount,
+                odds,
+                newBalance: updatedAccount.currentBalance
+            }
+        });
+    } catch (error) {
+        logger.error('Prediction Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Prediction failed due to a server error.' : errorMessage,
+            action: 'prediction_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+// -----------------------------------------------------------
+// 8. GIFT (Viewer to viewer, or donation to the Community Chest)
+// -----------------------------------------------------------
+router.post('/gift', authenticateUser, async (req: Request, res: Response) => {
+    const { recipient, amount } = req.body;
+    const userId = req.userId;
+
+    if (typeof recipient !== 'string' || recipient.trim().length === 0) {
+        return res.status(400).json({ error: "Missing or invalid recipient username." });
+    }
+    if (amount === undefined || isNaN(parseInt(amount)) || parseInt(amount) <= 0) {
+        return res.status(400).json({ error: "Missing or invalid gift amount." });
+    }
+
+    try {
+        const { gift, isDonation, recipientUsername, recipientCredited, updatedAccount } = await processGift(
+            userId,
+            req.platformId,
+            req.platformName,
+            recipient,
+            parseInt(amount)
+        );
+
+        // RETURN RESPONSE
+        return res.status(200).json({
+            message: isDonation
+                ? `You donated ${gift.amount} NUMBERS to the Community Chest.`
+                : `You gifted ${gift.amount} NUMBERS to @${recipientUsername}.`,
+            action: isDonation ? 'donation_success' : 'gift_success',
+            details: {
+                giftId: gift.id,
+                recipientUserId: gift.recipientUserId,
+                amount: gift.amount,
+                recipientCredited,
+                newBalance: updatedAccount.currentBalance
+            }
+        });
+    } catch (error) {
+        logger.error('Gift Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Gift failed due to a server error.' : errorMessage,
+            action: 'gift_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+// -----------------------------------------------------------
+// 9. ACCOUNT LINKING (One User identity across platforms)
+// -----------------------------------------------------------
+router.post('/link', authenticateUser, async (req: Request, res: Response) => {
+    const { code } = req.body;
+    const userId = req.userId;
+
+    if (code !== undefined && (typeof code !== 'string' || code.trim().length === 0)) {
+        return res.status(400).json({ error: "Invalid link code." });
+    }
+
+    try {
+        // No code: issue one for this identity
+        if (code === undefined) {
+            const { code: issuedCode, expiresAt } = await issueLinkCode(userId, req.platformId, req.platformName);
+
+            return res.status(200).json({
+                message: `Link code issued. Redeem it from your other platform account, then confirm it from this one before it expires.`,
+                action: 'link_code_issued',
+                details: { code: issuedCode, expiresAt }
+            });
+        }
+
+        // Code: ask to join the code's User (the issuing account confirms on /link/confirm)
+        const { issuerPlatformName, requesterName, expiresAt } = await redeemLinkCode(
+            userId,
+            req.platformId,
+            req.platformName,
+            code
+        );
+
+        return res.status(200).json({
+            message: `Link requested. Confirm it from your ${issuerPlatformName} account before the code expires.`,
+            action: 'link_requested',
+            details: { issuerPlatformName, requesterName, expiresAt }
+        });
+    } catch (error) {
+        logger.error('Account Link Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Account linking failed due to a server error.' : errorMessage,
+            action: 'link_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+router.post('/link/confirm', authenticateUser, async (req: Request, res: Response) => {
+    const { username } = req.body;
+    const userId = req.userId;
+
+    if (typeof username !== 'string' || username.trim().length === 0) {
+        return res.status(400).json({ error: "The username of the account that requested the link is required." });
+    }
+
+    try {
+        // Merge the requesting account's User into this account's User
+        const { userId: linkedUserId, absorbedUserId, linkedAccounts } = await confirmLinkRequest(
+            userId,
+            req.platformId,
+            req.platformName,
+            username
+        );
+
+        return res.status(200).json({
+            message: `Account linked to User ID ${linkedUserId}.`,
+            action: 'link_success',
+            details: { userId: linkedUserId, absorbedUserId, linkedAccounts }
+        });
+    } catch (error) {
+        logger.error('Account Link Confirmation Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Account linking failed due to a server error.' : errorMessage,
+            action: 'link_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+router.post('/unlink', authenticateUser, async (req: Request, res: Response) => {
+    const userId = req.userId;
+
+    try {
+        const { account, previousUserId, newUserId } = await unlinkAccount(userId, req.platformId, req.platformName);
+
+        return res.status(200).json({
+            message: `Account unlinked. It now belongs to User ID ${newUserId}.`,
+            action: 'unlink_success',
+            details: {
+                accountId: account.id,
+                previousUserId,
+                newUserId
+            }
+        });
+    } catch (error) {
+        logger.error('Account Unlink Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Account unlinking failed due to a server error.' : errorMessage,
+            action: 'unlink_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+// -----------------------------------------------------------
+// 10. TRANSFER BETWEEN OWN LINKED ACCOUNTS
+// -----------------------------------------------------------
+router.post('/transfer', authenticateUser, async (req: Request, res: Response) => {
+    const { targetPlatform, amount } = req.body;
+    const userId = req.userId;
+    const targetPlatformName = typeof targetPlatform === 'string' ? targetPlatform.toUpperCase() : undefined;
+
+    if (!targetPlatformName || !(targetPlatformName in PlatformName)) {
+        return res.status(400).json({ error: "Missing or invalid targetPlatform." });
+    }
+    if (amount === undefined || isNaN(parseInt(amount)) || parseInt(amount) <= 0) {
+        return res.status(400).json({ error: "Missing or invalid transfer amount." });
+    }
+
+    try {
+        const { sourceAccount, targetAccount, targetCredited } = await transferBetweenAccounts(
+            userId,
+            req.platformId,
+            req.platformName,
+            targetPlatformName as PlatformName,
+            parseInt(amount)
+        );
+
+        // RETURN RESPONSE
+        return res.status(200).json({
+            message: `Moved ${parseInt(amount)} NUMBERS from ${sourceAccount.platformName} to ${targetAccount.platformName}.`,
+            action: 'transfer_success',
+            details: {
+                sourceAccountId: sourceAccount.id,
+                sourceBalance: sourceAccount.currentBalance,
+                targetAccountId: targetAccount.id,
+                targetBalance: targetAccount.currentBalance,
+                targetCredited
+            }
+        });
+    } catch (error) {
+        logger.error('Account Transfer Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Transfer failed due to a server error.' : errorMessage,
+            action: 'transfer_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+router.post('/transfer/auto', authenticateUser, async (req: Request, res: Response) => {
+    const { enabled } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ error: "Missing or invalid 'enabled' flag (true or false)." });
+    }
+
+    try {
+        // Only for the account the token belongs to: each account opts its own balance in
+        const sharesBalance = await setAccountBalanceShared(req.userId, req.platformId, req.platformName, enabled);
+
+        return res.status(200).json({
+            message: `Balance sharing is ${sharesBalance ? 'on' : 'off'} for this ${req.platformName} account.`,
+            action: 'transfer_auto_updated',
+            details: { sharesBalance }
+        });
+    } catch (error) {
+        logger.error('Balance Sharing Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Failed to update the spending preference.' : errorMessage,
+            action: 'transfer_auto_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+
+
+
+
+
+// -----------------------------------------------------------
+// 11. CHALLENGE EDIT (WEB FORM)
+// -----------------------------------------------------------
+/**
+ * POST /api/v1/user/challenge/:challengeId/edit/web
+ * * The author's revision of challengeText from the web form (link from !challengeedit), validating the JWT.
+ */
+router.post('/challenge/:challengeId/edit/web', async (req: Request, res: Response) => {
+    const { token, challengeText } = req.body;
+    const challengeId = parseInt(req.params.challengeId);
+    let userId: number;
+
+    // 1. JWT Authentication
+    try {
+        if (!token) {
+            return res.status(401).json({ error: "Missing authentication token." });
+        }
+
+        const payload = await verifyToken(token); // Throws if invalid/expired
+        userId = payload.userId;
+    } catch (error) {
+        logger.error('JWT Validation Error:', error);
+
+        let message = 'Authentication failed due to a server error.';
+        if (error instanceof Error && error.name === 'TokenExpiredError') {
+            message = 'Authentication failed. Your secure link has expired. Please run the chat command again to generate a new link.';
+        } else if (error instanceof Error && error.name === 'JsonWebTokenError') {
+            message = 'Authentication failed. Your secure link is invalid or malformed. Please run the chat command again to generate a new link.';
+        }
+
+        return res.status(401).json({
+            message,
+            action: 'jwt_auth_failure',
+            error: error instanceof Error ? error.message : 'Unknown authentication error.',
+        });
+    }
+
+    // 2. Input Validation (Post-Auth)
+    if (isNaN(challengeId)) {
+        return res.status(400).json({ error: "Invalid challengeId parameter." });
+    }
+    if (!challengeText) {
+        return res.status(400).json({ error: "Missing required field: challengeText." });
+    }
+
+    // 3. Process Edit
+    try {
+        const { challenge, revision, sentToReview } = await editChallengeText(userId, challengeId, challengeText);
+
+        // RETURN RESPONSE
+        return res.status(200).json({
+            message: sentToReview
+                ? `Challenge #${challengeId} updated to revision ${revision.revision}. Its new references need review, so it is back under review.`
+                : `Challenge #${challengeId} updated to revision ${revision.revision}.`,
+            action: 'challenge_edit_success',
+            details: {
+                challengeId,
+                revision: revision.revision,
+                status: challenge.status,
+                sentToReview,
+                challengeText: challenge.challengeText
+            }
+        });
+    } catch (error) {
+        logger.error('Challenge Edit Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Edit failed due to a server error.' : errorMessage,
+            action: 'challenge_edit_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+
+
+
+
+
+
+// -----------------------------------------------------------
+// 12. CHALLENGE PREREQUISITES (AUTHOR)
+// -----------------------------------------------------------
+/**
+ * POST /api/v1/user/challenge/:challengeId/prerequisites  { prerequisiteChallengeId }
+ * * The author declares a challenge that must be COMPLETED before theirs can start.
+ */
+router.post('/challenge/:challengeId/prerequisites', authenticateUser, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId);
+    const prerequisiteChallengeId = parseInt(req.body.prerequisiteChallengeId);
+
+    if (isNaN(challengeId) || isNaN(prerequisiteChallengeId)) {
+        return res.status(400).json({ error: "Missing or invalid challengeId or prerequisiteChallengeId." });
+    }
+
+    try {
+        await addPrerequisite(req.userId, challengeId, prerequisiteChallengeId);
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} now requires Challenge #${prerequisiteChallengeId} to be completed first.`,
+            action: 'prerequisite_added',
+            details: { challengeId, prerequisiteChallengeId }
+        });
+    } catch (error) {
+        logger.error('Add Prerequisite Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Failed to add the prerequisite due to a server error.' : errorMessage,
+            action: 'prerequisite_failure',
+            error: errorMessage,
+        });
+    }
+});
+
+router.delete('/challenge/:challengeId/prerequisites/:prerequisiteChallengeId', authenticateUser, async (req: Request, res: Response) => {
+    const challengeId = parseInt(req.params.challengeId);
+    const prerequisiteChallengeId = parseInt(req.params.prerequisiteChallengeId);
+
+    if (isNaN(challengeId) || isNaN(prerequisiteChallengeId)) {
+        return res.status(400).json({ error: "Invalid challengeId or prerequisiteChallengeId parameter." });
+    }
+
+    try {
+        await removePrerequisite(req.userId, challengeId, prerequisiteChallengeId);
+
+        return res.status(200).json({
+            message: `Challenge #${challengeId} no longer requires Challenge #${prerequisiteChallengeId}.`,
+            action: 'prerequisite_removed',
+            details: { challengeId, prerequisiteChallengeId }
+        });
+    } catch (error) {
+        logger.error('Remove Prerequisite Error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        const status = getServiceErrorStatus(errorMessage);
+
+        return res.status(status).json({
+            message: status === 500 ? 'Failed to remove the prerequisite due to a server error.' : errorMessage,
+            action: 'prerequisite_failure',
+            error: errorMessage,
+        });
+    }
+});
+
 
 
 
@@ -495,9 +1151,15 @@ router.post('/disrupt', authenticateUser, async (req: Request, res: Response) =>
 // -----------------------------------------------------------
 // GET ACTIVE CHALLENGES (No auth required)
 // -----------------------------------------------------------
+// Optional filters: ?category=rudiments&tags=ghost-notes,funk (every tag must match)
 router.get('/challenge/active', async (req: Request, res: Response) => {
+    const { category, tags } = req.query;
+
     try {
-        const challenges = await challengeService.getActiveChallenges();
+        const challenges = await challengeService.getActiveChallenges({
+            category: typeof category === 'string' ? category : undefined,
+            tags,
+        });
         
         // AUDIT LOG (Success) - Logging read operations is less critical, but good for tracking API usage.
         logger.info(`READ Success: Retrieved ${challenges.length} active challenges.`, {
@@ -564,7 +1226,7 @@ router.post('/challenge/remove', authenticateUser, async (req: Request, res: Res
         } else if (result.option === 'author_and_chest') { // Option B
             sinkMessage = `Your ${result.toAuthor} NUMBERS were refunded externally. The remaining ${result.toCommunityChest} NUMBERS were forfeited to the Community Chest.`;
         } else if (result.option === 'author_and_pushers') { // Option C
-            sinkMessage = `The total refund of ${result.totalRefundsAmount} NUMBERS was directed back to you and the contributing Pushers (${result.refundsProcessed} successful).`;
+            sinkMessage = `The total refund of ${result.totalRefundsAmount} NUMBERS was directed back to you and the contributing Pushers (${result.refundsProcessed} successful, ${result.failedRefunds} queued for retry).`;
         }
 
         // AUDIT LOG (Success)
@@ -1,7 +1,15 @@
 // src/scheduler.ts
 
 import * as cron from 'node-cron';
-import { processAutomaticSessionTick } from './services/challengeService';
+import { processAutomaticSessionTick, sweepStaleQuotes } from './services/challengeService';
+import { processDueAuctions } from './services/auctionService';
+import { payOutstandingCompletions } from './services/payoutService';
+import { resolveDuePredictionMarkets } from './services/predictionService';
+import { completeFinishedSeries } from './services/challengeSeriesService';
+import { processStaleCharges } from './services/chargeService';
+import { runBalanceReconciliation } from './services/reconciliationService';
+import { processDueRefunds } from './services/refundService';
+import { ReconciliationTrigger } from '@prisma/client';
 import { publishChallengeEvent, ChallengeEvents } from './services/eventService';
 import logger from './logger';
 
@@ -9,6 +17,14 @@ import logger from './logger';
 // Cron pattern: * * * * *
 // Syntax: (minute, hour, day of month, month, day of week)
 const SESSION_TICK_CRON = '*/10 * * * * *'; // Runs every 10 seconds
+const CHARGE_COMPENSATION_CRON = '* * * * *'; // Runs every minute
+const REFUND_QUEUE_CRON = '* * * * *'; // Runs every minute (each refund has its own backoff)
+const BALANCE_RECONCILIATION_CRON = '21 * * * *'; // Runs hourly, at minute 21
+const AUCTION_CLOSE_CRON = '* * * * *'; // Runs every minute
+const QUOTE_SWEEP_CRON = '*/5 * * * *'; // Runs every 5 minutes
+const COMPLETION_PAYOUT_CRON = '*/5 * * * *'; // Runs every 5 minutes (the event pays right away; this catches missed events)
+const PREDICTION_RESOLVE_CRON = '*/5 * * * *'; // Runs every 5 minutes (same safety net for prediction markets)
+const SERIES_COMPLETION_CRON = '*/5 * * * *'; // Runs every 5 minutes (same safety net for challenge series)
 
 export function startChallengeScheduler() {
     logger.info('Starting Challenge Scheduler...');
@@ -30,6 +46,106 @@ export function startChallengeScheduler() {
             logger.error('[Scheduler] Error during session tick:', error);
         }
     });
+
+    // Refunds Lumia charges whose local transaction never committed (see chargeService).
+    cron.schedule(CHARGE_COMPENSATION_CRON, async () => {
+        try {
+            const processed = await processStaleCharges();
+
+            if (processed > 0) {
+                logger.info(`[Scheduler] Compensated ${processed} stale Lumia charge(s).`);
+            }
+        } catch (error) {
+            logger.error('[Scheduler] Error during charge compensation:', error);
+        }
+    });
+
+    // Pays queued refunds whose retry time has come (see refundService).
+    cron.schedule(REFUND_QUEUE_CRON, async () => {
+        try {
+            const attempted = await processDueRefunds();
+
+            if (attempted > 0) {
+                logger.info(`[Scheduler] Attempted ${attempted} queued refund(s).`);
+            }
+        } catch (error) {
+            logger.error('[Scheduler] Error during refund queue processing:', error);
+        }
+    });
+
+    // Corrects Account.currentBalance from Lumia and reports drift (see reconciliationService).
+    cron.schedule(BALANCE_RECONCILIATION_CRON, async () => {
+        try {
+            await runBalanceReconciliation(ReconciliationTrigger.SCHEDULED);
+        } catch (error) {
+            logger.error('[Scheduler] Error during balance reconciliation:', error);
+        }
+    });
+
+    // Settles auctions whose timer or stream-day count has run out (see auctionService).
+    cron.schedule(AUCTION_CLOSE_CRON, async () => {
+        try {
+            const closed = await processDueAuctions();
+
+            if (closed > 0) {
+                logger.info(`[Scheduler] Closed ${closed} auction(s).`);
+            }
+        } catch (error) {
+            logger.error('[Scheduler] Error during auction closing:', error);
+        }
+    });
+
+    // Deletes expired push quotes and quotes left locked by a crashed confirm (see challengeService).
+    cron.schedule(QUOTE_SWEEP_CRON, async () => {
+        try {
+            const swept = await sweepStaleQuotes();
+
+            if (swept > 0) {
+                logger.info(`[Scheduler] Swept ${swept} stale push quote(s).`);
+            }
+        } catch (error) {
+            logger.error('[Scheduler] Error during quote sweep:', error);
+        }
+    });
+
+    // Pays COMPLETED challenges whose CHALLENGE_COMPLETED payout never ran (see payoutService).
+    cron.schedule(COMPLETION_PAYOUT_CRON, async () => {
+        try {
+            const paid = await payOutstandingCompletions();
+
+            if (paid > 0) {
+                logger.info(`[Scheduler] Paid out ${paid} completed challenge(s).`);
+            }
+        } catch (error) {
+            logger.error('[Scheduler] Error during completion payouts:', error);
+        }
+    });
+
+    // Resolves prediction markets whose challenge was decided without the event reaching them (see predictionService).
+    cron.schedule(PREDICTION_RESOLVE_CRON, async () => {
+        try {
+            const resolved = await resolveDuePredictionMarkets();
+
+            if (resolved > 0) {
+                logger.info(`[Scheduler] Resolved ${resolved} prediction market(s).`);
+            }
+        } catch (error) {
+            logger.error('[Scheduler] Error during prediction market resolution:', error);
+        }
+    });
+
+    // Completes challenge series whose last CHALLENGE_COMPLETED event never reached them (see challengeSeriesService).
+    cron.schedule(SERIES_COMPLETION_CRON, async () => {
+        try {
+            const completed = await completeFinishedSeries();
+
+            if (completed > 0) {
+                logger.info(`[Scheduler] Completed ${completed} challenge series.`);
+            }
+        } catch (error) {
+            logger.error('[Scheduler] Error during series completion:', error);
+        }
+    });
     
     logger.info('Challenge Scheduler armed to check every minute.');
 }
\ No newline at end of file
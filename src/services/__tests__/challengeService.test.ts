@@ -0,0 +1,95 @@
+import { ChallengeStatus, LedgerReason } from '@prisma/client';
+import { createFakePrismaClient, FakePush, groupPushesByUser } from './fakePrismaClient';
+import { enqueueRefund, processRefundsNow } from '../refundService';
+
+jest.mock('../../prisma', () => ({ __esModule: true, default: require('./fakePrismaClient').createFakePrismaClient() }));
+jest.mock('../../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../refundService', () => ({ enqueueRefund: jest.fn(), processRefundsNow: jest.fn() }));
+jest.mock('../streamService', () => ({ getCurrentStreamSessionId: () => null, isStreamLive: () => false }));
+jest.mock('../eventService', () => ({ ...jest.requireActual('../eventService'), publishChallengeEvent: jest.fn() }));
+
+import prisma from '../../prisma';
+import { processRemove } from '../challengeService';
+import { settleChallenge } from '../settlementService';
+
+const AUTHOR = 1;
+const PUSHER = 2;
+const CHALLENGE_ID = 7;
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 9, 1, 12, minutes));
+
+const tx = prisma as unknown as ReturnType<typeof createFakePrismaClient>;
+
+/**
+ * Serves the challenge to both processRemove and the state machine, as an ACTIVE one.
+ */
+function givenChallenge(timestampSettled: Date | null, pushes: FakePush[]) {
+    const challenge = { challengeId: CHALLENGE_ID, proposerUserId: AUTHOR, status: ChallengeStatus.ACTIVE, timestampSettled };
+    tx.challenge.findUnique.mockResolvedValue(challenge);
+    tx.challenge.findUniqueOrThrow.mockResolvedValue({ ...challenge, status: ChallengeStatus.REMOVED });
+    tx.push.groupBy.mockImplementation(groupPushesByUser(pushes));
+}
+
+/**
+ * Every refund queued so far, per user.
+ */
+function queuedRefundsByUser(): Map<number, number> {
+    const totals = new Map<number, number>();
+    for (const [, request] of jest.mocked(enqueueRefund).mock.calls) {
+        totals.set(request.userId, (totals.get(request.userId) ?? 0) + request.amount);
+    }
+    return totals;
+}
+
+describe('processRemove', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        let nextRefundId = 1;
+        jest.mocked(enqueueRefund).mockImplementation(async () => ({ id: nextRefundId++ }) as any);
+        jest.mocked(processRefundsNow).mockImplementation(async (ids) => ({ succeeded: ids.length, queued: 0 }));
+    });
+
+    it('refunds 21% of every push to the author and the pushers (Option C)', async () => {
+        givenChallenge(null, [
+            { challengeId: CHALLENGE_ID, userId: PUSHER, cost: 1000, timestamp: new Date(0) },
+            { challengeId: CHALLENGE_ID, userId: AUTHOR, cost: 500, timestamp: new Date(0) },
+        ]);
+
+        const result = await processRemove(AUTHOR, CHALLENGE_ID, 'author_and_pushers');
+
+        expect(result).toMatchObject({ totalRefundsAmount: 315, toAuthor: 105, toExternalPushers: 210, toCommunityChest: 0 });
+        expect(queuedRefundsByUser()).toEqual(new Map([[PUSHER, 210], [AUTHOR, 105]]));
+    });
+
+    it('does not refund pushes an earlier settlement already refunded', async () => {
+        // Archived (and settled) at minute 5, dug out, pushed again, then removed.
+        givenChallenge(at(5), [
+            { challengeId: CHALLENGE_ID, userId: PUSHER, cost: 1000, timestamp: at(1) },
+            { challengeId: CHALLENGE_ID, userId: AUTHOR, cost: 500, timestamp: at(2) },
+            { challengeId: CHALLENGE_ID, userId: PUSHER, cost: 200, timestamp: at(6) },
+        ]);
+
+        const result = await processRemove(AUTHOR, CHALLENGE_ID, 'author_and_pushers');
+
+        expect(result).toMatchObject({ totalRefundsAmount: 42, toAuthor: 0, toExternalPushers: 42 });
+        expect(queuedRefundsByUser()).toEqual(new Map([[PUSHER, 42]]));
+        expect(tx.challenge.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({ numbersRaised: { increment: 200 }, status: ChallengeStatus.REMOVED }),
+        }));
+    });
+
+    it('refunds each push once across an ARCHIVED settlement and a later removal', async () => {
+        const pushes: FakePush[] = [
+            { challengeId: CHALLENGE_ID, userId: PUSHER, cost: 1000, timestamp: at(1) },
+            { challengeId: CHALLENGE_ID, userId: AUTHOR, cost: 500, timestamp: at(2) },
+        ];
+        givenChallenge(null, pushes);
+        await settleChallenge(tx as any, { challengeId: CHALLENGE_ID, proposerUserId: AUTHOR, timestampSettled: null }, 'ARCHIVED', at(5));
+
+        givenChallenge(at(5), pushes);
+        await processRemove(AUTHOR, CHALLENGE_ID, 'author_and_pushers');
+
+        expect(queuedRefundsByUser()).toEqual(new Map([[PUSHER, 210], [AUTHOR, 105]]));
+        expect(tx.ledgerEntry.createMany.mock.calls.filter(([{ data }]) => data[0].reason === LedgerReason.REMOVAL_REFUND_PUSHER)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,74 @@
+// src/services/__tests__/fakePrismaClient.ts
+// A stand-in for the Prisma client (and its transaction client) in unit tests.
+// Every model method is a jest.fn created on first use: tests give the ones they care about an
+// implementation, the others resolve to a harmless default (updateMany -> { count: 1 }).
+// $transaction runs an interactive callback against the same fake, or resolves an array of calls.
+
+export type FakeModel = Record<string, jest.Mock>;
+export type FakePrismaClient = Record<string, FakeModel> & { $transaction: jest.Mock };
+
+const DEFAULT_RESULTS: Record<string, unknown> = {
+    updateMany: { count: 1 },
+    deleteMany: { count: 0 },
+    createMany: { count: 0 },
+    findMany: [],
+    groupBy: [],
+};
+
+/**
+ * Creates a fake client whose models and methods appear as they are first used.
+ */
+export function createFakePrismaClient(): FakePrismaClient {
+    const models = new Map<string, FakeModel>();
+
+    const modelFor = (name: string): FakeModel => {
+        if (!models.has(name)) {
+            const methods = new Map<string, jest.Mock>();
+            models.set(name, new Proxy({} as FakeModel, {
+                get: (_target, method: string) => {
+                    if (!methods.has(method)) {
+                        methods.set(method, jest.fn().mockResolvedValue(DEFAULT_RESULTS[method]));
+                    }
+                    return methods.get(method);
+                },
+            }));
+        }
+        return models.get(name)!;
+    };
+
+    const client = new Proxy({} as FakePrismaClient, {
+        get: (_target, property: string) => property === '$transaction' ? transaction : modelFor(property),
+    });
+
+    const transaction = jest.fn(async (work: unknown) =>
+        typeof work === 'function' ? work(client) : Promise.all(work as Promise<unknown>[]));
+
+    return client;
+}
+
+
+export interface FakePush {
+    challengeId: number;
+    userId: number;
+    cost: number;
+    timestamp: Date;
+}
+
+/**
+ * push.groupBy({ by: ['userId'], _sum: { cost } }) over in-memory pushes, honouring the
+ * challengeId and timestamp (lte / gt) filters the settlement queries use.
+ */
+export function groupPushesByUser(pushes: FakePush[]) {
+    return async ({ where }: { where: { challengeId: number; timestamp?: { lte?: Date; gt?: Date } } }) => {
+        const sums = new Map<number, number>();
+
+        for (const push of pushes) {
+            if (push.challengeId !== where.challengeId) continue;
+            if (where.timestamp?.lte && push.timestamp > where.timestamp.lte) continue;
+            if (where.timestamp?.gt && push.timestamp <= where.timestamp.gt) continue;
+            sums.set(push.userId, (sums.get(push.userId) ?? 0) + push.cost);
+        }
+
+        return [...sums].map(([userId, cost]) => ({ userId, _sum: { cost } }));
+    };
+}
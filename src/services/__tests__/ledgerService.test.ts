@@ -0,0 +1,139 @@
+import { LedgerReason } from '@prisma/client';
+import { createFakePrismaClient } from './fakePrismaClient';
+
+jest.mock('../../prisma', () => ({ __esModule: true, default: require('./fakePrismaClient').createFakePrismaClient() }));
+
+import prisma from '../../prisma';
+import {
+    COMMUNITY_CHEST,
+    ESCROW,
+    TREASURY,
+    getGlobalLedgerTotals,
+    getUserLedgerTotals,
+    LedgerTransfer,
+    rebuildUserTotalsFromLedger,
+    recordLedgerTransfer,
+    userParty,
+} from '../ledgerService';
+
+const AUTHOR = 1;
+const PUSHER = 2;
+const CHALLENGE_ID = 7;
+
+const client = prisma as unknown as ReturnType<typeof createFakePrismaClient>;
+const proposerByChallenge = new Map([[CHALLENGE_ID, AUTHOR]]);
+
+type Row = Record<string, any>;
+
+/**
+ * Prisma's where semantics for the ledger filters used by ledgerService.
+ */
+function matches(row: Row, where: Row = {}): boolean {
+    return Object.entries(where).every(([field, condition]) => {
+        if (field === 'challenge') {
+            return proposerByChallenge.get(row.challengeId) === condition.proposerUserId;
+        }
+        if (condition !== null && typeof condition === 'object' && 'in' in condition) {
+            return condition.in.includes(row[field]);
+        }
+        return row[field] === condition;
+    });
+}
+
+const sumOf = (rows: Row[]) => rows.reduce((sum, row) => sum + row.amount, 0n);
+
+describe('ledger read paths', () => {
+    let ledger: Row[];
+    let users: Row[];
+
+    beforeEach(async () => {
+        ledger = [];
+        users = [
+            {
+                id: AUTHOR,
+                ledgerBaselineNumbersSpent: 5000n,
+                ledgerBaselineReceivedFromRemovals: 30,
+                ledgerBaselineCausedByRemovals: 400n,
+                ledgerBaselineToCommunityChest: 100n,
+                ledgerBaselineToPushers: 200n,
+            },
+            {
+                id: PUSHER,
+                ledgerBaselineNumbersSpent: 0n,
+                ledgerBaselineReceivedFromRemovals: 0,
+                ledgerBaselineCausedByRemovals: 0n,
+                ledgerBaselineToCommunityChest: 0n,
+                ledgerBaselineToPushers: 0n,
+            },
+        ];
+
+        client.ledgerEntry.createMany.mockImplementation(async ({ data }: { data: Row[] }) => { ledger.push(...data); });
+        client.ledgerEntry.aggregate.mockImplementation(async ({ where }: Row) => ({ _sum: { amount: sumOf(ledger.filter(row => matches(row, where))) } }));
+        client.ledgerEntry.groupBy.mockImplementation(async ({ by, where }: Row) => {
+            const groups = new Map<string, Row[]>();
+            for (const row of ledger.filter(row => matches(row, where))) {
+                const key = JSON.stringify(by.map((field: string) => row[field]));
+                groups.set(key, [...(groups.get(key) ?? []), row]);
+            }
+            return [...groups.values()].map(rows => ({
+                ...Object.fromEntries(by.map((field: string) => [field, rows[0][field]])),
+                _sum: { amount: sumOf(rows) },
+            }));
+        });
+        client.challenge.findMany.mockResolvedValue([{ challengeId: CHALLENGE_ID, proposerUserId: AUTHOR }]);
+        client.user.findMany.mockResolvedValue(users);
+        client.user.findUnique.mockImplementation(async ({ where }: Row) => users.find(user => user.id === where.id) ?? null);
+        client.user.aggregate.mockImplementation(async ({ _sum }: Row) => ({
+            _sum: Object.fromEntries(Object.keys(_sum).map(field => [field, users.reduce((sum, user) => sum + user[field], 0n)])),
+        }));
+        client.user.update.mockImplementation(async (update: Row) => update);
+
+        // Written through the real write side, so both legs look as they do in production.
+        const transfers: LedgerTransfer[] = [
+            { from: userParty(AUTHOR), to: TREASURY, amount: 300, reason: LedgerReason.SUBMISSION },
+            { from: userParty(AUTHOR), to: TREASURY, amount: 1000, reason: LedgerReason.PUSH },
+            { from: userParty(AUTHOR), to: ESCROW, amount: 500, reason: LedgerReason.AUCTION_BID },
+            { from: ESCROW, to: userParty(AUTHOR), amount: 500, reason: LedgerReason.AUCTION_REFUND },
+            { from: TREASURY, to: userParty(AUTHOR), amount: 150, reason: LedgerReason.MODERATION_REFUND },
+            { from: TREASURY, to: userParty(PUSHER), amount: 42, reason: LedgerReason.REMOVAL_REFUND_PUSHER, challengeId: CHALLENGE_ID },
+            { from: TREASURY, to: COMMUNITY_CHEST, amount: 63, reason: LedgerReason.REMOVAL_FORFEIT, challengeId: CHALLENGE_ID },
+        ];
+        for (const transfer of transfers) {
+            await recordLedgerTransfer(client as any, transfer);
+        }
+    });
+
+    it('adds the pre-ledger baseline and nets out auction and moderation refunds per user', async () => {
+        await expect(getUserLedgerTotals(AUTHOR)).resolves.toMatchObject({
+            totalSpent: 5000n + 300n + 1000n + 500n - 500n - 150n,
+            receivedFromRemovals: 30n,
+            causedByRemovals: 400n + 42n + 63n,
+        });
+        await expect(getUserLedgerTotals(PUSHER)).resolves.toMatchObject({ totalSpent: 0n, receivedFromRemovals: 42n });
+    });
+
+    it('adds the pre-ledger baselines and counts moderation refunds in the game-wide totals', async () => {
+        await expect(getGlobalLedgerTotals()).resolves.toEqual({
+            grossSpent: 300n + 1000n + 5000n,
+            refunded: 42n + 63n + 150n + 400n,
+            toCommunityChest: 63n + 100n,
+            toPushers: 42n + 200n,
+            toAuthors: 400n - 100n - 200n,
+        });
+    });
+
+    it('agrees with the counters rebuilt from the ledger', async () => {
+        await rebuildUserTotalsFromLedger();
+
+        const rebuilt = new Map(client.user.update.mock.calls.map(([{ where, data }]) => [where.id, data]));
+
+        for (const userId of [AUTHOR, PUSHER]) {
+            const totals = await getUserLedgerTotals(userId);
+            expect(rebuilt.get(userId)).toMatchObject({
+                totalNumbersSpent: totals.totalSpent,
+                totalReceivedFromRemovals: Number(totals.receivedFromRemovals),
+                totalCausedByRemovals: totals.causedByRemovals,
+            });
+        }
+    });
+});
@@ -0,0 +1,84 @@
+import { LedgerReason } from '@prisma/client';
+import { createFakePrismaClient, FakePrismaClient, groupPushesByUser } from './fakePrismaClient';
+import { enqueueRefund } from '../refundService';
+import { settleChallenge } from '../settlementService';
+
+jest.mock('../../prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../../logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../refundService', () => ({ enqueueRefund: jest.fn(), processRefundsNow: jest.fn() }));
+jest.mock('../streamService', () => ({ getCurrentStreamSessionId: () => null }));
+
+const AUTHOR = 1;
+const PUSHER = 2;
+const CHALLENGE_ID = 7;
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 9, 1, 12, minutes));
+
+/**
+ * The ledger transfers written through tx.ledgerEntry.createMany, as { reason, to, amount }.
+ */
+function ledgerTransfers(tx: FakePrismaClient) {
+    return tx.ledgerEntry.createMany.mock.calls.map(([{ data }]) => {
+        const credit = data.find((row: any) => row.direction === 'CREDIT');
+        return { reason: credit.reason, to: credit.accountUserId ?? credit.accountType, amount: Number(credit.amount) };
+    });
+}
+
+describe('settleChallenge', () => {
+    let tx: FakePrismaClient;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        tx = createFakePrismaClient();
+        let nextRefundId = 1;
+        jest.mocked(enqueueRefund).mockImplementation(async () => ({ id: nextRefundId++ }) as any);
+    });
+
+    it('refunds pushers and the author on ARCHIVED, with nothing for the Community Chest', async () => {
+        tx.push.groupBy.mockImplementation(groupPushesByUser([
+            { challengeId: CHALLENGE_ID, userId: PUSHER, cost: 1000, timestamp: at(1) },
+            { challengeId: CHALLENGE_ID, userId: AUTHOR, cost: 500, timestamp: at(2) },
+        ]));
+
+        const outcome = await settleChallenge(tx as any, { challengeId: CHALLENGE_ID, proposerUserId: AUTHOR, timestampSettled: null }, 'ARCHIVED', at(10));
+
+        expect(outcome).toMatchObject({ numbersSettled: 1500, toPushers: 210, toAuthor: 105, toCommunityChest: 0, refundIds: [1, 2] });
+        expect(jest.mocked(enqueueRefund).mock.calls.map(([, request]) => request)).toEqual([
+            { userId: PUSHER, amount: 210, reason: LedgerReason.REMOVAL_REFUND_PUSHER, challengeId: CHALLENGE_ID },
+            { userId: AUTHOR, amount: 105, reason: LedgerReason.REMOVAL_REFUND_AUTHOR, challengeId: CHALLENGE_ID },
+        ]);
+        expect(ledgerTransfers(tx)).toEqual([
+            { reason: LedgerReason.REMOVAL_REFUND_PUSHER, to: PUSHER, amount: 210 },
+            { reason: LedgerReason.REMOVAL_REFUND_AUTHOR, to: AUTHOR, amount: 105 },
+        ]);
+        expect(tx.challenge.update).toHaveBeenCalledWith({
+            where: { challengeId: CHALLENGE_ID },
+            data: { numbersRaised: { increment: 1500 }, timestampSettled: at(10) },
+        });
+    });
+
+    it('sends the Community Chest its share on FAILED and refunds no one but the pushers', async () => {
+        tx.push.groupBy.mockImplementation(groupPushesByUser([
+            { challengeId: CHALLENGE_ID, userId: PUSHER, cost: 1000, timestamp: at(1) },
+            { challengeId: CHALLENGE_ID, userId: AUTHOR, cost: 1000, timestamp: at(2) },
+        ]));
+
+        const outcome = await settleChallenge(tx as any, { challengeId: CHALLENGE_ID, proposerUserId: AUTHOR, timestampSettled: null }, 'FAILED', at(10));
+
+        expect(outcome).toMatchObject({ numbersSettled: 2000, toPushers: 210, toAuthor: 0, toCommunityChest: 420 });
+        expect(enqueueRefund).toHaveBeenCalledTimes(1);
+        expect(ledgerTransfers(tx)).toContainEqual({ reason: LedgerReason.REMOVAL_FORFEIT, to: 'COMMUNITY_CHEST', amount: 420 });
+    });
+
+    it('only settles the pushes made since the previous settlement', async () => {
+        tx.push.groupBy.mockImplementation(groupPushesByUser([
+            { challengeId: CHALLENGE_ID, userId: PUSHER, cost: 1000, timestamp: at(1) }, // Settled at at(5)
+            { challengeId: CHALLENGE_ID, userId: PUSHER, cost: 100, timestamp: at(6) },
+            { challengeId: CHALLENGE_ID, userId: PUSHER, cost: 900, timestamp: at(11) }, // After this settlement
+        ]));
+
+        const outcome = await settleChallenge(tx as any, { challengeId: CHALLENGE_ID, proposerUserId: AUTHOR, timestampSettled: at(5) }, 'ARCHIVED', at(10));
+
+        expect(outcome).toMatchObject({ numbersSettled: 100, toPushers: 21, toAuthor: 0 });
+    });
+});
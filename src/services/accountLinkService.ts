@@ -0,0 +1,432 @@
+// src/services/accountLinkService.ts
+// Links several platform accounts (Twitch, YouTube, Kick...) into one central User identity.
+// !link on one platform issues a one-time code; !link <code> on another platform asks to join,
+// and !link confirm <username> back on the issuing account merges the requesting account's User
+// into the issuer's User: Accounts, Pushes, Challenges, Ledger history and the cached stat
+// counters all move over, then the absorbed User is deleted. The code is shown in public chat,
+// so it grants nothing on its own: only the issuing account can accept who used it.
+// !unlink detaches an Account again into a brand-new User (past history stays where it is).
+import { randomInt } from 'crypto';
+import { Account, PlatformName, Prisma, User } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { ADMIN_USER_ID, LINK_CODE_LENGTH, LINK_CODE_TTL_MS } from '../config/gameConfig';
+import { createNewCentralUser } from './userService';
+
+
+// No 0/O or 1/I/L: the code is read from chat and typed on another platform.
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export interface LinkCodeResult {
+    code: string;
+    expiresAt: Date;
+}
+
+export interface LinkRequestResult {
+    issuerPlatformName: PlatformName; // Where the request must be confirmed
+    requesterName: string;            // What the issuer types in !link confirm
+    expiresAt: Date;
+}
+
+export interface LinkResult {
+    userId: number;         // The surviving User
+    absorbedUserId: number; // The User merged into it (now deleted)
+    linkedAccounts: number; // Accounts under the surviving User after the merge
+}
+
+export interface UnlinkResult {
+    account: Account;
+    previousUserId: number;
+    newUserId: number;
+}
+
+
+/**
+ * Generates a random code from the unambiguous alphabet.
+ */
+function generateLinkCode(): string {
+    let code = '';
+    for (let i = 0; i < LINK_CODE_LENGTH; i++) {
+        code += LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)];
+    }
+    return code;
+}
+
+/**
+ * Resolves the caller's Account and rejects the internal GAME_MASTER accounts (e.g. the Community Chest).
+ */
+async function findLinkableAccount(
+    tx: Prisma.TransactionClient,
+    userId: number,
+    platformId: string,
+    platformName: PlatformName
+): Promise<Account> {
+    const account = await tx.account.findUnique({
+        where: { platformId_platformName: { platformId, platformName } },
+    });
+
+    if (!account || account.userId !== userId) {
+        throw new Error(`Account not found for user ${userId} on platform ${platformName}.`);
+    }
+    if (account.platformName === PlatformName.GAME_MASTER) {
+        throw new Error('Account linking is not available for GAME_MASTER accounts.');
+    }
+
+    return account;
+}
+
+/**
+ * The name an account is confirmed by: its username, or its platform ID when it has none.
+ */
+function linkNameOf(account: Pick<Account, 'username' | 'platformId'>): string {
+    return account.username ?? account.platformId;
+}
+
+const laterOf = (a: Date | null, b: Date | null): Date | null =>
+    a && b ? (a > b ? a : b) : (a ?? b);
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// ISSUE A LINK CODE (!link)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Issues a one-time link code for the caller's User. Any code the User had not redeemed yet is discarded.
+ * @returns The code and its expiry (LINK_CODE_TTL_MS).
+ */
+export async function issueLinkCode(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName
+): Promise<LinkCodeResult> {
+    const expiresAt = new Date(Date.now() + LINK_CODE_TTL_MS);
+
+    return prisma.$transaction(async (tx) => {
+        const account = await findLinkableAccount(tx, userId, platformId, platformName);
+
+        await tx.accountLinkCode.deleteMany({
+            where: { userId, redeemedAt: null },
+        });
+
+        // Codes are unique: draw again on the (rare) collision with an existing one.
+        let code = generateLinkCode();
+        while (await tx.accountLinkCode.findUnique({ where: { code } })) {
+            code = generateLinkCode();
+        }
+
+        await tx.accountLinkCode.create({
+            data: { code, userId, accountId: account.id, expiresAt },
+        });
+
+        logger.info(`Link Code: User ${userId} issued a link code from ${platformName}.`, {
+            userId,
+            platformId,
+            action: 'link_code_issued',
+        });
+
+        return { code, expiresAt };
+    });
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// REQUEST A LINK (!link <code>)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Uses a link code from another account: asks to join the code's User. Nothing is merged yet.
+ * 1. Validates the code (exists, not used, not expired) and the two identities.
+ * 2. Claims the code for this account (compare-and-set on requestedAt), so it can only ever be used once.
+ * The issuing account then accepts with confirmLinkRequest (or ignores it and the code expires).
+ * The Game Master identity can absorb accounts but is never absorbed itself.
+ */
+export async function redeemLinkCode(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName,
+    code: string
+): Promise<LinkRequestResult> {
+    const normalizedCode = code.trim().toUpperCase();
+    const now = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+        // 1. Validation
+        const account = await findLinkableAccount(tx, userId, platformId, platformName);
+        const linkCode = await tx.accountLinkCode.findUnique({
+            where: { code: normalizedCode },
+            include: { account: { select: { platformName: true } } },
+        });
+
+        if (!linkCode || linkCode.requestedAt || linkCode.redeemedAt || linkCode.expiresAt <= now) {
+            throw new Error('Link code is invalid or has expired. Run !link on your main account for a new one.');
+        }
+        if (linkCode.userId === account.userId) {
+            throw new Error('These accounts are already linked to the same user.');
+        }
+        if (account.userId === ADMIN_USER_ID) {
+            throw new Error('The Game Master identity cannot be merged into another user. Issue the code from the Game Master account instead.');
+        }
+
+        // 2. Claim the code for this account
+        const { count } = await tx.accountLinkCode.updateMany({
+            where: { id: linkCode.id, requestedAt: null, redeemedAt: null },
+            data: { requestedAt: now, redeemedByAccountId: account.id },
+        });
+
+        if (count === 0) {
+            throw new Error('Link code is invalid or has expired. Run !link on your main account for a new one.');
+        }
+
+        return {
+            issuerPlatformName: linkCode.account.platformName,
+            requesterName: linkNameOf(account),
+            expiresAt: linkCode.expiresAt,
+            issuerUserId: linkCode.userId,
+        };
+    });
+
+    logger.info(`Account Link: User ${userId} asked to join User ${result.issuerUserId} from ${platformName}.`, {
+        userId,
+        issuerUserId: result.issuerUserId,
+        platformId,
+        action: 'account_link_requested',
+    });
+
+    const { issuerUserId, ...request } = result;
+    return request;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// CONFIRM A LINK (!link confirm <username>)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Accepts the pending request on the code issued from the caller's account, merging the requesting
+ * account's User into the caller's User.
+ * 1. The issuer names the account it expects; a request from anyone else is refused.
+ * 2. Closes the code (compare-and-set on redeemedAt) and merges (see mergeUsers).
+ * @param requesterName - The requesting account's username (with or without '@').
+ */
+export async function confirmLinkRequest(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName,
+    requesterName: string
+): Promise<LinkResult> {
+    const expectedName = requesterName.trim().replace(/^@+/, '').toLowerCase();
+    const now = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+        // 1. Validation: only the account that issued the code can accept
+        const account = await findLinkableAccount(tx, userId, platformId, platformName);
+        const linkCode = await tx.accountLinkCode.findFirst({
+            where: { accountId: account.id, requestedAt: { not: null }, redeemedAt: null, expiresAt: { gt: now } },
+            include: { redeemedByAccount: true },
+            orderBy: { createdAt: 'desc' },
+        });
+        const requester = linkCode?.redeemedByAccount;
+
+        if (!linkCode || !requester) {
+            throw new Error('No link request is waiting for confirmation. Run !link [code] from your other account first.');
+        }
+        if (linkNameOf(requester).toLowerCase() !== expectedName) {
+            throw new Error(`The pending link request comes from another account (${requester.platformName} @${linkNameOf(requester)}). Run !link for a new code if that is not you.`);
+        }
+        if (requester.userId === linkCode.userId) {
+            throw new Error('These accounts are already linked to the same user.');
+        }
+        if (requester.userId === ADMIN_USER_ID) {
+            throw new Error('The Game Master identity cannot be merged into another user. Issue the code from the Game Master account instead.');
+        }
+
+        // 2. Close the code, then merge
+        const { count } = await tx.accountLinkCode.updateMany({
+            where: { id: linkCode.id, redeemedAt: null, redeemedByAccountId: requester.id },
+            data: { redeemedAt: now, mergedUserId: requester.userId },
+        });
+
+        if (count === 0) {
+            throw new Error('No link request is waiting for confirmation. Run !link [code] from your other account first.');
+        }
+
+        await mergeUsers(tx, linkCode.userId, requester.userId, now);
+
+        const linkedAccounts = await tx.account.count({ where: { userId: linkCode.userId } });
+
+        return { userId: linkCode.userId, absorbedUserId: requester.userId, linkedAccounts, requesterPlatformName: requester.platformName };
+    });
+
+    logger.info(`Account Link: User ${result.absorbedUserId} merged into User ${result.userId} via ${result.requesterPlatformName}, confirmed from ${platformName} (${result.linkedAccounts} accounts linked).`, {
+        userId: result.userId,
+        absorbedUserId: result.absorbedUserId,
+        platformId,
+        action: 'account_link',
+    });
+
+    const { requesterPlatformName, ...linkResult } = result;
+    return linkResult;
+}
+
+/**
+ * Moves everything owned by `absorbedUserId` to `survivingUserId`, folds the cached counters and
+ * deletes the absorbed User. MUST run inside the confirmation's transaction: a row missed here makes
+ * the final delete fail on its foreign key and the whole merge rolls back.
+ * Lifetime counters are summed, watermarks and timestamps keep the latest value, and the daily
+ * submission count only carries over while the absorbed User's daily window is still open.
+ * Challenges both Users pushed get their uniquePusher recounted from the Push rows.
+ */
+async function mergeUsers(
+    tx: Prisma.TransactionClient,
+    survivingUserId: number,
+    absorbedUserId: number,
+    mergedAt: Date
+): Promise<User> {
+    const survivor = await tx.user.findUniqueOrThrow({ where: { id: survivingUserId } });
+    const absorbed = await tx.user.findUniqueOrThrow({ where: { id: absorbedUserId } });
+
+    const from = absorbedUserId;
+    const to = survivingUserId;
+
+    // Challenges both Users pushed: their uniquePusher drops once the pushes share one User.
+    const absorbedPushedChallenges = await tx.push.findMany({
+        where: { userId: from },
+        distinct: ['challengeId'],
+        select: { challengeId: true },
+    });
+    const sharedChallenges = await tx.push.findMany({
+        where: { userId: to, challengeId: { in: absorbedPushedChallenges.map(push => push.challengeId) } },
+        distinct: ['challengeId'],
+        select: { challengeId: true },
+    });
+
+    // 1. Owned rows
+    // Balance sharing was consented to among the absorbed User's accounts: it does not carry over.
+    await tx.account.updateMany({ where: { userId: from }, data: { userId: to, sharesBalance: false } });
+    await tx.challenge.updateMany({ where: { proposerUserId: from }, data: { proposerUserId: to } });
+    await tx.push.updateMany({ where: { userId: from }, data: { userId: to } });
+    await tx.tempQuote.updateMany({ where: { userId: from }, data: { userId: to } });
+    await tx.perennialToken.updateMany({ where: { userId: from }, data: { userId: to } });
+    await tx.ledgerEntry.updateMany({ where: { accountUserId: from }, data: { accountUserId: to } });
+    await tx.ledgerEntry.updateMany({ where: { counterpartyUserId: from }, data: { counterpartyUserId: to } });
+    await tx.pendingCharge.updateMany({ where: { userId: from }, data: { userId: to } });
+    await tx.pendingRefund.updateMany({ where: { userId: from }, data: { userId: to } });
+    await tx.auction.updateMany({ where: { openedByUserId: from }, data: { openedByUserId: to } });
+    await tx.auction.updateMany({ where: { winnerUserId: from }, data: { winnerUserId: to } });
+    await tx.auctionBid.updateMany({ where: { userId: from }, data: { userId: to } });
+    await tx.disrupt.updateMany({ where: { userId: from }, data: { userId: to } });
+    await tx.queueOverride.updateMany({ where: { createdByUserId: from }, data: { createdByUserId: to } });
+    await tx.reconciliationRun.updateMany({ where: { triggeredByUserId: from }, data: { triggeredByUserId: to } });
+    await tx.matchingRound.updateMany({ where: { triggeredByUserId: from }, data: { triggeredByUserId: to } });
+    await tx.economyConfig.updateMany({ where: { proposedByUserId: from }, data: { proposedByUserId: to } });
+    await tx.challengeStatusAudit.updateMany({ where: { actorUserId: from }, data: { actorUserId: to } });
+    await tx.moderationDecision.updateMany({ where: { decidedByUserId: from }, data: { decidedByUserId: to } });
+    await tx.challengeRevision.updateMany({ where: { editedByUserId: from }, data: { editedByUserId: to } });
+    await tx.challengePrerequisite.updateMany({ where: { createdByUserId: from }, data: { createdByUserId: to } });
+    await tx.challengeSeries.updateMany({ where: { createdByUserId: from }, data: { createdByUserId: to } });
+    await tx.predictionStake.updateMany({ where: { userId: from }, data: { userId: to } });
+    await tx.gift.updateMany({ where: { senderUserId: from }, data: { senderUserId: to } });
+    await tx.gift.updateMany({ where: { recipientUserId: from }, data: { recipientUserId: to } });
+
+    // Codes the absorbed User issued but never used are void; redeemed ones are kept for the audit trail.
+    await tx.accountLinkCode.deleteMany({ where: { userId: from, redeemedAt: null } });
+    await tx.accountLinkCode.updateMany({ where: { userId: from }, data: { userId: to } });
+
+    // 2. Counters
+    for (const { challengeId } of sharedChallenges) {
+        const pushers = await tx.push.findMany({
+            where: { challengeId },
+            distinct: ['userId'],
+            select: { userId: true },
+        });
+        await tx.challenge.update({ where: { challengeId }, data: { uniquePusher: pushers.length } });
+    }
+
+    const carriesDailyCount = absorbed.dailyChallengeResetAt > mergedAt;
+
+    const mergedUser = await tx.user.update({
+        where: { id: to },
+        data: {
+            lastActivityTimestamp: laterOf(survivor.lastActivityTimestamp, absorbed.lastActivityTimestamp),
+            lastLiveActivityTimestamp: laterOf(survivor.lastLiveActivityTimestamp, absorbed.lastLiveActivityTimestamp),
+            lastExplorerDeduction: laterOf(survivor.lastExplorerDeduction, absorbed.lastExplorerDeduction),
+            lastSeenStreamDay: Math.max(survivor.lastSeenStreamDay, absorbed.lastSeenStreamDay),
+            lastProcessedDay: Math.max(survivor.lastProcessedDay, absorbed.lastProcessedDay),
+            lastSeenDay: Math.max(survivor.lastSeenDay, absorbed.lastSeenDay),
+
+            activeOfflineDaysCount: { increment: absorbed.activeOfflineDaysCount },
+            activeStreamDaysCount: { increment: absorbed.activeStreamDaysCount },
+            totalNumbersSpentGameWide: { increment: absorbed.totalNumbersSpentGameWide },
+            totalNumbersReturnedFromRemovalsGameWide: { increment: absorbed.totalNumbersReturnedFromRemovalsGameWide },
+            totalCausedByRemovals: { increment: absorbed.totalCausedByRemovals },
+            totalToCommunityChest: { increment: absorbed.totalToCommunityChest },
+            totalToPushers: { increment: absorbed.totalToPushers },
+            totalNumbersGifted: { increment: absorbed.totalNumbersGifted },
+            totalNumbersReceivedAsGifts: { increment: absorbed.totalNumbersReceivedAsGifts },
+            totalNumbersSpent: { increment: absorbed.totalNumbersSpent },
+            totalChallengesSubmitted: { increment: absorbed.totalChallengesSubmitted },
+            totalRemovalsExecuted: { increment: absorbed.totalRemovalsExecuted },
+            totalReceivedFromRemovals: { increment: absorbed.totalReceivedFromRemovals },
+            totalDigoutsExecuted: { increment: absorbed.totalDigoutsExecuted },
+            totalPushesExecuted: { increment: absorbed.totalPushesExecuted },
+            totalDisruptsExecuted: { increment: absorbed.totalDisruptsExecuted },
+            totalGiftsSent: { increment: absorbed.totalGiftsSent },
+            ledgerBaselineNumbersSpent: { increment: absorbed.ledgerBaselineNumbersSpent },
+            ledgerBaselineReceivedFromRemovals: { increment: absorbed.ledgerBaselineReceivedFromRemovals },
+            ledgerBaselineCausedByRemovals: { increment: absorbed.ledgerBaselineCausedByRemovals },
+            ledgerBaselineToCommunityChest: { increment: absorbed.ledgerBaselineToCommunityChest },
+            ledgerBaselineToPushers: { increment: absorbed.ledgerBaselineToPushers },
+            ...(carriesDailyCount && { dailySubmissionCount: { increment: absorbed.dailySubmissionCount } }),
+        },
+    });
+
+    // 3. The absorbed identity is now empty
+    await tx.user.delete({ where: { id: from } });
+
+    return mergedUser;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// UNLINK (!unlink)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Detaches the caller's Account from its User into a brand-new User.
+ * The balance lives on the Account and leaves with it; past Pushes, Challenges, Ledger history and
+ * counters stay with the previous User (they cannot be split per platform reliably).
+ * The last Account of a User cannot be unlinked.
+ */
+export async function unlinkAccount(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName
+): Promise<UnlinkResult> {
+    const result = await prisma.$transaction(async (tx) => {
+        const account = await findLinkableAccount(tx, userId, platformId, platformName);
+        const accountCount = await tx.account.count({ where: { userId } });
+
+        if (accountCount < 2) {
+            throw new Error('This is your only account: there is nothing to unlink.');
+        }
+
+        const newUser = await createNewCentralUser(tx);
+
+        // Codes issued from this account would link other accounts to the previous User
+        await tx.accountLinkCode.deleteMany({
+            where: { accountId: account.id, redeemedAt: null },
+        });
+
+        const updatedAccount = await tx.account.update({
+            where: { id: account.id },
+            data: { userId: newUser.id, sharesBalance: false },
+        });
+
+        return { account: updatedAccount, previousUserId: userId, newUserId: newUser.id };
+    });
+
+    logger.info(`Account Unlink: ${platformName} account ${platformId} left User ${result.previousUserId} for new User ${result.newUserId}.`, {
+        userId: result.previousUserId,
+        newUserId: result.newUserId,
+        platformId,
+        action: 'account_unlink',
+    });
+
+    return result;
+}
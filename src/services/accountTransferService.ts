@@ -0,0 +1,216 @@
+// src/services/accountTransferService.ts
+// Moves NUMBERS between the platform accounts of one User (see accountLinkService for linking).
+// The sending account is charged via Lumia inside the transaction (its mirror updated with it);
+// the receiving account is credited through the refund queue, whose worker mirrors the new
+// balance in the same step as the Lumia credit. A crash in between leaves the credit queued, never lost.
+// Also resolves which account pays for a spend when the calling account runs short: only linked
+// accounts that opted in themselves (sharesBalance, set from that very account) can be drawn on.
+import { Account, LedgerReason, PlatformName, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { ACCOUNT_TRANSFER_MIN_AMOUNT } from '../config/gameConfig';
+import { chargeViaLumia, runWithChargeCompensation } from './chargeService';
+import { LUMIA_TRANSACTION_OPTIONS, toPaymentFailure } from './lumiaService';
+import { enqueueRefund, processRefundsNow } from './refundService';
+import { recordUserActivity } from './userService';
+
+
+export interface AccountTransferResult {
+    amount: number;
+    sourceAccount: Account;
+    targetAccount: Account;
+    // False when the Lumia credit failed on the first attempt and stays queued for retry.
+    targetCredited: boolean;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// FUNDING ACCOUNT (spends)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Picks the account that pays for a spend of `amount`:
+ * 1. The calling account, whenever its mirror covers the amount.
+ * 2. Otherwise, among the User's other accounts that share their balance, the one with the smallest
+ *    balance that still covers it (cheapest coverage).
+ * Falls back to the calling account, so the caller's own "Insufficient balance" check still applies.
+ * MUST be called with the transaction client of the spend that charges the returned account.
+ */
+export async function resolveFundingAccount(
+    tx: Prisma.TransactionClient,
+    userId: number,
+    platformId: string,
+    platformName: PlatformName,
+    amount: number
+): Promise<Account> {
+    const account = await tx.account.findUnique({
+        where: { platformId_platformName: { platformId, platformName } },
+    });
+
+    if (!account) {
+        throw new Error(`Account not found for user ${userId} on platform ${platformName}.`);
+    }
+    // Siblings are only looked up for the caller's own account (callers check ownership themselves).
+    if (account.currentBalance >= amount || account.userId !== userId) {
+        return account;
+    }
+
+    const coveringAccount = await tx.account.findFirst({
+        where: {
+            userId,
+            id: { not: account.id },
+            platformName: { not: PlatformName.GAME_MASTER },
+            sharesBalance: true,
+            currentBalance: { gte: amount },
+        },
+        orderBy: [{ currentBalance: 'asc' }, { id: 'asc' }],
+    });
+
+    return coveringAccount ?? account;
+}
+
+
+
+/**
+ * Lets (or stops letting) the User's other linked accounts spend this account's balance when they run short.
+ * Only the account itself can opt in: the command or request MUST come from it.
+ * @returns The new setting.
+ */
+export async function setAccountBalanceShared(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName,
+    enabled: boolean
+): Promise<boolean> {
+    const account = await prisma.account.findUnique({
+        where: { platformId_platformName: { platformId, platformName } },
+    });
+
+    if (!account || account.userId !== userId) {
+        throw new Error(`Account not found for user ${userId} on platform ${platformName}.`);
+    }
+    if (account.platformName === PlatformName.GAME_MASTER) {
+        throw new Error('Balance sharing is not available for GAME_MASTER accounts.');
+    }
+
+    const updated = await prisma.account.update({
+        where: { id: account.id },
+        data: { sharesBalance: enabled },
+        select: { sharesBalance: true },
+    });
+
+    logger.info(`Balance Sharing: User ${userId} turned it ${enabled ? 'on' : 'off'} for their ${platformName} account.`, {
+        userId,
+        platformId,
+        action: 'account_balance_shared',
+    });
+
+    return updated.sharesBalance;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// TRANSFER (!transfer)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Moves NUMBERS from the calling account to the User's own account on another platform.
+ * 1. Resolves the target among the User's linked accounts (most recently active one for that platform).
+ * 2. Charges the calling account via Lumia and mirrors its new balance in the same transaction.
+ * 3. Queues the credit to the target, then attempts it right after commit.
+ * Nothing is written to the Ledger: the NUMBERS never leave the User.
+ */
+export async function transferBetweenAccounts(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName,
+    targetPlatformName: PlatformName,
+    amount: number
+): Promise<AccountTransferResult> {
+    if (!Number.isInteger(amount) || amount < ACCOUNT_TRANSFER_MIN_AMOUNT) {
+        throw new Error(`Transfer amount must be at least ${ACCOUNT_TRANSFER_MIN_AMOUNT} NUMBERS.`);
+    }
+    if (targetPlatformName === PlatformName.GAME_MASTER) {
+        throw new Error('Transfer target must be one of your player accounts.');
+    }
+    if (targetPlatformName === platformName) {
+        throw new Error(`Transfer target must be on another platform than ${platformName}.`);
+    }
+
+    const transactionTimestamp = new Date().toISOString();
+
+    const result = await runWithChargeCompensation((charges) => prisma.$transaction(async (tx) => {
+        // 1. Both accounts belong to the caller
+        const sourceAccount = await tx.account.findUnique({
+            where: { platformId_platformName: { platformId, platformName } },
+        });
+
+        if (!sourceAccount || sourceAccount.userId !== userId) {
+            throw new Error(`Account not found for user ${userId} on platform ${platformName}.`);
+        }
+
+        const targetAccount = await tx.account.findFirst({
+            where: { userId, platformName: targetPlatformName },
+            orderBy: [
+                { lastActivityTimestamp: { sort: 'desc', nulls: 'last' } },
+                { id: 'asc' },
+            ],
+        });
+
+        if (!targetAccount) {
+            throw new Error(`No linked ${targetPlatformName} account found. Link it first with !link.`);
+        }
+
+        if (sourceAccount.currentBalance < amount) {
+            throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${sourceAccount.currentBalance} NUMBERS. Your transfer is ${amount} NUMBERS.`);
+        }
+
+        // 2. Authoritative deduction via Lumia
+        let newAuthoritativeBalance: number;
+        try {
+            newAuthoritativeBalance = await chargeViaLumia(tx, charges, {
+                userId,
+                platformId,
+                platformName,
+                amount,
+                reason: LedgerReason.ACCOUNT_TRANSFER,
+            });
+        } catch (error) {
+            logger.error(`Lumia Transfer Deduction Failed for User ${userId} (Transfer: ${amount}): ${error instanceof Error ? error.message : 'Unknown error'}`, { userId, platformId });
+            // Only expose a user-friendly message
+            throw toPaymentFailure(error);
+        }
+
+        const updatedSource = await tx.account.update({
+            where: { id: sourceAccount.id },
+            data: { currentBalance: newAuthoritativeBalance, lastBalanceUpdate: new Date(transactionTimestamp) },
+        });
+        await recordUserActivity(tx, userId, transactionTimestamp);
+
+        // 3. Credit the target (paid after commit)
+        const credit = await enqueueRefund(tx, {
+            userId,
+            accountId: targetAccount.id,
+            amount,
+            reason: LedgerReason.ACCOUNT_TRANSFER,
+        });
+
+        return { sourceAccount: updatedSource, targetAccountId: targetAccount.id, creditRefundId: credit.id };
+    }, LUMIA_TRANSACTION_OPTIONS), { userId, platformId, platformName, amount, reason: LedgerReason.ACCOUNT_TRANSFER });
+
+    // --- AFTER COMMIT: credit the target account ---
+    const creditOutcome = await processRefundsNow([result.creditRefundId]);
+    const targetAccount = await prisma.account.findUniqueOrThrow({ where: { id: result.targetAccountId } });
+
+    logger.info(`ACCOUNT TRANSFER: User ${userId} moved ${amount} NUMBERS from ${platformName} to ${targetPlatformName}.`, {
+        userId,
+        sourceAccountId: result.sourceAccount.id,
+        targetAccountId: targetAccount.id,
+        action: 'account_transfer',
+    });
+
+    return {
+        amount,
+        sourceAccount: result.sourceAccount,
+        targetAccount,
+        targetCredited: creditOutcome.queued === 0,
+    };
+}
@@ -0,0 +1,459 @@
+// src/services/auctionService.ts
+// Auctions give ARCHIVED challenges a second life. The GM opens an auction, viewers bid,
+// and only the leading bid is held: its NUMBERS sit in Escrow (Ledger) until it is either
+// overtaken (released back through the refund queue) or wins (paid to the Treasury).
+import {
+    AuctionBidStatus,
+    AuctionStatus,
+    AuctionWinnerMode,
+    Challenge,
+    ChallengeStatus,
+    LedgerReason,
+    PlatformName,
+    Prisma,
+} from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { AUCTION_DEFAULT_DURATION_MS, AUCTION_MIN_BID_INCREMENT } from '../config/gameConfig';
+import { chargeViaLumia, runWithChargeCompensation } from './chargeService';
+import { transitionChallenge } from './challengeStateMachine';
+import { publishChallengeEvent, ChallengeEvents } from './eventService';
+import { ESCROW, TREASURY, recordLedgerTransfer, userParty } from './ledgerService';
+import { LUMIA_TRANSACTION_OPTIONS, toPaymentFailure } from './lumiaService';
+import { enqueueRefund, processRefundsNow } from './refundService';
+import { getCurrentStreamDay } from './streamService';
+import { recordUserActivity } from './userService';
+
+
+export interface OpenAuctionOptions {
+    winnerMode: AuctionWinnerMode;
+    minimumBid?: number;       // Defaults to the challenge's submission cost
+    durationMinutes?: number;  // Close after this many minutes...
+    streamDays?: number;       // ...or after this many stream days (whichever comes first)
+}
+
+
+/**
+ * Smallest bid that can currently take the lead.
+ */
+function getMinimumNextBid(auction: { highestBid: number; minimumBid: number }): number {
+    return auction.highestBid > 0
+        ? auction.highestBid + AUCTION_MIN_BID_INCREMENT
+        : auction.minimumBid;
+}
+
+/**
+ * Releases an escrowed bid back to its bidder: Ledger (Escrow -> user) plus a queued Lumia refund.
+ * MUST be called inside the transaction that releases the bid.
+ * @returns The queued refund ID.
+ */
+async function releaseBid(
+    tx: Prisma.TransactionClient,
+    bid: { id: number; userId: number; accountId: number; amount: number },
+    challengeId: number,
+    status: AuctionBidStatus
+): Promise<number> {
+    await tx.auctionBid.update({ where: { id: bid.id }, data: { status } });
+
+    await recordLedgerTransfer(tx, {
+        from: ESCROW,
+        to: userParty(bid.userId),
+        amount: bid.amount,
+        reason: LedgerReason.AUCTION_REFUND,
+        challengeId,
+    });
+
+    const refund = await enqueueRefund(tx, {
+        userId: bid.userId,
+        accountId: bid.accountId, // Back to the account that paid
+        amount: bid.amount,
+        reason: LedgerReason.AUCTION_REFUND,
+        challengeId,
+    });
+
+    return refund.id;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// OPEN AUCTION (GM)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Puts an ARCHIVED challenge up for auction (status -> AUCTIONED).
+ * A challenge can only be auctioned once.
+ * @param gmUserId - The Game Master opening the auction.
+ * @param challengeId - The ARCHIVED challenge.
+ */
+export async function openAuction(gmUserId: number, challengeId: number, options: OpenAuctionOptions) {
+    if (options.minimumBid !== undefined && options.minimumBid <= 0) {
+        throw new Error('minimumBid must be a positive number of NUMBERS.');
+    }
+    if (options.durationMinutes !== undefined && options.durationMinutes <= 0) {
+        throw new Error('durationMinutes must be 1 or greater.');
+    }
+    if (options.streamDays !== undefined && options.streamDays <= 0) {
+        throw new Error('streamDays must be 1 or greater.');
+    }
+
+    const currentStreamDay = await getCurrentStreamDay();
+
+    const auction = await prisma.$transaction(async (tx) => {
+        const challenge = await tx.challenge.findUnique({ where: { challengeId } });
+
+        if (!challenge) {
+            throw new Error(`Challenge ID ${challengeId} not found.`);
+        }
+        if (challenge.status !== ChallengeStatus.ARCHIVED) {
+            throw new Error(`Challenge #${challengeId} cannot be auctioned. Status is '${challenge.status}', only 'ARCHIVED' is eligible.`);
+        }
+        if (challenge.hasBeenAuctioned) {
+            throw new Error(`Challenge #${challengeId} has already been auctioned once and cannot be auctioned again.`);
+        }
+
+        // 1. Closing conditions: explicit duration and/or stream days, else the default duration.
+        const hasExplicitClose = options.durationMinutes !== undefined || options.streamDays !== undefined;
+        const closesAt = options.durationMinutes !== undefined
+            ? new Date(Date.now() + options.durationMinutes * 60 * 1000)
+            : hasExplicitClose ? null : new Date(Date.now() + AUCTION_DEFAULT_DURATION_MS);
+
+        // 2. Flip the challenge first: the state machine's status compare-and-set makes a concurrent second auction fail.
+        const auctioned = await transitionChallenge(tx, challengeId, ChallengeStatus.AUCTIONED, {
+            actorUserId: gmUserId,
+            reason: 'Auction opened',
+        });
+        if (!auctioned) {
+            throw new Error(`Challenge #${challengeId} is currently being processed. Please try again.`);
+        }
+
+        return tx.auction.create({
+            data: {
+                challengeId,
+                winnerMode: options.winnerMode,
+                minimumBid: options.minimumBid ?? challenge.submissionCost,
+                closesAt,
+                closesAtStreamDay: options.streamDays !== undefined ? currentStreamDay + options.streamDays : null,
+                openedByUserId: gmUserId,
+            },
+        });
+    });
+
+    publishChallengeEvent(ChallengeEvents.AUCTION_OPENED, { challengeId, auction });
+
+    return auction;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// PLACE BID (Viewer)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Places a bid on the open auction of a challenge. The full amount is charged via Lumia
+ * and held in Escrow; the bid it overtakes is released back to its bidder.
+ * @param userId - The bidder.
+ * @param challengeId - The AUCTIONED challenge.
+ * @param amount - The bid, in NUMBERS.
+ */
+export async function placeBid(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName,
+    challengeId: number,
+    amount: number
+) {
+    const transactionTimestamp = new Date().toISOString();
+    const txNow = new Date(transactionTimestamp);
+
+    const result = await runWithChargeCompensation((charges) => prisma.$transaction(async (tx) => {
+        // 1. Validation
+        const auction = await tx.auction.findFirst({
+            where: { challengeId, status: AuctionStatus.OPEN },
+        });
+
+        if (!auction) {
+            throw new Error(`Challenge ID ${challengeId} has no open auction.`);
+        }
+        if (auction.closesAt && auction.closesAt <= txNow) {
+            throw new Error(`The auction for Challenge #${challengeId} has ended.`);
+        }
+
+        const minimumNextBid = getMinimumNextBid(auction);
+        if (amount < minimumNextBid) {
+            throw new Error(`Bid too low. The minimum bid for Challenge #${challengeId} is ${minimumNextBid} NUMBERS.`);
+        }
+
+        const accountContext = await tx.account.findUnique({
+            where: { platformId_platformName: { platformId, platformName } },
+            select: { id: true, currentBalance: true },
+        });
+
+        if (!accountContext) {
+            throw new Error(`Account not found for user ${userId} on platform ${platformName}.`);
+        }
+        if (accountContext.currentBalance < amount) {
+            throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${accountContext.currentBalance} NUMBERS. Your bid is ${amount} NUMBERS.`);
+        }
+
+        // 2. Take the lead (compare-and-set): a concurrent higher bid makes this one fail cleanly.
+        const { count } = await tx.auction.updateMany({
+            where: { id: auction.id, status: AuctionStatus.OPEN, highestBid: auction.highestBid },
+            data: { highestBid: amount, totalBids: { increment: 1 } },
+        });
+        if (count === 0) {
+            throw new Error(`The auction for Challenge #${challengeId} is currently being processed by another bid. Please try again.`);
+        }
+
+        // 3. Authoritative deduction via Lumia
+        let newAuthoritativeBalance: number;
+        try {
+            newAuthoritativeBalance = await chargeViaLumia(tx, charges, {
+                userId,
+                platformId,
+                platformName,
+                amount,
+                reason: LedgerReason.AUCTION_BID,
+                challengeId,
+            });
+        } catch (error) {
+            logger.error(`Lumia Bid Deduction Failed for User ${userId} (Bid: ${amount}): ${error instanceof Error ? error.message : 'Unknown error'}`, { userId, platformId });
+            // Only expose a user-friendly message
+            throw toPaymentFailure(error);
+        }
+
+        // 4. Release the bid we just overtook
+        const previousLeadingBid = await tx.auctionBid.findFirst({
+            where: { auctionId: auction.id, status: AuctionBidStatus.LEADING },
+        });
+        const releasedRefundId = previousLeadingBid
+            ? await releaseBid(tx, previousLeadingBid, challengeId, AuctionBidStatus.OUTBID)
+            : null;
+
+        // 5. Escrow the new bid
+        const bid = await tx.auctionBid.create({
+            data: { auctionId: auction.id, userId, accountId: accountContext.id, amount },
+        });
+
+        await recordLedgerTransfer(tx, {
+            from: userParty(userId),
+            to: ESCROW,
+            amount,
+            reason: LedgerReason.AUCTION_BID,
+            challengeId,
+        });
+
+        const updatedAccount = await tx.account.update({
+            where: { id: accountContext.id },
+            data: { currentBalance: newAuthoritativeBalance },
+        });
+        await recordUserActivity(tx, userId, transactionTimestamp);
+
+        return { auctionId: auction.id, bid, updatedAccount, releasedRefundId, outbidUserId: previousLeadingBid?.userId ?? null };
+    }, LUMIA_TRANSACTION_OPTIONS), { userId, platformId, platformName, amount, reason: LedgerReason.AUCTION_BID, challengeId });
+
+    // --- AFTER COMMIT: pay the released bid back and announce the new lead ---
+    if (result.releasedRefundId !== null) {
+        await processRefundsNow([result.releasedRefundId]);
+    }
+
+    publishChallengeEvent(ChallengeEvents.AUCTION_BID_PLACED, {
+        challengeId,
+        auctionId: result.auctionId,
+        userId,
+        amount,
+        outbidUserId: result.outbidUserId,
+    });
+
+    return result;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// CLOSE / CANCEL AUCTION
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Settles an OPEN auction.
+ * - With a leading bid: the bid is paid to the Treasury and the challenge returns to ACTIVE
+ *   (REVIVE), or returns to ACTIVE under the winner's authorship (OWNERSHIP).
+ * - Without bids: the challenge goes back to ARCHIVED.
+ * - When cancelled: the leading bid is released and the challenge goes back to ARCHIVED,
+ *   still eligible for a future auction.
+ * @param auctionId - The auction to settle.
+ * @param cancel - True when the GM cancels instead of closing.
+ */
+export async function closeAuction(auctionId: number, cancel: boolean = false) {
+    const txNow = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+        const auction = await tx.auction.findUnique({ where: { id: auctionId } });
+
+        if (!auction) {
+            throw new Error(`Auction ID ${auctionId} not found.`);
+        }
+
+        // Claim the auction first so the scheduler and the GM cannot settle it twice.
+        const { count } = await tx.auction.updateMany({
+            where: { id: auctionId, status: AuctionStatus.OPEN },
+            data: {
+                status: cancel ? AuctionStatus.CANCELLED : AuctionStatus.CLOSED,
+                closedAt: txNow,
+            },
+        });
+        if (count === 0) {
+            throw new Error(`Auction ID ${auctionId} is already ${auction.status} and cannot be closed.`);
+        }
+
+        const leadingBid = await tx.auctionBid.findFirst({
+            where: { auctionId, status: AuctionBidStatus.LEADING },
+            include: { account: { select: { platformName: true, username: true } } },
+        });
+
+        const refundIds: number[] = [];
+        let updatedChallenge: Challenge | null;
+
+        if (cancel || !leadingBid) {
+            // A. No winner: back to the archive.
+            if (leadingBid) {
+                refundIds.push(await releaseBid(tx, leadingBid, auction.challengeId, AuctionBidStatus.RELEASED));
+            }
+            updatedChallenge = await transitionChallenge(tx, auction.challengeId, ChallengeStatus.ARCHIVED, {
+                reason: cancel ? 'Auction cancelled' : 'Auction closed without a winner',
+                data: { hasBeenAuctioned: !cancel }, // A cancelled auction does not use up the challenge's one auction
+                at: txNow,
+            });
+        } else {
+            // B. Winner: Escrow pays the Treasury and the challenge is revived.
+            await tx.auctionBid.update({ where: { id: leadingBid.id }, data: { status: AuctionBidStatus.WON } });
+            await tx.auction.update({ where: { id: auctionId }, data: { winnerUserId: leadingBid.userId } });
+
+            await recordLedgerTransfer(tx, {
+                from: ESCROW,
+                to: TREASURY,
+                amount: leadingBid.amount,
+                reason: LedgerReason.AUCTION_WIN,
+                challengeId: auction.challengeId,
+            });
+
+            updatedChallenge = await transitionChallenge(tx, auction.challengeId, ChallengeStatus.ACTIVE, {
+                actorUserId: leadingBid.userId,
+                reason: 'Auction won',
+                data: { hasBeenAuctioned: true, auctionCost: leadingBid.amount },
+                at: txNow,
+            });
+
+            if (updatedChallenge && auction.winnerMode === AuctionWinnerMode.OWNERSHIP) {
+                updatedChallenge = await tx.challenge.update({
+                    where: { challengeId: auction.challengeId },
+                    data: {
+                        proposer: { connect: { id: leadingBid.userId } },
+                        proposerUsernameSnapshot: leadingBid.account.username,
+                        proposerPlatformNameSnapshot: leadingBid.account.platformName,
+                    },
+                });
+            }
+        }
+
+        if (!updatedChallenge) {
+            throw new Error(`Challenge #${auction.challengeId} is currently being processed. Please try again.`);
+        }
+
+        const settledAuction = await tx.auction.findUniqueOrThrow({ where: { id: auctionId } });
+
+        return { auction: settledAuction, updatedChallenge, winningBid: cancel ? null : leadingBid, refundIds };
+    });
+
+    // --- AFTER COMMIT: release refunds and announce the outcome ---
+    if (result.refundIds.length > 0) {
+        await processRefundsNow(result.refundIds);
+    }
+
+    logger.info(`AUCTION ${cancel ? 'CANCELLED' : 'CLOSED'}: Auction ${auctionId} for Challenge #${result.updatedChallenge.challengeId}. ${result.winningBid ? `Won by User ${result.winningBid.userId} for ${result.winningBid.amount} NUMBERS.` : 'No winner.'}`, {
+        auctionId,
+        challengeId: result.updatedChallenge.challengeId,
+        action: cancel ? 'auction_cancelled' : 'auction_closed',
+    });
+
+    publishChallengeEvent(ChallengeEvents.AUCTION_CLOSED, {
+        challengeId: result.updatedChallenge.challengeId,
+        auction: result.auction,
+        challenge: result.updatedChallenge,
+        winnerUserId: result.winningBid?.userId ?? null,
+        winningBid: result.winningBid?.amount ?? null,
+    });
+
+    return result;
+}
+
+
+
+/**
+ * Scheduled worker: closes every OPEN auction whose timer or stream-day count has run out.
+ * @returns The number of auctions closed.
+ */
+export async function processDueAuctions(): Promise<number> {
+    const currentStreamDay = await getCurrentStreamDay();
+
+    const dueAuctions = await prisma.auction.findMany({
+        where: {
+            status: AuctionStatus.OPEN,
+            OR: [
+                { closesAt: { lte: new Date() } },
+                { closesAtStreamDay: { lte: currentStreamDay } },
+            ],
+        },
+        select: { id: true },
+    });
+
+    let closed = 0;
+    for (const { id } of dueAuctions) {
+        try {
+            await closeAuction(id);
+            closed++;
+        } catch (error) {
+            logger.error(`Auction Close Failed for Auction ${id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    return closed;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// READ
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * The open auction of a challenge with its current minimum bid, or null if there is none.
+ */
+export async function getOpenAuctionForChallenge(challengeId: number) {
+    const auction = await prisma.auction.findFirst({
+        where: { challengeId, status: AuctionStatus.OPEN },
+        include: {
+            bids: {
+                where: { status: AuctionBidStatus.LEADING },
+                include: { account: { select: { username: true } } },
+            },
+        },
+    });
+
+    if (!auction) {
+        return null;
+    }
+
+    return {
+        ...auction,
+        leadingBid: auction.bids[0] ?? null,
+        minimumNextBid: getMinimumNextBid(auction),
+    };
+}
+
+
+
+/**
+ * Lists auctions for the GM, newest first.
+ */
+export async function listAuctions(status?: AuctionStatus) {
+    return prisma.auction.findMany({
+        where: status ? { status } : {},
+        include: { challenge: { select: { challengeId: true, challengeText: true, status: true } } },
+        orderBy: { openedAt: 'desc' },
+        take: 100,
+    });
+}
@@ -0,0 +1,262 @@
+// src/services/challengeCategoryService.ts
+// The challenge taxonomy: GM-managed ChallengeCategory definitions (slug, display name, order),
+// the category a submitter picks (stored as its slug on Challenge.category) and free tags.
+// Categories are never deleted: the GM deactivates them, and challenges already filed keep them.
+import { Challenge, ChallengeCategory, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { CHALLENGE_MAX_TAGS, CHALLENGE_TAG_MAX_LENGTH, DEFAULT_CHALLENGE_CATEGORY } from '../config/gameConfig';
+
+
+export interface ChallengeClassificationInput {
+    category?: string;
+    // An array, or a comma-separated string (chat and query strings).
+    tags?: unknown;
+}
+
+export interface ChallengeClassificationFilter {
+    category?: string;
+    // Matches challenges carrying every one of these tags.
+    tags?: unknown;
+}
+
+export interface ChallengeCategoryChanges {
+    name?: string;
+    description?: string | null;
+    sortOrder?: number;
+    isActive?: boolean;
+}
+
+const CATEGORY_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+
+/**
+ * "Genre Study", "genre_study" -> "genre-study". Also used for tags ("#Ghost Notes" -> "ghost-notes").
+ */
+function toSlug(value: string): string {
+    return value
+        .trim()
+        .toLowerCase()
+        .replace(/^#+/, '')
+        .replace(/[\s_]+/g, '-')
+        .replace(/[^a-z0-9-]/g, '')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '');
+}
+
+/**
+ * Splits tags given as an array or a comma-separated string, slugged and de-duplicated.
+ */
+function toTagList(rawTags: unknown): string[] {
+    const list = Array.isArray(rawTags)
+        ? rawTags
+        : typeof rawTags === 'string' ? rawTags.split(',') : [];
+
+    return [...new Set(list
+        .filter((tag): tag is string => typeof tag === 'string')
+        .map(toSlug)
+        .filter(tag => tag.length > 0))];
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// CLASSIFYING A CHALLENGE
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Normalizes a submitter's free tags.
+ * @throws When there are more than CHALLENGE_MAX_TAGS, or one is longer than CHALLENGE_TAG_MAX_LENGTH.
+ */
+export function normalizeTags(rawTags: unknown): string[] {
+    const tags = toTagList(rawTags);
+
+    if (tags.length > CHALLENGE_MAX_TAGS) {
+        throw new Error(`Challenge tags: at most ${CHALLENGE_MAX_TAGS} per challenge (got ${tags.length}).`);
+    }
+
+    const tooLong = tags.find(tag => tag.length > CHALLENGE_TAG_MAX_LENGTH);
+    if (tooLong) {
+        throw new Error(`Challenge tags: '${tooLong}' is longer than ${CHALLENGE_TAG_MAX_LENGTH} characters.`);
+    }
+
+    return tags;
+}
+
+
+
+/**
+ * Resolves the category a submitter picked (slug or display name, any case) to an active slug.
+ * No category: DEFAULT_CHALLENGE_CATEGORY.
+ * @param db - Pass the transaction client when the slug is written in that transaction.
+ */
+export async function resolveCategorySlug(
+    category: string | undefined,
+    db: Prisma.TransactionClient = prisma
+): Promise<string> {
+    if (!category || !category.trim()) {
+        return DEFAULT_CHALLENGE_CATEGORY;
+    }
+
+    const match = await db.challengeCategory.findFirst({
+        where: {
+            isActive: true,
+            OR: [{ slug: toSlug(category) }, { name: { equals: category.trim(), mode: 'insensitive' } }],
+        },
+        select: { slug: true },
+    });
+
+    if (!match) {
+        const offered = await db.challengeCategory.findMany({
+            where: { isActive: true },
+            orderBy: [{ sortOrder: 'asc' }, { slug: 'asc' }],
+            select: { slug: true },
+        });
+        throw new Error(`Unknown challenge category '${category}'. Use one of: ${offered.map(c => c.slug).join(', ')}.`);
+    }
+
+    return match.slug;
+}
+
+
+
+/**
+ * The where clause for the challenge listings' ?category= and ?tags= filters.
+ * Lenient on purpose: an unknown category or tag just matches nothing.
+ */
+export function challengeClassificationFilter(filter: ChallengeClassificationFilter): Prisma.ChallengeWhereInput {
+    const tags = toTagList(filter.tags);
+
+    return {
+        ...(filter.category && { category: toSlug(filter.category) }),
+        ...(tags.length > 0 && { tags: { hasEvery: tags } }),
+    };
+}
+
+
+
+/**
+ * GM reclassification of an existing challenge. Omitted fields are left as they are.
+ */
+export async function setChallengeClassification(
+    challengeId: number,
+    classification: ChallengeClassificationInput
+): Promise<Challenge> {
+    const tags = classification.tags !== undefined ? normalizeTags(classification.tags) : undefined;
+    const category = classification.category !== undefined ? await resolveCategorySlug(classification.category) : undefined;
+
+    const challenge = await prisma.challenge.findUnique({ where: { challengeId }, select: { challengeId: true } });
+
+    if (!challenge) {
+        throw new Error(`Challenge ID ${challengeId} not found.`);
+    }
+
+    return prisma.challenge.update({
+        where: { challengeId },
+        data: {
+            ...(category !== undefined && { category }),
+            ...(tags !== undefined && { tags }),
+        },
+    });
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// CATEGORY DEFINITIONS (GM)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Lists the categories in display order, with how many challenges each holds (the explorer's facets).
+ * @param includeInactive - GM view: also the deactivated ones.
+ */
+export async function listCategories(includeInactive: boolean = false): Promise<(ChallengeCategory & { challengeCount: number })[]> {
+    const categories = await prisma.challengeCategory.findMany({
+        where: includeInactive ? {} : { isActive: true },
+        orderBy: [{ sortOrder: 'asc' }, { slug: 'asc' }],
+        include: { _count: { select: { challenges: true } } },
+    });
+
+    return categories.map(({ _count, ...category }) => ({ ...category, challengeCount: _count.challenges }));
+}
+
+
+
+/**
+ * Defines a new category. The slug is permanent (it is what challenges store); the name is not.
+ */
+export async function createCategory(
+    gmUserId: number,
+    definition: { slug: string; name: string; description?: string; sortOrder?: number }
+): Promise<ChallengeCategory> {
+    const slug = definition.slug?.trim().toLowerCase();
+    const name = definition.name?.trim();
+
+    if (!slug || !CATEGORY_SLUG_PATTERN.test(slug)) {
+        throw new Error(`Category slug must be lowercase letters, digits and dashes (e.g. 'genre-study').`);
+    }
+    if (!name) {
+        throw new Error('Category name is required.');
+    }
+    if (definition.sortOrder !== undefined && !Number.isInteger(definition.sortOrder)) {
+        throw new Error('Category sortOrder must be an integer.');
+    }
+
+    const existing = await prisma.challengeCategory.findUnique({ where: { slug } });
+    if (existing) {
+        throw new Error(`Category '${slug}' already exists.`);
+    }
+
+    const category = await prisma.challengeCategory.create({
+        data: {
+            slug,
+            name,
+            description: definition.description?.trim() || null,
+            sortOrder: definition.sortOrder ?? 0,
+        },
+    });
+
+    logger.info(`Challenge Category: '${slug}' created by User ${gmUserId}.`, {
+        slug,
+        action: 'category_created',
+    });
+
+    return category;
+}
+
+
+
+/**
+ * Renames, describes, reorders, deactivates or reactivates a category.
+ * The default category cannot be deactivated (submissions without a category fall back to it).
+ */
+export async function updateCategory(gmUserId: number, slug: string, changes: ChallengeCategoryChanges): Promise<ChallengeCategory> {
+    const category = await prisma.challengeCategory.findUnique({ where: { slug } });
+
+    if (!category) {
+        throw new Error(`Category '${slug}' not found.`);
+    }
+    if (changes.name !== undefined && !changes.name.trim()) {
+        throw new Error('Category name is required.');
+    }
+    if (changes.sortOrder !== undefined && !Number.isInteger(changes.sortOrder)) {
+        throw new Error('Category sortOrder must be an integer.');
+    }
+    if (changes.isActive === false && slug === DEFAULT_CHALLENGE_CATEGORY) {
+        throw new Error(`Category '${slug}' is the default category and cannot be deactivated.`);
+    }
+
+    const updated = await prisma.challengeCategory.update({
+        where: { slug },
+        data: {
+            ...(changes.name !== undefined && { name: changes.name.trim() }),
+            ...(changes.description !== undefined && { description: changes.description?.trim() || null }),
+            ...(changes.sortOrder !== undefined && { sortOrder: changes.sortOrder }),
+            ...(changes.isActive !== undefined && { isActive: changes.isActive }),
+        },
+    });
+
+    logger.info(`Challenge Category: '${slug}' updated by User ${gmUserId}.`, {
+        slug,
+        changes,
+        action: 'category_updated',
+    });
+
+    return updated;
+}
@@ -0,0 +1,262 @@
+// src/services/challengeRevisionService.ts
+// Editing a challenge's challengeText (goal, instructions, constraints, references).
+// The author may edit while nobody has pushed the challenge; the GM may edit at any time.
+// Every edit (and every disrupt constraint) re-runs validateAndEnrichChallenge and is stored as the next ChallengeRevision.
+// An author edit that adds flagged references (DOCUMENT or untrusted) sends an ACTIVE challenge
+// back to UNDER_REVIEW; the GM's own edits never do, the GM being the reviewer.
+import { Challenge, ChallengeRevision, ChallengeStatus, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { validateAndEnrichChallenge } from './challengeService';
+import { transitionChallenge } from './challengeStateMachine';
+import { publishChallengeEvent, ChallengeEvents } from './eventService';
+import { generateToken, validateDuration } from './jwtService';
+
+
+// Statuses in which the author may still edit (before execution, and only without pushes).
+const AUTHOR_EDITABLE_STATUSES: ChallengeStatus[] = [ChallengeStatus.UNDER_REVIEW, ChallengeStatus.ACTIVE];
+
+type EnrichedChallengeText = ReturnType<typeof validateAndEnrichChallenge>;
+type EnrichedReference = EnrichedChallengeText['references'][number];
+
+export interface ChallengeEditResult {
+    challenge: Challenge;
+    revision: ChallengeRevision;
+    // True when this edit sent the challenge back to UNDER_REVIEW.
+    sentToReview: boolean;
+}
+
+
+/**
+ * Keys of the references that need review (same rule as validateAndEnrichChallenge).
+ */
+function flaggedReferenceKeys(text: unknown): Set<string> {
+    const references = (text as { references?: EnrichedReference[] } | null)?.references;
+
+    return new Set((Array.isArray(references) ? references : [])
+        .filter(reference => reference.type === 'DOCUMENT' || !reference.isTrusted)
+        .map(reference => `${reference.type}|${reference.url ?? ''}|${reference.title}`));
+}
+
+/**
+ * The author's edit window: their own challenge, UNDER_REVIEW or ACTIVE, and never pushed.
+ * "Never pushed" counts the Push rows: seeded, merged or migrated pushes may lack timestampLastPushAt.
+ */
+async function assertAuthorCanEdit(
+    db: Prisma.TransactionClient,
+    challenge: Pick<Challenge, 'challengeId' | 'proposerUserId' | 'status' | 'totalPush'>,
+    editorUserId: number
+): Promise<void> {
+    if (challenge.proposerUserId !== editorUserId) {
+        throw new Error(`Challenge #${challenge.challengeId} can only be edited by the author.`);
+    }
+    if (!AUTHOR_EDITABLE_STATUSES.includes(challenge.status)) {
+        throw new Error(`Challenge #${challenge.challengeId} can no longer be edited: status is '${challenge.status}'.`);
+    }
+
+    const pushCount = challenge.totalPush > 0
+        ? challenge.totalPush
+        : await db.push.count({ where: { challengeId: challenge.challengeId } });
+
+    if (pushCount > 0) {
+        throw new Error(`Challenge #${challenge.challengeId} can no longer be edited: it has already been pushed.`);
+    }
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// EDIT
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Writes an enriched challengeText as the challenge's next revision.
+ * MUST run inside the transaction of the change that causes it (an edit, a disrupt constraint).
+ * The write is a compare-and-set on the revision read, plus `guard`.
+ * @returns The stored ChallengeRevision, or null if the challenge changed in the meantime (the caller decides).
+ */
+export async function writeChallengeRevision(
+    tx: Prisma.TransactionClient,
+    challenge: Pick<Challenge, 'challengeId' | 'revision'>,
+    enriched: EnrichedChallengeText,
+    options: { editorUserId: number; isGameMasterEdit: boolean; guard?: Prisma.ChallengeWhereInput; at: Date }
+): Promise<ChallengeRevision | null> {
+    const { challengeId } = challenge;
+    const nextRevision = challenge.revision + 1;
+
+    const { count } = await tx.challenge.updateMany({
+        where: { ...options.guard, challengeId, revision: challenge.revision },
+        data: { challengeText: enriched as any, revision: nextRevision, timestampLastActivityAt: options.at },
+    });
+
+    if (count === 0) {
+        return null;
+    }
+
+    return tx.challengeRevision.create({
+        data: {
+            challengeId,
+            revision: nextRevision,
+            challengeText: enriched as any,
+            requiresReview: enriched.system.requiresReview,
+            editedByUserId: options.editorUserId,
+            isGameMasterEdit: options.isGameMasterEdit,
+            createdAt: options.at,
+        },
+    });
+}
+
+
+
+/**
+ * Replaces a challenge's challengeText with a new revision.
+ * 1. Author edits: only the proposer, only while UNDER_REVIEW or ACTIVE and never pushed.
+ * 2. Re-runs validateAndEnrichChallenge on the raw text.
+ * 3. Writes the text as a compare-and-set on the current revision (and, for the author, on
+ *    "no push yet"), then stores the ChallengeRevision.
+ * 4. New flagged references in an author edit send an ACTIVE challenge back to UNDER_REVIEW.
+ * @param rawChallengeText - The same shape as a submission's challengeText.
+ * @param asGameMaster - GM edit: any challenge, any status.
+ */
+export async function editChallengeText(
+    editorUserId: number,
+    challengeId: number,
+    rawChallengeText: unknown,
+    asGameMaster: boolean = false
+): Promise<ChallengeEditResult> {
+    if (!rawChallengeText || typeof rawChallengeText !== 'object' || Array.isArray(rawChallengeText)) {
+        throw new Error('Challenge text must be an object with a goal.');
+    }
+
+    const enriched = validateAndEnrichChallenge(rawChallengeText);
+
+    if (!enriched.goal) {
+        throw new Error('Challenge text must have a goal.');
+    }
+
+    const txNow = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+        // 1. Who may edit what
+        const challenge = await tx.challenge.findUnique({ where: { challengeId } });
+
+        if (!challenge) {
+            throw new Error(`Challenge ID ${challengeId} not found.`);
+        }
+
+        if (!asGameMaster) {
+            await assertAuthorCanEdit(tx, challenge, editorUserId);
+        }
+
+        // 2. Does the edit bring new references to review?
+        const previouslyFlagged = flaggedReferenceKeys(challenge.challengeText);
+        const hasNewFlaggedReferences = [...flaggedReferenceKeys(enriched)].some(key => !previouslyFlagged.has(key));
+        const sendToReview = !asGameMaster && hasNewFlaggedReferences && challenge.status === ChallengeStatus.ACTIVE;
+
+        // 3. Compare-and-set on the revision read (and on "no push yet" for the author)
+        const revision = await writeChallengeRevision(tx, challenge, enriched, {
+            editorUserId,
+            isGameMasterEdit: asGameMaster,
+            guard: asGameMaster ? undefined : { totalPush: 0, pushes: { none: {} } },
+            at: txNow,
+        });
+
+        if (!revision) {
+            throw new Error(`Challenge #${challengeId} is currently being processed. Please try again.`);
+        }
+
+        // 4. Back to review
+        const updatedChallenge = sendToReview
+            ? await transitionChallenge(tx, challengeId, ChallengeStatus.UNDER_REVIEW, {
+                actorUserId: editorUserId,
+                reason: `Revision ${revision.revision} added references that need review`,
+                at: txNow,
+            })
+            : await tx.challenge.findUniqueOrThrow({ where: { challengeId } });
+
+        if (!updatedChallenge) {
+            throw new Error(`Challenge #${challengeId} is currently being processed. Please try again.`);
+        }
+
+        return { challenge: updatedChallenge, revision, sentToReview: sendToReview };
+    });
+
+    logger.info(`Challenge Edit: #${challengeId} revision ${result.revision.revision} by ${asGameMaster ? 'the GM' : 'the author'} (User ${editorUserId})${result.sentToReview ? ', sent back to review' : ''}.`, {
+        challengeId,
+        userId: editorUserId,
+        action: 'challenge_edited',
+    });
+
+    publishChallengeEvent(ChallengeEvents.CHALLENGE_EDITED, { ...result.challenge, revision: result.revision, sentToReview: result.sentToReview });
+
+    return result;
+}
+
+
+
+/**
+ * Generates the secure web-form link for editing a challenge (chat: !challengeedit [ID] [duration]).
+ * Checks the author's edit window up front so no dead link is handed out; the web route checks again.
+ */
+export async function processEditLinkGeneration(
+    userId: number,
+    platformId: string,
+    platformName: string,
+    username: string,
+    challengeId: number,
+    duration: string | undefined,
+    reqHostname: string,
+): Promise<{ chatResponse: string, details: any }> {
+    const challenge = await prisma.challenge.findUnique({
+        where: { challengeId },
+        select: { challengeId: true, proposerUserId: true, status: true, totalPush: true, revision: true },
+    });
+
+    if (!challenge) {
+        throw new Error(`Challenge ID ${challengeId} not found.`);
+    }
+
+    await assertAuthorCanEdit(prisma, challenge, userId);
+
+    const tokenDuration = validateDuration(duration);
+    const token = generateToken({ userId, platformId, platformName, username }, tokenDuration);
+
+    const isLocalHost = reqHostname === 'localhost' || reqHostname === '127.0.0.1' || reqHostname === '0.0.0.0';
+    const WEBFORM_BASE_URL =
+        isLocalHost
+        ? `http://192.168.1.37:5500`
+        : process.env.WEBFORM_BASE_URL || "https://drummer-manager-website.vercel.app";
+
+    const secureUrl = `${WEBFORM_BASE_URL}/challengeeditform/index.html?token=${token}&challengeId=${challengeId}`;
+
+    const chatResponse =
+        `Please use the following secure link to edit Challenge #${challengeId} (valid for ${tokenDuration}).\n` +
+        `Current revision: **${challenge.revision}**. Editing closes once the challenge gets its first push.\n` +
+        `Link: ${secureUrl}`;
+
+    return {
+        chatResponse,
+        details: { token, secureUrl, duration: tokenDuration, challengeId, revision: challenge.revision },
+    };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// HISTORY
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Lists every revision of a challenge's text, oldest first.
+ */
+export async function listChallengeRevisions(challengeId: number): Promise<ChallengeRevision[]> {
+    const challenge = await prisma.challenge.findUnique({
+        where: { challengeId },
+        select: { challengeId: true },
+    });
+
+    if (!challenge) {
+        throw new Error(`Challenge ID ${challengeId} not found.`);
+    }
+
+    return prisma.challengeRevision.findMany({
+        where: { challengeId },
+        orderBy: { revision: 'asc' },
+    });
+}
@@ -0,0 +1,569 @@
+// src/services/challengeSeriesService.ts
+// Progressions between challenges (single strokes at 100bpm before 140bpm).
+// - Prerequisites: a challenge declares challenges that must be COMPLETED before it can start
+//   (executeChallengeInTransaction checks them on ACTIVE -> IN_PROGRESS). They form a directed
+//   acyclic graph: an edge that would close a cycle is refused.
+// - Series: GM-curated, ordered groups of challenges. A series completes, once, when every one of
+//   its challenges is COMPLETED (SERIES_COMPLETED event, StreamStat.totalSeriesCompleted).
+import { Challenge, ChallengePrerequisite, ChallengeSeries, ChallengeStatus, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { publishChallengeEvent, ChallengeEvents } from './eventService';
+
+
+// A challenge's prerequisites can only change before it starts.
+const PREREQUISITE_EDITABLE_STATUSES: ChallengeStatus[] = [
+    ChallengeStatus.UNDER_REVIEW,
+    ChallengeStatus.ACTIVE,
+    ChallengeStatus.ARCHIVED,
+    ChallengeStatus.AUCTIONED,
+];
+
+// These can never become COMPLETED, so nothing may depend on them.
+const UNREACHABLE_STATUSES: ChallengeStatus[] = [ChallengeStatus.FAILED, ChallengeStatus.REMOVED];
+
+export interface DependencyGraphNode {
+    challengeId: number;
+    goal: string;
+    status: ChallengeStatus;
+    category: string;
+    seriesId: number | null;
+    seriesPosition: number | null;
+}
+
+export interface DependencyGraph {
+    nodes: DependencyGraphNode[];
+    // from: the prerequisite, to: the challenge that waits for it.
+    edges: { from: number; to: number }[];
+}
+
+export interface SeriesProgress extends ChallengeSeries {
+    totalChallenges: number;
+    completedChallenges: number;
+}
+
+
+/**
+ * Shapes a challenge as a graph node, with its goal read from challengeText.
+ */
+function toGraphNode(challenge: Challenge): DependencyGraphNode {
+    const text = (challenge.challengeText ?? {}) as { goal?: string };
+
+    return {
+        challengeId: challenge.challengeId,
+        goal: text.goal ?? '',
+        status: challenge.status,
+        category: challenge.category,
+        seriesId: challenge.seriesId,
+        seriesPosition: challenge.seriesPosition,
+    };
+}
+
+
+
+/**
+ * Searches the prerequisites of `fromChallengeId`, transitively, for `targetChallengeId`.
+ * @returns The path from `fromChallengeId` to `targetChallengeId`, or null if it is not reachable.
+ */
+async function findPrerequisitePath(
+    tx: Prisma.TransactionClient,
+    fromChallengeId: number,
+    targetChallengeId: number
+): Promise<number[] | null> {
+    const cameFrom = new Map<number, number>();
+    let frontier = [fromChallengeId];
+
+    while (frontier.length > 0) {
+        const edges = await tx.challengePrerequisite.findMany({
+            where: { challengeId: { in: frontier } },
+            select: { challengeId: true, prerequisiteChallengeId: true },
+        });
+
+        frontier = [];
+        for (const edge of edges) {
+            const next = edge.prerequisiteChallengeId;
+            if (next === fromChallengeId || cameFrom.has(next)) continue;
+
+            cameFrom.set(next, edge.challengeId);
+
+            if (next === targetChallengeId) {
+                const path = [next];
+                while (path[0] !== fromChallengeId) {
+                    path.unshift(cameFrom.get(path[0])!);
+                }
+                return path;
+            }
+            frontier.push(next);
+        }
+    }
+
+    return null;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// PREREQUISITES
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Declares that `challengeId` cannot start before `prerequisiteChallengeId` is COMPLETED.
+ * 1. Author edits: only the proposer of `challengeId`, and only before it starts.
+ * 2. The prerequisite must still be able to complete (not FAILED or REMOVED).
+ * 3. Refuses an edge that would close a cycle. Runs serializable so two concurrent additions
+ *    cannot close one between them.
+ * @param asGameMaster - GM edit: any challenge, any status.
+ */
+export async function addPrerequisite(
+    actorUserId: number,
+    challengeId: number,
+    prerequisiteChallengeId: number,
+    asGameMaster: boolean = false
+): Promise<ChallengePrerequisite> {
+    if (challengeId === prerequisiteChallengeId) {
+        throw new Error(`Challenge #${challengeId} cannot be its own prerequisite.`);
+    }
+
+    const prerequisite = await prisma.$transaction(async (tx) => {
+        // 1. Who may edit what
+        const [challenge, required] = await Promise.all([
+            tx.challenge.findUnique({ where: { challengeId } }),
+            tx.challenge.findUnique({ where: { challengeId: prerequisiteChallengeId } }),
+        ]);
+
+        if (!challenge) {
+            throw new Error(`Challenge ID ${challengeId} not found.`);
+        }
+        if (!required) {
+            throw new Error(`Challenge ID ${prerequisiteChallengeId} not found.`);
+        }
+
+        if (!asGameMaster) {
+            if (challenge.proposerUserId !== actorUserId) {
+                throw new Error(`Prerequisites of Challenge #${challengeId} can only be set by the author.`);
+            }
+            if (!PREREQUISITE_EDITABLE_STATUSES.includes(challenge.status)) {
+                throw new Error(`Challenge #${challengeId} has already started: its prerequisites can no longer change.`);
+            }
+        }
+
+        // 2. Reachable prerequisite
+        if (UNREACHABLE_STATUSES.includes(required.status)) {
+            throw new Error(`Challenge #${prerequisiteChallengeId} cannot be a prerequisite: status is '${required.status}'.`);
+        }
+
+        const existing = await tx.challengePrerequisite.findUnique({
+            where: { challengeId_prerequisiteChallengeId: { challengeId, prerequisiteChallengeId } },
+        });
+        if (existing) {
+            throw new Error(`Challenge #${prerequisiteChallengeId} is already a prerequisite of Challenge #${challengeId}.`);
+        }
+
+        // 3. No cycle: challengeId must not already be (transitively) required by the prerequisite
+        const cycle = await findPrerequisitePath(tx, prerequisiteChallengeId, challengeId);
+        if (cycle) {
+            throw new Error(`Challenge #${prerequisiteChallengeId} cannot be a prerequisite of Challenge #${challengeId}: it would create a cycle (${[challengeId, ...cycle].map(id => `#${id}`).join(' -> ')}).`);
+        }
+
+        return tx.challengePrerequisite.create({
+            data: { challengeId, prerequisiteChallengeId, createdByUserId: actorUserId },
+        });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    logger.info(`Challenge Prerequisite: #${prerequisiteChallengeId} now required by #${challengeId} (User ${actorUserId}).`, {
+        challengeId,
+        prerequisiteChallengeId,
+        action: 'prerequisite_added',
+    });
+
+    return prerequisite;
+}
+
+
+
+/**
+ * Drops a prerequisite. Same permissions as addPrerequisite.
+ */
+export async function removePrerequisite(
+    actorUserId: number,
+    challengeId: number,
+    prerequisiteChallengeId: number,
+    asGameMaster: boolean = false
+): Promise<void> {
+    const challenge = await prisma.challenge.findUnique({
+        where: { challengeId },
+        select: { proposerUserId: true, status: true },
+    });
+
+    if (!challenge) {
+        throw new Error(`Challenge ID ${challengeId} not found.`);
+    }
+
+    if (!asGameMaster) {
+        if (challenge.proposerUserId !== actorUserId) {
+            throw new Error(`Prerequisites of Challenge #${challengeId} can only be set by the author.`);
+        }
+        if (!PREREQUISITE_EDITABLE_STATUSES.includes(challenge.status)) {
+            throw new Error(`Challenge #${challengeId} has already started: its prerequisites can no longer change.`);
+        }
+    }
+
+    const { count } = await prisma.challengePrerequisite.deleteMany({
+        where: { challengeId, prerequisiteChallengeId },
+    });
+
+    if (count === 0) {
+        throw new Error(`Challenge #${prerequisiteChallengeId} is not a prerequisite of Challenge #${challengeId}.`);
+    }
+
+    logger.info(`Challenge Prerequisite: #${prerequisiteChallengeId} no longer required by #${challengeId} (User ${actorUserId}).`, {
+        challengeId,
+        prerequisiteChallengeId,
+        action: 'prerequisite_removed',
+    });
+}
+
+
+
+/**
+ * The prerequisites of each challenge that are not COMPLETED yet (challenges without any are omitted).
+ */
+export async function getPendingPrerequisites(
+    challengeIds: number[],
+    db: Prisma.TransactionClient = prisma
+): Promise<Map<number, number[]>> {
+    const pending = await db.challengePrerequisite.findMany({
+        where: {
+            challengeId: { in: challengeIds },
+            prerequisite: { status: { not: ChallengeStatus.COMPLETED } },
+        },
+        select: { challengeId: true, prerequisiteChallengeId: true },
+        orderBy: { prerequisiteChallengeId: 'asc' },
+    });
+
+    const byChallenge = new Map<number, number[]>();
+    for (const edge of pending) {
+        byChallenge.set(edge.challengeId, [...(byChallenge.get(edge.challengeId) ?? []), edge.prerequisiteChallengeId]);
+    }
+
+    return byChallenge;
+}
+
+/**
+ * Refuses to start a challenge whose prerequisites are not all COMPLETED.
+ * MUST be called inside the transaction that starts it.
+ */
+export async function assertPrerequisitesCompleted(tx: Prisma.TransactionClient, challengeId: number): Promise<void> {
+    const pending = (await getPendingPrerequisites([challengeId], tx)).get(challengeId);
+
+    if (pending && pending.length > 0) {
+        throw new Error(`Challenge #${challengeId} cannot start: prerequisite(s) ${pending.map(id => `#${id}`).join(', ')} not completed yet.`);
+    }
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// DEPENDENCY GRAPH
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * The prerequisite graph for the explorer.
+ * - seriesId: the series' challenges and their prerequisites (inside the series or not).
+ * - challengeId: everything the challenge depends on and everything that depends on it.
+ * - Neither: every challenge that has or is a prerequisite.
+ */
+export async function getDependencyGraph(scope: { seriesId?: number; challengeId?: number } = {}): Promise<DependencyGraph> {
+    let edges: { challengeId: number; prerequisiteChallengeId: number }[];
+    const nodeIds = new Set<number>();
+
+    if (scope.challengeId !== undefined) {
+        const root = await prisma.challenge.findUnique({ where: { challengeId: scope.challengeId }, select: { challengeId: true } });
+        if (!root) {
+            throw new Error(`Challenge ID ${scope.challengeId} not found.`);
+        }
+
+        // Walk up (prerequisites) and down (dependents) from the challenge
+        const collected = new Map<string, { challengeId: number; prerequisiteChallengeId: number }>();
+        nodeIds.add(scope.challengeId);
+
+        for (const direction of ['up', 'down'] as const) {
+            const seen = new Set<number>([scope.challengeId]);
+            let frontier = [scope.challengeId];
+
+            while (frontier.length > 0) {
+                const found = await prisma.challengePrerequisite.findMany({
+                    where: direction === 'up' ? { challengeId: { in: frontier } } : { prerequisiteChallengeId: { in: frontier } },
+                    select: { challengeId: true, prerequisiteChallengeId: true },
+                });
+
+                frontier = [];
+                for (const edge of found) {
+                    collected.set(`${edge.prerequisiteChallengeId}->${edge.challengeId}`, edge);
+                    const next = direction === 'up' ? edge.prerequisiteChallengeId : edge.challengeId;
+                    if (!seen.has(next)) {
+                        seen.add(next);
+                        nodeIds.add(next);
+                        frontier.push(next);
+                    }
+                }
+            }
+        }
+
+        edges = [...collected.values()];
+    } else if (scope.seriesId !== undefined) {
+        const series = await prisma.challengeSeries.findUnique({
+            where: { id: scope.seriesId },
+            include: { challenges: { select: { challengeId: true } } },
+        });
+        if (!series) {
+            throw new Error(`Series #${scope.seriesId} not found.`);
+        }
+
+        const memberIds = series.challenges.map(c => c.challengeId);
+        memberIds.forEach(id => nodeIds.add(id));
+
+        edges = await prisma.challengePrerequisite.findMany({
+            where: { challengeId: { in: memberIds } },
+            select: { challengeId: true, prerequisiteChallengeId: true },
+        });
+    } else {
+        edges = await prisma.challengePrerequisite.findMany({
+            select: { challengeId: true, prerequisiteChallengeId: true },
+        });
+    }
+
+    edges.forEach(edge => {
+        nodeIds.add(edge.challengeId);
+        nodeIds.add(edge.prerequisiteChallengeId);
+    });
+
+    const challenges = await prisma.challenge.findMany({
+        where: { challengeId: { in: [...nodeIds] } },
+        orderBy: { challengeId: 'asc' },
+    });
+
+    return {
+        nodes: challenges.map(toGraphNode),
+        edges: edges
+            .map(edge => ({ from: edge.prerequisiteChallengeId, to: edge.challengeId }))
+            .sort((a, b) => a.to - b.to || a.from - b.from),
+    };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// SERIES (GM)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Creates an empty series.
+ */
+export async function createSeries(gmUserId: number, name: string, description?: string): Promise<ChallengeSeries> {
+    const trimmedName = name?.trim();
+
+    if (!trimmedName) {
+        throw new Error('Series name is required.');
+    }
+
+    const series = await prisma.challengeSeries.create({
+        data: { name: trimmedName, description: description?.trim() || null, createdByUserId: gmUserId },
+    });
+
+    logger.info(`Challenge Series: #${series.id} '${series.name}' created by User ${gmUserId}.`, {
+        seriesId: series.id,
+        action: 'series_created',
+    });
+
+    return series;
+}
+
+
+
+/**
+ * Adds a challenge to a series, at `position` or after the last one.
+ * A challenge belongs to at most one series; a completed series is closed.
+ */
+export async function addChallengeToSeries(seriesId: number, challengeId: number, position?: number): Promise<Challenge> {
+    if (position !== undefined && (!Number.isInteger(position) || position < 1)) {
+        throw new Error('Series position must be a positive integer.');
+    }
+
+    return prisma.$transaction(async (tx) => {
+        const [series, challenge] = await Promise.all([
+            tx.challengeSeries.findUnique({ where: { id: seriesId } }),
+            tx.challenge.findUnique({ where: { challengeId } }),
+        ]);
+
+        if (!series) {
+            throw new Error(`Series #${seriesId} not found.`);
+        }
+        if (!challenge) {
+            throw new Error(`Challenge ID ${challengeId} not found.`);
+        }
+        if (series.timestampCompleted) {
+            throw new Error(`Series #${seriesId} is already completed.`);
+        }
+        if (challenge.seriesId !== null) {
+            throw new Error(`Challenge #${challengeId} already belongs to Series #${challenge.seriesId}.`);
+        }
+
+        const last = await tx.challenge.aggregate({ _max: { seriesPosition: true }, where: { seriesId } });
+
+        // CAS: the challenge may have joined another series in the meantime
+        const { count } = await tx.challenge.updateMany({
+            where: { challengeId, seriesId: null },
+            data: { seriesId, seriesPosition: position ?? (last._max.seriesPosition ?? 0) + 1 },
+        });
+
+        if (count === 0) {
+            throw new Error(`Challenge #${challengeId} is currently being processed. Please try again.`);
+        }
+
+        return tx.challenge.findUniqueOrThrow({ where: { challengeId } });
+    });
+}
+
+
+
+/**
+ * Takes a challenge out of its series. The rest of the series may now be complete.
+ */
+export async function removeChallengeFromSeries(seriesId: number, challengeId: number): Promise<Challenge> {
+    const { count } = await prisma.challenge.updateMany({
+        where: { challengeId, seriesId },
+        data: { seriesId: null, seriesPosition: null },
+    });
+
+    if (count === 0) {
+        throw new Error(`Challenge #${challengeId} is not in Series #${seriesId}.`);
+    }
+
+    await completeSeriesIfDone(seriesId);
+
+    return prisma.challenge.findUniqueOrThrow({ where: { challengeId } });
+}
+
+
+
+/**
+ * Lists every series with its progress, newest first.
+ */
+export async function listSeries(): Promise<SeriesProgress[]> {
+    const series = await prisma.challengeSeries.findMany({
+        orderBy: { createdAt: 'desc' },
+        include: { challenges: { select: { status: true } } },
+    });
+
+    return series.map(({ challenges, ...entry }) => ({
+        ...entry,
+        totalChallenges: challenges.length,
+        completedChallenges: challenges.filter(c => c.status === ChallengeStatus.COMPLETED).length,
+    }));
+}
+
+/**
+ * One series with its challenges in order and its prerequisite graph.
+ */
+export async function getSeries(seriesId: number): Promise<SeriesProgress & { challenges: DependencyGraphNode[]; graph: DependencyGraph }> {
+    const series = await prisma.challengeSeries.findUnique({
+        where: { id: seriesId },
+        include: { challenges: { orderBy: [{ seriesPosition: 'asc' }, { challengeId: 'asc' }] } },
+    });
+
+    if (!series) {
+        throw new Error(`Series #${seriesId} not found.`);
+    }
+
+    const { challenges, ...entry } = series;
+
+    return {
+        ...entry,
+        totalChallenges: challenges.length,
+        completedChallenges: challenges.filter(c => c.status === ChallengeStatus.COMPLETED).length,
+        challenges: challenges.map(toGraphNode),
+        graph: await getDependencyGraph({ seriesId }),
+    };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// SERIES COMPLETION
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Completes a series once every one of its challenges is COMPLETED (an empty series never is).
+ * Idempotent: timestampCompleted is set with a compare-and-set, so the event and the stat
+ * are recorded once even if several completions race.
+ * @returns The completed series, or null if it is not (or was already) complete.
+ */
+export async function completeSeriesIfDone(seriesId: number): Promise<ChallengeSeries | null> {
+    const txNow = new Date();
+
+    const completed = await prisma.$transaction(async (tx) => {
+        const series = await tx.challengeSeries.findUnique({
+            where: { id: seriesId },
+            include: { challenges: { select: { challengeId: true, status: true } } },
+        });
+
+        if (!series || series.timestampCompleted || series.challenges.length === 0) {
+            return null;
+        }
+        if (series.challenges.some(c => c.status !== ChallengeStatus.COMPLETED)) {
+            return null;
+        }
+
+        const { count } = await tx.challengeSeries.updateMany({
+            where: { id: seriesId, timestampCompleted: null },
+            data: { timestampCompleted: txNow },
+        });
+
+        if (count === 0) {
+            return null;
+        }
+
+        await tx.streamStat.upsert({
+            where: { id: 1 },
+            create: { id: 1, totalSeriesCompleted: 1 },
+            update: { totalSeriesCompleted: { increment: 1 } },
+        });
+
+        return { ...series, timestampCompleted: txNow };
+    });
+
+    if (!completed) {
+        return null;
+    }
+
+    const { challenges, ...series } = completed;
+
+    logger.info(`Challenge Series: #${seriesId} '${series.name}' completed (${challenges.length} challenges).`, {
+        seriesId,
+        action: 'series_completed',
+    });
+
+    publishChallengeEvent(ChallengeEvents.SERIES_COMPLETED, {
+        ...series,
+        challengeIds: challenges.map(c => c.challengeId),
+    });
+
+    return series;
+}
+
+
+
+/**
+ * Scheduled safety net: completes the series whose last CHALLENGE_COMPLETED event never reached
+ * the series subscriber.
+ * @returns How many series were completed.
+ */
+export async function completeFinishedSeries(): Promise<number> {
+    const candidates = await prisma.challengeSeries.findMany({
+        where: {
+            timestampCompleted: null,
+            challenges: { some: {}, every: { status: ChallengeStatus.COMPLETED } },
+        },
+        select: { id: true },
+    });
+
+    let completedCount = 0;
+    for (const { id } of candidates) {
+        if (await completeSeriesIfDone(id)) completedCount++;
+    }
+
+    return completedCount;
+}
@@ -1,27 +1,41 @@
 // src/services/challengeService.ts
 
 import {
-    LIVE_DISCOUNT_MULTIPLIER,
-    SUBMISSION_BASE_COST,
     MAX_TOKEN_DURATION_MINUTES,
-    PUSH_BASE_COST,
-    DISRUPT_COST,
+    DISRUPT_MAX_CONSTRAINT_LENGTH,
+    DISRUPT_SESSION_SHIFT_MS,
+    MAX_BASKET_LINES,
+    MAX_QUOTE_QUANTITY,
+    PUSH_QUOTE_EXPIRATION_MS,
+    QUOTE_LOCK_STALE_MS,
+    PUSHER_LEADERBOARD_DEFAULT_LIMIT,
+    PUSHER_LEADERBOARD_MAX_LIMIT,
     SESSION_DURATION_MS,
-    LIVE_DISCOUNT_MULTIPLIER_NUMERATOR,
+    ARCHIVE_AFTER_STREAM_DAYS,
     DISCOUNT_DIVISOR,
-    DIGOUT_PERCENTAGE_NUMERATOR
 } from '../config/gameConfig'; 
 import { isTrustedUrl } from '../config/sourcesConfig';
 
-import { Account, Challenge, ChallengeStatus, CadenceUnit, DurationType, PlatformName, User } from '@prisma/client';
+import { Account, Challenge, ChallengeStatus, CadenceUnit, Disrupt, DisruptEffect, DurationType, LedgerReason, PlatformName, Prisma, TempQuote, User } from '@prisma/client';
 import logger from '../logger';
 import prisma from '../prisma';
 
+import { IllegalChallengeTransitionError, transitionChallenge } from './challengeStateMachine';
 import { publishChallengeEvent, ChallengeEvents } from './eventService';
 import { generateToken, validateDuration } from './jwtService';
-import { addNumbersViaLumia, deductNumbersViaLumia } from './lumiaService';
+import { ChargeNotReservedError, chargeViaLumia, runWithChargeCompensation } from './chargeService';
+import { COMMUNITY_CHEST, TREASURY, recordLedgerTransfer, userParty } from './ledgerService';
+import { refreshAccountBalance } from './reconciliationService';
+import { enqueueRefund, processRefundsNow } from './refundService';
+import { isSettledStatus, settleChallenge, SettlementOutcome, transitionAndSettle } from './settlementService';
+import { LUMIA_TRANSACTION_OPTIONS, toPaymentFailure } from './lumiaService';
 import { isStreamLive, getCurrentStreamSessionId} from './streamService';
 import { recordUserActivity } from './userService';
+import { resolveFundingAccount } from './accountTransferService';
+import { EconomyPrices, getActiveEconomyConfig, getEconomyConfigVersion } from './economyConfigService';
+import { assertPrerequisitesCompleted } from './challengeSeriesService';
+import { writeChallengeRevision } from './challengeRevisionService';
+import { ChallengeClassificationFilter, ChallengeClassificationInput, challengeClassificationFilter, normalizeTags, resolveCategorySlug } from './challengeCategoryService';
 
 import { convertDurationToMinutes } from '../utils/jwtUtils'; 
 
@@ -42,6 +56,20 @@ interface ExecuteResult {
     wasPreviousChallengeStopped: boolean; // True if a previous challenge was finalized
 }
 
+// The effect requested with !disrupt, with its arguments
+export type DisruptRequest =
+    | { effect: 'constraint'; text: string }
+    | { effect: 'shorten' }
+    | { effect: 'extend' }
+    | { effect: 'swap'; targetChallengeId: number };
+
+export interface DisruptResult {
+    disrupt: Disrupt;
+    disruptedChallenge: Challenge;
+    swappedToChallenge: Challenge | null;
+    message: string;
+}
+
 
 // --- Global Variable for Dynamic Import ---
 let uuidv4: Function | null = null;
@@ -346,16 +374,22 @@ export async function processAutomaticSessionTick(): Promise<SessionTickResult |
             updateData.cadenceProgressCounter = { increment: 1 };
         }
 
-        if (isCompleted) {
-            updateData.status = ChallengeStatus.COMPLETED;
-            updateData.timestampCompleted = txNow;
-        }
+        // Update the DB (the last session completes the challenge through the state machine)
+        const updatedChallenge = isCompleted
+            ? await transitionChallenge(tx, executingChallenge.challengeId, ChallengeStatus.COMPLETED, {
+                guard: { isExecuting: true },
+                data: updateData,
+                at: txNow,
+            })
+            : await tx.challenge.update({
+                where: { challengeId: executingChallenge.challengeId },
+                data: updateData
+            });
 
-        // Update the DB
-        const updatedChallenge = await tx.challenge.update({
-            where: { challengeId: executingChallenge.challengeId },
-            data: updateData
-        });
+        if (!updatedChallenge) {
+            // Stopped or finalized meanwhile: nothing left to tick.
+            return null;
+        }
 
         return {
             challenge: updatedChallenge,
@@ -383,6 +417,7 @@ export async function processAutomaticSessionTick(): Promise<SessionTickResult |
 export async function getCurrentDailySubmissionContext(userId: number | string): Promise<{
     dailySubmissionCount: number;
     baseCostPerSession: number;
+    economyConfigVersion: number;
 }> {
     const idToLookup = typeof userId === 'string' ? parseInt(userId, 10) : userId;
 
@@ -418,12 +453,14 @@ export async function getCurrentDailySubmissionContext(userId: number | string):
             N = updatedUser.dailySubmissionCount; // N is now 0
         }
 
-        // 2. Calculate the base cost using the (potentially reset) daily count
-        const cost = calculateSubmissionCost(N);
+        // 2. Calculate the base cost using the (potentially reset) daily count and the active prices
+        const economy = await getActiveEconomyConfig(tx);
+        const cost = calculateSubmissionCost(N, economy);
 
         return {
             dailySubmissionCount: N,
-            baseCostPerSession: cost
+            baseCostPerSession: cost,
+            economyConfigVersion: economy.version
         };
     });
 }
@@ -440,19 +477,20 @@ export async function getCurrentDailySubmissionContext(userId: number | string):
 /**
  * Calculates the quadratic cost for submitting a new challenge, based on the user's
  * daily submission count. Applies live stream discount if applicable.
+ * @param economy - The active prices (see economyConfigService).
  */
-function calculateSubmissionCost(challengeCountToday: number): number {
+export function calculateSubmissionCost(challengeCountToday: number, economy: EconomyPrices): number {
     const N = BigInt(challengeCountToday);
-    const base = BigInt(SUBMISSION_BASE_COST);
+    const base = BigInt(economy.submissionBaseCost);
     
     // 1. Calculate the quadratic core
     let costBig = base * ((N + 1n) * (N + 1n));
     
-    // 2. Apply LIVE STREAM Discount (21% off)
+    // 2. Apply LIVE STREAM Discount (e.g. 21% off)
     if (isStreamLive()) {
         // Scale the multiplier to avoid floating point BigInt error
-        // If LIVE_DISCOUNT_MULTIPLIER is 0.79, this becomes (cost * 79n) / 100n
-        const multiplierScaled = BigInt(Math.round(LIVE_DISCOUNT_MULTIPLIER * 100));
+        // A 21% discount becomes (cost * 79n) / 100n
+        const multiplierScaled = BigInt(100 - economy.liveDiscountPercent);
         costBig = (costBig * multiplierScaled) / 100n;
     }
     
@@ -462,15 +500,16 @@ function calculateSubmissionCost(challengeCountToday: number): number {
 
 
 /**
- * Applies the live discount (21% off) to a calculated cost,
+ * Applies the live discount (e.g. 21% off) to a calculated cost,
  * using BigInt arithmetic to ensure precision, and rounding up.
  * @param cost The calculated cost as a BigInt.
+ * @param economy The active prices (see economyConfigService).
  * @returns The discounted cost as a BigInt.
  */
-function applyLiveDiscount(cost: bigint): bigint {
+export function applyLiveDiscount(cost: bigint, economy: EconomyPrices): bigint {
   if (isStreamLive()) {
-    // 1. Calculate the discounted value (cost * 0.79)
-    const discountedCost = cost * LIVE_DISCOUNT_MULTIPLIER_NUMERATOR; 
+    // 1. Calculate the discounted value (e.g. cost * 0.79)
+    const discountedCost = cost * BigInt(100 - economy.liveDiscountPercent); 
     
     // 2. Perform ceiling division for final rounding: ceil(A / B) = (A + B - 1) / B
     // We use ceil() to round up, ensuring the charge is never lower than the calculation.
@@ -480,6 +519,42 @@ function applyLiveDiscount(cost: bigint): bigint {
 }
 
 
+/**
+ * Calculates the quadratic cost of `quantity` more pushes by a user who already pushed
+ * `currentUserPushCount` times on the challenge: Base Cost * (push index)^2 for each push,
+ * then the live discount.
+ */
+export function calculatePushCost(
+    pushBaseCost: number,
+    currentUserPushCount: number,
+    quantity: number,
+    economy: EconomyPrices
+): number {
+    let quotedCostBigInt: bigint = BigInt(0); // Initialize as BigInt
+    const baseCost = BigInt(pushBaseCost); // Convert base cost to BigInt
+
+    for (let i = 1; i <= quantity; i++) {
+        const incrementalCount = BigInt(currentUserPushCount + i); // Convert index to BigInt
+        // Cost formula: Base Cost * (User's Push Index)^2 (All BigInt arithmetic is safe)
+        quotedCostBigInt += baseCost * (incrementalCount * incrementalCount); 
+    }
+
+    // Coerce the precise BigInt result back to a number for saving to the 'Int' field
+    // This is safe because the quantity cap ensures the result is < 2.1 Billion.
+    return Number(applyLiveDiscount(quotedCostBigInt, economy));
+}
+
+
+/**
+ * Calculates the digout cost: digoutPercent of the challenge's total spend, rounded up (no live discount).
+ */
+export function calculateDigoutCost(totalNumbersSpent: bigint, economy: EconomyPrices): number {
+    // BigInt ceiling division: ceil(A / B) = (A + B - 1) / B
+    const digoutNumerator = totalNumbersSpent * BigInt(economy.digoutPercent);
+    return Number((digoutNumerator + DISCOUNT_DIVISOR - 1n) / DISCOUNT_DIVISOR);
+}
+
+
 
 
 
@@ -488,17 +563,23 @@ function applyLiveDiscount(cost: bigint): bigint {
 ////////////////////////////////////////////////////////////////////////////////////////
 // PROCESS PUSH QUOTE
 ////////////////////////////////////////////////////////////////////////////////////////
-export async function processPushQuote(
-  userId: number,
-  platformId: string, 
-  platformName: PlatformName,
-  challengeId: number,
-  quantity: number
-): Promise<{ quoteId: string; quotedCost: number; challenge: Challenge }> {
-  
+export interface PushBasketLine {
+    challengeId: number;
+    quantity: number;
+}
+
+/**
+ * Prices one push line: the challenge must be 'Active', and the quadratic formula runs
+ * on the user's own push count for that challenge. The base cost is the one snapshotted on the
+ * challenge at submission; the live discount is the active version's.
+ */
+async function pricePushLine(
+    userId: number,
+    challengeId: number,
+    quantity: number
+): Promise<{ quotedCost: number; challenge: Challenge; economyConfigVersion: number }> {
 
     // Implement a Quantity Cap
-    const MAX_QUOTE_QUANTITY = 210; 
     if (quantity > MAX_QUOTE_QUANTITY) {
         throw new Error(`Maximum push quantity is ${MAX_QUOTE_QUANTITY}. Please try a smaller amount.`);
     }
@@ -521,25 +602,23 @@ export async function processPushQuote(
     });
 
     const currentUserPushCount = userPushRecord._sum.quantity ?? 0; 
-    let quotedCostBigInt: bigint = BigInt(0); // Initialize as BigInt
-    const baseCost = BigInt(challenge.pushBaseCost); // Convert base cost to BigInt
-
-    // 3. Calculate the new quadratic cost for the requested quantity.
-    for (let i = 1; i <= quantity; i++) {
-        const incrementalCount = BigInt(currentUserPushCount + i); // Convert index to BigInt
-        // Cost formula: Base Cost * (User's Push Index)^2 (All BigInt arithmetic is safe)
-        quotedCostBigInt += baseCost * (incrementalCount * incrementalCount); 
-    }
 
-    // 4. Apply 21% discount if the stream is currently live.
-    // Note: This now calls the BigInt-safe version of the function
-    quotedCostBigInt = applyLiveDiscount(quotedCostBigInt); 
+    // 3. Calculate the new quadratic cost for the requested quantity (live discount included).
+    const economy = await getActiveEconomyConfig();
+    const quotedCost = calculatePushCost(challenge.pushBaseCost, currentUserPushCount, quantity, economy);
 
-    // Coerce the precise BigInt result back to a number for saving to the 'Int' field
-    // This is safe because the quantity cap ensures the result is < 2.1 Billion.
-    let quotedCost = Number(quotedCostBigInt);
+    return { quotedCost, challenge, economyConfigVersion: economy.version };
+}
 
-    // --- 4.5. CRITICAL: BALANCE PRE-CHECK ---
+/**
+ * Optimistic balance pre-check for a quote. Fails fast if the user's known balance cannot cover it.
+ */
+async function assertQuoteAffordable(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName,
+    quotedCost: number
+): Promise<void> {
     // Fetch the specific Account instead of the User
     const account = await prisma.account.findUnique({
         where: { 
@@ -556,22 +635,44 @@ export async function processPushQuote(
     }
 
     // Check Account balance
-    // Optimistic check: if the user's current known balance is less than the quote, fail fast.
-    if (account.currentBalance < quotedCost) {
-       // Use the precise BigInt value in the error message for transparency
-        throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${account.currentBalance} NUMBERS. Quoted push cost is ${quotedCostBigInt.toString()} NUMBERS.`);
+    // The mirror may be stale (NUMBERS earned off-platform), so ask Lumia before rejecting.
+    let knownBalance = account.currentBalance;
+    if (knownBalance < quotedCost) {
+        knownBalance = (await refreshAccountBalance(platformId, platformName)) ?? knownBalance;
     }
 
-    // --- 5. Save the generated quote to the temporary quote table.
-    // 1. Generate the unique ID and declare the variable
+    if (knownBalance < quotedCost) {
+        // Balance sharing: another linked account may cover it at confirm time
+        const fundingAccount = await resolveFundingAccount(prisma, userId, platformId, platformName, quotedCost);
+        if (fundingAccount.currentBalance >= quotedCost) {
+            return;
+        }
+
+        throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${knownBalance} NUMBERS. Quoted push cost is ${quotedCost} NUMBERS.`);
+    }
+}
+
+
+
+export async function processPushQuote(
+  userId: number,
+  platformId: string, 
+  platformName: PlatformName,
+  challengeId: number,
+  quantity: number
+): Promise<{ quoteId: string; quotedCost: number; challenge: Challenge }> {
+
+    // 1. Price the push and check the balance
+    const { quotedCost, challenge, economyConfigVersion } = await pricePushLine(userId, challengeId, quantity);
+    await assertQuoteAffordable(userId, platformId, platformName, quotedCost);
 
+    // 2. Save the generated quote to the temporary quote table.
     // 🛑 IMPORTANT: Use await to get the dynamically loaded function
-        const v4 = await getV4(); 
-        const quoteId = v4();
+    const v4 = await getV4(); 
+    const quoteId = v4();
 
-        await prisma.tempQuote.create({
+    await prisma.tempQuote.create({
         data: {
-            // 2. Use the defined variable. (Shorthand is clean here)
             quoteId, 
             userId: userId,
             challengeId: challengeId,
@@ -579,8 +680,9 @@ export async function processPushQuote(
             quotedCost: quotedCost,
             timestampCreated: new Date().toISOString(), 
             isLocked: false,
-            },
-        });
+            economyConfigVersion,
+        },
+    });
 
     return { quoteId, quotedCost, challenge };
 }
@@ -591,15 +693,150 @@ export async function processPushQuote(
 
 
 
+////////////////////////////////////////////////////////////////////////////////////////
+// PROCESS PUSH BASKET QUOTE
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Quotes pushes on several challenges at once (e.g. !push 12 3 40 2).
+ * Every line is priced like a single quote and saved as its own TempQuote; the lines share
+ * a basketId and are confirmed together, with one Lumia deduction, by processPushConfirm.
+ * A challenge listed twice is merged into one line. Any invalid line rejects the whole quote.
+ * @returns The basketId, the priced lines and their total.
+ */
+export async function processPushBasketQuote(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName,
+    lines: PushBasketLine[]
+): Promise<{ basketId: string; totalCost: number; lines: Array<PushBasketLine & { quoteId: string; quotedCost: number }> }> {
+
+    // 1. Merge repeated challenges and enforce the basket size
+    const quantities = new Map<number, number>();
+    for (const line of lines) {
+        quantities.set(line.challengeId, (quantities.get(line.challengeId) ?? 0) + line.quantity);
+    }
+
+    if (quantities.size === 0) {
+        throw new Error('Push basket is empty. Use: !push [ID] [N] [ID] [N]...');
+    }
+    if (quantities.size > MAX_BASKET_LINES) {
+        throw new Error(`Push basket too large: at most ${MAX_BASKET_LINES} challenges per basket.`);
+    }
+
+    // 2. Price every line, then check the balance against the total
+    const v4 = await getV4();
+    const pricedLines: Array<PushBasketLine & { quoteId: string; quotedCost: number; economyConfigVersion: number }> = [];
+
+    for (const [challengeId, quantity] of quantities) {
+        const { quotedCost, economyConfigVersion } = await pricePushLine(userId, challengeId, quantity);
+        pricedLines.push({ quoteId: v4(), challengeId, quantity, quotedCost, economyConfigVersion });
+    }
+
+    const totalCost = pricedLines.reduce((sum, line) => sum + line.quotedCost, 0);
+    await assertQuoteAffordable(userId, platformId, platformName, totalCost);
+
+    // 3. Save the lines under one basket (same timestamp: they expire together)
+    const basketId = v4();
+    const timestampCreated = new Date();
+
+    await prisma.tempQuote.createMany({
+        data: pricedLines.map(line => ({
+            quoteId: line.quoteId,
+            basketId,
+            userId,
+            challengeId: line.challengeId,
+            quantity: line.quantity,
+            quotedCost: line.quotedCost,
+            timestampCreated,
+            isLocked: false,
+            economyConfigVersion: line.economyConfigVersion,
+        })),
+    });
+
+    return { basketId, totalCost, lines: pricedLines };
+}
+
+
+
+
+
+
+
 ////////////////////////////////////////////////////////////////////////////////////////
 // PROCESS PUSH CONFIRM
 ////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Finds the user's quote lines a reference points to: a quote or basket ID, or a prefix of one
+ * (chat shows the first 8 characters). A basket always resolves to all of its lines.
+ * Only active quotes (unexpired, not locked by an in-flight confirm) can make a reference ambiguous.
+ * When no active quote matches, the newest expired or locked match is returned: callers check
+ * the expiry and the lock themselves, and report them.
+ * @returns The lines, or an empty array if nothing matches.
+ */
+async function findQuotesByReference(
+    client: Prisma.TransactionClient,
+    userId: number,
+    reference: string
+): Promise<TempQuote[]> {
+    const candidates = await client.tempQuote.findMany({
+        where: {
+            userId: userId,
+            OR: [{ quoteId: { startsWith: reference } }, { basketId: { startsWith: reference } }],
+        },
+        orderBy: [{ timestampCreated: 'desc' }, { quoteId: 'asc' }],
+    });
+
+    const expirationCutoff = Date.now() - PUSH_QUOTE_EXPIRATION_MS;
+    const activeCandidates = candidates.filter(quote => !quote.isLocked && quote.timestampCreated.getTime() >= expirationCutoff);
+
+    const matchedIds = new Set(activeCandidates.map(quote => quote.basketId ?? quote.quoteId));
+    if (matchedIds.size > 1) {
+        throw new Error(`Multiple active quotes match "${reference}". Use more characters of the quote ID.`);
+    }
+
+    const match = activeCandidates[0] ?? candidates[0];
+    if (!match) {
+        return [];
+    }
+
+    return match.basketId
+        ? client.tempQuote.findMany({ where: { basketId: match.basketId }, orderBy: { quoteId: 'asc' } })
+        : [match];
+}
+
+
+
+export interface PushLineOutcome {
+    quoteId: string;
+    challengeId: number;
+    quantity: number;
+    quotedCost: number;
+    status: 'CONFIRMED' | 'SKIPPED';
+    reason: string | null; // Why a line was SKIPPED
+}
+
+export interface PushConfirmResult {
+    basketId: string | null;
+    lines: PushLineOutcome[];
+    updatedChallenge: Challenge; // The challenge of the first confirmed line
+    transactionCost: number;     // Total charged (confirmed lines only)
+    quantity: number;            // Total pushes applied
+    updatedAccount: Account;
+}
+
+/**
+ * Confirms a single quote or a whole basket.
+ * Partial failure rule: a line whose challenge is no longer 'Active' is SKIPPED (not charged,
+ * quote dropped) and reported; the other lines are confirmed atomically with ONE Lumia deduction.
+ * If no line is left, nothing is charged and the confirm fails.
+ * @param quoteId - A quote ID or basket ID, or a prefix of one. When omitted, the user's only pending quote/basket.
+ */
 export async function processPushConfirm(
   userId: number,
   platformId: string,
   platformName: PlatformName,
   quoteId?: string 
-): Promise<{ updatedChallenge: Challenge; transactionCost: number; quantity: number, updatedAccount: Account }> {
+): Promise<PushConfirmResult> {
 
     const transactionTimestamp = new Date().toISOString();
     const txNow = new Date(transactionTimestamp);
@@ -607,21 +844,20 @@ export async function processPushConfirm(
     const currentStreamSessionId = getCurrentStreamSessionId(); 
 
 
-  return prisma.$transaction(async (tx) => {
-    const EXPIRATION_TIMEOUT_MS = 30 * 1000;
-    let quote;
-    const expirationCutoff = new Date(Date.now() - EXPIRATION_TIMEOUT_MS); 
+  return runWithChargeCompensation((charges) => prisma.$transaction(async (tx) => {
+    let quotes: TempQuote[];
+    const expirationCutoff = new Date(Date.now() - PUSH_QUOTE_EXPIRATION_MS); 
 
     // --- 1. QUOTE RETRIEVAL & LOOKUP LOGIC ---
     if (quoteId) {
-        // Case A: Direct lookup by UUID. We MUST still fetch the quote even if expired
-        // because we need its timestamp to check validity in Step 2.
-        quote = await tx.tempQuote.findUnique({ where: { quoteId: quoteId } });
+        // Case A: Lookup by quote ID, basket ID or a prefix of either. We MUST still fetch expired
+        // quotes because we need their timestamp to check validity in Step 2.
+        quotes = await findQuotesByReference(tx, userId, quoteId);
 
     } else {
-        // Case B: Efficiently find the single most recent, ACTIVE quote.
-        // prevents fetching large amounts of history.
-        const latestQuote = await tx.tempQuote.findFirst({
+        // Case B: The user's pending quotes. A basket counts as one; with several pending,
+        // refuse instead of silently picking the latest.
+        quotes = await tx.tempQuote.findMany({
             where: { 
                 userId: userId,
                 // filter by expiration to avoid confirming a truly stale quote
@@ -631,130 +867,166 @@ export async function processPushConfirm(
             orderBy: { timestampCreated: 'desc' }, 
         });
         
-        if (!latestQuote) {
+        if (quotes.length === 0) {
             throw new Error('No active quote found. Please run !push [ID] [N] again.');
         } 
-        
-        // Use the single latest quote found. Older quotes are ignored by default.
-        quote = latestQuote;
+
+        const pendingIds = [...new Set(quotes.map(quote => quote.basketId ?? quote.quoteId))];
+        if (pendingIds.length > 1) {
+            throw new Error(`Multiple active quotes found (${pendingIds.map(id => id.slice(0, 8)).join(', ')}). Confirm one with !push confirm [quoteId].`);
+        }
     }
 
     // --- 2. CORE QUOTE VALIDATION (Standardized Checks) ---
-    if (!quote || quote.userId !== userId) {
+    if (quotes.length === 0 || quotes.some(quote => quote.userId !== userId)) {
         throw new Error('Quote is invalid or does not belong to this user.'); 
     }
 
-    // **CRITICAL: EXPIRATION CHECK** - This now covers BOTH Case A (explicit ID) and 
-    // Case B (where the quote *should* be active, but checking guards against clock drift or manual errors).
-    if (quote.timestampCreated.getTime() < expirationCutoff.getTime()) { // <--- SIMPLIFIED CHECK
-        // For Case B, this line should never be hit, but it's essential for Case A.
-        await tx.tempQuote.delete({ where: { quoteId: quote.quoteId } });
+    // **CRITICAL: EXPIRATION CHECK** - Lines of a basket share one timestamp.
+    if (quotes[0].timestampCreated.getTime() < expirationCutoff.getTime()) {
         throw new Error('The push quote has expired. Please run !push [ID] [N] again.');
     }
-    
-    if (quote.isLocked) {
+
+    // --- 3. LOCK QUOTES & CHALLENGE VALIDATION ---
+    // Compare-and-set: if another transaction locked any line first, this one backs off.
+    const quoteIds = quotes.map(quote => quote.quoteId);
+    const { count: lockedCount } = await tx.tempQuote.updateMany({
+        where: { quoteId: { in: quoteIds }, isLocked: false },
+        data: { isLocked: true },
+    });
+
+    if (lockedCount !== quotes.length) {
         throw new Error('This quote is currently being processed by another transaction.');
     }
 
-    // --- 3. LOCK QUOTE & CHALLENGE VALIDATION ---
-    await tx.tempQuote.update({ where: { quoteId: quote.quoteId }, data: { isLocked: true } });
+    const lines: PushLineOutcome[] = [];
+    const challenges = new Map<number, Challenge>();
 
-    const challenge = await tx.challenge.findUnique({ where: { challengeId: quote.challengeId } });
-    if (!challenge || challenge.status !== ChallengeStatus.ACTIVE) {
-      await tx.tempQuote.delete({ where: { quoteId: quote.quoteId } }); 
-      throw new Error(`Challenge ID ${quote.challengeId} is no longer 'Active' and cannot be pushed.`);
+    for (const quote of quotes) {
+        const challenge = await tx.challenge.findUnique({ where: { challengeId: quote.challengeId } });
+        const isActive = challenge !== null && challenge.status === ChallengeStatus.ACTIVE;
+
+        if (isActive) {
+            challenges.set(challenge.challengeId, challenge);
+        }
+        lines.push({
+            quoteId: quote.quoteId,
+            challengeId: quote.challengeId,
+            quantity: quote.quantity,
+            quotedCost: quote.quotedCost,
+            status: isActive ? 'CONFIRMED' : 'SKIPPED',
+            reason: isActive ? null : `Challenge #${quote.challengeId} is no longer 'Active'.`,
+        });
     }
 
-    // --- 3.5. CRITICAL: BALANCE CHECK & LUMIA DEDUCTION ---
-    // Fetch the specific Account instead of the User
-    const accountContext = await tx.account.findUnique({
-        where: {
-             platformId_platformName: {
-                platformId: platformId, 
-                platformName: platformName
-            }
-        },
-        select: { currentBalance: true } 
-    });
-    
-    if (!accountContext) {
-        throw new Error(`Account not found for user ${userId} on platform ${platformName}.`);
+    const confirmedLines = lines.filter(line => line.status === 'CONFIRMED');
+
+    if (confirmedLines.length === 0) {
+        throw new Error(quotes.length === 1
+            ? `Challenge ID ${quotes[0].challengeId} is no longer 'Active' and cannot be pushed.`
+            : `Push basket rejected: none of its challenges is still 'Active'. Nothing was charged.`);
     }
 
-    const pushTransactionCost = quote.quotedCost;
+    // --- 3.5. CRITICAL: BALANCE CHECK & LUMIA DEDUCTION ---
+    const pushTransactionCost = confirmedLines.reduce((sum, line) => sum + line.quotedCost, 0);
+    const pushQuantity = confirmedLines.reduce((sum, line) => sum + line.quantity, 0);
+
+    // The calling Account, or another linked one that shares its balance
+    const accountContext = await resolveFundingAccount(tx, userId, platformId, platformName, pushTransactionCost);
 
     // Optimistic Local Balance Check (Check Account balance)
     if (accountContext.currentBalance < pushTransactionCost) {
-        await tx.tempQuote.delete({ where: { quoteId: quote.quoteId } });
         throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${accountContext.currentBalance} NUMBERS. Push costs ${pushTransactionCost} NUMBERS.`);
     }
 
-    // CRITICAL: Execute Authoritative Deduction via Lumia API
+    // CRITICAL: Execute Authoritative Deduction via Lumia API (one deduction for every confirmed line)
     let newAuthoritativeBalance: number;
         
     try {
         // Use the platformId passed in the function signature
-        const lumiaResult = await deductNumbersViaLumia(platformId, pushTransactionCost); 
-        newAuthoritativeBalance = lumiaResult.newBalance; 
+        newAuthoritativeBalance = await chargeViaLumia(tx, charges, {
+            userId,
+            platformId: accountContext.platformId,
+            platformName: accountContext.platformName,
+            amount: pushTransactionCost,
+            reason: LedgerReason.PUSH,
+            challengeId: confirmedLines.length === 1 ? confirmedLines[0].challengeId : null,
+        });
 
     } catch (error) {
-        // If Lumia fails, delete the quote and re-throw the error to rollback the entire Prisma transaction
+        if (error instanceof ChargeNotReservedError) { throw error; }
+        // Re-throw to rollback the entire Prisma transaction
         logger.error(`Lumia Push Deduction Failed for User ${userId} (Cost: ${pushTransactionCost}): ${error instanceof Error ? error.message : 'Unknown error'}`, { userId, platformId: platformId });
-        await tx.tempQuote.delete({ where: { quoteId: quote.quoteId } }); 
-        const errorMessage = error instanceof Error ? error.message : 'Unknown payment failure.';
-        throw new Error(`Payment failed. ${errorMessage.includes('Insufficient funds') ? 'Insufficient funds.' : 'Lumia connection error.'}`);
+        // Only expose a user-friendly message
+        throw toPaymentFailure(error);
     }
 
     // --- 4. ATOMIC DATABASE UPDATES ---
-    
-    // A. Update Challenge: Increment total push count and total cost spent on the challenge.
-    const updatedChallenge = await tx.challenge.update({
-        where: { challengeId: challenge.challengeId },
-        data: {
-            totalPush: { increment: quote.quantity },
-            totalNumbersSpent: { increment: BigInt(pushTransactionCost) },
-            timestampLastPushAt: txNow,
-            timestampLastActivityAt: txNow
-        },
-    });
-
-    // B. Record Push: Create a historical record of this specific push transaction.
-    await tx.push.create({
-        data: {
-            challengeId: challenge.challengeId,
-            userId: userId,
-            cost: pushTransactionCost, 
-            quantity: quote.quantity,
-        }
-    });
+    const updatedChallenges: Challenge[] = [];
 
-    // C. Update User: Metrics and Activity
-    await tx.user.update({
-            where: { id: userId },
+    for (const line of confirmedLines) {
+        // A. Update Challenge: Increment total push count and total cost spent on the challenge.
+        // This also locks the challenge row, so concurrent pushes on it are recounted one at a time.
+        await tx.challenge.update({
+            where: { challengeId: line.challengeId },
             data: {
-                totalNumbersSpent: { increment: BigInt(pushTransactionCost) },
-                totalPushesExecuted: { increment: quote.quantity },
+                totalPush: { increment: line.quantity },
+                totalNumbersSpent: { increment: BigInt(line.quotedCost) },
+                timestampLastPushAt: txNow,
+                timestampLastActivityAt: txNow
             },
         });
-        await recordUserActivity(tx, userId, transactionTimestamp);
-    // Update Account Balance: Update the specific Account with the authoritative balance
-    const updatedAccount = await tx.account.update({
-        where: {
-            platformId_platformName: {
-                platformId: platformId, 
-                platformName: platformName
+
+        // B. Record Push: Create a historical record of this specific push transaction.
+        await tx.push.create({
+            data: {
+                challengeId: line.challengeId,
+                userId: userId,
+                cost: line.quotedCost, 
+                quantity: line.quantity,
+                accountId: accountContext.id, // Refunds for this push go back to the paying account
+                economyConfigVersion: quotes.find(quote => quote.quoteId === line.quoteId)?.economyConfigVersion ?? null,
             }
-        },
+        });
+
+        // The unique pushers are recounted from the Push rows (as the account merge does)
+        const pushers = await tx.push.findMany({
+            where: { challengeId: line.challengeId },
+            distinct: ['userId'],
+            select: { userId: true },
+        });
+
+        updatedChallenges.push(await tx.challenge.update({
+            where: { challengeId: line.challengeId },
+            data: { uniquePusher: pushers.length },
+        }));
+
+        // C. Record the spending in the Ledger (User -> Treasury), one transfer per challenge.
+        await recordLedgerTransfer(tx, {
+            from: userParty(userId),
+            to: TREASURY,
+            amount: line.quotedCost,
+            reason: LedgerReason.PUSH,
+            challengeId: line.challengeId,
+            streamSessionId: currentStreamSessionId,
+        });
+    }
+
+    // D. Update User: Metrics and Activity
+    await tx.user.update({
+        where: { id: userId },
         data: {
-            currentBalance: newAuthoritativeBalance,
-        }
+            totalNumbersSpent: { increment: BigInt(pushTransactionCost) },
+            totalPushesExecuted: { increment: pushQuantity },
+        },
     });
+    await recordUserActivity(tx, userId, transactionTimestamp);
 
-    // D. Update Global Ledger (User ID 1): Increment the community's game-wide spending.
-    await tx.user.updateMany({
-        where: { id: 1 }, 
+    // Update Account Balance: Update the paying Account with the authoritative balance
+    const updatedAccount = await tx.account.update({
+        where: { id: accountContext.id },
         data: {
-            totalNumbersSpentGameWide: { increment: BigInt(pushTransactionCost) },
+            currentBalance: newAuthoritativeBalance,
         }
     });
 
@@ -764,17 +1036,122 @@ export async function processPushConfirm(
             where: { streamSessionId: currentStreamSessionId },
             data: {
                 totalNumbersSpentInSession: { increment: pushTransactionCost },
-                totalPushesInSession: { increment: quote.quantity },
+                totalPushesInSession: { increment: pushQuantity },
                 totalNumbersSpentOnPush: { increment: pushTransactionCost }
             }
         });
     }
 
-    // --- 5. CLEANUP ---
-    await tx.tempQuote.delete({ where: { quoteId: quote.quoteId } });
+    // --- 5. CLEANUP (skipped lines included) ---
+    await tx.tempQuote.deleteMany({ where: { quoteId: { in: quoteIds } } });
+
+    return {
+        basketId: quotes[0].basketId,
+        lines,
+        updatedChallenge: updatedChallenges[0],
+        transactionCost: pushTransactionCost,
+        quantity: pushQuantity,
+        updatedAccount: updatedAccount as Account,
+    };
+  }, LUMIA_TRANSACTION_OPTIONS));
+}
+
+
+
+
+
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// QUOTE MANAGEMENT (LIST, CANCEL, SWEEP)
+////////////////////////////////////////////////////////////////////////////////////////
+export interface PendingPushQuote {
+    reference: string; // Basket ID for a basket, quote ID otherwise (what !push confirm / cancel accept)
+    isBasket: boolean;
+    lines: Array<{ quoteId: string; challengeId: number; quantity: number; quotedCost: number }>;
+    totalCost: number;
+    expiresAt: Date;
+}
+
+/**
+ * Lists the user's quotes that can still be confirmed, grouped by basket, newest first.
+ */
+export async function listPushQuotes(userId: number): Promise<PendingPushQuote[]> {
+    const quotes = await prisma.tempQuote.findMany({
+        where: {
+            userId: userId,
+            isLocked: false,
+            timestampCreated: { gte: new Date(Date.now() - PUSH_QUOTE_EXPIRATION_MS) },
+        },
+        orderBy: [{ timestampCreated: 'desc' }, { quoteId: 'asc' }],
+    });
+
+    const pending = new Map<string, PendingPushQuote>();
+    for (const quote of quotes) {
+        const reference = quote.basketId ?? quote.quoteId;
+        const entry = pending.get(reference) ?? {
+            reference,
+            isBasket: quote.basketId !== null,
+            lines: [],
+            totalCost: 0,
+            expiresAt: new Date(quote.timestampCreated.getTime() + PUSH_QUOTE_EXPIRATION_MS),
+        };
+
+        entry.lines.push({ quoteId: quote.quoteId, challengeId: quote.challengeId, quantity: quote.quantity, quotedCost: quote.quotedCost });
+        entry.totalCost += quote.quotedCost;
+        pending.set(reference, entry);
+    }
+
+    return [...pending.values()];
+}
+
+
+
+/**
+ * Cancels one quote or basket (by ID or prefix), or every outstanding quote of the user.
+ * Quotes being confirmed right now (locked) are left alone.
+ * @returns The number of quote lines removed.
+ */
+export async function cancelPushQuotes(userId: number, reference?: string): Promise<number> {
+    const quoteIds = reference
+        ? (await findQuotesByReference(prisma, userId, reference)).filter(quote => !quote.isLocked).map(quote => quote.quoteId)
+        : undefined;
 
-    return { updatedChallenge, transactionCost: pushTransactionCost, quantity: quote.quantity, updatedAccount: updatedAccount as Account };
-  });
+    const { count } = await prisma.tempQuote.deleteMany({
+        where: {
+            userId: userId,
+            isLocked: false,
+            ...(quoteIds && { quoteId: { in: quoteIds } }),
+        },
+    });
+
+    if (count === 0) {
+        throw new Error(reference ? `No active quote found for "${reference}".` : 'No active quote found to cancel.');
+    }
+
+    return count;
+}
+
+
+
+/**
+ * Scheduled sweeper: deletes quotes past their expiry, and locked quotes whose confirm
+ * never finished (older than QUOTE_LOCK_STALE_MS, far beyond any transaction timeout).
+ * @returns The number of quote lines deleted.
+ */
+export async function sweepStaleQuotes(): Promise<number> {
+    const now = Date.now();
+
+    const { count } = await prisma.tempQuote.deleteMany({
+        where: {
+            OR: [
+                { isLocked: false, timestampCreated: { lt: new Date(now - PUSH_QUOTE_EXPIRATION_MS) } },
+                { isLocked: true, timestampCreated: { lt: new Date(now - QUOTE_LOCK_STALE_MS) } },
+            ],
+        },
+    });
+
+    return count;
 }
 
 
@@ -804,26 +1181,13 @@ export async function processDigout(
     
     const currentStreamSessionId = getCurrentStreamSessionId();
 
-    const result = await prisma.$transaction(async (tx) => {
+    const result = await runWithChargeCompensation((charges) => prisma.$transaction(async (tx) => {
         // 1. Fetch Challenge and User for validation
         const challenge = await tx.challenge.findUnique({
             where: { challengeId: challengeId },
         });
 
-        // Fetch the specific Account instead of the User
-        const accountContext = await tx.account.findUnique({
-            where: {
-                 platformId_platformName: {
-                    platformId: platformId, 
-                    platformName: platformName
-                }
-            },
-            select: { currentBalance: true } 
-        });
-
         if (!challenge) { throw new Error(`Challenge ID ${challengeId} not found.`); }
-        
-        if (!accountContext) { throw new Error(`Account not found for user ${userId} on platform ${platformName}.`); }
 
         if (challenge.status !== ChallengeStatus.ARCHIVED) {
             // Clarified message: Digout is only for time-expired challenges.
@@ -835,20 +1199,12 @@ export async function processDigout(
             throw new Error(`Challenge #${challengeId} has already been dug out once and cannot be revived again.`);
         }
 
-        // 2. Calculate Cost (21% of total_numbers_spent, rounded up)
-        
-        // --- BigInt-safe calculation for 21% cost ---
-        const totalSpentBigInt: bigint = challenge.totalNumbersSpent; // Total spent is now BigInt
-        
-        // 2a. Calculate numerator: totalSpent * 21
-        const digoutNumerator = totalSpentBigInt * DIGOUT_PERCENTAGE_NUMERATOR; 
-
-        // 2b. Apply BigInt ceiling division: ceil(A / B) = (A + B - 1) / B
-        const digoutCostBigInt = (digoutNumerator + DISCOUNT_DIVISOR - 1n) / DISCOUNT_DIVISOR;
+        // 2. Calculate Cost (digoutPercent of total_numbers_spent, rounded up)
+        const economy = await getActiveEconomyConfig(tx);
+        const digoutTransactionCost = calculateDigoutCost(challenge.totalNumbersSpent, economy);
 
-        // 2c. Convert the precise BigInt result back to a number (required for Lumia and `Int` fields)
-        const digoutTransactionCost = Number(digoutCostBigInt);
-        // -------------------------------------------------------------
+        // Fetch the paying Account (the calling one, or another linked one that shares its balance)
+        const accountContext = await resolveFundingAccount(tx, userId, platformId, platformName, digoutTransactionCost);
 
         // Check Account balance
         if (accountContext.currentBalance < digoutTransactionCost) { 
@@ -860,12 +1216,19 @@ export async function processDigout(
         
         try {
             // Use the platformId passed in the function signature
-            const lumiaResult = await deductNumbersViaLumia(platformId, digoutTransactionCost); 
-            newAuthoritativeBalance = lumiaResult.newBalance; 
+            newAuthoritativeBalance = await chargeViaLumia(tx, charges, {
+                userId,
+                platformId: accountContext.platformId,
+                platformName: accountContext.platformName,
+                amount: digoutTransactionCost,
+                reason: LedgerReason.DIGOUT,
+                challengeId,
+            });
         } catch (error) {
+            if (error instanceof ChargeNotReservedError) { throw error; }
             logger.error(`Lumia Digout Deduction Failed for User ${userId} (Cost: ${digoutTransactionCost}): ${error instanceof Error ? error.message : 'Unknown error'}`, { userId, platformId: platformId });
-            const errorMessage = error instanceof Error ? error.message : 'Unknown payment failure.';
-            throw new Error(`Payment failed. ${errorMessage.includes('Insufficient funds') ? 'Insufficient funds.' : 'Lumia connection error.'}`);
+            // Only expose a user-friendly message
+            throw toPaymentFailure(error);
         }
 
         // 3. Execute Transaction: Deduct cost, update user, and update challenge
@@ -880,25 +1243,22 @@ export async function processDigout(
         });
         const updatedUser = await recordUserActivity(tx, userId, transactionTimestamp);
 
-        // Update Account Balance: Update the specific Account with the authoritative balance
+        // Update Account Balance: Update the paying Account with the authoritative balance
         const updatedAccount = await tx.account.update({
-            where: {
-                platformId_platformName: {
-                    platformId: platformId, 
-                    platformName: platformName
-                }
-            },
+            where: { id: accountContext.id },
             data: {
                 currentBalance: newAuthoritativeBalance,
             }
         });
 
-        // Update Global Ledger (User ID 1): Increment the community's game-wide spending.
-        await tx.user.updateMany({
-            where: { id: 1 }, 
-            data: {
-                totalNumbersSpentGameWide: { increment: BigInt(digoutTransactionCost) },
-            }
+        // Record the spending in the Ledger (User -> Treasury).
+        await recordLedgerTransfer(tx, {
+            from: userParty(userId),
+            to: TREASURY,
+            amount: digoutTransactionCost,
+            reason: LedgerReason.DIGOUT,
+            challengeId: challengeId,
+            streamSessionId: currentStreamSessionId,
         });
 
         // New Stream Session Metrics Update
@@ -913,17 +1273,18 @@ export async function processDigout(
             });
         }
 
-        // Revive Challenge and reset clock
-        const updatedChallenge = await tx.challenge.update({
-            where: { challengeId: challengeId },
-            data: {
-                status: ChallengeStatus.ACTIVE,
-                streamDaysSinceActivation: 0,
-                timestampLastActivation: txNow,
-                timestampLastActivityAt: txNow,
-                hasBeenDiggedOut: true,
-            },
+        // Revive Challenge (the state machine resets its clock)
+        const updatedChallenge = await transitionChallenge(tx, challengeId, ChallengeStatus.ACTIVE, {
+            actorUserId: userId,
+            reason: 'Digout',
+            guard: { hasBeenDiggedOut: false },
+            data: { hasBeenDiggedOut: true },
+            at: txNow,
         });
+
+        if (!updatedChallenge) {
+            throw new Error(`Challenge #${challengeId} is currently being processed. Please try again.`);
+        }
         
         // 4. Return results
         return { 
@@ -932,7 +1293,7 @@ export async function processDigout(
             updatedAccount: updatedAccount as Account,
             cost: digoutTransactionCost
         };
-    }); // <-- The transaction block ends here. If successful, 'result' is populated.
+    }, LUMIA_TRANSACTION_OPTIONS)); // <-- The transaction block ends here. If successful, 'result' is populated.
     
     // OPTIMIZATION: Publish the event AFTER the transaction commits
     publishChallengeEvent(ChallengeEvents.CHALLENGE_DIGGED_OUT, result.updatedChallenge);
@@ -958,7 +1319,8 @@ export async function processChallengeSubmission(
     totalSessions: number,
     durationType: DurationType,
     sessionCadenceText?: string,
-    cadenceUnit?: CadenceUnit
+    cadenceUnit?: CadenceUnit,
+    classification: ChallengeClassificationInput = {}
 ): Promise<{ newChallenge: Challenge, cost: number, updatedUser: User, updatedAccount: Account }> { 
 
     const transactionTimestamp = new Date().toISOString();
@@ -978,15 +1340,20 @@ export async function processChallengeSubmission(
     throw new Error("sessionCadenceText is required for Recurring challenges.");
     }
 
-    return prisma.$transaction(async (tx) => {
+    const tags = normalizeTags(classification.tags);
+
+    return runWithChargeCompensation((charges) => prisma.$transaction(async (tx) => {
         
         // 0. ENRICH & VALIDATE STRUCTURED DATA
         // Pass the raw challengeText through our processor to handle whitelists and sanitization.
         const structuredChallenge = validateAndEnrichChallenge(challengeText);
+        // Submitter-chosen category (an active ChallengeCategory, or the default one)
+        const category = await resolveCategorySlug(classification.category, tx);
 
         // 1. Get Submission Context (handles conditional reset and returns cost for N daily submission)
-        const { dailySubmissionCount: N, baseCostPerSession: submissionCost } = 
+        const { dailySubmissionCount: N, baseCostPerSession: submissionCost, economyConfigVersion } = 
             await getCurrentDailySubmissionContext(userId); 
+        const economy = await getEconomyConfigVersion(tx, economyConfigVersion);
         
         // 2. Fetch User and Account Context
         // Fetch the specific Account using all three keys
@@ -1014,26 +1381,34 @@ export async function processChallengeSubmission(
         // If the user was just created in authMiddleware, the account is guaranteed to exist.
         if (!accountContext) { throw new Error(`Account not found for user ${userId} on platform ${platformName}.`); }
 
+        // The paying Account: the calling one, or another linked one that shares its balance
+        const fundingAccount = await resolveFundingAccount(tx, userId, platformId, platformName, submissionCost);
+
         // Optimistic Local Balance Check (Check Account.currentBalance)
-        if (accountContext.currentBalance < submissionCost) {
-            throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${accountContext.currentBalance} NUMBERS. Challenge submission costs ${submissionCost} NUMBERS.`);
+        if (fundingAccount.currentBalance < submissionCost) {
+            throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${fundingAccount.currentBalance} NUMBERS. Challenge submission costs ${submissionCost} NUMBERS.`);
         }
         
         // 4. CRITICAL: Execute Authoritative Deduction via Lumia API
         let newAuthoritativeBalance: number;
         
         try {
-            // Pass the correct platformId and cost to the external API
-            const lumiaResult = await deductNumbersViaLumia(platformId, submissionCost); 
-            newAuthoritativeBalance = lumiaResult.newBalance; // Store the new authoritative balance
+            // Pass the paying account's platformId and the cost to the external API
+            newAuthoritativeBalance = await chargeViaLumia(tx, charges, {
+                userId,
+                platformId: fundingAccount.platformId,
+                platformName: fundingAccount.platformName,
+                amount: submissionCost,
+                reason: LedgerReason.SUBMISSION,
+            }); // Store the new authoritative balance
 
         } catch (error) {
+            if (error instanceof ChargeNotReservedError) { throw error; }
             // If Lumia fails, re-throw the error to rollback the entire Prisma transaction
             logger.error(`Lumia Deduction Failed for User ${userId} (Cost: ${submissionCost}): ${error instanceof Error ? error.message : 'Unknown error'}`, { userId, platformId: accountContext.platformId });
             
-            const errorMessage = error instanceof Error ? error.message : 'Unknown payment failure.';
             // Only expose a user-friendly message
-            throw new Error(`Payment failed. ${errorMessage.includes('Insufficient funds') ? 'Insufficient funds.' : 'Lumia connection error.'}`);
+            throw toPaymentFailure(error);
         }
 
         // Parse required count for recurring challenges
@@ -1052,10 +1427,12 @@ export async function processChallengeSubmission(
                 status: structuredChallenge.system.requiresReview 
                 ? "UNDER_REVIEW" 
                 : "ACTIVE", // Required field with conditional logic
-                category: "General", // Required field (Defaulted here)
+                category: category, // Required field (ChallengeCategory slug)
+                tags: tags,
                 durationType: durationType, // Required field
-                pushBaseCost: PUSH_BASE_COST,
+                pushBaseCost: economy.pushBaseCost, // Snapshot: pushes on this challenge keep this base cost
                 submissionCost: submissionCost,
+                economyConfigVersion: economy.version,
                 // --- CADENCE FIELDS ---
                 ...(sessionCadenceText && { sessionCadenceText: sessionCadenceText }),
                 ...(cadenceUnit && { cadenceUnit: cadenceUnit }),
@@ -1073,6 +1450,18 @@ export async function processChallengeSubmission(
             }
         });
 
+        // The submitted text is revision 1 (edits add the next ones, see challengeRevisionService)
+        await tx.challengeRevision.create({
+            data: {
+                challengeId: newChallenge.challengeId,
+                revision: 1,
+                challengeText: structuredChallenge as any,
+                requiresReview: structuredChallenge.system.requiresReview,
+                editedByUserId: userId,
+                createdAt: txNow,
+            },
+        });
+
         // 6. Update User Stats & Activity
         await tx.user.update({
             where: { id: userId },
@@ -1084,25 +1473,22 @@ export async function processChallengeSubmission(
         });
         const updatedUser = await recordUserActivity(tx, userId, transactionTimestamp);
 
-        // Update Account Balance
+        // Update the paying Account's Balance
         const updatedAccount = await tx.account.update({
-            where: {
-                platformId_platformName: {
-                    platformId: platformId, 
-                    platformName: platformName
-                }
-            },
+            where: { id: fundingAccount.id },
             data: {
                 currentBalance: newAuthoritativeBalance, // Int column
             }
         });
 
-        // 7. Targeted Update for Global Ledger ---
-        await tx.user.update({ 
-            where: { id: 1 }, 
-            data: { 
-                totalNumbersSpentGameWide: { increment: BigInt(submissionCost) } 
-            } 
+        // 7. Record the spending in the Ledger (User -> Treasury) ---
+        await recordLedgerTransfer(tx, {
+            from: userParty(userId),
+            to: TREASURY,
+            amount: submissionCost,
+            reason: LedgerReason.SUBMISSION,
+            challengeId: newChallenge.challengeId,
+            streamSessionId: currentStreamSessionId,
         });
         
         // 8. Defensive casting for Stream Metrics ---
@@ -1126,7 +1512,7 @@ export async function processChallengeSubmission(
             updatedUser: updatedUser as User,
             updatedAccount: updatedAccount as Account
         };
-    }).catch((error) => {
+    }, LUMIA_TRANSACTION_OPTIONS)).catch((error) => {
         // GLOBAL CATCH: Log the error details before re-throwing
         console.log("-----------------------------------------");
         console.error("❌ CRITICAL SUBMISSION FAILURE DETECTED");
@@ -1166,24 +1552,26 @@ export async function archiveExpiredChallenges(): Promise<number> {
     const transactionTimestamp = new Date().toISOString();
     const txNow = new Date(transactionTimestamp);
 
-    // We use updateMany within a transaction block for safety, though it's not strictly necessary here.
-    const result = await prisma.$transaction(async (tx) => {
-        
-        // 1. Find and update all active challenges that have reached or passed the 21-day limit.
-        const updateResult = await tx.challenge.updateMany({
-            where: {
-                status: ChallengeStatus.ACTIVE,
-                streamDaysSinceActivation: { gte: 21 }, // Greater than or equal to 21
-            },
-            data: {
-                status: ChallengeStatus.ARCHIVED,
-                timestampLastActivityAt: txNow,
-            },
-        });
+    // 1. Find all active challenges that have reached or passed the 21-day limit.
+    const expiryCondition = {
+        status: ChallengeStatus.ACTIVE,
+        streamDaysSinceActivation: { gte: ARCHIVE_AFTER_STREAM_DAYS },
+    };
 
-        return updateResult.count; // Returns the number of updated records
+    const expiredChallenges = await prisma.challenge.findMany({
+        where: expiryCondition,
+        select: { challengeId: true, proposerUserId: true, timestampSettled: true },
     });
 
+    // 2. Archive and settle each one (refunds per the ARCHIVED policy)
+    let result = 0;
+    for (const challenge of expiredChallenges) {
+        const archived = await transitionAndSettle(challenge, ChallengeStatus.ARCHIVED, expiryCondition, {
+            timestampLastActivityAt: txNow,
+        }, txNow);
+        if (archived) result++;
+    }
+
     console.log(`[ChallengeService] Archived ${result} challenges.`);
     return result;
 }
@@ -1227,21 +1615,31 @@ export async function finalizeInProgressChallenge(): Promise<Challenge | null> {
         timestampLastActivityAt: txNow,
     };
 
-    if (isCompleted) {
-        updateData.status = ChallengeStatus.COMPLETED;
-        updateData.timestampCompleted = txNow;
-        updateData.timestampLastActivityAt = txNow;
-    } 
-    // Else: Status remains 'InProgress'.
-
-    let completedChallenge = await prisma.challenge.update({
-        where: { challengeId: executingChallenge.challengeId },
-        data: updateData
-    });
+    // The last session completes the challenge through the state machine; otherwise the status remains 'InProgress'.
+    const completedChallenge = isCompleted
+        ? await prisma.$transaction((tx) => transitionChallenge(tx, executingChallenge.challengeId, ChallengeStatus.COMPLETED, {
+            guard: { isExecuting: true },
+            data: updateData,
+            at: txNow,
+        }))
+        : await prisma.challenge.update({
+            where: { challengeId: executingChallenge.challengeId },
+            data: updateData
+        });
+
+    if (!completedChallenge) {
+        console.log(`[ChallengeService] Challenge #${executingChallenge.challengeId} changed before it could be finalized. Skipping.`);
+        return null;
+    }
     
     const statusText = isCompleted ? ChallengeStatus.COMPLETED : `finished session ${nextSessionCount} of ${completedChallenge.totalSessions}. Status remains InProgress.`;
     console.log(`[ChallengeService] Challenge #${completedChallenge.challengeId} finalized as ${statusText}.`);
 
+    if (isCompleted) {
+        // PUBLISH EVENT: CHALLENGE_COMPLETED (the final session ended with the stream)
+        publishChallengeEvent(ChallengeEvents.CHALLENGE_COMPLETED, completedChallenge);
+    }
+
     return completedChallenge;
 }
 
@@ -1256,76 +1654,91 @@ export async function finalizeInProgressChallenge(): Promise<Challenge | null> {
 ////////////////////////////////////////////////////////////////////////////////////////
 export async function processExecuteChallenge(challengeId: number): Promise<ExecuteResult> {
     
-    return prisma.$transaction(async (tx) => {
-        const transactionTimestamp = new Date().toISOString();
-        const txNow = new Date(transactionTimestamp);
+    const result = await prisma.$transaction((tx) => executeChallengeInTransaction(tx, challengeId));
 
-        // 1. Finalize the previously executing challenge (if any)
-        const previousChallenge = await tx.challenge.findFirst({ where: { isExecuting: true } });
-        
-        // Store the boolean result of whether a previous challenge was found/stopped
-        let wasPreviousChallengeStopped = false; 
+    if (result.executingChallenge.isExecuting) {
+        // PUBLISH EVENT: CHALLENGE_EXECUTED
+        publishChallengeEvent(ChallengeEvents.CHALLENGE_EXECUTED, result.executingChallenge);
+    }
 
-        if (previousChallenge) {
-            
-            await tx.challenge.update({
-                where: { challengeId: previousChallenge.challengeId },
-                data: {
-                    isExecuting: false,
-                    // Clearing the tick ensures the scheduler ignores it immediately.
-                    timestampLastSessionTick: null, 
-                    timestampLastActivityAt: txNow,
-                }
-            });
-            console.log(`[ChallengeService] Previous challenge #${previousChallenge.challengeId} manually stopped before launch.`);
-            wasPreviousChallengeStopped = true; // Set the flag to true
-        }
+    return result;
+}
 
-        // 2. Validate and fetch the challenge to be executed
-        const challenge = await tx.challenge.findUnique({
-            where: { challengeId: challengeId },
-        });
+/**
+ * Stops the currently executing challenge (if any) and starts the given one.
+ * Shared by the GM execute command and the SWAP disrupt; MUST run inside their transaction.
+ */
+async function executeChallengeInTransaction(tx: Prisma.TransactionClient, challengeId: number): Promise<ExecuteResult> {
+    const transactionTimestamp = new Date().toISOString();
+    const txNow = new Date(transactionTimestamp);
 
-        if (!challenge) { throw new Error(`Challenge ID ${challengeId} not found.`); }
+    // 1. Finalize the previously executing challenge (if any)
+    const previousChallenge = await tx.challenge.findFirst({ where: { isExecuting: true } });
+    
+    // Store the boolean result of whether a previous challenge was found/stopped
+    let wasPreviousChallengeStopped = false; 
+
+    if (previousChallenge) {
         
-        // Only Active (first session) or InProgress (resuming) challenges can be Executed.
-        if (challenge.status !== ChallengeStatus.ACTIVE && challenge.status !== ChallengeStatus.IN_PROGRESS) {
-            throw new Error(`Challenge #${challengeId} cannot be executed. Status must be 'ACTIVE' or 'IN_PROGRESS'`);
-        }
+        await tx.challenge.update({
+            where: { challengeId: previousChallenge.challengeId },
+            data: {
+                isExecuting: false,
+                // Clearing the tick ensures the scheduler ignores it immediately.
+                timestampLastSessionTick: null, 
+                timestampLastActivityAt: txNow,
+            }
+        });
+        console.log(`[ChallengeService] Previous challenge #${previousChallenge.challengeId} manually stopped before launch.`);
+        wasPreviousChallengeStopped = true; // Set the flag to true
+    }
 
-        // 3. Execute the new challenge
-        const newStatus = challenge.status === ChallengeStatus.ACTIVE ? ChallengeStatus.IN_PROGRESS : challenge.status;
+    // 2. Validate and fetch the challenge to be executed
+    const challenge = await tx.challenge.findUnique({
+        where: { challengeId: challengeId },
+    });
 
-        const updateData: any = {
-            status: newStatus, 
-            isExecuting: true,
-            sessionStartTimestamp: txNow,
-            timestampLastSessionTick: txNow, // CRITICAL: Start the 21-minute clock NOW!
-            timestampLastActivityAt: txNow,
-        };
+    if (!challenge) { throw new Error(`Challenge ID ${challengeId} not found.`); }
+    
+    // Only Active (first session) or InProgress (resuming) challenges can be Executed.
+    if (challenge.status !== ChallengeStatus.ACTIVE && challenge.status !== ChallengeStatus.IN_PROGRESS) {
+        throw new Error(`Challenge #${challengeId} cannot be executed. Status must be 'ACTIVE' or 'IN_PROGRESS'`);
+    }
 
-        // Set cadencePeriodStart ONLY when transitioning from ACTIVE to IN_PROGRESS
-        if (challenge.status === ChallengeStatus.ACTIVE && challenge.durationType === 'RECURRING') {
-            updateData.cadencePeriodStart = txNow;
-        }
+    // A first start (ACTIVE -> IN_PROGRESS) waits for every prerequisite to be COMPLETED
+    if (challenge.status === ChallengeStatus.ACTIVE) {
+        await assertPrerequisitesCompleted(tx, challengeId);
+    }
 
-        // Rename the returned variable to match the return block
-        const executingChallenge = await tx.challenge.update({
+    // 3. Execute the new challenge
+    const updateData = {
+        isExecuting: true,
+        sessionStartTimestamp: txNow,
+        timestampLastSessionTick: txNow, // CRITICAL: Start the 21-minute clock NOW!
+        timestampLastActivityAt: txNow,
+    };
+
+    // First session: ACTIVE -> IN_PROGRESS through the state machine (which starts a RECURRING cadence period).
+    // Resuming: the status remains IN_PROGRESS.
+    const executingChallenge = challenge.status === ChallengeStatus.ACTIVE
+        ? await transitionChallenge(tx, challengeId, ChallengeStatus.IN_PROGRESS, { data: updateData, at: txNow })
+        : await tx.challenge.update({
             where: { challengeId: challengeId },
             data: updateData
         });
 
-        if (executingChallenge.isExecuting) {
-            // PUBLISH EVENT: CHALLENGE_EXECUTED
-            publishChallengeEvent(ChallengeEvents.CHALLENGE_EXECUTED, executingChallenge);
-        }
+    if (!executingChallenge) {
+        throw new Error(`Challenge #${challengeId} is currently being processed. Please try again.`);
+    }
 
-        // Use the correct variable names in the return object
-        return {
-            executingChallenge: executingChallenge, 
-            wasPreviousChallengeStopped: wasPreviousChallengeStopped, 
-        };
-    });
+    // A pin or skip only applies while the challenge waits in the queue
+    await tx.queueOverride.deleteMany({ where: { challengeId: challengeId } });
+
+    // Use the correct variable names in the return object
+    return {
+        executingChallenge: executingChallenge, 
+        wasPreviousChallengeStopped: wasPreviousChallengeStopped, 
+    };
 }
 
 
@@ -1338,11 +1751,11 @@ export async function processExecuteChallenge(challengeId: number): Promise<Exec
 // FETCH ACTIVE CHALLENGES
 ////////////////////////////////////////////////////////////////////////////////////////
 /**
- * Fetches all challenges that are currently 'Active'.
+ * Fetches all challenges that are currently 'Active', optionally by category and tags.
  */
-export async function getActiveChallenges() {
+export async function getActiveChallenges(filter: ChallengeClassificationFilter = {}) {
     return prisma.challenge.findMany({
-        where: { status: ChallengeStatus.ACTIVE },
+        where: { ...challengeClassificationFilter(filter), status: ChallengeStatus.ACTIVE },
         orderBy: { totalNumbersSpent: 'desc' },
     });
 }
@@ -1353,19 +1766,98 @@ export async function getActiveChallenges() {
 
 
 
+////////////////////////////////////////////////////////////////////////////////////////
+// PUSHER LEADERBOARD
+////////////////////////////////////////////////////////////////////////////////////////
+export interface PusherLeaderboardEntry {
+    rank: number;
+    userId: number;
+    username: string | null;
+    quantity: number;
+    numbersSpent: number;
+    pushCount: number;
+}
+
+/**
+ * Ranks the users who pushed a challenge, derived from the Push table.
+ * Ordered by NUMBERS spent, then quantity; ties share a rank (1, 2, 2, 4).
+ * @param challengeId - The challenge to rank pushers for.
+ * @param limit - Maximum number of rows (capped at PUSHER_LEADERBOARD_MAX_LIMIT).
+ * @returns The challenge's uniquePusher count and the ranked entries.
+ */
+export async function getChallengePushers(
+    challengeId: number,
+    limit: number = PUSHER_LEADERBOARD_DEFAULT_LIMIT
+): Promise<{ challengeId: number; uniquePushers: number; pushers: PusherLeaderboardEntry[] }> {
+    const challenge = await prisma.challenge.findUnique({
+        where: { challengeId },
+        select: { challengeId: true, uniquePusher: true },
+    });
+
+    if (!challenge) {
+        throw new Error(`Challenge ID ${challengeId} not found.`);
+    }
+
+    const totals = await prisma.push.groupBy({
+        by: ['userId'],
+        where: { challengeId },
+        _sum: { cost: true, quantity: true },
+        _count: { _all: true },
+        orderBy: [{ _sum: { cost: 'desc' } }, { _sum: { quantity: 'desc' } }, { userId: 'asc' }],
+        take: Math.min(Math.max(limit, 1), PUSHER_LEADERBOARD_MAX_LIMIT),
+    });
+
+    // Display name: the user's most recently active account
+    const accounts = await prisma.account.findMany({
+        where: { userId: { in: totals.map(total => total.userId) } },
+        orderBy: [{ lastActivityTimestamp: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+        select: { userId: true, username: true },
+    });
+    const usernames = new Map<number, string | null>();
+    for (const account of accounts) {
+        if (!usernames.has(account.userId)) usernames.set(account.userId, account.username);
+    }
+
+    const pushers: PusherLeaderboardEntry[] = [];
+    totals.forEach((total, index) => {
+        const numbersSpent = total._sum.cost ?? 0;
+        const quantity = total._sum.quantity ?? 0;
+        const previous = pushers[index - 1];
+        const isTie = previous && previous.numbersSpent === numbersSpent && previous.quantity === quantity;
+
+        pushers.push({
+            rank: isTie ? previous.rank : index + 1,
+            userId: total.userId,
+            username: usernames.get(total.userId) ?? null,
+            quantity,
+            numbersSpent,
+            pushCount: total._count._all,
+        });
+    });
+
+    return { challengeId, uniquePushers: challenge.uniquePusher, pushers };
+}
+
+
+
+
+
+
+
 ////////////////////////////////////////////////////////////////////////////////////////
 // PROCESS CHALLENGES REMOVERS
 ////////////////////////////////////////////////////////////////////////////////////////
 /**
  * Allows the Challenge author to remove their Challenge, refunding 21% of
  * the total spent cost back to all contributing pushers via an external API call.
+ * External refunds go through the durable refund queue: failures are retried by the scheduler.
  * @param authorUserId - The ID of the user executing the command (must be the author).
  * @param challengeId - The ID of the challenge to remove.
  */
 // Type definition for the return value of the Prisma transaction
 type ProcessRemoveTransactionResult = {
     updatedChallenge: Challenge;
-    allExternalRefundsToProcess: { userId: number, refundAmount: number }[];
+    refundIds: number[];
     totalRefundsAmount: number;
     option: RefundOption;
     fundsSinkText: string;
@@ -1428,9 +1920,13 @@ export async function processRemove(
         let pushersRefundAmount = 0;
         const pushersRefundsToProcess: { userId: number, refundAmount: number }[] = [];
 
+        // Only the pushes no earlier settlement has refunded (e.g. before an ARCHIVED + digout)
         const pusherContributions = await tx.push.groupBy({
             by: ['userId'],
-            where: { challengeId: challengeId },
+            where: {
+                challengeId: challengeId,
+                timestamp: { lte: txNow, ...(challenge.timestampSettled && { gt: challenge.timestampSettled }) },
+            },
             _sum: { cost: true },
         });
 
@@ -1477,14 +1973,38 @@ export async function processRemove(
             fundsSinkText = 'Author + Pushers';
         }
 
-        // A. Global Ledger (ID 1): Track Gross Refund (UNCHANGED)
-        await tx.user.updateMany({
-            where: { id: 1 },
-            data: {
-                totalNumbersReturnedFromRemovalsGameWide: { increment: totalRefundsAmount }
-            }
+        // A. Ledger: Record where the refund pool goes (Treasury -> Chest / Author / Pushers)
+        await recordLedgerTransfer(tx, {
+            from: TREASURY,
+            to: COMMUNITY_CHEST,
+            amount: toCommunityChest,
+            reason: LedgerReason.REMOVAL_FORFEIT,
+            challengeId: challengeId,
+            streamSessionId: currentStreamSessionId,
+        });
+
+        await recordLedgerTransfer(tx, {
+            from: TREASURY,
+            to: userParty(authorUserId),
+            amount: toAuthor,
+            reason: LedgerReason.REMOVAL_REFUND_AUTHOR,
+            challengeId: challengeId,
+            streamSessionId: currentStreamSessionId,
         });
 
+        if (toExternalPushers > 0) {
+            for (const pusherRefund of pushersRefundsToProcess) {
+                await recordLedgerTransfer(tx, {
+                    from: TREASURY,
+                    to: userParty(pusherRefund.userId),
+                    amount: pusherRefund.refundAmount,
+                    reason: LedgerReason.REMOVAL_REFUND_PUSHER,
+                    challengeId: challengeId,
+                    streamSessionId: currentStreamSessionId,
+                });
+            }
+        }
+
         // B. Update Stream Session Metrics (UNCHANGED)
         if (currentStreamSessionId) {
             await tx.stream.update({
@@ -1509,19 +2029,10 @@ export async function processRemove(
         // We now correctly record Live activity for removals!
         await recordUserActivity(tx, authorUserId, transactionTimestamp);
 
-        // D. Update Community Chest Ledger (User ID 1) and Balance
+        // D. Update Community Chest Balance (the running total lives in the Ledger)
         if (toCommunityChest > 0) {
             
-            // D1. Update the Community Chest's Aggregate Metrics (User ID 1)
-            // This is the global running total for the chest.
-            await tx.user.update({
-                where: { id: 1 },
-                data: {
-                    totalToCommunityChest: { increment: toCommunityChest },
-                }
-            });
-            
-            // D2. Update the designated Community Chest Account balance
+            // Update the designated Community Chest Account balance
             await tx.account.update({
                 where: {
                     platformId_platformName: {
@@ -1535,29 +2046,51 @@ export async function processRemove(
             });
         }
         
-        // 5. Update Challenge Status (CRITICAL STATE CHANGE)
-        const updatedChallenge = await tx.challenge.update({
-            where: { challengeId: challengeId },
+        // 5. Update Challenge Status (CRITICAL STATE CHANGE, through the state machine)
+        const updatedChallenge = await transitionChallenge(tx, challengeId, ChallengeStatus.REMOVED, {
+            actorUserId: authorUserId,
+            reason: 'Removed by the author',
             data: {
-                status: ChallengeStatus.REMOVED,
-                isExecuting: false,
-                timestampLastActivityAt: txNow,
+                numbersRaised: { increment: pusherContributions.reduce((sum, contribution) => sum + (contribution._sum?.cost || 0), 0) },
+                timestampSettled: txNow, // The removal refunds settle the rest of the Push history
             },
+            at: txNow,
         });
 
-        // --- Prepare the Consolidated External Refund List ---
-        // Start with the list of non-author pushers
-        const allExternalRefundsToProcess = [...pushersRefundsToProcess];
+        if (!updatedChallenge) {
+            throw new Error(`Challenge #${challengeId} is currently being processed. Please try again.`);
+        }
+
+        // 6. Queue the External Refunds (committed with the removal, paid after it)
+        // Pushers are only refunded externally in Option C; in Option B their share went to the Chest.
+        const refundIds: number[] = [];
+
+        if (toExternalPushers > 0) {
+            for (const pusherRefund of pushersRefundsToProcess) {
+                const queued = await enqueueRefund(tx, {
+                    userId: pusherRefund.userId,
+                    amount: pusherRefund.refundAmount,
+                    reason: LedgerReason.REMOVAL_REFUND_PUSHER,
+                    challengeId: challengeId,
+                });
+                refundIds.push(queued.id);
+            }
+        }
 
-        // If the author's share is meant for refund (Options B or C), add them to the list
+        // The author's share is refunded in Options B and C
         if (toAuthor > 0) {
-            // Add the author to the list that needs to be processed by the external API in Step 2
-            allExternalRefundsToProcess.push({ userId: authorUserId, refundAmount: toAuthor });
+            const queued = await enqueueRefund(tx, {
+                userId: authorUserId,
+                amount: toAuthor,
+                reason: LedgerReason.REMOVAL_REFUND_AUTHOR,
+                challengeId: challengeId,
+            });
+            refundIds.push(queued.id);
         }
 
         return {
             updatedChallenge,
-            allExternalRefundsToProcess, // This is the consolidated list returned as 'result'
+            refundIds,
             totalRefundsAmount,
             option: option as RefundOption, // Cast to the expected type
             fundsSinkText,
@@ -1568,64 +2101,8 @@ export async function processRemove(
     });
 
     // --- STEP 2: EXTERNAL REFUND CALLS (Lumia API INTEGRATION POINT) ---
-    const successfulRefunds: { userId: number, amount: number }[] = [];
-    const attemptedRefundCount = result.allExternalRefundsToProcess.length; // Max possible refunds
-
-    // Only process external calls if the option involved External Refunds (Options B or C)
-    const requiresExternalRefund = result.option === 'author_and_chest' || result.option === 'author_and_pushers';
-
-    if (requiresExternalRefund && attemptedRefundCount > 0) {
-
-        // 2a. Fetch platform IDs for all users requiring an external refund
-        const userIdsToRefund = result.allExternalRefundsToProcess.map(r => r.userId);
-
-        // Fetch ALL Accounts belonging to the users being refunded.
-        // We must assume the refund is applied to ONE account. Let's arbitrarily choose the first one found
-        // (or you can adjust this logic if you have a rule, like "Twitch account only").
-        const accountsToRefund = await prisma.account.findMany({
-            where: { userId: { in: userIdsToRefund } },
-            select: { userId: true, platformId: true }
-        });
-
-        // Create a map from userId to platformId using the first Account found for that user.
-        // This is a simplification; a more robust system might require tracking which platform
-        // they were originally pushing from. Since the Push model only tracks `userId`,
-        // we must default to a single Account per User for the refund.
-        const platformIdMap = new Map<number, string>();
-        accountsToRefund.forEach(account => {
-            // Only map the first account found for each user
-            if (!platformIdMap.has(account.userId)) {
-                platformIdMap.set(account.userId, account.platformId);
-            }
-        });
-
-        // 2b. Execute external refund calls (using Promise.all for potential parallel execution)
-        const refundPromises = result.allExternalRefundsToProcess.map(async (refund) => {
-            const platformId = platformIdMap.get(refund.userId);
-
-            if (!platformId) {
-                logger.error(`Refund Failed: User ${refund.userId} is missing platformId.`);
-                return; // Failed to refund, no platform ID
-            }
-
-            try {
-                // CRITICAL: Call the authoritative credit API
-                await addNumbersViaLumia(platformId, refund.refundAmount);
-
-                // Track success (no need to update local balance here as Lumia is authoritative)
-                successfulRefunds.push({ userId: refund.userId, amount: refund.refundAmount });
-
-            } catch (error) {
-                // Safely check if 'error' is an Error object before accessing '.message'
-                const errorMessage = error instanceof Error ? error.message : 'Unknown payment error during refund.';
-
-                logger.error(`Lumia Refund Failed for User ${refund.userId} (Amount: ${refund.refundAmount}): ${errorMessage}`, { userId: refund.userId, platformId });
-            }
-        });
-
-        // Wait for all refund attempts to complete
-        await Promise.all(refundPromises);
-    }
+    // First attempt right away; anything that fails stays queued for the scheduler.
+    const refundOutcome = await processRefundsNow(result.refundIds);
 
     // --- STEP 3: FINAL RESPONSE ---
 
@@ -1634,10 +2111,10 @@ export async function processRemove(
 
     return {
         updatedChallenge: result.updatedChallenge,
-        refundsProcessed: successfulRefunds.length,
+        refundsProcessed: refundOutcome.succeeded,
         totalRefundsAmount: result.totalRefundsAmount,
-        // Calculate failed refunds by subtracting successful attempts from the total possible attempts
-        failedRefunds: attemptedRefundCount - successfulRefunds.length,
+        // Refunds not paid yet: they remain in the queue and are retried with backoff
+        failedRefunds: refundOutcome.queued,
         fundsSink: result.fundsSinkText,
         toAuthor: result.toAuthor,
         toCommunityChest: result.toCommunityChest,
@@ -1653,41 +2130,83 @@ export async function processRemove(
 
 
 ////////////////////////////////////////////////////////////////////////////////////////
-// PROCESS DISRUPT (Placeholder for Future Chaos) (No changes needed)
+// PROCESS DISRUPT
 ////////////////////////////////////////////////////////////////////////////////////////
 /**
- * Executes a placeholder 'Disrupt' command, applying a fixed cost while tracking metrics.
- * Actual disrupt logic will be implemented post-launch.
+ * Executes a paid 'Disrupt' against the currently executing challenge:
+ * - constraint: appends an extra constraint to its challengeText (as a new ChallengeRevision).
+ * - shorten / extend: moves the running session's end by DISRUPT_SESSION_SHIFT_MS.
+ * - swap: stops it and starts another ACTIVE or IN_PROGRESS challenge.
+ * Every disrupt is stored and counted in the target's disruptCount.
+ * @param request - The effect and its arguments (parsed from !disrupt).
  */
 export async function processDisrupt(
     userId: number,
     platformId: string,
-    platformName: PlatformName
-): Promise<string> {
+    platformName: PlatformName,
+    request: DisruptRequest
+): Promise<DisruptResult> {
 
     const currentStreamSessionId = getCurrentStreamSessionId();
     const transactionTimestamp = new Date().toISOString();
+    const txNow = new Date(transactionTimestamp);
+
+    // Validate the arguments before anything is charged
+    const constraintText = request.effect === 'constraint'
+        ? request.text.replace(/<[^>]*>?/gm, "").trim()
+        : null;
+
+    if (constraintText !== null && (constraintText.length === 0 || constraintText.length > DISRUPT_MAX_CONSTRAINT_LENGTH)) {
+        throw new Error(`Disrupt constraint must be between 1 and ${DISRUPT_MAX_CONSTRAINT_LENGTH} characters.`);
+    }
     
-    return prisma.$transaction(async (tx) => {
-        // 1. Fetch User and Account and check balance
-        // Fetch the specific Account instead of the User
-        const accountContext = await tx.account.findUnique({
-            where: {
-                 platformId_platformName: {
-                    platformId: platformId, 
-                    platformName: platformName
-                }
-            },
-            select: { currentBalance: true } 
-        });
+    const result = await runWithChargeCompensation((charges) => prisma.$transaction(async (tx) => {
+        // 1. Find the target: the challenge executing right now
+        const target = await tx.challenge.findFirst({ where: { isExecuting: true } });
 
-        if (!accountContext) {
-            throw new Error(`Account not found for user ${userId} on platform ${platformName}.`);
+        if (!target) {
+            throw new Error('No challenge is currently executing. Disrupt needs a live target.');
         }
 
+        // 2. Validate the effect against the target BEFORE charging
+        let sessionShiftMs: number | null = null;
+        let newSessionTick: Date | null = null;
+
+        if (request.effect === 'shorten' || request.effect === 'extend') {
+            if (!target.timestampLastSessionTick) {
+                throw new Error(`Challenge #${target.challengeId} has no running session clock to disrupt.`);
+            }
+            sessionShiftMs = request.effect === 'shorten' ? -DISRUPT_SESSION_SHIFT_MS : DISRUPT_SESSION_SHIFT_MS;
+
+            // The session ends SESSION_DURATION_MS after the tick: an earlier tick shortens it, a later one extends it.
+            newSessionTick = new Date(target.timestampLastSessionTick.getTime() + sessionShiftMs);
+
+            if (newSessionTick.getTime() > txNow.getTime()) {
+                throw new Error(`Disrupt cannot extend Challenge #${target.challengeId} beyond one full session from now.`);
+            }
+        }
+
+        if (request.effect === 'swap') {
+            if (request.targetChallengeId === target.challengeId) {
+                throw new Error(`Challenge #${target.challengeId} is already executing. Pick another challenge to swap to.`);
+            }
+            const swapTarget = await tx.challenge.findUnique({ where: { challengeId: request.targetChallengeId } });
+            if (!swapTarget) {
+                throw new Error(`Challenge ID ${request.targetChallengeId} not found.`);
+            }
+            if (swapTarget.status !== ChallengeStatus.ACTIVE && swapTarget.status !== ChallengeStatus.IN_PROGRESS) {
+                throw new Error(`Challenge #${swapTarget.challengeId} cannot be swapped in. Status must be 'ACTIVE' or 'IN_PROGRESS'.`);
+            }
+        }
+
+        // 3. Price it with the active economy config, fetch the paying Account (the calling one,
+        // or another linked one that shares its balance) and check balance
+        const { disruptCost } = await getActiveEconomyConfig(tx);
+        const accountContext = await resolveFundingAccount(tx, userId, platformId, platformName, disruptCost);
+
         // Optimistic Local Balance Check (Check Account balance)
-        if (accountContext.currentBalance < DISRUPT_COST) {
-            throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${accountContext.currentBalance} NUMBERS. Disrupt costs ${DISRUPT_COST} NUMBERS.`);
+        if (accountContext.currentBalance < disruptCost) {
+            throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${accountContext.currentBalance} NUMBERS. Disrupt costs ${disruptCost} NUMBERS.`);
         }
 
         // Execute Authoritative Deduction via Lumia API
@@ -1695,69 +2214,140 @@ export async function processDisrupt(
         
         try {
             // Use the platformId passed in the function signature
-            const lumiaResult = await deductNumbersViaLumia(platformId, DISRUPT_COST); 
-            newAuthoritativeBalance = lumiaResult.newBalance; 
+            newAuthoritativeBalance = await chargeViaLumia(tx, charges, {
+                userId,
+                platformId: accountContext.platformId,
+                platformName: accountContext.platformName,
+                amount: disruptCost,
+                reason: LedgerReason.DISRUPT,
+                challengeId: target.challengeId,
+            });
         } catch (error) {
-            logger.error(`Lumia Disrupt Deduction Failed for User ${userId} (Cost: ${DISRUPT_COST}): ${error instanceof Error ? error.message : 'Unknown error'}`, { userId, platformId: platformId });
-            const errorMessage = error instanceof Error ? error.message : 'Unknown payment failure.';
-            throw new Error(`Payment failed. ${errorMessage.includes('Insufficient funds') ? 'Insufficient funds.' : 'Lumia connection error.'}`);
+            if (error instanceof ChargeNotReservedError) { throw error; }
+            logger.error(`Lumia Disrupt Deduction Failed for User ${userId} (Cost: ${disruptCost}): ${error instanceof Error ? error.message : 'Unknown error'}`, { userId, platformId: platformId });
+            // Only expose a user-friendly message
+            throw toPaymentFailure(error);
         }
 
-        // 2. Execute Transaction: Deduct cost and update metrics
-        
-        // A. Update User Stats & Activity
+        // 4. Apply the effect to the target
+        // A constraint is a new revision of the text, attributed to the disrupting user.
+        if (constraintText !== null) {
+            const challengeText = (target.challengeText ?? {}) as any;
+            const constraints = Array.isArray(challengeText.constraints) ? challengeText.constraints : [];
+            const enriched = validateAndEnrichChallenge({ ...challengeText, constraints: [...constraints, constraintText] });
+
+            const revision = await writeChallengeRevision(tx, target, enriched, {
+                editorUserId: userId,
+                isGameMasterEdit: false,
+                at: txNow,
+            });
+
+            if (!revision) {
+                throw new Error(`Challenge #${target.challengeId} is currently being processed. Please try again.`);
+            }
+        }
+
+        const targetData: Prisma.ChallengeUpdateInput = {
+            disruptCount: { increment: 1 },
+            timestampLastActivityAt: txNow,
+        };
+
+        if (newSessionTick) {
+            targetData.timestampLastSessionTick = newSessionTick;
+        }
+
+        let disruptedChallenge = await tx.challenge.update({
+            where: { challengeId: target.challengeId },
+            data: targetData,
+        });
+
+        let swappedToChallenge: Challenge | null = null;
+        if (request.effect === 'swap') {
+            // Stops the target (its session is not counted) and starts the requested challenge
+            const swap = await executeChallengeInTransaction(tx, request.targetChallengeId);
+            swappedToChallenge = swap.executingChallenge;
+            disruptedChallenge = await tx.challenge.findUniqueOrThrow({ where: { challengeId: target.challengeId } });
+        }
+
+        // 5. Store the disrupt
+        const disrupt = await tx.disrupt.create({
+            data: {
+                userId,
+                challengeId: target.challengeId,
+                effect: request.effect.toUpperCase() as DisruptEffect,
+                constraintText,
+                sessionShiftMs,
+                swappedToChallengeId: swappedToChallenge?.challengeId ?? null,
+                cost: disruptCost,
+                streamSessionId: currentStreamSessionId,
+            },
+        });
+
+        // 6. Metrics: User Stats & Activity
         await tx.user.update({
             where: { id: userId },
             data: {
-                totalNumbersSpent: { increment: DISRUPT_COST },
+                totalNumbersSpent: { increment: disruptCost },
                 totalDisruptsExecuted: { increment: 1 },
             },
         });
         await recordUserActivity(tx, userId, transactionTimestamp);
 
-        // Update Account Balance: Update the specific Account with the authoritative balance
+        // Update Account Balance: Update the paying Account with the authoritative balance
         await tx.account.update({
-            where: {
-                platformId_platformName: {
-                    platformId: platformId, 
-                    platformName: platformName
-                }
-            },
+            where: { id: accountContext.id },
             data: {
                 currentBalance: newAuthoritativeBalance,
             }
         });
 
-        // B. Update Global Ledger (User ID 1)
-        await tx.user.updateMany({
-            where: { id: 1 }, 
-            data: {
-                totalNumbersSpentGameWide: { increment: DISRUPT_COST }, // Global spending ledger
-            }
+        // Record the spending in the Ledger (User -> Treasury)
+        await recordLedgerTransfer(tx, {
+            from: userParty(userId),
+            to: TREASURY,
+            amount: disruptCost,
+            reason: LedgerReason.DISRUPT,
+            challengeId: target.challengeId,
+            streamSessionId: currentStreamSessionId,
         });
 
-        // C. Update Stream Session Metrics (Conditional)
+        // Update Stream Session Metrics (Conditional)
         if (currentStreamSessionId) {
             await tx.stream.update({
                 where: { streamSessionId: currentStreamSessionId },
                 data: {
-                    totalNumbersSpentInSession: { increment: DISRUPT_COST },
+                    totalNumbersSpentInSession: { increment: disruptCost },
                     totalDisruptsInSession: { increment: 1 }, // Track disrupt count
-                    totalNumbersSpentOnDisrupt: { increment: DISRUPT_COST } // Track spending breakdown
+                    totalNumbersSpentOnDisrupt: { increment: disruptCost } // Track spending breakdown
                 }
             });
         }
 
-        // 3. Return placeholder success message (handled outside the transaction block for clarity)
-        return "Disrupt successful.";
-    }).then(() => {
-        // Return the required launch message upon successful transaction commit
-        return (
-            "Congratulations, you just paid 2100 NUMBERS to commit pre-release performance art. " +
-            "You've disrupted exactly nothing, but your commitment to chaos is noted. " +
-            "We promise to make it hurt later. (Maybe...)"
-        );
+        return { disrupt, disruptedChallenge, swappedToChallenge };
+    }, LUMIA_TRANSACTION_OPTIONS));
+
+    // 7. PUBLISH EVENTS (after commit)
+    publishChallengeEvent(ChallengeEvents.CHALLENGE_DISRUPTED, {
+        ...result.disruptedChallenge,
+        disrupt: result.disrupt,
     });
+    if (result.swappedToChallenge) {
+        publishChallengeEvent(ChallengeEvents.CHALLENGE_EXECUTED, result.swappedToChallenge);
+    }
+
+    const challengeId = result.disruptedChallenge.challengeId;
+    const shiftMinutes = DISRUPT_SESSION_SHIFT_MS / 60000;
+    const effectMessages: Record<DisruptRequest['effect'], string> = {
+        constraint: `New constraint injected into Challenge #${challengeId}: "${result.disrupt.constraintText}"`,
+        shorten: `Challenge #${challengeId}'s session was cut short by ${shiftMinutes} minutes.`,
+        extend: `Challenge #${challengeId}'s session was extended by ${shiftMinutes} minutes.`,
+        swap: `Challenge #${challengeId} was yanked off stage. Challenge #${result.swappedToChallenge?.challengeId} is now executing.`,
+    };
+
+    return {
+        ...result,
+        message: `💥 DISRUPT! ${effectMessages[request.effect]} Cost: ${result.disrupt.cost} NUMBERS.`,
+    };
 }
 
 
@@ -1770,45 +2360,58 @@ export async function processDisrupt(
 // SET CHALLENGE STATUS BY ADMIN
 ////////////////////////////////////////////////////////////////////////////////////////
 /**
- * Allows the Game Master (admin) to set a specific status on any challenge.
- * This bypasses normal challenge lifecycle rules.
+ * Allows the Game Master (admin) to set a status on a challenge, through the state machine.
+ * Without `force`, only the allowed transitions pass; `force` steps outside them and is audited.
+ * The state machine's side effects apply either way (e.g. a forced COMPLETED -> ACTIVE starts over).
+ * FAILED, ARCHIVED and REMOVED settle the unsettled Push history per SETTLEMENT_POLICIES.
  * @param challengeId - The ID of the challenge to modify.
  * @param newStatus - The target ChallengeStatus enum value.
- * @returns The updated Challenge record.
+ * @returns The updated Challenge record, with the settlement when one was applied.
  */
 export async function setChallengeStatusByAdmin(
     challengeId: number,
-    newStatus: ChallengeStatus
-): Promise<Challenge> {
+    newStatus: ChallengeStatus,
+    options: { force?: boolean; actorUserId?: number; reason?: string } = {}
+): Promise<{ updatedChallenge: Challenge, settlement: SettlementOutcome | null }> {
     // 1. Basic Validation (ensure the status is valid)
     if (!Object.values(ChallengeStatus).includes(newStatus)) {
         throw new Error(`Invalid status provided: ${newStatus}.`);
     }
     
-    // 2. Perform the update
+    // 2. Perform the transition
     const transactionTimestamp = new Date().toISOString();
     const txNow = new Date(transactionTimestamp);
 
-    const updateData: any = { 
-        status: newStatus,
-        timestampLastActivityAt: txNow,
-        // When setting to REMOVED, ARCHIVED, or FAILED, ensure it's not currently executing
-        ...(newStatus !== ChallengeStatus.IN_PROGRESS && { 
-            isExecuting: false 
-        }),
-        // Optionally, record the completion timestamp if setting to a final state
-        ...(newStatus === ChallengeStatus.COMPLETED && {
-            timestampCompleted: txNow,
-        })
-    };
-
     try {
-        const updatedChallenge = await prisma.challenge.update({
-            where: { challengeId: challengeId },
-            data: updateData
+        const { updatedChallenge, settlement } = await prisma.$transaction(async (tx) => {
+            const challenge = await transitionChallenge(tx, challengeId, newStatus, {
+                force: options.force,
+                actorUserId: options.actorUserId,
+                reason: options.reason,
+                at: txNow,
+            });
+
+            if (!challenge) {
+                throw new Error(`Challenge #${challengeId} is currently being processed. Please try again.`);
+            }
+
+            if (!isSettledStatus(newStatus)) {
+                return { updatedChallenge: challenge, settlement: null };
+            }
+
+            const settlement = await settleChallenge(tx, challenge, newStatus, txNow, getCurrentStreamSessionId());
+            return {
+                updatedChallenge: await tx.challenge.findUniqueOrThrow({ where: { challengeId: challengeId } }),
+                settlement,
+            };
         });
         
-        console.log(`[ChallengeService] GM set Challenge #${challengeId} status to ${newStatus}.`);
+        console.log(`[ChallengeService] GM set Challenge #${challengeId} status to ${newStatus}${options.force ? ' (forced)' : ''}.`);
+
+        if (settlement) {
+            await processRefundsNow(settlement.refundIds);
+            publishChallengeEvent(ChallengeEvents.CHALLENGE_SETTLED, { ...updatedChallenge, settlement });
+        }
 
         // Event Dispatching based on the new status
         if (newStatus === ChallengeStatus.COMPLETED) {
@@ -1822,8 +2425,11 @@ export async function setChallengeStatusByAdmin(
             publishChallengeEvent(ChallengeEvents.CHALLENGE_ACTIVATED_BY_GM, updatedChallenge); 
         }
 
-        return updatedChallenge;
+        return { updatedChallenge, settlement };
     } catch (error) {
+        if (error instanceof IllegalChallengeTransitionError) {
+            throw error;
+        }
         const errorMessage = error instanceof Error ? error.message : 'Unknown database error during status update.';
         throw new Error(`Failed to set challenge status for ID ${challengeId}: ${errorMessage}`);
     }
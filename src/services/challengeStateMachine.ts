@@ -0,0 +1,274 @@
+// src/services/challengeStateMachine.ts
+// The single place where Challenge.status changes. Declares the allowed transitions, their guards
+// and the side effects every entry into a status carries (execution flags, completion stamp,
+// reset of the session and cadence fields on (re)activation). Every status change is a
+// compare-and-set on the status read, and is written to ChallengeStatusAudit in the same transaction.
+// The GM can step outside the table with `force`; the audit row records it.
+import { Challenge, ChallengeStatus, DurationType, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+
+
+export interface TransitionOptions {
+    // GM override: skips the allowed transitions and their guards (audited as forced).
+    force?: boolean;
+    // null: the system (scheduler, stream events, auctions).
+    actorUserId?: number | null;
+    reason?: string;
+    // Extra compare-and-set conditions on top of the status (e.g. { isExecuting: false }).
+    guard?: Prisma.ChallengeWhereInput;
+    // Action-specific fields written with the status (the state machine's side effects win).
+    data?: Prisma.ChallengeUpdateManyMutationInput;
+    at?: Date;
+}
+
+type TransitionGuard = (challenge: Challenge, data: Prisma.ChallengeUpdateManyMutationInput) => string | null;
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// TYPED ERRORS
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * The transition is not in CHALLENGE_TRANSITIONS, or its guard refused it.
+ */
+export class IllegalChallengeTransitionError extends Error {
+    constructor(
+        public readonly challengeId: number,
+        public readonly fromStatus: ChallengeStatus,
+        public readonly toStatus: ChallengeStatus,
+        detail?: string
+    ) {
+        super(`Illegal status transition for Challenge #${challengeId}: ${fromStatus} -> ${toStatus}.${detail ? ` ${detail}` : ''}`);
+        this.name = 'IllegalChallengeTransitionError';
+    }
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// TRANSITION TABLE
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Allowed transitions, per current status. COMPLETED, FAILED and REMOVED are terminal.
+ * ACTIVE -> UNDER_REVIEW: an author edit added references that need review.
+ */
+export const CHALLENGE_TRANSITIONS: Record<ChallengeStatus, readonly ChallengeStatus[]> = {
+    [ChallengeStatus.UNDER_REVIEW]: [ChallengeStatus.ACTIVE, ChallengeStatus.REMOVED],
+    [ChallengeStatus.ACTIVE]: [ChallengeStatus.IN_PROGRESS, ChallengeStatus.ARCHIVED, ChallengeStatus.REMOVED, ChallengeStatus.UNDER_REVIEW],
+    [ChallengeStatus.IN_PROGRESS]: [ChallengeStatus.COMPLETED, ChallengeStatus.FAILED, ChallengeStatus.REMOVED],
+    [ChallengeStatus.ARCHIVED]: [ChallengeStatus.ACTIVE, ChallengeStatus.AUCTIONED, ChallengeStatus.REMOVED],
+    [ChallengeStatus.AUCTIONED]: [ChallengeStatus.ACTIVE, ChallengeStatus.ARCHIVED],
+    [ChallengeStatus.COMPLETED]: [],
+    [ChallengeStatus.FAILED]: [],
+    [ChallengeStatus.REMOVED]: [],
+};
+
+/**
+ * Guards on allowed transitions, keyed "FROM->TO". Return a reason to refuse, or null.
+ * Evaluated against the challenge as read, with the plain values of the action's data applied.
+ */
+const TRANSITION_GUARDS: Partial<Record<`${ChallengeStatus}->${ChallengeStatus}`, TransitionGuard>> = {
+    'IN_PROGRESS->COMPLETED': (challenge, data) => {
+        const sessions = typeof data.currentSessionCount === 'number' ? data.currentSessionCount : challenge.currentSessionCount;
+        return sessions >= challenge.totalSessions
+            ? null
+            : `Only ${sessions} of ${challenge.totalSessions} sessions are done.`;
+    },
+    'ARCHIVED->AUCTIONED': (challenge) =>
+        challenge.hasBeenAuctioned ? 'It has already been auctioned once.' : null,
+};
+
+
+/**
+ * True when `to` is reachable from `from` without a GM override.
+ */
+export function isTransitionAllowed(from: ChallengeStatus, to: ChallengeStatus): boolean {
+    return CHALLENGE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throws IllegalChallengeTransitionError unless the transition is allowed and its guard passes.
+ * A forced transition only has to change the status.
+ */
+export function assertTransition(
+    challenge: Challenge,
+    to: ChallengeStatus,
+    options: Pick<TransitionOptions, 'force' | 'data'> = {}
+): void {
+    const from = challenge.status;
+
+    if (from === to) {
+        throw new IllegalChallengeTransitionError(challenge.challengeId, from, to, `Challenge is already ${to}.`);
+    }
+    if (options.force) {
+        return;
+    }
+    if (!isTransitionAllowed(from, to)) {
+        const allowed = CHALLENGE_TRANSITIONS[from];
+        throw new IllegalChallengeTransitionError(challenge.challengeId, from, to,
+            allowed.length > 0 ? `Allowed: ${allowed.join(', ')}.` : `${from} is terminal.`);
+    }
+
+    const refusal = TRANSITION_GUARDS[`${from}->${to}`]?.(challenge, options.data ?? {});
+    if (refusal) {
+        throw new IllegalChallengeTransitionError(challenge.challengeId, from, to, refusal);
+    }
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// SIDE EFFECTS
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Fields every entry into `to` writes, whoever triggers it:
+ * - Any status but IN_PROGRESS: the challenge stops executing and its session clock is cleared.
+ * - IN_PROGRESS (from ACTIVE): a RECURRING challenge starts its first cadence period.
+ * - ACTIVE: a fresh 21-stream-day clock, and the session, cadence and completion fields reset
+ *   (a forced COMPLETED -> ACTIVE starts over instead of keeping the old counters).
+ *   Except when re-approving an edit (`resumesActivation`): the challenge picks up its old clock,
+ *   so editing cannot keep a stale challenge away from the archive.
+ * - COMPLETED: timestampCompleted.
+ */
+export function transitionSideEffects(
+    challenge: Challenge,
+    to: ChallengeStatus,
+    at: Date,
+    resumesActivation: boolean = false
+): Prisma.ChallengeUpdateManyMutationInput {
+    const effects: Prisma.ChallengeUpdateManyMutationInput = { timestampLastActivityAt: at };
+
+    if (to !== ChallengeStatus.IN_PROGRESS) {
+        effects.isExecuting = false;
+        effects.timestampLastSessionTick = null;
+    }
+
+    switch (to) {
+        case ChallengeStatus.IN_PROGRESS:
+            if (challenge.status === ChallengeStatus.ACTIVE && challenge.durationType === DurationType.RECURRING) {
+                effects.cadencePeriodStart = at;
+            }
+            break;
+        case ChallengeStatus.ACTIVE:
+            if (resumesActivation) {
+                break;
+            }
+            Object.assign(effects, {
+                streamDaysSinceActivation: 0,
+                timestampLastActivation: at,
+                currentSessionCount: 0,
+                sessionStartTimestamp: null,
+                cadenceProgressCounter: 0,
+                cadencePeriodStart: null,
+                timestampCompleted: null,
+                failureReason: null,
+            });
+            break;
+        case ChallengeStatus.COMPLETED:
+            effects.timestampCompleted = at;
+            break;
+    }
+
+    return effects;
+}
+
+
+
+/**
+ * True when an UNDER_REVIEW challenge came there from ACTIVE (an author edit sent it back to review),
+ * as opposed to a new submission waiting for its first approval.
+ * Only the latest entry into UNDER_REVIEW counts: an older ACTIVE spell (e.g. before a forced
+ * detour through a terminal status) does not keep its clock.
+ */
+export async function isReturningFromReview(
+    tx: Prisma.TransactionClient,
+    challenge: Pick<Challenge, 'challengeId' | 'status'>
+): Promise<boolean> {
+    if (challenge.status !== ChallengeStatus.UNDER_REVIEW) {
+        return false;
+    }
+
+    const lastEntry = await tx.challengeStatusAudit.findFirst({
+        where: { challengeId: challenge.challengeId, toStatus: ChallengeStatus.UNDER_REVIEW },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        select: { fromStatus: true },
+    });
+
+    return lastEntry?.fromStatus === ChallengeStatus.ACTIVE;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// TRANSITION
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Moves a challenge to `to`. MUST run inside the transaction of the action that causes it.
+ * 1. Reads the challenge and validates the transition (throws IllegalChallengeTransitionError).
+ * 2. Writes the status, the action's data and the side effects as a compare-and-set on the
+ *    status read (plus `options.guard`).
+ * 3. Records the transition in ChallengeStatusAudit.
+ * @returns The updated challenge, or null if it changed in the meantime (the caller decides).
+ */
+export async function transitionChallenge(
+    tx: Prisma.TransactionClient,
+    challengeId: number,
+    to: ChallengeStatus,
+    options: TransitionOptions = {}
+): Promise<Challenge | null> {
+    const at = options.at ?? new Date();
+
+    // 1. Validate
+    const challenge = await tx.challenge.findUnique({ where: { challengeId } });
+
+    if (!challenge) {
+        throw new Error(`Challenge ID ${challengeId} not found.`);
+    }
+
+    assertTransition(challenge, to, options);
+
+    const resumesActivation = to === ChallengeStatus.ACTIVE && await isReturningFromReview(tx, challenge);
+
+    // 2. Compare-and-set
+    const { count } = await tx.challenge.updateMany({
+        where: { ...options.guard, challengeId, status: challenge.status },
+        data: { ...options.data, ...transitionSideEffects(challenge, to, at, resumesActivation), status: to },
+    });
+
+    if (count === 0) {
+        return null;
+    }
+
+    // 3. Audit
+    const forced = Boolean(options.force);
+
+    await tx.challengeStatusAudit.create({
+        data: {
+            challengeId,
+            fromStatus: challenge.status,
+            toStatus: to,
+            forced,
+            actorUserId: options.actorUserId ?? null,
+            reason: options.reason ?? null,
+            createdAt: at,
+        },
+    });
+
+    if (forced) {
+        logger.warn(`Challenge State: #${challengeId} forced ${challenge.status} -> ${to} by User ${options.actorUserId ?? 'system'}.`, {
+            challengeId,
+            action: 'challenge_status_forced',
+        });
+    }
+
+    return tx.challenge.findUniqueOrThrow({ where: { challengeId } });
+}
+
+
+
+/**
+ * Lists the status history of a challenge, oldest first.
+ */
+export async function getChallengeStatusHistory(challengeId: number, db: Prisma.TransactionClient = prisma) {
+    return db.challengeStatusAudit.findMany({
+        where: { challengeId },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+}
@@ -0,0 +1,388 @@
+// src/services/chargeService.ts
+// Compensation saga for Lumia deductions made inside a Prisma transaction.
+// Lumia and Postgres cannot commit together, so every deduction is reserved as a PendingCharge
+// row BEFORE the transaction opens. The row is flipped to COMMITTED INSIDE the transaction,
+// so it only stays PENDING if the local writes rolled back; those charges are then refunded.
+// A deduction whose outcome is unknown (transport error) is never settled inline: the worker
+// asks Lumia once the grace period (the longest a Lumia transaction can still run) has passed.
+import { randomUUID } from 'crypto';
+import { ChargeStatus, LedgerReason, PendingCharge, PlatformName, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import {
+    addNumbersViaLumia,
+    deductNumbersViaLumia,
+    getLumiaOperation,
+    LUMIA_TRANSACTION_OPTIONS,
+    LumiaTransportError,
+} from './lumiaService';
+import {
+    CHARGE_COMPENSATION_GRACE_MARGIN_MS,
+    CHARGE_COMPENSATION_MAX_ATTEMPTS,
+    CHARGE_RESERVATION_MAX_ATTEMPTS,
+} from '../config/gameConfig';
+
+
+// A charge is reserved before its transaction opens, which may wait up to maxWait and then run
+// up to timeout (both sized from the Lumia env settings). Younger PENDING charges may still be in flight.
+const CHARGE_COMPENSATION_GRACE_MS =
+    LUMIA_TRANSACTION_OPTIONS.maxWait + LUMIA_TRANSACTION_OPTIONS.timeout + CHARGE_COMPENSATION_GRACE_MARGIN_MS;
+
+
+export interface ChargeRequest {
+    userId: number;
+    platformId: string;
+    platformName: PlatformName;
+    amount: number;
+    reason: LedgerReason;
+    challengeId?: number | null;
+}
+
+// One reserved charge and what Lumia did with it.
+// RESERVED: not sent yet. APPLIED: deducted. REJECTED: refused, nothing taken. UNKNOWN: transport error.
+interface TrackedCharge {
+    charge: PendingCharge;
+    outcome: 'RESERVED' | 'APPLIED' | 'REJECTED' | 'UNKNOWN';
+    lastError: string | null;
+}
+
+// Collects the charges reserved for one unit of work, so they can be settled once it ends.
+export interface ChargeTracker {
+    tracked: TrackedCharge[];
+    // Set by chargeViaLumia when the transaction needs a charge that was not reserved yet.
+    missing: ChargeRequest | null;
+}
+
+// Statuses the compensation worker is allowed to act on.
+const OPEN_STATUSES: ChargeStatus[] = [ChargeStatus.PENDING, ChargeStatus.STUCK];
+
+
+/**
+ * Thrown by chargeViaLumia when its charge was not reserved before the transaction opened.
+ * Nothing was sent to Lumia; runWithChargeCompensation reserves it and replays the work.
+ * Callers re-throw it unchanged (it is not a payment failure).
+ */
+export class ChargeNotReservedError extends Error {
+    constructor() {
+        super('Charge not reserved yet: the transaction will be replayed.');
+        this.name = 'ChargeNotReservedError';
+    }
+}
+
+
+/**
+ * Writes the PendingCharge for a request, with the global client (no transaction is open).
+ */
+async function reserveCharge(request: ChargeRequest): Promise<TrackedCharge> {
+    const charge = await prisma.pendingCharge.create({
+        data: {
+            idempotencyKey: `charge:${randomUUID()}`,
+            userId: request.userId,
+            platformId: request.platformId,
+            platformName: request.platformName,
+            amount: request.amount,
+            reason: request.reason,
+            challengeId: request.challengeId ?? null,
+        },
+    });
+
+    return { charge, outcome: 'RESERVED', lastError: null };
+}
+
+/**
+ * Brings the charges of a finished attempt to their state, once its transaction is over.
+ * - APPLIED: COMMITTED by the transaction when it committed; compensated right away when it rolled back.
+ * - REJECTED, or RESERVED and never sent: FAILED (Lumia took nothing).
+ * - UNKNOWN: left PENDING; the deduction may still be in flight, the worker settles it.
+ */
+async function settleCharges(charges: ChargeTracker, hasCommitted: boolean): Promise<void> {
+    for (const { charge, outcome, lastError } of charges.tracked) {
+        if (outcome === 'APPLIED') {
+            if (!hasCommitted) {
+                await compensateCharge(charge.id).catch((compensationError) => {
+                    logger.error(`Charge Compensation Deferred: Charge ${charge.id} will be retried by the worker.`, {
+                        chargeId: charge.id,
+                        error: compensationError instanceof Error ? compensationError.message : compensationError,
+                    });
+                });
+            }
+        } else if (outcome === 'UNKNOWN') {
+            logger.warn(`Charge Outcome Unknown: Charge ${charge.id} stays PENDING for the compensation worker.`, {
+                chargeId: charge.id,
+                error: lastError,
+            });
+        } else {
+            await prisma.pendingCharge.update({
+                where: { id: charge.id },
+                data: {
+                    status: ChargeStatus.FAILED,
+                    lastError: lastError ?? 'Never sent to Lumia.',
+                    resolvedAt: new Date(),
+                },
+            });
+        }
+    }
+
+    charges.tracked = [];
+}
+
+function isSameRequest(charge: PendingCharge, request: ChargeRequest): boolean {
+    return charge.userId === request.userId
+        && charge.platformId === request.platformId
+        && charge.platformName === request.platformName
+        && charge.amount === request.amount
+        && charge.reason === request.reason
+        && charge.challengeId === (request.challengeId ?? null);
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// CHARGE (called inside the action's transaction)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Runs a unit of work that charges via Lumia, settling every charge it made once it ends.
+ * 1. The expected charge, when the caller knows it up front, is reserved before the first attempt.
+ * 2. A charge only known inside the transaction (price, paying account) makes that attempt
+ *    roll back; it is reserved and the work runs again, up to CHARGE_RESERVATION_MAX_ATTEMPTS.
+ * 3. On failure the original error is re-thrown; compensation failures are left for the worker.
+ * @param work - MUST open its transaction itself, so every attempt gets a fresh one.
+ * @param expectedCharge - The charge the work will make, when it does not depend on the transaction's reads.
+ */
+export async function runWithChargeCompensation<T>(
+    work: (charges: ChargeTracker) => Promise<T>,
+    expectedCharge?: ChargeRequest
+): Promise<T> {
+    const charges: ChargeTracker = { tracked: [], missing: null };
+
+    if (expectedCharge) {
+        charges.tracked.push(await reserveCharge(expectedCharge));
+    }
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const result = await work(charges);
+            await settleCharges(charges, true);
+            return result;
+
+        } catch (error) {
+            const missing = charges.missing;
+            charges.missing = null;
+            await settleCharges(charges, false);
+
+            if (!missing) {
+                throw error;
+            }
+            if (attempt >= CHARGE_RESERVATION_MAX_ATTEMPTS) {
+                throw new Error('Payment not taken: the amount changed while it was currently being processed. Please try again.');
+            }
+
+            charges.tracked.push(await reserveCharge(missing));
+        }
+    }
+}
+
+
+
+/**
+ * Deducts NUMBERS via Lumia under the PendingCharge reserved for this request.
+ * MUST be called with the transaction client of the action it pays for, inside runWithChargeCompensation.
+ * @returns The new authoritative balance.
+ * @throws The Lumia error unchanged, so callers keep their own user-facing messages.
+ */
+export async function chargeViaLumia(
+    tx: Prisma.TransactionClient,
+    charges: ChargeTracker,
+    request: ChargeRequest
+): Promise<number> {
+    // 1. The PendingCharge reserved before the transaction opened. Without one, this attempt is
+    // rolled back and replayed once it exists (nothing has been sent to Lumia yet).
+    const tracked = charges.tracked.find(entry => entry.outcome === 'RESERVED' && isSameRequest(entry.charge, request));
+
+    if (!tracked) {
+        charges.missing = request;
+        throw new ChargeNotReservedError();
+    }
+
+    // 2. External deduction, keyed so the worker can ask Lumia whether it was applied.
+    let newBalance: number;
+    try {
+        const lumiaResult = await deductNumbersViaLumia(request.platformId, request.platformName, request.amount, {
+            idempotencyKey: tracked.charge.idempotencyKey,
+        });
+        newBalance = lumiaResult.newBalance;
+    } catch (error) {
+        // A definite rejection means nothing was taken. A transport error may have been applied.
+        tracked.outcome = error instanceof LumiaTransportError ? 'UNKNOWN' : 'REJECTED';
+        tracked.lastError = error instanceof Error ? error.message : 'Unknown error';
+        throw error;
+    }
+    tracked.outcome = 'APPLIED';
+
+    // 3. Committed together with the action's writes; a rollback leaves the charge PENDING.
+    await tx.pendingCharge.update({
+        where: { id: tracked.charge.id },
+        data: { status: ChargeStatus.COMMITTED, resolvedAt: new Date() },
+    });
+
+    return newBalance;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// COMPENSATION
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Brings one open charge to a final state:
+ * - Lumia never applied the deduction -> FAILED (nothing to give back), once the charge is older
+ *   than CHARGE_COMPENSATION_GRACE_MS; a younger one is left as it is.
+ * - Lumia applied it -> refunded with "<key>:refund" (safe to replay) -> REFUNDED.
+ * A failed attempt is counted; after CHARGE_COMPENSATION_MAX_ATTEMPTS the charge is STUCK for the GM.
+ * @returns The charge after this attempt.
+ */
+export async function compensateCharge(chargeId: number): Promise<PendingCharge> {
+    const charge = await prisma.pendingCharge.findUnique({ where: { id: chargeId } });
+
+    if (!charge) {
+        throw new Error(`Charge ID ${chargeId} not found.`);
+    }
+    if (!OPEN_STATUSES.includes(charge.status)) {
+        return charge;
+    }
+
+    try {
+        // 1. Did Lumia apply the deduction at all?
+        const operation = await getLumiaOperation(charge.idempotencyKey);
+        const wasApplied = operation !== null && operation.status >= 200 && operation.status < 300;
+
+        // Lumia has no record of it yet: the deduction may still be in flight until the grace period has passed.
+        if (operation === null && charge.createdAt.getTime() > Date.now() - CHARGE_COMPENSATION_GRACE_MS) {
+            logger.info(`Charge Compensation: Charge ${charge.id} is not known to Lumia yet, left for the worker.`, { chargeId: charge.id });
+            return charge;
+        }
+
+        if (!wasApplied) {
+            logger.info(`Charge Compensation: Charge ${charge.id} was never applied by Lumia.`, { chargeId: charge.id });
+            return prisma.pendingCharge.update({
+                where: { id: charge.id },
+                data: { status: ChargeStatus.FAILED, resolvedAt: new Date() },
+            });
+        }
+
+        // 2. Give the NUMBERS back and mirror the authoritative balance locally.
+        const { newBalance } = await addNumbersViaLumia(charge.platformId, charge.platformName, charge.amount, {
+            idempotencyKey: `${charge.idempotencyKey}:refund`,
+        });
+
+        return prisma.$transaction(async (tx) => {
+            await tx.account.updateMany({
+                where: { platformId: charge.platformId, platformName: charge.platformName },
+                data: { currentBalance: newBalance },
+            });
+
+            logger.info(`Charge Compensation Success: Refunded ${charge.amount} NUMBERS to User ${charge.userId}.`, {
+                chargeId: charge.id,
+                userId: charge.userId,
+                reason: charge.reason,
+            });
+
+            return tx.pendingCharge.update({
+                where: { id: charge.id },
+                data: { status: ChargeStatus.REFUNDED, resolvedAt: new Date() },
+            });
+        });
+
+    } catch (error) {
+        const attempts = charge.attempts + 1;
+        const isStuck = attempts >= CHARGE_COMPENSATION_MAX_ATTEMPTS;
+
+        logger.error(`Charge Compensation Failed (attempt ${attempts}/${CHARGE_COMPENSATION_MAX_ATTEMPTS}) for Charge ${charge.id}.`, {
+            chargeId: charge.id,
+            error: error instanceof Error ? error.message : error,
+        });
+
+        return prisma.pendingCharge.update({
+            where: { id: charge.id },
+            data: {
+                attempts,
+                lastError: error instanceof Error ? error.message : 'Unknown error',
+                status: isStuck ? ChargeStatus.STUCK : charge.status,
+            },
+        });
+    }
+}
+
+
+
+/**
+ * Scheduled worker: compensates PENDING charges old enough that their transaction cannot still be running
+ * (e.g. the process crashed between the Lumia call and the commit).
+ * @returns The number of charges processed.
+ */
+export async function processStaleCharges(): Promise<number> {
+    const cutoff = new Date(Date.now() - CHARGE_COMPENSATION_GRACE_MS);
+
+    const staleCharges = await prisma.pendingCharge.findMany({
+        where: { status: ChargeStatus.PENDING, createdAt: { lt: cutoff } },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+    });
+
+    for (const { id } of staleCharges) {
+        await compensateCharge(id);
+    }
+
+    return staleCharges.length;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// GAME MASTER TOOLS
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Lists charges for GM review, newest first. Defaults to everything still open.
+ */
+export async function listCharges(status?: ChargeStatus): Promise<PendingCharge[]> {
+    return prisma.pendingCharge.findMany({
+        where: status ? { status } : { status: { in: OPEN_STATUSES } },
+        orderBy: { createdAt: 'desc' },
+        take: 200,
+    });
+}
+
+
+
+/**
+ * GM resolution of an open charge.
+ * - 'refund': runs compensation now, ignoring the attempt limit.
+ * - 'resolve': closes it without touching Lumia (e.g. the GM settled it by hand).
+ */
+export async function resolveCharge(
+    chargeId: number,
+    action: 'refund' | 'resolve',
+    note?: string
+): Promise<PendingCharge> {
+    const charge = await prisma.pendingCharge.findUnique({ where: { id: chargeId } });
+
+    if (!charge) {
+        throw new Error(`Charge ID ${chargeId} not found.`);
+    }
+    if (!OPEN_STATUSES.includes(charge.status)) {
+        throw new Error(`Charge ID ${chargeId} is already ${charge.status} and cannot be resolved.`);
+    }
+
+    if (action === 'refund') {
+        const result = await compensateCharge(chargeId);
+        return note
+            ? prisma.pendingCharge.update({ where: { id: chargeId }, data: { resolutionNote: note } })
+            : result;
+    }
+
+    return prisma.pendingCharge.update({
+        where: { id: chargeId },
+        data: {
+            status: ChargeStatus.RESOLVED,
+            resolutionNote: note ?? null,
+            resolvedAt: new Date(),
+        },
+    });
+}
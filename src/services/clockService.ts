@@ -3,6 +3,7 @@
 import prisma from '../prisma';
 import { DurationType, ChallengeStatus, CadenceUnit } from '@prisma/client';
 import { archiveExpiredChallenges } from './challengeService'; 
+import { transitionAndSettle } from './settlementService';
 
 // ------------------------------------------------------------------
 // USER TICK LOGIC
@@ -90,19 +91,27 @@ export async function processDailyUserTick(
  */
 export async function checkOneOffContiguity(): Promise<number> {
     // The presence in 'InProgress' for a ONE_OFF at the maintenance time is the failure condition.
-    const updateResult = await prisma.challenge.updateMany({
-        where: {
-            status: ChallengeStatus.IN_PROGRESS,
-            durationType: DurationType.ONE_OFF,
-            isExecuting: false, // Prevents premature archival of a currently running challenge.
-        },
-        data: {
-            status: ChallengeStatus.FAILED, 
-            failureReason: 'Contiguity rule broken: Not completed by daily maintenance.',
-        }
+    const failureCondition = {
+        status: ChallengeStatus.IN_PROGRESS,
+        durationType: DurationType.ONE_OFF,
+        isExecuting: false, // Prevents premature archival of a currently running challenge.
+    };
+
+    const candidates = await prisma.challenge.findMany({
+        where: failureCondition,
+        select: { challengeId: true, proposerUserId: true, timestampSettled: true },
     });
+
+    // Each failure is settled on its own (refunds per the FAILED policy).
+    let failedCount = 0;
+    for (const challenge of candidates) {
+        const failed = await transitionAndSettle(challenge, ChallengeStatus.FAILED, failureCondition, {
+            failureReason: 'Contiguity rule broken: Not completed by daily maintenance.',
+        });
+        if (failed) failedCount++;
+    }
     
-    return updateResult.count;
+    return failedCount;
 }
 
 
@@ -180,17 +189,22 @@ export async function enforceRecurringChallengeCadence(): Promise<number> {
             
             if (!hasMetRequirement) {
                 // FAILURE: Did not meet the required pace
-                failedChallengeIds.push(challenge.challengeId);
-                
-                await prisma.challenge.update({
-                    where: { challengeId: challenge.challengeId },
-                    data: {
-                        status: ChallengeStatus.FAILED, 
+                // Settled per the FAILED policy; skipped if the challenge started executing meanwhile.
+                const failed = await transitionAndSettle(
+                    challenge,
+                    ChallengeStatus.FAILED,
+                    { status: ChallengeStatus.IN_PROGRESS, isExecuting: false },
+                    {
                         failureReason: `Cadence rule broken: Failed to complete ${requiredCount} sessions within the ${challenge.cadenceUnit} period.`,
                         timestampCompleted: now,
                         timestampLastActivityAt: now
-                    }
-                });
+                    },
+                    now
+                );
+
+                if (failed) {
+                    failedChallengeIds.push(challenge.challengeId);
+                }
             } else {
                 // SUCCESS: Met the required pace.
                 await prisma.challenge.update({
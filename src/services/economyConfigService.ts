@@ -0,0 +1,146 @@
+// src/services/economyConfigService.ts
+// Versioned game prices (submission, push, disrupt, digout, live discount).
+// The GM proposes a new version, then activates it now or from a future timestamp; the active
+// version is the latest activated one whose effectiveFrom has passed. Versions are never edited
+// once activated, so Challenge/Push.economyConfigVersion always explains a historical price.
+import { EconomyConfig, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { ECONOMY_CONFIG_DEFAULTS } from '../config/gameConfig';
+
+
+export type EconomyPrices = Pick<EconomyConfig,
+    'version' | 'submissionBaseCost' | 'pushBaseCost' | 'disruptCost' | 'digoutPercent' | 'liveDiscountPercent'>;
+
+export type EconomyPriceChanges = Partial<Omit<EconomyPrices, 'version'>>;
+
+const PRICE_FIELDS = ['submissionBaseCost', 'pushBaseCost', 'disruptCost', 'digoutPercent', 'liveDiscountPercent'] as const;
+const PERCENT_FIELDS: ReadonlyArray<keyof EconomyPriceChanges> = ['digoutPercent', 'liveDiscountPercent'];
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// ACTIVE VERSION
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Reads the prices in force at `at` (default: now). Falls back to the gameConfig.ts defaults
+ * (version 1) if no version is active, so spending never stops on an empty table.
+ * @param db - Pass the transaction client when the prices feed a charge in that transaction.
+ */
+export async function getActiveEconomyConfig(
+    db: Prisma.TransactionClient = prisma,
+    at: Date = new Date()
+): Promise<EconomyPrices> {
+    const active = await db.economyConfig.findFirst({
+        where: { activatedAt: { not: null }, effectiveFrom: { lte: at } },
+        orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }],
+    });
+
+    return active ?? ECONOMY_CONFIG_DEFAULTS;
+}
+
+
+
+/**
+ * Reads the prices of one version (e.g. the one a submission was just priced with).
+ */
+export async function getEconomyConfigVersion(
+    db: Prisma.TransactionClient,
+    version: number
+): Promise<EconomyPrices> {
+    const config = await db.economyConfig.findUnique({ where: { version } });
+
+    return config ?? ECONOMY_CONFIG_DEFAULTS;
+}
+
+
+
+/**
+ * Lists every version, newest first (proposed, scheduled and past ones).
+ */
+export async function listEconomyConfigs(): Promise<{ active: EconomyPrices; versions: EconomyConfig[] }> {
+    const [active, versions] = await Promise.all([
+        getActiveEconomyConfig(),
+        prisma.economyConfig.findMany({ orderBy: { version: 'desc' } }),
+    ]);
+
+    return { active, versions };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// GAME MASTER: PROPOSE / ACTIVATE
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Proposes a new version. Prices not given are copied from the active version.
+ * Costs must be positive integers, percentages integers from 0 to 100.
+ */
+export async function proposeEconomyConfig(
+    userId: number,
+    changes: EconomyPriceChanges,
+    note?: string
+): Promise<EconomyConfig> {
+    for (const field of PRICE_FIELDS) {
+        const value = changes[field];
+        if (value === undefined) continue;
+
+        const isPercent = PERCENT_FIELDS.includes(field);
+        if (!Number.isInteger(value) || value < (isPercent ? 0 : 1) || (isPercent && value > 100)) {
+            throw new Error(`Economy config ${field} must be ${isPercent ? 'an integer from 0 to 100' : 'a positive integer'} (got ${value}).`);
+        }
+    }
+
+    const active = await getActiveEconomyConfig();
+
+    const proposal = await prisma.economyConfig.create({
+        data: {
+            submissionBaseCost: changes.submissionBaseCost ?? active.submissionBaseCost,
+            pushBaseCost: changes.pushBaseCost ?? active.pushBaseCost,
+            disruptCost: changes.disruptCost ?? active.disruptCost,
+            digoutPercent: changes.digoutPercent ?? active.digoutPercent,
+            liveDiscountPercent: changes.liveDiscountPercent ?? active.liveDiscountPercent,
+            note: note ?? null,
+            proposedByUserId: userId,
+        },
+    });
+
+    logger.info(`Economy Config: Version ${proposal.version} proposed by User ${userId} (based on version ${active.version}).`, {
+        version: proposal.version,
+        action: 'economy_config_proposed',
+    });
+
+    return proposal;
+}
+
+
+
+/**
+ * Activates a proposed version, from now or from a future `effectiveFrom`.
+ * A version can only be activated once (compare-and-set on activatedAt).
+ */
+export async function activateEconomyConfig(version: number, effectiveFrom?: Date): Promise<EconomyConfig> {
+    const now = new Date();
+    const startsAt = effectiveFrom ?? now;
+
+    if (isNaN(startsAt.getTime()) || startsAt < new Date(now.getTime() - 1000)) {
+        throw new Error('Economy config effectiveFrom must be now or in the future.');
+    }
+
+    const { count } = await prisma.economyConfig.updateMany({
+        where: { version, activatedAt: null },
+        data: { activatedAt: now, effectiveFrom: startsAt },
+    });
+
+    if (count === 0) {
+        const existing = await prisma.economyConfig.findUnique({ where: { version } });
+        throw new Error(existing
+            ? `Economy config version ${version} is already activated and cannot be activated again.`
+            : `Economy config version ${version} not found.`);
+    }
+
+    logger.info(`Economy Config: Version ${version} activated, effective from ${startsAt.toISOString()}.`, {
+        version,
+        action: 'economy_config_activated',
+    });
+
+    return prisma.economyConfig.findUniqueOrThrow({ where: { version } });
+}
@@ -15,6 +15,16 @@ export enum ChallengeEvents {
     CHALLENGE_REMOVED_BY_AUTHOR = 'challenge:removed_by_author', // For !remove command
     CHALLENGE_DIGGED_OUT = 'challenge:digged_out', // For player !digout command
     CHALLENGE_ACTIVATED_BY_GM = 'challenge:activated_by_gm', // For GM status override
+    CHALLENGE_DISRUPTED = 'challenge:disrupted', // For player !disrupt command (payload carries the disrupt record)
+    CHALLENGE_SETTLED = 'challenge:settled', // FAILED, ARCHIVED or REMOVED by the GM (payload carries the settlement)
+    AUCTION_OPENED = 'challenge:auction_opened', // GM put an ARCHIVED challenge up for auction
+    AUCTION_BID_PLACED = 'challenge:auction_bid_placed', // A viewer took the lead in an auction
+    AUCTION_CLOSED = 'challenge:auction_closed', // Auction settled (or cancelled by the GM)
+    PREDICTION_RESOLVED = 'challenge:prediction_resolved', // Prediction market settled or voided
+    CHALLENGE_APPROVED = 'challenge:approved', // GM approved an UNDER_REVIEW submission (payload carries the decision)
+    CHALLENGE_REJECTED = 'challenge:rejected', // GM rejected an UNDER_REVIEW submission (payload carries the decision)
+    CHALLENGE_EDITED = 'challenge:edited', // Author or GM revised the challengeText (payload carries the revision)
+    SERIES_COMPLETED = 'challenge:series_completed', // Every challenge of a ChallengeSeries is COMPLETED (payload is the series)
 
     // CHALLENGE_STOPPED = 'challenge:stopped', // Fired when the GM manually stops a challenge
 }
@@ -0,0 +1,221 @@
+// src/services/giftService.ts
+// Viewer-to-viewer gifting. The sender is charged via Lumia and the recipient is credited
+// through the refund queue (same retries and idempotency as every other credit).
+// Gifting to the community_chest account is a donation: the NUMBERS stay in the Chest.
+import { Account, Gift, LedgerReason, PlatformName } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { GIFT_DAILY_CAP, GIFT_MIN_AMOUNT } from '../config/gameConfig';
+import { chargeViaLumia, runWithChargeCompensation } from './chargeService';
+import { COMMUNITY_CHEST, recordLedgerTransfer, userParty } from './ledgerService';
+import { LUMIA_TRANSACTION_OPTIONS, toPaymentFailure } from './lumiaService';
+import { enqueueRefund, processRefundsNow } from './refundService';
+import { recordUserActivity } from './userService';
+
+
+// The fixed platformId of the Community Chest account (GAME_MASTER platform).
+const COMMUNITY_CHEST_PLATFORM_ID = 'community_chest';
+const GIFT_CAP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface GiftResult {
+    gift: Gift;
+    isDonation: boolean;
+    recipientUsername: string;
+    updatedAccount: Account;
+    // False when the Lumia credit failed on the first attempt and stays queued for retry.
+    recipientCredited: boolean;
+}
+
+
+/**
+ * Normalizes a chat mention ("@Name", "name") to the stored username form.
+ */
+function normalizeRecipientName(recipient: string): string {
+    return recipient.trim().replace(/^@+/, '');
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// SEND GIFT
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Sends NUMBERS to another viewer on the same platform, or donates them to the Community Chest.
+ * 1. Resolves the recipient by username (case-insensitive) through the Account table.
+ * 2. Enforces the minimum and the sender's rolling 24h cap (donations are not capped).
+ * 3. Charges the sender via Lumia, records the gift, the Ledger transfer and both users' stats.
+ * 4. After commit, credits the recipient via Lumia (queued, retried on failure).
+ * @param recipient - The recipient's username, with or without '@'; 'community_chest' donates.
+ */
+export async function processGift(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName,
+    recipient: string,
+    amount: number
+): Promise<GiftResult> {
+    const recipientName = normalizeRecipientName(recipient);
+
+    if (!recipientName) {
+        throw new Error('Gift recipient is missing. Use @username, or community_chest to donate.');
+    }
+    if (!Number.isInteger(amount) || amount < GIFT_MIN_AMOUNT) {
+        throw new Error(`Gift amount must be at least ${GIFT_MIN_AMOUNT} NUMBERS.`);
+    }
+
+    const isDonation = recipientName.toLowerCase() === COMMUNITY_CHEST_PLATFORM_ID;
+    const reason = isDonation ? LedgerReason.DONATION : LedgerReason.GIFT;
+    const transactionTimestamp = new Date().toISOString();
+    const txNow = new Date(transactionTimestamp);
+
+    const result = await runWithChargeCompensation((charges) => prisma.$transaction(async (tx) => {
+        // 1. Sender and recipient accounts
+        const senderAccount = await tx.account.findUnique({
+            where: { platformId_platformName: { platformId, platformName } },
+        });
+
+        if (!senderAccount) {
+            throw new Error(`Account not found for user ${userId} on platform ${platformName}.`);
+        }
+
+        const recipientAccount = isDonation
+            ? await tx.account.findUnique({
+                where: { platformId_platformName: { platformId: COMMUNITY_CHEST_PLATFORM_ID, platformName: PlatformName.GAME_MASTER } },
+            })
+            : await tx.account.findFirst({
+                where: { platformName, username: { equals: recipientName, mode: 'insensitive' } },
+                orderBy: { lastActivityTimestamp: { sort: 'desc', nulls: 'last' } },
+            });
+
+        if (!recipientAccount) {
+            throw new Error(isDonation
+                ? 'Gift recipient not found: the Community Chest account does not exist.'
+                : `Gift recipient @${recipientName} not found on ${platformName}.`);
+        }
+        if (!isDonation && recipientAccount.userId === userId) {
+            throw new Error('Gift recipient cannot be yourself.');
+        }
+
+        // 2. Daily cap (rolling 24 hours, donations excluded). The sender's row is locked first, so two
+        // concurrent gifts cannot both pass the check on the same total: the second one waits, then sees the first.
+        if (!isDonation) {
+            await tx.$queryRaw`SELECT "user_id" FROM "users" WHERE "user_id" = ${userId} FOR UPDATE`;
+
+            const recentGifts = await tx.gift.aggregate({
+                where: {
+                    senderUserId: userId,
+                    isDonation: false,
+                    createdAt: { gte: new Date(txNow.getTime() - GIFT_CAP_WINDOW_MS) },
+                },
+                _sum: { amount: true },
+            });
+            const giftedToday = recentGifts._sum.amount ?? 0;
+
+            if (giftedToday + amount > GIFT_DAILY_CAP) {
+                throw new Error(`Daily gift cap reached: you can gift ${Math.max(0, GIFT_DAILY_CAP - giftedToday)} more NUMBERS in the next 24 hours (cap ${GIFT_DAILY_CAP}).`);
+            }
+        }
+
+        if (senderAccount.currentBalance < amount) {
+            throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${senderAccount.currentBalance} NUMBERS. Your gift is ${amount} NUMBERS.`);
+        }
+
+        // 3. Authoritative deduction via Lumia
+        let newAuthoritativeBalance: number;
+        try {
+            newAuthoritativeBalance = await chargeViaLumia(tx, charges, {
+                userId,
+                platformId,
+                platformName,
+                amount,
+                reason,
+            });
+        } catch (error) {
+            logger.error(`Lumia Gift Deduction Failed for User ${userId} (Gift: ${amount}): ${error instanceof Error ? error.message : 'Unknown error'}`, { userId, platformId });
+            // Only expose a user-friendly message
+            throw toPaymentFailure(error);
+        }
+
+        // 4. Record the gift on both sides
+        const gift = await tx.gift.create({
+            data: {
+                senderUserId: userId,
+                senderAccountId: senderAccount.id,
+                recipientUserId: recipientAccount.userId,
+                recipientAccountId: recipientAccount.id,
+                amount,
+                isDonation,
+            },
+        });
+
+        await recordLedgerTransfer(tx, {
+            from: userParty(userId),
+            to: isDonation ? COMMUNITY_CHEST : userParty(recipientAccount.userId),
+            amount,
+            reason,
+        });
+
+        const updatedAccount = await tx.account.update({
+            where: { id: senderAccount.id },
+            data: { currentBalance: newAuthoritativeBalance },
+        });
+
+        await tx.user.update({
+            where: { id: userId },
+            data: {
+                totalGiftsSent: { increment: 1 },
+                totalNumbersGifted: { increment: amount },
+            },
+        });
+        await recordUserActivity(tx, userId, transactionTimestamp);
+
+        // 5. Credit the recipient: the Chest only exists locally, a viewer is paid via Lumia after commit.
+        let creditRefundId: number | null = null;
+
+        if (isDonation) {
+            await tx.account.update({
+                where: { id: recipientAccount.id },
+                data: { currentBalance: { increment: amount } },
+            });
+        } else {
+            await tx.user.update({
+                where: { id: recipientAccount.userId },
+                data: { totalNumbersReceivedAsGifts: { increment: amount } },
+            });
+
+            const credit = await enqueueRefund(tx, {
+                userId: recipientAccount.userId,
+                accountId: recipientAccount.id,
+                amount,
+                reason,
+            });
+            creditRefundId = credit.id;
+        }
+
+        return {
+            gift,
+            updatedAccount,
+            creditRefundId,
+            recipientUsername: recipientAccount.username ?? recipientName,
+        };
+    }, LUMIA_TRANSACTION_OPTIONS), { userId, platformId, platformName, amount, reason });
+
+    // --- AFTER COMMIT: credit the recipient ---
+    const creditOutcome = result.creditRefundId !== null
+        ? await processRefundsNow([result.creditRefundId])
+        : { succeeded: 0, queued: 0 };
+
+    logger.info(`${isDonation ? 'DONATION' : 'GIFT'}: User ${userId} sent ${amount} NUMBERS to ${isDonation ? 'the Community Chest' : `@${result.recipientUsername}`}.`, {
+        giftId: result.gift.id,
+        userId,
+        recipientUserId: result.gift.recipientUserId,
+        action: isDonation ? 'donation' : 'gift',
+    });
+
+    return {
+        gift: result.gift,
+        isDonation,
+        recipientUsername: result.recipientUsername,
+        updatedAccount: result.updatedAccount,
+        recipientCredited: isDonation || creditOutcome.queued === 0,
+    };
+}
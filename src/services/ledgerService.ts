@@ -0,0 +1,415 @@
+// src/services/ledgerService.ts
+// Append-only, double-entry NUMBERS ledger. Every economic action writes one transfer
+// (a DEBIT leg and a CREDIT leg) inside the same Prisma transaction as the action itself,
+// so financial totals can be audited and rebuilt instead of trusted.
+import { randomUUID } from 'crypto';
+import { LedgerAccountType, LedgerDirection, LedgerReason, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+
+
+// A side of a transfer: either a player (USER + userId) or one of the system accounts.
+export interface LedgerParty {
+    type: LedgerAccountType;
+    userId?: number | null;
+}
+
+export interface LedgerTransfer {
+    from: LedgerParty;
+    to: LedgerParty;
+    amount: number | bigint;
+    reason: LedgerReason;
+    challengeId?: number | null;
+    streamSessionId?: number | null;
+}
+
+export const TREASURY: LedgerParty = { type: LedgerAccountType.TREASURY };
+export const COMMUNITY_CHEST: LedgerParty = { type: LedgerAccountType.COMMUNITY_CHEST };
+export const ESCROW: LedgerParty = { type: LedgerAccountType.ESCROW };
+
+/**
+ * Builds the ledger party for a player.
+ */
+export function userParty(userId: number): LedgerParty {
+    return { type: LedgerAccountType.USER, userId };
+}
+
+// Reasons where a player pays the Treasury.
+export const SPENDING_REASONS: LedgerReason[] = [
+    LedgerReason.SUBMISSION,
+    LedgerReason.PUSH,
+    LedgerReason.DIGOUT,
+    LedgerReason.DISRUPT,
+    LedgerReason.AUCTION_WIN, // Reaches the Treasury from Escrow, not from the user directly
+];
+
+// Reasons where a player sends NUMBERS away as a gift (to a viewer or to the Community Chest).
+export const GIFT_REASONS: LedgerReason[] = [
+    LedgerReason.GIFT,
+    LedgerReason.DONATION,
+];
+
+// Reasons where the Treasury returns part of a removed challenge's spending.
+export const REMOVAL_REASONS: LedgerReason[] = [
+    LedgerReason.REMOVAL_FORFEIT,
+    LedgerReason.REMOVAL_REFUND_AUTHOR,
+    LedgerReason.REMOVAL_REFUND_PUSHER,
+];
+
+// Reasons where the Treasury gives back what a player spent: removal refunds and rejected submissions.
+export const REFUND_REASONS: LedgerReason[] = [
+    ...REMOVAL_REASONS,
+    LedgerReason.MODERATION_REFUND,
+];
+
+// Credits that cancel the player's own spending (a released auction bid, a rejected submission).
+const SPENDING_RETURN_REASONS: LedgerReason[] = [
+    LedgerReason.AUCTION_REFUND,
+    LedgerReason.MODERATION_REFUND,
+];
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// WRITE SIDE
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Records a transfer as two ledger rows sharing one transactionRef.
+ * MUST be called with the transaction client of the action it documents.
+ * @returns The transactionRef, or null if the amount was zero (nothing moved).
+ */
+export async function recordLedgerTransfer(
+    tx: Prisma.TransactionClient,
+    transfer: LedgerTransfer
+): Promise<string | null> {
+    const amount = BigInt(transfer.amount);
+
+    if (amount < 0n) {
+        throw new Error(`Ledger transfer amount cannot be negative (${amount.toString()}).`);
+    }
+    if (amount === 0n) {
+        return null;
+    }
+
+    const transactionRef = randomUUID();
+    const context = {
+        transactionRef,
+        amount,
+        reason: transfer.reason,
+        challengeId: transfer.challengeId ?? null,
+        streamSessionId: transfer.streamSessionId ?? null,
+    };
+
+    await tx.ledgerEntry.createMany({
+        data: [
+            {
+                ...context,
+                direction: LedgerDirection.DEBIT,
+                accountType: transfer.from.type,
+                accountUserId: transfer.from.userId ?? null,
+                counterpartyType: transfer.to.type,
+                counterpartyUserId: transfer.to.userId ?? null,
+            },
+            {
+                ...context,
+                direction: LedgerDirection.CREDIT,
+                accountType: transfer.to.type,
+                accountUserId: transfer.to.userId ?? null,
+                counterpartyType: transfer.from.type,
+                counterpartyUserId: transfer.from.userId ?? null,
+            },
+        ],
+    });
+
+    return transactionRef;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// READ SIDE (DERIVED TOTALS)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Sums ledger rows matching the filter. Returns 0n when nothing matches.
+ */
+async function sumLedger(where: Prisma.LedgerEntryWhereInput): Promise<bigint> {
+    const result = await prisma.ledgerEntry.aggregate({
+        where,
+        _sum: { amount: true },
+    });
+    return result._sum.amount ?? 0n;
+}
+
+/**
+ * Current balance of a system party (e.g. the Community Chest): everything credited minus everything debited.
+ * Accepts a transaction client so callers can read and spend the balance atomically.
+ */
+export async function getLedgerPartyBalance(
+    party: LedgerParty,
+    client: Prisma.TransactionClient = prisma
+): Promise<bigint> {
+    const rows = await client.ledgerEntry.groupBy({
+        by: ['direction'],
+        where: { accountType: party.type, accountUserId: party.userId ?? null },
+        _sum: { amount: true },
+    });
+
+    const totalFor = (direction: LedgerDirection) =>
+        rows.find(row => row.direction === direction)?._sum.amount ?? 0n;
+
+    return totalFor(LedgerDirection.CREDIT) - totalFor(LedgerDirection.DEBIT);
+}
+
+/**
+ * Game-wide financial totals, derived from the Treasury's side of the ledger,
+ * plus every User's pre-ledger baseline (as rebuildUserTotalsFromLedger does).
+ */
+export async function getGlobalLedgerTotals(): Promise<{
+    grossSpent: bigint;
+    refunded: bigint;
+    toCommunityChest: bigint;
+    toPushers: bigint;
+    toAuthors: bigint;
+}> {
+    const [rows, baselines] = await Promise.all([
+        prisma.ledgerEntry.groupBy({
+            by: ['reason', 'direction'],
+            where: { accountType: LedgerAccountType.TREASURY },
+            _sum: { amount: true },
+        }),
+        prisma.user.aggregate({
+            _sum: {
+                ledgerBaselineNumbersSpent: true,
+                ledgerBaselineCausedByRemovals: true,
+                ledgerBaselineToCommunityChest: true,
+                ledgerBaselineToPushers: true,
+            },
+        }),
+    ]);
+
+    const totalFor = (reasons: LedgerReason[], direction: LedgerDirection) =>
+        rows
+            .filter(row => reasons.includes(row.reason) && row.direction === direction)
+            .reduce((sum, row) => sum + (row._sum.amount ?? 0n), 0n);
+
+    const baselineCaused = baselines._sum.ledgerBaselineCausedByRemovals ?? 0n;
+    const baselineToChest = baselines._sum.ledgerBaselineToCommunityChest ?? 0n;
+    const baselineToPushers = baselines._sum.ledgerBaselineToPushers ?? 0n;
+
+    return {
+        grossSpent: totalFor(SPENDING_REASONS, LedgerDirection.CREDIT) + (baselines._sum.ledgerBaselineNumbersSpent ?? 0n),
+        refunded: totalFor(REFUND_REASONS, LedgerDirection.DEBIT) + baselineCaused,
+        toCommunityChest: totalFor([LedgerReason.REMOVAL_FORFEIT], LedgerDirection.DEBIT) + baselineToChest,
+        toPushers: totalFor([LedgerReason.REMOVAL_REFUND_PUSHER], LedgerDirection.DEBIT) + baselineToPushers,
+        // The baselines only split the removal pool into Chest and pushers: the author had the rest.
+        toAuthors: totalFor([LedgerReason.REMOVAL_REFUND_AUTHOR], LedgerDirection.DEBIT) + baselineCaused - baselineToChest - baselineToPushers,
+    };
+}
+
+/**
+ * Per-user financial totals, derived from the ledger plus the User's pre-ledger baseline
+ * (the same sums rebuildUserTotalsFromLedger writes to the counters).
+ * - totalSpent: everything the user paid to the Treasury, plus auction bids still held in Escrow.
+ * - receivedFromRemovals: refunds received as a pusher on someone else's removed challenge.
+ * - causedByRemovals: the full refund pool generated by removing the user's own challenges.
+ */
+export async function getUserLedgerTotals(userId: number): Promise<{
+    totalSpent: bigint;
+    receivedFromRemovals: bigint;
+    causedByRemovals: bigint;
+    gifted: bigint;
+    receivedFromGifts: bigint;
+}> {
+    const [baseline, directSpent, auctionBids, spendingReturned, receivedFromRemovals, causedByRemovals, gifted, receivedFromGifts] = await Promise.all([
+        prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+                ledgerBaselineNumbersSpent: true,
+                ledgerBaselineReceivedFromRemovals: true,
+                ledgerBaselineCausedByRemovals: true,
+            },
+        }),
+        sumLedger({
+            accountType: LedgerAccountType.USER,
+            accountUserId: userId,
+            direction: LedgerDirection.DEBIT,
+            reason: { in: SPENDING_REASONS },
+        }),
+        sumLedger({
+            accountType: LedgerAccountType.USER,
+            accountUserId: userId,
+            direction: LedgerDirection.DEBIT,
+            reason: LedgerReason.AUCTION_BID,
+        }),
+        sumLedger({
+            accountType: LedgerAccountType.USER,
+            accountUserId: userId,
+            direction: LedgerDirection.CREDIT,
+            reason: { in: SPENDING_RETURN_REASONS },
+        }),
+        sumLedger({
+            accountType: LedgerAccountType.USER,
+            accountUserId: userId,
+            direction: LedgerDirection.CREDIT,
+            reason: LedgerReason.REMOVAL_REFUND_PUSHER,
+        }),
+        sumLedger({
+            accountType: LedgerAccountType.TREASURY,
+            direction: LedgerDirection.DEBIT,
+            reason: { in: REMOVAL_REASONS },
+            challenge: { proposerUserId: userId },
+        }),
+        sumLedger({
+            accountType: LedgerAccountType.USER,
+            accountUserId: userId,
+            direction: LedgerDirection.DEBIT,
+            reason: { in: GIFT_REASONS },
+        }),
+        sumLedger({
+            accountType: LedgerAccountType.USER,
+            accountUserId: userId,
+            direction: LedgerDirection.CREDIT,
+            reason: LedgerReason.GIFT,
+        }),
+    ]);
+
+    // Bids go to Escrow, not the Treasury: only what was not released back counts as spent.
+    // Likewise a rejected submission's refund no longer counts as spent.
+    const totalSpent = directSpent + auctionBids - spendingReturned;
+
+    return {
+        totalSpent: totalSpent + (baseline?.ledgerBaselineNumbersSpent ?? 0n),
+        receivedFromRemovals: receivedFromRemovals + BigInt(baseline?.ledgerBaselineReceivedFromRemovals ?? 0),
+        causedByRemovals: causedByRemovals + (baseline?.ledgerBaselineCausedByRemovals ?? 0n),
+        gifted,
+        receivedFromGifts,
+    };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// REBUILD USER COUNTERS FROM THE LEDGER
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Overwrites the cached financial counters on every User with values derived from the ledger,
+ * added on top of the User's pre-ledger baseline (history the ledger backfill could not reconstruct).
+ * The counters remain for fast reads (e.g. Explorer merit checks); the ledger is the source of truth.
+ * @returns The number of users rewritten.
+ */
+export async function rebuildUserTotalsFromLedger(): Promise<number> {
+    // 1. Spending and received refunds are keyed directly by the user's own account.
+    const userRows = await prisma.ledgerEntry.groupBy({
+        by: ['accountUserId', 'reason', 'direction'],
+        where: { accountType: LedgerAccountType.USER },
+        _sum: { amount: true },
+    });
+
+    // 2. Removal consequences are keyed by the challenge, then attributed to its proposer.
+    const removalRows = await prisma.ledgerEntry.groupBy({
+        by: ['challengeId', 'reason'],
+        where: {
+            accountType: LedgerAccountType.TREASURY,
+            direction: LedgerDirection.DEBIT,
+            reason: { in: REMOVAL_REASONS },
+        },
+        _sum: { amount: true },
+    });
+
+    const challengeIds = removalRows
+        .map(row => row.challengeId)
+        .filter((id): id is number => id !== null);
+
+    const proposers = await prisma.challenge.findMany({
+        where: { challengeId: { in: challengeIds } },
+        select: { challengeId: true, proposerUserId: true },
+    });
+    const proposerByChallenge = new Map(proposers.map(c => [c.challengeId, c.proposerUserId]));
+
+    type Totals = { spent: bigint; received: bigint; caused: bigint; toChest: bigint; toPushers: bigint; gifted: bigint; receivedGifts: bigint };
+    const emptyTotals = (): Totals => ({ spent: 0n, received: 0n, caused: 0n, toChest: 0n, toPushers: 0n, gifted: 0n, receivedGifts: 0n });
+    const totals = new Map<number, Totals>();
+    const totalsFor = (userId: number): Totals => {
+        if (!totals.has(userId)) {
+            totals.set(userId, emptyTotals());
+        }
+        return totals.get(userId)!;
+    };
+
+    for (const row of userRows) {
+        if (row.accountUserId === null) continue;
+        const amount = row._sum.amount ?? 0n;
+
+        if (row.direction === LedgerDirection.DEBIT && SPENDING_REASONS.includes(row.reason)) {
+            totalsFor(row.accountUserId).spent += amount;
+        } else if (row.direction === LedgerDirection.DEBIT && row.reason === LedgerReason.AUCTION_BID) {
+            totalsFor(row.accountUserId).spent += amount;
+        } else if (row.direction === LedgerDirection.CREDIT && SPENDING_RETURN_REASONS.includes(row.reason)) {
+            totalsFor(row.accountUserId).spent -= amount;
+        } else if (row.direction === LedgerDirection.CREDIT && row.reason === LedgerReason.REMOVAL_REFUND_PUSHER) {
+            totalsFor(row.accountUserId).received += amount;
+        } else if (row.direction === LedgerDirection.DEBIT && GIFT_REASONS.includes(row.reason)) {
+            totalsFor(row.accountUserId).gifted += amount;
+        } else if (row.direction === LedgerDirection.CREDIT && row.reason === LedgerReason.GIFT) {
+            totalsFor(row.accountUserId).receivedGifts += amount;
+        }
+    }
+
+    for (const row of removalRows) {
+        const proposerUserId = row.challengeId !== null ? proposerByChallenge.get(row.challengeId) : undefined;
+        if (proposerUserId === undefined) continue;
+        const amount = row._sum.amount ?? 0n;
+        const entry = totalsFor(proposerUserId);
+
+        entry.caused += amount;
+        if (row.reason === LedgerReason.REMOVAL_FORFEIT) entry.toChest += amount;
+        if (row.reason === LedgerReason.REMOVAL_REFUND_PUSHER) entry.toPushers += amount;
+    }
+
+    // 3. Users absent from the ledger are reset to their baseline so stale counters cannot survive.
+    const users = await prisma.user.findMany({
+        select: {
+            id: true,
+            ledgerBaselineNumbersSpent: true,
+            ledgerBaselineReceivedFromRemovals: true,
+            ledgerBaselineCausedByRemovals: true,
+            ledgerBaselineToCommunityChest: true,
+            ledgerBaselineToPushers: true,
+        },
+    });
+
+    await prisma.$transaction(users.map(user => {
+        const entry = totals.get(user.id) ?? emptyTotals();
+        return prisma.user.update({
+            where: { id: user.id },
+            data: {
+                totalNumbersSpent: user.ledgerBaselineNumbersSpent + entry.spent,
+                totalReceivedFromRemovals: user.ledgerBaselineReceivedFromRemovals + Number(entry.received),
+                totalCausedByRemovals: user.ledgerBaselineCausedByRemovals + entry.caused,
+                totalToCommunityChest: user.ledgerBaselineToCommunityChest + entry.toChest,
+                totalToPushers: user.ledgerBaselineToPushers + entry.toPushers,
+                totalNumbersGifted: entry.gifted,
+                totalNumbersReceivedAsGifts: entry.receivedGifts,
+            },
+        });
+    }));
+
+    return users.length;
+}
+
+
+/**
+ * Lists ledger rows for auditing, newest first.
+ */
+export async function listLedgerEntries(filter: {
+    userId?: number;
+    challengeId?: number;
+    reason?: LedgerReason;
+    limit?: number;
+}) {
+    return prisma.ledgerEntry.findMany({
+        where: {
+            ...(filter.userId !== undefined && { accountUserId: filter.userId }),
+            ...(filter.challengeId !== undefined && { challengeId: filter.challengeId }),
+            ...(filter.reason && { reason: filter.reason }),
+        },
+        orderBy: { id: 'desc' },
+        take: Math.min(filter.limit ?? 100, 500),
+    });
+}
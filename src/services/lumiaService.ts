@@ -1,57 +1,285 @@
 // src/services/lumiaService.ts
 //  Service module to interact with the Lumia API for managing user NUMBERS balances.
+//  Lumia is the authoritative ledger of balances; Account.currentBalance only mirrors it.
+//  Balances are keyed like Account: by platform AND platformId (two platforms may share an ID).
+import { randomUUID } from 'crypto';
 import logger from '../logger';
 
 
+// --- CLIENT CONFIGURATION (Environment) ---
+// Defaults point at the local stand-in server (npm run lumia:stub) so the flow works offline.
+const LUMIA_API_BASE_URL = (process.env.LUMIA_API_BASE_URL || 'http://127.0.0.1:4021').replace(/\/+$/, '');
+const LUMIA_API_TOKEN = process.env.LUMIA_API_TOKEN || '';
+const LUMIA_TIMEOUT_MS = Number(process.env.LUMIA_TIMEOUT_MS || 5000);
+const LUMIA_MAX_RETRIES = Number(process.env.LUMIA_MAX_RETRIES || 3);
+const LUMIA_RETRY_BASE_DELAY_MS = Number(process.env.LUMIA_RETRY_BASE_DELAY_MS || 250);
+
+// Worst case of one lumiaRequest: every attempt times out, plus every backoff with its jitter.
+const LUMIA_REQUEST_BUDGET_MS =
+    (LUMIA_MAX_RETRIES + 1) * LUMIA_TIMEOUT_MS
+    + LUMIA_RETRY_BASE_DELAY_MS * (2 ** LUMIA_MAX_RETRIES - 1)
+    + 100 * LUMIA_MAX_RETRIES;
+
+/**
+ * Options for every interactive transaction that calls Lumia (chargeViaLumia).
+ * Prisma's default 5s timeout is shorter than one retried call, so it would roll back
+ * a deduction Lumia may still apply. maxWait covers waiting behind such transactions.
+ */
+export const LUMIA_TRANSACTION_OPTIONS = {
+    maxWait: LUMIA_REQUEST_BUDGET_MS,
+    timeout: LUMIA_REQUEST_BUDGET_MS + 10000, // + the transaction's own database work
+};
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// TYPED ERRORS
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Base class for every failure coming out of the Lumia client.
+ */
+export class LumiaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LumiaError';
+    }
+}
+
+/**
+ * The user's authoritative balance cannot cover the deduction. Never retried.
+ */
+export class LumiaInsufficientFundsError extends LumiaError {
+    constructor(public readonly platformId: string, public readonly balance: number | null) {
+        super(`Lumia API: Insufficient funds for transaction.`);
+        this.name = 'LumiaInsufficientFundsError';
+    }
+}
+
+/**
+ * Lumia rejected the request itself (bad input, unknown user, auth). Never retried.
+ */
+export class LumiaRequestError extends LumiaError {
+    constructor(message: string, public readonly status: number) {
+        super(`Lumia API: ${message}`);
+        this.name = 'LumiaRequestError';
+    }
+}
+
+/**
+ * Network failure, timeout or 5xx after all retries were exhausted.
+ * The operation MAY have been applied: replay it with the same idempotency key to find out.
+ */
+export class LumiaTransportError extends LumiaError {
+    constructor(message: string, public readonly status: number | null) {
+        super(`Lumia connection error: ${message}`);
+        this.name = 'LumiaTransportError';
+    }
+}
+
+
+export interface LumiaOperationOptions {
+    // Reusing a key makes Lumia return the original result instead of applying the operation twice.
+    idempotencyKey?: string;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// LOW-LEVEL HTTP WITH RETRIES
+////////////////////////////////////////////////////////////////////////////////////////
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends one request to Lumia, retrying transport failures, 429 and 5xx with exponential backoff.
+ * The idempotency key is sent unchanged on every attempt, so retries are safe for mutations.
+ */
+async function lumiaRequest<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: Record<string, unknown>,
+    idempotencyKey?: string
+): Promise<{ status: number; data: T }> {
+    let lastError: LumiaTransportError | null = null;
+
+    for (let attempt = 0; attempt <= LUMIA_MAX_RETRIES; attempt++) {
+        if (attempt > 0) {
+            // 250ms, 500ms, 1s... plus jitter so parallel refunds do not retry in lockstep.
+            const delay = LUMIA_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.floor(Math.random() * 100);
+            await sleep(delay);
+        }
+
+        try {
+            const response = await fetch(`${LUMIA_API_BASE_URL}${path}`, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Accept': 'application/json',
+                    ...(LUMIA_API_TOKEN && { 'Authorization': `Bearer ${LUMIA_API_TOKEN}` }),
+                    ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+                },
+                body: body ? JSON.stringify(body) : undefined,
+                signal: AbortSignal.timeout(LUMIA_TIMEOUT_MS),
+            });
+
+            const data = await response.json().catch(() => ({})) as T;
+
+            if (response.status === 429 || response.status >= 500) {
+                lastError = new LumiaTransportError(`HTTP ${response.status} from ${path}`, response.status);
+                logger.warn(`Lumia request retryable failure (attempt ${attempt + 1}/${LUMIA_MAX_RETRIES + 1}): ${lastError.message}`, { idempotencyKey });
+                continue;
+            }
+
+            return { status: response.status, data };
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : 'Unknown network error';
+            lastError = new LumiaTransportError(reason, null);
+            logger.warn(`Lumia request transport failure (attempt ${attempt + 1}/${LUMIA_MAX_RETRIES + 1}): ${reason}`, { idempotencyKey });
+        }
+    }
+
+    throw lastError ?? new LumiaTransportError('Request failed.', null);
+}
+
+/**
+ * The balance resource of one platform account.
+ */
+function balancePath(platformId: string, platformName: string): string {
+    return `/v1/balances/${encodeURIComponent(platformName)}/${encodeURIComponent(platformId)}`;
+}
 
 /**
- * MOCK: Simulates an authoritative call to the Lumia API for balance ADDITION (refund/credit).
+ * Converts a non-2xx Lumia balance response into the matching typed error.
+ */
+function toBalanceError(platformId: string, status: number, data: any): LumiaError {
+    if (status === 402 || data?.error === 'INSUFFICIENT_FUNDS') {
+        return new LumiaInsufficientFundsError(platformId, typeof data?.balance === 'number' ? data.balance : null);
+    }
+    return new LumiaRequestError(data?.message || `HTTP ${status}`, status);
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// BALANCE OPERATIONS
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Authoritative call to the Lumia API for balance ADDITION (refund/credit).
  * @param platformId - The user's ID on their streaming platform.
- * @param amount - The NUMBERS cost to add.
+ * @param platformName - The streaming platform (TWITCH, YOUTUBE...).
+ * @param amount - The NUMBERS amount to add.
+ * @param options - Optional idempotency key (generated when omitted).
  * @returns An object containing the new authoritative balance after addition.
  */
 export async function addNumbersViaLumia(
-    platformId: string, 
-    amount: number
+    platformId: string,
+    platformName: string,
+    amount: number,
+    options: LumiaOperationOptions = {}
 ): Promise<{ newBalance: number }> {
-    logger.info(`Lumia Mock Success: Added ${amount} for User ${platformId} (Refund).`);
-    // MOCK: In a real system, you would check the response for success/new balance.
-    return { 
-        newBalance: 99999999 + amount // Mock authoritative new balance
-    };
+    const idempotencyKey = options.idempotencyKey || randomUUID();
+
+    const { status, data } = await lumiaRequest<any>(
+        'POST',
+        `${balancePath(platformId, platformName)}/add`,
+        { amount },
+        idempotencyKey
+    );
+
+    if (status < 200 || status >= 300) {
+        throw toBalanceError(platformId, status, data);
+    }
+
+    logger.info(`Lumia Success: Added ${amount} for ${platformName} User ${platformId}.`, { idempotencyKey });
+    return { newBalance: data.newBalance };
 }
 
 
 
 /**
- * MOCK: Simulates an authoritative call to the Lumia API for balance deduction.
- * * In a live system, this would make an HTTP request. For now, it's a critical
- * placeholder that is expected to throw an error on failure (e.g., 400 Insufficient Funds).
- * * @param platformId The user's ID on their streaming platform (Twitch ID, etc.)
+ * Authoritative call to the Lumia API for balance deduction.
+ * @param platformId The user's ID on their streaming platform (Twitch ID, etc.)
+ * @param platformName The streaming platform (TWITCH, YOUTUBE...).
  * @param amount The NUMBERS cost to deduct.
+ * @param options - Optional idempotency key (generated when omitted).
  * @returns An object containing the new authoritative balance after deduction.
+ * @throws LumiaInsufficientFundsError | LumiaRequestError | LumiaTransportError
  */
 export async function deductNumbersViaLumia(
-    platformId: string, 
-    amount: number
+    platformId: string,
+    platformName: string,
+    amount: number,
+    options: LumiaOperationOptions = {}
 ): Promise<{ newBalance: number }> {
-    // 1. (MOCK) Global Token/Key Check is assumed to pass here.
-    
-    // MOCK FAILURE CONDITION: Simulate an authoritative failure (e.g., Insufficient Funds)
-    if (amount > 21_000_000) { // Arbitrary large number to force a mock failure
-        logger.warn(`Lumia Mock Failure: User ${platformId} attempted deduction of ${amount}.`);
-        throw new Error("Lumia API: Insufficient funds for transaction.");
+    const idempotencyKey = options.idempotencyKey || randomUUID();
+
+    const { status, data } = await lumiaRequest<any>(
+        'POST',
+        `${balancePath(platformId, platformName)}/deduct`,
+        { amount },
+        idempotencyKey
+    );
+
+    if (status < 200 || status >= 300) {
+        const error = toBalanceError(platformId, status, data);
+        logger.warn(`Lumia Deduction Rejected: ${platformName} User ${platformId} attempted deduction of ${amount}. ${error.message}`, { idempotencyKey });
+        throw error;
     }
-    
-    // MOCK SUCCESS: Log the deduction and return a mock new balance.
-    // NOTE: We don't use the local balance. We return a placeholder new authoritative balance.
-    logger.info(`Lumia Mock Success: Deducted ${amount} for User ${platformId}.`);
-    
-    // Return a successful result with a mock new authoritative balance.
-    // In reality, the Lumia API would return the actual new balance.
-    return { 
-        newBalance: 99999999 - amount // Mock authoritative new balance
-    };
+
+    logger.info(`Lumia Success: Deducted ${amount} for ${platformName} User ${platformId}.`, { idempotencyKey });
+    return { newBalance: data.newBalance };
+}
+
+
+
+/**
+ * Reads the authoritative balance from the Lumia API (no side effects).
+ * @param platformId The user's ID on their streaming platform.
+ * @param platformName The streaming platform (TWITCH, YOUTUBE...).
+ * @returns The current authoritative balance.
+ * @throws LumiaRequestError | LumiaTransportError
+ */
+export async function getBalanceViaLumia(platformId: string, platformName: string): Promise<number> {
+    const { status, data } = await lumiaRequest<any>(
+        'GET',
+        balancePath(platformId, platformName)
+    );
+
+    if (status < 200 || status >= 300) {
+        throw toBalanceError(platformId, status, data);
+    }
+
+    return data.balance;
+}
+
+
+
+/**
+ * Looks up a previously sent mutation by its idempotency key.
+ * Used by the compensation worker to learn whether an interrupted deduction was applied.
+ * @returns The recorded Lumia response, or null if Lumia never applied an operation with this key.
+ */
+export async function getLumiaOperation(
+    idempotencyKey: string
+): Promise<{ status: number; body: any } | null> {
+    const { status, data } = await lumiaRequest<any>(
+        'GET',
+        `/v1/operations/${encodeURIComponent(idempotencyKey)}`
+    );
+
+    if (status === 404) {
+        return null;
+    }
+    if (status < 200 || status >= 300) {
+        throw new LumiaRequestError(data?.message || `HTTP ${status}`, status);
+    }
+
+    return { status: data.status, body: data.body };
+}
+
+
+
+/**
+ * Maps any Lumia failure to the short, user-facing payment error used by every spending action.
+ */
+export function toPaymentFailure(error: unknown): Error {
+    return new Error(`Payment failed. ${error instanceof LumiaInsufficientFundsError ? 'Insufficient funds.' : 'Lumia connection error.'}`);
 }
 
 
@@ -60,11 +288,11 @@ export async function deductNumbersViaLumia(
  * Specifically handles the business logic for a user entering the Explorer.
  * Deducts the specific fee (merit or standard) and logs the access.
  */
-export async function processExplorerAccessFee(platformId: string, fee: number): Promise<number> {
+export async function processExplorerAccessFee(platformId: string, platformName: string, fee: number): Promise<number> {
     // Call the authoritative ledger with the dynamic fee (21 or 2.1)
-    const result = await deductNumbersViaLumia(platformId, fee);
-    
+    const result = await deductNumbersViaLumia(platformId, platformName, fee);
+
     logger.info(`Explorer Access Fee Processed: Deducted ${fee} from ${platformId}.`);
-    
-    return result.newBalance; 
-}
\ No newline at end of file
+
+    return result.newBalance;
+}
@@ -0,0 +1,270 @@
+// src/services/matchingService.ts
+// Quadratic funding rounds paid from the Community Chest. For every ACTIVE challenge, the pushes
+// made during a period are grouped per user; the ideal match is (sum of sqrt(contribution))^2
+// minus the contributions, so ten small backers attract far more matching than one whale.
+// The chest balance is shared out in proportion to those ideals (never above them).
+import { ChallengeStatus, LedgerReason, MatchingRoundTrigger, PlatformName, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { MATCHING_MAX_CHALLENGE_SHARE } from '../config/gameConfig';
+import { COMMUNITY_CHEST, TREASURY, getLedgerPartyBalance, recordLedgerTransfer } from './ledgerService';
+
+
+export interface MatchingPeriod {
+    periodStart: Date;
+    periodEnd: Date;
+}
+
+export interface MatchingCalculation {
+    challengeId: number;
+    contributors: number;
+    totalContributed: number;
+    idealMatch: number;
+    matchedAmount: number;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// CALCULATION
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Computes the matches for a period without writing anything.
+ * - Only pushes on challenges that are ACTIVE now count.
+ * - Each ideal is capped at MATCHING_MAX_CHALLENGE_SHARE of the pool.
+ * - If the capped ideals exceed the pool, all of them are scaled down by the same factor.
+ * Amounts are floored: the remainder stays in the chest.
+ */
+async function calculateMatches(
+    client: Prisma.TransactionClient,
+    period: MatchingPeriod,
+    poolAmount: number
+): Promise<MatchingCalculation[]> {
+    const contributions = await client.push.groupBy({
+        by: ['challengeId', 'userId'],
+        where: {
+            timestamp: { gte: period.periodStart, lt: period.periodEnd },
+            challenge: { status: ChallengeStatus.ACTIVE },
+        },
+        _sum: { cost: true },
+    });
+
+    // 1. Group each user's contribution under its challenge
+    const byChallenge = new Map<number, number[]>();
+    for (const row of contributions) {
+        const amount = row._sum.cost ?? 0;
+        if (amount <= 0) continue;
+        byChallenge.set(row.challengeId, [...(byChallenge.get(row.challengeId) ?? []), amount]);
+    }
+
+    // 2. Ideal quadratic match per challenge (a single backer gets nothing)
+    const maxPerChallenge = Math.floor(poolAmount * MATCHING_MAX_CHALLENGE_SHARE);
+    const calculations = [...byChallenge.entries()].map(([challengeId, amounts]) => {
+        const totalContributed = amounts.reduce((sum, amount) => sum + amount, 0);
+        const sumOfRoots = amounts.reduce((sum, amount) => sum + Math.sqrt(amount), 0);
+        const idealMatch = Math.max(0, Math.floor(sumOfRoots ** 2 - totalContributed));
+
+        return {
+            challengeId,
+            contributors: amounts.length,
+            totalContributed,
+            idealMatch,
+            cappedIdeal: Math.min(idealMatch, maxPerChallenge),
+        };
+    });
+
+    // 3. Share the pool out
+    const totalCappedIdeal = calculations.reduce((sum, calc) => sum + calc.cappedIdeal, 0);
+    const scale = totalCappedIdeal > poolAmount ? poolAmount / totalCappedIdeal : 1;
+
+    return calculations
+        .map(({ cappedIdeal, ...calc }) => ({ ...calc, matchedAmount: Math.floor(cappedIdeal * scale) }))
+        .sort((a, b) => b.matchedAmount - a.matchedAmount || a.challengeId - b.challengeId);
+}
+
+/**
+ * Rejects empty periods and periods that overlap a recorded round (pushes are matched at most once).
+ */
+async function assertPeriodAvailable(client: Prisma.TransactionClient, period: MatchingPeriod): Promise<void> {
+    if (isNaN(period.periodStart.getTime()) || isNaN(period.periodEnd.getTime()) || period.periodStart >= period.periodEnd) {
+        throw new Error('Invalid matching period: the start must be before the end.');
+    }
+
+    const overlapping = await client.matchingRound.findFirst({
+        where: { periodStart: { lt: period.periodEnd }, periodEnd: { gt: period.periodStart } },
+        select: { id: true },
+    });
+
+    if (overlapping) {
+        throw new Error(`Matching period overlaps Matching Round ${overlapping.id}.`);
+    }
+}
+
+/**
+ * Spendable pool: the Community Chest balance according to the Ledger.
+ */
+async function getPoolAmount(client: Prisma.TransactionClient): Promise<number> {
+    const balance = await getLedgerPartyBalance(COMMUNITY_CHEST, client);
+    return balance > 0n ? Number(balance) : 0;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// PREVIEW (DRY RUN)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Shows what a round for this period would pay right now. Nothing is written.
+ */
+export async function previewMatchingRound(period: MatchingPeriod) {
+    await assertPeriodAvailable(prisma, period);
+
+    const poolAmount = await getPoolAmount(prisma);
+    const matches = await calculateMatches(prisma, period, poolAmount);
+    const totalMatched = matches.reduce((sum, match) => sum + match.matchedAmount, 0);
+
+    return { ...period, poolAmount, totalMatched, matches };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// RUN A ROUND
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Runs a round: pays every match from the Community Chest (Ledger: Chest -> Treasury, per challenge),
+ * adds it to Challenge.matchedNumbers and stores the round with one row per matched challenge.
+ * @param trigger - STREAM_END (stream offline) or MANUAL (GM route).
+ * @param options - The stream the round belongs to, or the GM who requested it.
+ * @returns The stored round with its matches.
+ */
+export async function runMatchingRound(
+    trigger: MatchingRoundTrigger,
+    period: MatchingPeriod,
+    options: { streamSessionId?: number; triggeredByUserId?: number } = {}
+) {
+    const round = await prisma.$transaction(async (tx) => {
+        await assertPeriodAvailable(tx, period);
+
+        // 1. Calculate against the pool as it is inside this transaction
+        const poolAmount = await getPoolAmount(tx);
+        const matches = (await calculateMatches(tx, period, poolAmount)).filter(match => match.matchedAmount > 0);
+        const totalMatched = matches.reduce((sum, match) => sum + match.matchedAmount, 0);
+
+        const createdRound = await tx.matchingRound.create({
+            data: {
+                trigger,
+                triggeredByUserId: options.triggeredByUserId ?? null,
+                streamSessionId: options.streamSessionId ?? null,
+                periodStart: period.periodStart,
+                periodEnd: period.periodEnd,
+                poolAmount,
+                totalMatched,
+                challengesMatched: matches.length,
+            },
+        });
+
+        // 2. Pay each challenge
+        for (const match of matches) {
+            await tx.matchingMatch.create({ data: { roundId: createdRound.id, ...match } });
+
+            await tx.challenge.update({
+                where: { challengeId: match.challengeId },
+                data: { matchedNumbers: { increment: match.matchedAmount } },
+            });
+
+            await recordLedgerTransfer(tx, {
+                from: COMMUNITY_CHEST,
+                to: TREASURY,
+                amount: match.matchedAmount,
+                reason: LedgerReason.MATCHING_POOL,
+                challengeId: match.challengeId,
+                streamSessionId: options.streamSessionId ?? null,
+            });
+        }
+
+        // 3. Keep the chest account's mirrored balance in step with the Ledger
+        if (totalMatched > 0) {
+            await tx.account.updateMany({
+                where: { platformId: 'community_chest', platformName: PlatformName.GAME_MASTER },
+                data: { currentBalance: { decrement: totalMatched } },
+            });
+        }
+
+        return tx.matchingRound.findUniqueOrThrow({
+            where: { id: createdRound.id },
+            include: { matches: { orderBy: { matchedAmount: 'desc' } } },
+        });
+    });
+
+    logger.info(`Matching Round ${round.id} (${trigger}): ${round.totalMatched} of ${round.poolAmount} NUMBERS matched across ${round.challengesMatched} challenges.`, {
+        roundId: round.id,
+        action: 'matching_round',
+    });
+
+    return round;
+}
+
+
+
+/**
+ * Runs the round for a stream that just went offline, covering the stream's start to end.
+ * Skipped when the stream already has a round.
+ */
+export async function runStreamMatchingRound(stream: { streamSessionId: number; startTimestamp: Date; endTimestamp: Date | null }) {
+    const existing = await prisma.matchingRound.findUnique({ where: { streamSessionId: stream.streamSessionId } });
+
+    if (existing) {
+        return existing;
+    }
+
+    return runMatchingRound(
+        MatchingRoundTrigger.STREAM_END,
+        { periodStart: stream.startTimestamp, periodEnd: stream.endTimestamp ?? new Date() },
+        { streamSessionId: stream.streamSessionId }
+    );
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// REPORTS
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Default start for a GM round: the end of the latest round (or the beginning of time).
+ */
+export async function getNextMatchingPeriodStart(): Promise<Date> {
+    const latest = await prisma.matchingRound.findFirst({ orderBy: { periodEnd: 'desc' } });
+    return latest?.periodEnd ?? new Date(0);
+}
+
+
+
+/**
+ * Lists recent rounds, newest first.
+ */
+export async function listMatchingRounds(limit: number = 20) {
+    return prisma.matchingRound.findMany({
+        orderBy: { id: 'desc' },
+        take: Math.min(limit, 100),
+    });
+}
+
+
+
+/**
+ * Report for one round: the summary plus every matched challenge, largest match first.
+ */
+export async function getMatchingRoundReport(roundId: number) {
+    const round = await prisma.matchingRound.findUnique({
+        where: { id: roundId },
+        include: {
+            matches: {
+                include: { challenge: { select: { challengeId: true, status: true, matchedNumbers: true } } },
+                orderBy: { matchedAmount: 'desc' },
+            },
+        },
+    });
+
+    if (!round) {
+        throw new Error(`Matching Round ${roundId} not found.`);
+    }
+
+    return round;
+}
@@ -0,0 +1,284 @@
+// src/services/moderationService.ts
+// GM review of the submissions validateAndEnrichChallenge flagged (DOCUMENT or untrusted references),
+// which processChallengeSubmission stores as UNDER_REVIEW.
+// Approval moves the challenge to ACTIVE (the stream-day clock starts); rejection moves it to REMOVED
+// and refunds a share of its submissionCost. Both go through the challenge state machine, record
+// one ModerationDecision and notify the proposer through the event system.
+import { Challenge, ChallengeStatus, LedgerReason, ModerationDecision, ModerationVerdict, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { MODERATION_REJECTION_REFUND_PERCENT } from '../config/gameConfig';
+import { isReturningFromReview, transitionChallenge } from './challengeStateMachine';
+import { publishChallengeEvent, ChallengeEvents } from './eventService';
+import { TREASURY, recordLedgerTransfer, userParty } from './ledgerService';
+import { enqueueRefund, processRefundsNow } from './refundService';
+import { getCurrentStreamSessionId } from './streamService';
+
+
+export interface ReviewReference {
+    type: string;
+    url: string | null;
+    title: string;
+    note: string;
+    isTrusted: boolean;
+}
+
+export interface ReviewSubmission {
+    challengeId: number;
+    goal: string;
+    proposerUserId: number;
+    proposerUsername: string | null;
+    submissionCost: number;
+    timestampSubmitted: Date;
+    references: ReviewReference[];
+    // The references that sent the submission to review.
+    flaggedReferences: ReviewReference[];
+}
+
+export interface ModerationResult {
+    challenge: Challenge;
+    decision: ModerationDecision;
+    // False when the refund's Lumia credit failed on the first attempt and stays queued for retry.
+    refundPaid: boolean;
+}
+
+
+/**
+ * Same rule as validateAndEnrichChallenge: DOCUMENT references and untrusted links need review.
+ */
+function isFlaggedReference(reference: ReviewReference): boolean {
+    return reference.type === 'DOCUMENT' || !reference.isTrusted;
+}
+
+/**
+ * Shapes a challenge for the reviewer, with the references read from challengeText.
+ */
+function toReviewSubmission(challenge: Challenge): ReviewSubmission {
+    const text = (challenge.challengeText ?? {}) as { goal?: string; references?: ReviewReference[] };
+    const references = Array.isArray(text.references) ? text.references : [];
+
+    return {
+        challengeId: challenge.challengeId,
+        goal: text.goal ?? '',
+        proposerUserId: challenge.proposerUserId,
+        proposerUsername: challenge.proposerUsernameSnapshot,
+        submissionCost: challenge.submissionCost,
+        timestampSubmitted: challenge.timestampSubmitted,
+        references,
+        flaggedReferences: references.filter(isFlaggedReference),
+    };
+}
+
+
+/**
+ * Only UNDER_REVIEW submissions can be decided. MUST be called inside the decision's transaction.
+ */
+async function assertUnderReview(
+    tx: Prisma.TransactionClient,
+    challengeId: number
+): Promise<{ challengeId: number; status: ChallengeStatus }> {
+    const challenge = await tx.challenge.findUnique({
+        where: { challengeId },
+        select: { challengeId: true, status: true },
+    });
+
+    if (!challenge) {
+        throw new Error(`Challenge ID ${challengeId} not found.`);
+    }
+    if (challenge.status !== ChallengeStatus.UNDER_REVIEW) {
+        throw new Error(`Challenge #${challengeId} is not under review. Status is '${challenge.status}'.`);
+    }
+
+    return challenge;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// REVIEW QUEUE
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Lists the submissions waiting for review, oldest first.
+ */
+export async function listPendingSubmissions(limit?: number): Promise<ReviewSubmission[]> {
+    const pending = await prisma.challenge.findMany({
+        where: { status: ChallengeStatus.UNDER_REVIEW },
+        orderBy: [{ timestampSubmitted: 'asc' }, { challengeId: 'asc' }],
+        ...(limit !== undefined && { take: limit }),
+    });
+
+    return pending.map(toReviewSubmission);
+}
+
+
+
+/**
+ * Reads one submission for review, with its flagged references and its latest decision, if any
+ * (an author edit can send an approved challenge back to review).
+ */
+export async function getSubmissionForReview(challengeId: number): Promise<ReviewSubmission & { status: ChallengeStatus; decision: ModerationDecision | null }> {
+    const challenge = await prisma.challenge.findUnique({
+        where: { challengeId },
+        include: { moderationDecisions: { orderBy: { decidedAt: 'desc' }, take: 1 } },
+    });
+
+    if (!challenge) {
+        throw new Error(`Challenge ID ${challengeId} not found.`);
+    }
+
+    return { ...toReviewSubmission(challenge), status: challenge.status, decision: challenge.moderationDecisions[0] ?? null };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// DECISIONS (GM)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Approves an UNDER_REVIEW submission: ACTIVE from now, with a fresh 21-stream-day clock
+ * (today's stream day is not counted, like a challenge submitted today).
+ * A challenge an author edit sent back to review resumes its old clock instead.
+ */
+export async function approveSubmission(gmUserId: number, challengeId: number, note?: string): Promise<ModerationResult> {
+    const txNow = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+        const underReview = await assertUnderReview(tx, challengeId);
+        const isFirstActivation = !(await isReturningFromReview(tx, underReview));
+
+        const challenge = await transitionChallenge(tx, challengeId, ChallengeStatus.ACTIVE, {
+            actorUserId: gmUserId,
+            reason: note ?? 'Approved after review',
+            ...(isFirstActivation && { data: { timestampLastStreamDayTicked: txNow } }),
+            at: txNow,
+        });
+
+        if (!challenge) {
+            throw new Error(`Challenge #${challengeId} is currently being processed. Please try again.`);
+        }
+
+        const decision = await tx.moderationDecision.create({
+            data: {
+                challengeId,
+                verdict: ModerationVerdict.APPROVED,
+                reason: note ?? null,
+                decidedByUserId: gmUserId,
+                decidedAt: txNow,
+            },
+        });
+
+        return { challenge, decision };
+    });
+
+    logger.info(`Moderation: Challenge #${challengeId} approved by User ${gmUserId}.`, {
+        challengeId,
+        action: 'moderation_approved',
+    });
+
+    publishChallengeEvent(ChallengeEvents.CHALLENGE_APPROVED, { ...result.challenge, decision: result.decision });
+
+    return { ...result, refundPaid: true };
+}
+
+
+
+/**
+ * Rejects an UNDER_REVIEW submission with a reason shown to the proposer.
+ * 1. Moves the challenge to REMOVED (nothing else can have been spent on it: pushes need ACTIVE).
+ * 2. Refunds refundPercent of its submissionCost to the proposer (Ledger now, Lumia through the queue).
+ * 3. After commit, attempts the refund and notifies the proposer.
+ * @param refundPercent - 0 to 100; defaults to MODERATION_REJECTION_REFUND_PERCENT.
+ */
+export async function rejectSubmission(
+    gmUserId: number,
+    challengeId: number,
+    reason: string,
+    refundPercent: number = MODERATION_REJECTION_REFUND_PERCENT
+): Promise<ModerationResult> {
+    const trimmedReason = reason?.trim();
+
+    if (!trimmedReason) {
+        throw new Error('Moderation rejection needs a reason for the proposer.');
+    }
+    if (!Number.isInteger(refundPercent) || refundPercent < 0 || refundPercent > 100) {
+        throw new Error(`Moderation refund percent must be an integer from 0 to 100 (got ${refundPercent}).`);
+    }
+
+    const txNow = new Date();
+    const streamSessionId = getCurrentStreamSessionId();
+
+    const result = await prisma.$transaction(async (tx) => {
+        // 1. Status change
+        await assertUnderReview(tx, challengeId);
+
+        const challenge = await transitionChallenge(tx, challengeId, ChallengeStatus.REMOVED, {
+            actorUserId: gmUserId,
+            reason: trimmedReason,
+            data: { timestampSettled: txNow },
+            at: txNow,
+        });
+
+        if (!challenge) {
+            throw new Error(`Challenge #${challengeId} is currently being processed. Please try again.`);
+        }
+
+        // 2. Refund
+        const refundAmount = Number((BigInt(challenge.submissionCost) * BigInt(refundPercent)) / 100n);
+        let refundId: number | null = null;
+
+        if (refundAmount > 0) {
+            await recordLedgerTransfer(tx, {
+                from: TREASURY,
+                to: userParty(challenge.proposerUserId),
+                amount: refundAmount,
+                reason: LedgerReason.MODERATION_REFUND,
+                challengeId,
+                streamSessionId,
+            });
+
+            const queued = await enqueueRefund(tx, {
+                userId: challenge.proposerUserId,
+                amount: refundAmount,
+                reason: LedgerReason.MODERATION_REFUND,
+                challengeId,
+            });
+            refundId = queued.id;
+
+            // Mirrors the ledger rebuild: a refunded submission no longer counts as spent
+            await tx.user.update({
+                where: { id: challenge.proposerUserId },
+                data: { totalNumbersSpent: { decrement: BigInt(refundAmount) } },
+            });
+        }
+
+        const decision = await tx.moderationDecision.create({
+            data: {
+                challengeId,
+                verdict: ModerationVerdict.REJECTED,
+                reason: trimmedReason,
+                refundPercent,
+                refundAmount,
+                decidedByUserId: gmUserId,
+                decidedAt: txNow,
+            },
+        });
+
+        return { challenge, decision, refundId };
+    });
+
+    // --- AFTER COMMIT: pay the refund ---
+    const refundOutcome = result.refundId !== null
+        ? await processRefundsNow([result.refundId])
+        : { succeeded: 0, queued: 0 };
+
+    logger.info(`Moderation: Challenge #${challengeId} rejected by User ${gmUserId} (${result.decision.refundAmount} NUMBERS refunded).`, {
+        challengeId,
+        action: 'moderation_rejected',
+    });
+
+    publishChallengeEvent(ChallengeEvents.CHALLENGE_REJECTED, { ...result.challenge, decision: result.decision });
+
+    return {
+        challenge: result.challenge,
+        decision: result.decision,
+        refundPaid: refundOutcome.queued === 0,
+    };
+}
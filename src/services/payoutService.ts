@@ -0,0 +1,149 @@
+// src/services/payoutService.ts
+// Completion payouts: when a challenge reaches COMPLETED, the proposer and the earliest pushers
+// are rewarded from the Treasury per COMPLETION_PAYOUT_RULES. Driven by the CHALLENGE_COMPLETED
+// event (see eventSubscribers/payoutSubscriber), with a scheduled sweep for events that never arrived.
+// Credits go through the refund queue under deterministic idempotency keys and the challenge is
+// claimed once (Challenge.timestampPaidOut), so a replayed event never pays twice.
+import { ChallengeStatus, LedgerReason } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { COMPLETION_PAYOUT_RULES } from '../config/gameConfig';
+import { TREASURY, recordLedgerTransfer, userParty } from './ledgerService';
+import { enqueueRefund, processRefundsNow } from './refundService';
+
+
+export interface CompletionPayout {
+    userId: number;
+    role: 'PROPOSER' | 'EARLY_PUSHER';
+    rank: number | null; // Position among the earliest pushers (null for the proposer)
+    amount: number;
+    refundId: number;
+}
+
+/**
+ * Share of the challenge's total spend plus the fixed bounty (BigInt math, floored).
+ */
+function payoutAmount(totalNumbersSpent: bigint, rule: { sharePercent: number; fixedBounty: number }): number {
+    return Number((totalNumbersSpent * BigInt(rule.sharePercent)) / 100n) + rule.fixedBounty;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// PAY A COMPLETED CHALLENGE
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Queues and attempts the completion payouts for one challenge.
+ * 1. Claims the challenge (compare-and-set on timestampPaidOut): only a COMPLETED, unpaid challenge qualifies.
+ * 2. Ranks the distinct pushers by their first push (the proposer is paid as proposer, never twice).
+ * 3. Writes the Ledger credits and queues one payment per recipient, then attempts them right away.
+ * @returns The payouts, or null if the challenge is not COMPLETED or was already paid out.
+ */
+export async function payCompletionRewards(challengeId: number): Promise<CompletionPayout[] | null> {
+    const payouts = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.challenge.updateMany({
+            where: { challengeId, status: ChallengeStatus.COMPLETED, timestampPaidOut: null },
+            data: { timestampPaidOut: new Date() },
+        });
+
+        if (count === 0) {
+            return null;
+        }
+
+        const challenge = await tx.challenge.findUniqueOrThrow({
+            where: { challengeId },
+            select: { proposerUserId: true, totalNumbersSpent: true },
+        });
+
+        const earliestPushers = await tx.push.groupBy({
+            by: ['userId'],
+            where: { challengeId, userId: { not: challenge.proposerUserId } },
+            _min: { timestamp: true, pushId: true },
+            orderBy: [{ _min: { timestamp: 'asc' } }, { _min: { pushId: 'asc' } }],
+            take: COMPLETION_PAYOUT_RULES.earlyPushers.count,
+        });
+
+        const recipients = [
+            {
+                userId: challenge.proposerUserId,
+                role: 'PROPOSER' as const,
+                rank: null,
+                amount: payoutAmount(challenge.totalNumbersSpent, COMPLETION_PAYOUT_RULES.proposer),
+                reason: LedgerReason.COMPLETION_PAYOUT_PROPOSER,
+            },
+            ...earliestPushers.map((pusher, index) => ({
+                userId: pusher.userId,
+                role: 'EARLY_PUSHER' as const,
+                rank: index + 1,
+                amount: payoutAmount(challenge.totalNumbersSpent, COMPLETION_PAYOUT_RULES.earlyPushers),
+                reason: LedgerReason.COMPLETION_PAYOUT_PUSHER,
+            })),
+        ].filter(recipient => recipient.amount > 0);
+
+        const queuedPayouts: CompletionPayout[] = [];
+
+        for (const { reason, ...recipient } of recipients) {
+            await recordLedgerTransfer(tx, {
+                from: TREASURY,
+                to: userParty(recipient.userId),
+                amount: recipient.amount,
+                reason,
+                challengeId,
+            });
+
+            const queued = await enqueueRefund(tx, {
+                userId: recipient.userId,
+                amount: recipient.amount,
+                reason,
+                challengeId,
+                idempotencyKey: `payout:${challengeId}:${recipient.role}:${recipient.userId}`,
+            });
+
+            queuedPayouts.push({ ...recipient, refundId: queued.id });
+        }
+
+        return queuedPayouts;
+    });
+
+    if (!payouts) {
+        return null;
+    }
+
+    // First attempt right away; anything that fails stays queued for the scheduler.
+    await processRefundsNow(payouts.map(payout => payout.refundId));
+
+    const totalPaid = payouts.reduce((sum, payout) => sum + payout.amount, 0);
+    logger.info(`Completion Payouts: Challenge #${challengeId} paid ${totalPaid} NUMBERS to ${payouts.length} recipient(s).`, {
+        challengeId,
+        action: 'completion_payout',
+    });
+
+    return payouts;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// SWEEP (scheduler)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Pays every COMPLETED challenge that has not been paid out yet (e.g. the process stopped
+ * before the CHALLENGE_COMPLETED subscriber ran). A failure leaves the challenge for the next run.
+ * @returns The number of challenges paid out.
+ */
+export async function payOutstandingCompletions(): Promise<number> {
+    const unpaid = await prisma.challenge.findMany({
+        where: { status: ChallengeStatus.COMPLETED, timestampPaidOut: null },
+        select: { challengeId: true },
+        orderBy: { timestampCompleted: 'asc' },
+    });
+
+    let paidCount = 0;
+    for (const { challengeId } of unpaid) {
+        try {
+            if (await payCompletionRewards(challengeId)) paidCount++;
+        } catch (error) {
+            logger.error(`Completion Payouts Failed for Challenge #${challengeId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    return paidCount;
+}
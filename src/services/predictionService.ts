@@ -0,0 +1,434 @@
+// src/services/predictionService.ts
+// Pari-mutuel prediction markets on IN_PROGRESS challenges. Viewers stake NUMBERS on
+// "completes" or "fails"; stakes sit in Escrow (Ledger) until the challenge is decided.
+// On COMPLETED / FAILED the winning side shares the whole pool (minus the rake) in proportion
+// to its stakes. A challenge that ends any other way (e.g. removed by the GM) voids the market.
+import {
+    Challenge,
+    ChallengeStatus,
+    LedgerReason,
+    PlatformName,
+    PredictionMarket,
+    PredictionMarketStatus,
+    PredictionOutcome,
+    PredictionStake,
+    PredictionStakeStatus,
+    Prisma,
+} from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { PREDICTION_MAX_STAKE, PREDICTION_MIN_STAKE, PREDICTION_RAKE_PERCENT } from '../config/gameConfig';
+import { chargeViaLumia, runWithChargeCompensation } from './chargeService';
+import { publishChallengeEvent, ChallengeEvents } from './eventService';
+import { COMMUNITY_CHEST, ESCROW, recordLedgerTransfer, userParty } from './ledgerService';
+import { LUMIA_TRANSACTION_OPTIONS, toPaymentFailure } from './lumiaService';
+import { enqueueRefund, processRefundsNow } from './refundService';
+import { recordUserActivity } from './userService';
+
+
+export interface PredictionOdds {
+    totalPool: number;
+    // Payout per NUMBER staked if this side wins (null while the side is empty)
+    completes: { pool: number; multiplier: number | null };
+    fails: { pool: number; multiplier: number | null };
+}
+
+
+/**
+ * Current pari-mutuel odds: the pool after the rake, divided by the side's pool.
+ */
+function getOdds(market: Pick<PredictionMarket, 'poolCompletes' | 'poolFails'>): PredictionOdds {
+    const totalPool = market.poolCompletes + market.poolFails;
+    const netPool = totalPool - Math.floor(totalPool * PREDICTION_RAKE_PERCENT / 100);
+    const multiplier = (pool: number) => pool > 0 ? Math.round((netPool / pool) * 100) / 100 : null;
+
+    return {
+        totalPool,
+        completes: { pool: market.poolCompletes, multiplier: multiplier(market.poolCompletes) },
+        fails: { pool: market.poolFails, multiplier: multiplier(market.poolFails) },
+    };
+}
+
+/**
+ * Closing rule: stakes are only taken while the challenge is IN_PROGRESS, and not while its
+ * final session is being played (the outcome is then all but known).
+ * @returns The reason betting is closed, or null if it is open.
+ */
+function getClosedReason(challenge: Pick<Challenge, 'challengeId' | 'status' | 'isExecuting' | 'currentSessionCount' | 'totalSessions'>): string | null {
+    if (challenge.status !== ChallengeStatus.IN_PROGRESS) {
+        return `Challenge #${challenge.challengeId} is not open for predictions. Status is '${challenge.status}', only 'IN_PROGRESS' is eligible.`;
+    }
+    if (challenge.isExecuting && challenge.currentSessionCount + 1 >= challenge.totalSessions) {
+        return `Predictions for Challenge #${challenge.challengeId} are closed: the final session is being played.`;
+    }
+    return null;
+}
+
+/**
+ * Releases NUMBERS from Escrow back to a staker: Ledger (Escrow -> user) plus a queued Lumia credit
+ * to the account that paid. MUST be called inside the transaction that resolves the market.
+ * @returns The queued refund ID, or null when nothing is released (a lost stake).
+ */
+async function releaseStake(
+    tx: Prisma.TransactionClient,
+    stake: PredictionStake,
+    challengeId: number,
+    status: PredictionStakeStatus,
+    amount: number,
+    reason: LedgerReason
+): Promise<number | null> {
+    await tx.predictionStake.update({ where: { id: stake.id }, data: { status, payout: amount } });
+
+    if (amount <= 0) {
+        return null;
+    }
+
+    await recordLedgerTransfer(tx, {
+        from: ESCROW,
+        to: userParty(stake.userId),
+        amount,
+        reason,
+        challengeId,
+    });
+
+    const refund = await enqueueRefund(tx, {
+        userId: stake.userId,
+        accountId: stake.accountId,
+        amount,
+        reason,
+        challengeId,
+    });
+
+    return refund.id;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// PLACE PREDICTION (Viewer)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Stakes NUMBERS on the outcome of an IN_PROGRESS challenge. The first stake opens the market.
+ * The amount is charged via Lumia and held in Escrow. A viewer can add to their side, never switch.
+ * @param challengeId - The IN_PROGRESS challenge.
+ * @param outcome - COMPLETES or FAILS.
+ * @param amount - The stake, in NUMBERS.
+ */
+export async function placePrediction(
+    userId: number,
+    platformId: string,
+    platformName: PlatformName,
+    challengeId: number,
+    outcome: PredictionOutcome,
+    amount: number
+) {
+    if (!Number.isInteger(amount) || amount < PREDICTION_MIN_STAKE || amount > PREDICTION_MAX_STAKE) {
+        throw new Error(`Prediction stake must be between ${PREDICTION_MIN_STAKE} and ${PREDICTION_MAX_STAKE} NUMBERS.`);
+    }
+
+    const transactionTimestamp = new Date().toISOString();
+
+    const result = await runWithChargeCompensation((charges) => prisma.$transaction(async (tx) => {
+        // 1. Validation (closing rule)
+        const challenge = await tx.challenge.findUnique({ where: { challengeId } });
+
+        if (!challenge) {
+            throw new Error(`Challenge ID ${challengeId} not found.`);
+        }
+
+        const closedReason = getClosedReason(challenge);
+        if (closedReason) {
+            throw new Error(closedReason);
+        }
+
+        const market = await tx.predictionMarket.upsert({
+            where: { challengeId },
+            create: { challengeId },
+            update: {},
+        });
+
+        if (market.status !== PredictionMarketStatus.OPEN) {
+            throw new Error(`Predictions for Challenge #${challengeId} are closed: the market is ${market.status}.`);
+        }
+
+        const opposingStake = await tx.predictionStake.findFirst({
+            where: { marketId: market.id, userId, outcome: { not: outcome } },
+            select: { outcome: true },
+        });
+        if (opposingStake) {
+            throw new Error(`You already predicted that Challenge #${challengeId} ${opposingStake.outcome.toLowerCase()}. You can only add to that side.`);
+        }
+
+        const accountContext = await tx.account.findUnique({
+            where: { platformId_platformName: { platformId, platformName } },
+            select: { id: true, currentBalance: true },
+        });
+
+        if (!accountContext) {
+            throw new Error(`Account not found for user ${userId} on platform ${platformName}.`);
+        }
+        if (accountContext.currentBalance < amount) {
+            throw new Error(`Insufficient balance on ${platformName} account. Current balance: ${accountContext.currentBalance} NUMBERS. Your stake is ${amount} NUMBERS.`);
+        }
+
+        // 2. Grow the pool (compare-and-set): a concurrent stake or resolution makes this one fail cleanly.
+        const { count } = await tx.predictionMarket.updateMany({
+            where: {
+                id: market.id,
+                status: PredictionMarketStatus.OPEN,
+                poolCompletes: market.poolCompletes,
+                poolFails: market.poolFails,
+            },
+            data: outcome === PredictionOutcome.COMPLETES
+                ? { poolCompletes: { increment: amount } }
+                : { poolFails: { increment: amount } },
+        });
+        if (count === 0) {
+            throw new Error(`The prediction market for Challenge #${challengeId} is currently being processed by another stake. Please try again.`);
+        }
+
+        // 3. Authoritative deduction via Lumia
+        let newAuthoritativeBalance: number;
+        try {
+            newAuthoritativeBalance = await chargeViaLumia(tx, charges, {
+                userId,
+                platformId,
+                platformName,
+                amount,
+                reason: LedgerReason.PREDICTION_STAKE,
+                challengeId,
+            });
+        } catch (error) {
+            logger.error(`Lumia Prediction Deduction Failed for User ${userId} (Stake: ${amount}): ${error instanceof Error ? error.message : 'Unknown error'}`, { userId, platformId });
+            // Only expose a user-friendly message
+            throw toPaymentFailure(error);
+        }
+
+        // 4. Escrow the stake
+        const stake = await tx.predictionStake.create({
+            data: { marketId: market.id, userId, accountId: accountContext.id, outcome, amount },
+        });
+
+        await recordLedgerTransfer(tx, {
+            from: userParty(userId),
+            to: ESCROW,
+            amount,
+            reason: LedgerReason.PREDICTION_STAKE,
+            challengeId,
+        });
+
+        const updatedAccount = await tx.account.update({
+            where: { id: accountContext.id },
+            data: { currentBalance: newAuthoritativeBalance },
+        });
+        await recordUserActivity(tx, userId, transactionTimestamp);
+
+        const updatedMarket = await tx.predictionMarket.findUniqueOrThrow({ where: { id: market.id } });
+
+        return { stake, market: updatedMarket, updatedAccount };
+    }, LUMIA_TRANSACTION_OPTIONS), { userId, platformId, platformName, amount, reason: LedgerReason.PREDICTION_STAKE, challengeId });
+
+    return { ...result, odds: getOdds(result.market) };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// RESOLVE MARKET (settle or void)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Resolves the OPEN market of a challenge according to the challenge's status:
+ * - COMPLETED / FAILED: settled. Winners share the pool minus the rake, pro rata (floored;
+ *   the remainder joins the rake). With an empty side there is nobody to pay: every stake is refunded.
+ * - IN_PROGRESS / ACTIVE: undecided, left open.
+ * - Anything else (REMOVED, ARCHIVED...): voided, every stake refunded.
+ * @param forceVoid - True when the GM voids the market regardless of the challenge.
+ * @returns The resolved market, or null if there was nothing to resolve.
+ */
+export async function resolvePredictionMarket(challengeId: number, forceVoid: boolean = false) {
+    const result = await prisma.$transaction(async (tx) => {
+        const market = await tx.predictionMarket.findUnique({
+            where: { challengeId },
+            include: { challenge: { select: { status: true } } },
+        });
+
+        if (!market || market.status !== PredictionMarketStatus.OPEN) {
+            return null;
+        }
+
+        // 1. Decide the outcome
+        const challengeStatus = market.challenge.status;
+        const undecided = challengeStatus === ChallengeStatus.IN_PROGRESS || challengeStatus === ChallengeStatus.ACTIVE;
+
+        if (undecided && !forceVoid) {
+            return null;
+        }
+
+        const outcome = forceVoid ? null
+            : challengeStatus === ChallengeStatus.COMPLETED ? PredictionOutcome.COMPLETES
+            : challengeStatus === ChallengeStatus.FAILED ? PredictionOutcome.FAILS
+            : null;
+
+        // 2. Claim the market so the subscriber, the sweep and the GM cannot resolve it twice.
+        const { count } = await tx.predictionMarket.updateMany({
+            where: { id: market.id, status: PredictionMarketStatus.OPEN },
+            data: {
+                status: outcome ? PredictionMarketStatus.SETTLED : PredictionMarketStatus.VOIDED,
+                outcome,
+                resolvedAt: new Date(),
+            },
+        });
+        if (count === 0) {
+            return null;
+        }
+
+        const stakes = await tx.predictionStake.findMany({
+            where: { marketId: market.id, status: PredictionStakeStatus.ESCROWED },
+        });
+
+        const totalPool = market.poolCompletes + market.poolFails;
+        const winningPool = outcome === PredictionOutcome.COMPLETES ? market.poolCompletes : market.poolFails;
+        const refundIds: number[] = [];
+        let rakeAmount = 0;
+
+        // 3. Release the escrow
+        if (!outcome || winningPool === 0 || winningPool === totalPool) {
+            // A. Void, or nobody to pay / nobody to pay from: everyone gets their stake back.
+            for (const stake of stakes) {
+                const refundId = await releaseStake(tx, stake, challengeId, PredictionStakeStatus.REFUNDED, stake.amount, LedgerReason.PREDICTION_REFUND);
+                if (refundId !== null) refundIds.push(refundId);
+            }
+        } else {
+            // B. Settle: winners share the net pool, losers get nothing.
+            const netPool = totalPool - Math.floor(totalPool * PREDICTION_RAKE_PERCENT / 100);
+            let totalPaid = 0;
+
+            for (const stake of stakes) {
+                if (stake.outcome === outcome) {
+                    const payout = Math.floor(stake.amount * netPool / winningPool);
+                    totalPaid += payout;
+                    const refundId = await releaseStake(tx, stake, challengeId, PredictionStakeStatus.WON, payout, LedgerReason.PREDICTION_PAYOUT);
+                    if (refundId !== null) refundIds.push(refundId);
+                } else {
+                    await releaseStake(tx, stake, challengeId, PredictionStakeStatus.LOST, 0, LedgerReason.PREDICTION_PAYOUT);
+                }
+            }
+
+            rakeAmount = totalPool - totalPaid;
+
+            if (rakeAmount > 0) {
+                await recordLedgerTransfer(tx, {
+                    from: ESCROW,
+                    to: COMMUNITY_CHEST,
+                    amount: rakeAmount,
+                    reason: LedgerReason.PREDICTION_RAKE,
+                    challengeId,
+                });
+
+                await tx.account.updateMany({
+                    where: { platformId: 'community_chest', platformName: PlatformName.GAME_MASTER },
+                    data: { currentBalance: { increment: rakeAmount } },
+                });
+            }
+        }
+
+        const resolvedMarket = await tx.predictionMarket.update({
+            where: { id: market.id },
+            data: { rakeAmount },
+        });
+
+        return { market: resolvedMarket, refundIds };
+    });
+
+    if (!result) {
+        return null;
+    }
+
+    // --- AFTER COMMIT: pay the winners / refunds and announce the outcome ---
+    await processRefundsNow(result.refundIds);
+
+    logger.info(`PREDICTION ${result.market.status}: Market ${result.market.id} for Challenge #${challengeId}. ${result.market.outcome ? `Outcome ${result.market.outcome}, rake ${result.market.rakeAmount} NUMBERS.` : 'All stakes refunded.'}`, {
+        marketId: result.market.id,
+        challengeId,
+        action: 'prediction_resolved',
+    });
+
+    publishChallengeEvent(ChallengeEvents.PREDICTION_RESOLVED, {
+        challengeId,
+        market: result.market,
+        odds: getOdds(result.market),
+    });
+
+    return result.market;
+}
+
+
+
+/**
+ * GM tool: voids the open market of a challenge and refunds every stake.
+ */
+export async function voidPredictionMarket(challengeId: number) {
+    const market = await resolvePredictionMarket(challengeId, true);
+
+    if (!market) {
+        throw new Error(`Challenge #${challengeId} has no open prediction market.`);
+    }
+
+    return market;
+}
+
+
+
+/**
+ * Scheduled worker: resolves every OPEN market whose challenge is no longer IN_PROGRESS / ACTIVE
+ * (e.g. the process stopped before the event subscriber ran).
+ * @returns The number of markets resolved.
+ */
+export async function resolveDuePredictionMarkets(): Promise<number> {
+    const dueMarkets = await prisma.predictionMarket.findMany({
+        where: {
+            status: PredictionMarketStatus.OPEN,
+            challenge: { status: { notIn: [ChallengeStatus.IN_PROGRESS, ChallengeStatus.ACTIVE] } },
+        },
+        select: { challengeId: true },
+    });
+
+    let resolved = 0;
+    for (const { challengeId } of dueMarkets) {
+        try {
+            if (await resolvePredictionMarket(challengeId)) resolved++;
+        } catch (error) {
+            logger.error(`Prediction Resolution Failed for Challenge #${challengeId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    return resolved;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// READ
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * The market of a challenge with its odds and whether stakes are accepted, or null if nobody has staked yet.
+ */
+export async function getPredictionMarket(challengeId: number) {
+    const market = await prisma.predictionMarket.findUnique({
+        where: { challengeId },
+        include: {
+            challenge: { select: { challengeId: true, status: true, isExecuting: true, currentSessionCount: true, totalSessions: true } },
+            _count: { select: { stakes: true } },
+        },
+    });
+
+    if (!market) {
+        return null;
+    }
+
+    const { challenge, _count, ...marketFields } = market;
+
+    return {
+        ...marketFields,
+        stakeCount: _count.stakes,
+        isOpen: market.status === PredictionMarketStatus.OPEN && getClosedReason(challenge) === null,
+        odds: getOdds(market),
+    };
+}
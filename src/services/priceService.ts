@@ -0,0 +1,224 @@
+// src/services/priceService.ts
+// Side-effect-free price previews for every paid action (submit, push N, digout, disrupt).
+// Uses the same cost functions and the same active EconomyConfig as the actions themselves,
+// but only reads: no quote is stored, no daily reset is written and no user is created.
+// An identity without an Account yet is priced as a brand-new user.
+import { ChallengeStatus, PlatformName } from '@prisma/client';
+import prisma from '../prisma';
+import { MAX_QUOTE_QUANTITY } from '../config/gameConfig';
+import {
+    calculateDigoutCost,
+    calculatePushCost,
+    calculateSubmissionCost,
+} from './challengeService';
+import { EconomyPrices, getActiveEconomyConfig } from './economyConfigService';
+import { isStreamLive } from './streamService';
+
+
+export type PricedAction = 'submit' | 'push' | 'digout' | 'disrupt';
+
+export const PRICED_ACTIONS: PricedAction[] = ['submit', 'push', 'digout', 'disrupt'];
+
+export interface PricePreview {
+    action: PricedAction;
+    cost: number | null;          // null when the action cannot be priced (e.g. no challenge given)
+    available: boolean;           // false when the action would be rejected right now
+    reason: string | null;        // Why it is not available
+    liveDiscountApplied: boolean;
+    details: Record<string, unknown>;
+}
+
+export interface PriceSheet {
+    economyConfigVersion: number;
+    isLive: boolean;
+    liveDiscountPercent: number;
+    prices: PricePreview[];       // Priced for the identity; who it is and its balance are never returned (public route)
+}
+
+export interface PriceRequest {
+    platformId?: string;
+    platformName?: PlatformName;
+    challengeId?: number;
+    quantity?: number;
+    actions?: PricedAction[];
+}
+
+
+/**
+ * Shape of a preview that cannot be priced or would be rejected.
+ */
+function unavailable(action: PricedAction, reason: string, cost: number | null = null, details: Record<string, unknown> = {}): PricePreview {
+    return { action, cost, available: false, reason, liveDiscountApplied: false, details };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// PER-ACTION PREVIEWS
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Next submission of the day. Mirrors getCurrentDailySubmissionContext without writing the reset:
+ * once the daily window has passed the count is read as 0.
+ */
+async function previewSubmission(userId: number | null, economy: EconomyPrices, isLive: boolean): Promise<PricePreview> {
+    const user = userId !== null
+        ? await prisma.user.findUnique({
+            where: { id: userId },
+            select: { dailyChallengeResetAt: true, dailySubmissionCount: true },
+        })
+        : null;
+
+    const dailySubmissionCount = user && new Date() <= user.dailyChallengeResetAt ? user.dailySubmissionCount : 0;
+
+    return {
+        action: 'submit',
+        cost: calculateSubmissionCost(dailySubmissionCount, economy),
+        available: true,
+        reason: null,
+        liveDiscountApplied: isLive,
+        details: { dailySubmissionCount },
+    };
+}
+
+/**
+ * `quantity` more pushes on an ACTIVE challenge, continuing the user's quadratic count.
+ */
+async function previewPush(
+    userId: number | null,
+    challengeId: number | undefined,
+    quantity: number,
+    economy: EconomyPrices,
+    isLive: boolean
+): Promise<PricePreview> {
+    if (challengeId === undefined) {
+        return unavailable('push', 'Give a challenge ID to price a push.');
+    }
+    if (quantity > MAX_QUOTE_QUANTITY) {
+        return unavailable('push', `Maximum push quantity is ${MAX_QUOTE_QUANTITY}.`);
+    }
+
+    const challenge = await prisma.challenge.findUnique({
+        where: { challengeId },
+        select: { status: true, pushBaseCost: true },
+    });
+
+    if (!challenge) {
+        return unavailable('push', `Challenge ID ${challengeId} not found.`);
+    }
+
+    const pushRecord = userId !== null
+        ? await prisma.push.aggregate({ _sum: { quantity: true }, where: { userId, challengeId } })
+        : null;
+    const currentUserPushCount = pushRecord?._sum.quantity ?? 0;
+
+    const preview: PricePreview = {
+        action: 'push',
+        cost: calculatePushCost(challenge.pushBaseCost, currentUserPushCount, quantity, economy),
+        available: challenge.status === ChallengeStatus.ACTIVE,
+        reason: challenge.status === ChallengeStatus.ACTIVE ? null : `Challenge #${challengeId} is '${challenge.status}'. Pushes are only allowed on 'Active' challenges.`,
+        liveDiscountApplied: isLive,
+        details: { challengeId, quantity, currentUserPushCount, pushBaseCost: challenge.pushBaseCost },
+    };
+
+    return preview;
+}
+
+/**
+ * Reviving an ARCHIVED challenge (once per challenge, never discounted).
+ */
+async function previewDigout(challengeId: number | undefined, economy: EconomyPrices): Promise<PricePreview> {
+    if (challengeId === undefined) {
+        return unavailable('digout', 'Give a challenge ID to price a digout.');
+    }
+
+    const challenge = await prisma.challenge.findUnique({
+        where: { challengeId },
+        select: { status: true, hasBeenDiggedOut: true, totalNumbersSpent: true },
+    });
+
+    if (!challenge) {
+        return unavailable('digout', `Challenge ID ${challengeId} not found.`);
+    }
+
+    const cost = calculateDigoutCost(challenge.totalNumbersSpent, economy);
+    const details = { challengeId, digoutPercent: economy.digoutPercent };
+
+    if (challenge.status !== ChallengeStatus.ARCHIVED) {
+        return unavailable('digout', `Only '${ChallengeStatus.ARCHIVED}' challenges can be dug out. Challenge #${challengeId} is '${challenge.status}'.`, cost, details);
+    }
+    if (challenge.hasBeenDiggedOut) {
+        return unavailable('digout', `Challenge #${challengeId} has already been dug out once.`, cost, details);
+    }
+
+    return { action: 'digout', cost, available: true, reason: null, liveDiscountApplied: false, details };
+}
+
+/**
+ * A disrupt on the challenge executing right now (flat price, never discounted).
+ */
+async function previewDisrupt(economy: EconomyPrices): Promise<PricePreview> {
+    const target = await prisma.challenge.findFirst({
+        where: { isExecuting: true },
+        select: { challengeId: true },
+    });
+
+    return {
+        action: 'disrupt',
+        cost: economy.disruptCost,
+        available: target !== null,
+        reason: target ? null : 'No challenge is currently executing.',
+        liveDiscountApplied: false,
+        details: { targetChallengeId: target?.challengeId ?? null },
+    };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// PRICE SHEET
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Prices the requested actions (default: all) for one platform identity, with the active prices.
+ * Read-only: safe to call from frontends and the bot before the user commits.
+ * @param request.quantity - Pushes to price (default 1).
+ */
+export async function getPriceSheet(request: PriceRequest): Promise<PriceSheet> {
+    const actions = request.actions ?? PRICED_ACTIONS;
+    const quantity = request.quantity ?? 1;
+
+    const [economy, account] = await Promise.all([
+        getActiveEconomyConfig(),
+        request.platformId && request.platformName
+            ? prisma.account.findUnique({
+                where: { platformId_platformName: { platformId: request.platformId, platformName: request.platformName } },
+                select: { userId: true },
+            })
+            : null,
+    ]);
+
+    const userId = account?.userId ?? null;
+    const isLive = isStreamLive();
+    const prices: PricePreview[] = [];
+
+    for (const action of actions) {
+        switch (action) {
+            case 'submit':
+                prices.push(await previewSubmission(userId, economy, isLive));
+                break;
+            case 'push':
+                prices.push(await previewPush(userId, request.challengeId, quantity, economy, isLive));
+                break;
+            case 'digout':
+                prices.push(await previewDigout(request.challengeId, economy));
+                break;
+            case 'disrupt':
+                prices.push(await previewDisrupt(economy));
+                break;
+        }
+    }
+
+    return {
+        economyConfigVersion: economy.version,
+        isLive,
+        liveDiscountPercent: economy.liveDiscountPercent,
+        prices,
+    };
+}
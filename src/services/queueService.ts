@@ -0,0 +1,191 @@
+// src/services/queueService.ts
+// Ranks ACTIVE challenges for execution. Every challenge gets a score from configurable,
+// versioned rules (QUEUE_RANKING_RULES); the GM can pin a challenge above the ranking or
+// skip it to the bottom. The breakdown of each score is returned so clients can explain it.
+import { Challenge, ChallengeStatus, QueueOverride, QueueOverrideType } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { ARCHIVE_AFTER_STREAM_DAYS, QUEUE_RANKING_RULES } from '../config/gameConfig';
+import { getPendingPrerequisites } from './challengeSeriesService';
+
+
+export interface QueueScoreBreakdown {
+    totalPush: number;
+    uniquePusher: number;
+    archiveUrgency: number;
+    pushRecency: number;
+}
+
+export interface QueueEntry {
+    position: number;
+    challengeId: number;
+    score: number;
+    breakdown: QueueScoreBreakdown;
+    override: { type: QueueOverrideType; note: string | null } | null;
+    // Prerequisites not COMPLETED yet: the challenge cannot be executed until they are.
+    pendingPrerequisites: number[];
+    challenge: Challenge;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// SCORING
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Human-readable description of the current rules, returned with every queue.
+ */
+export function getRankingRules() {
+    return {
+        ...QUEUE_RANKING_RULES,
+        archiveAfterStreamDays: ARCHIVE_AFTER_STREAM_DAYS,
+        factors: {
+            totalPush: 'Square root of the total pushes.',
+            uniquePusher: 'Number of distinct users who pushed.',
+            archiveUrgency: `Stream days since activation divided by ${ARCHIVE_AFTER_STREAM_DAYS} (1 = about to be archived).`,
+            pushRecency: `Halves every ${QUEUE_RANKING_RULES.pushRecencyHalfLifeHours} hours since the last push (0 if never pushed).`,
+        },
+        order: 'Pinned challenges first (oldest pin first), then by score, then skipped challenges.',
+        prerequisites: 'Ranked like any other; pendingPrerequisites lists what must be COMPLETED before execution.',
+    };
+}
+
+/**
+ * Scores one challenge. Each breakdown value is already multiplied by its weight.
+ */
+function scoreChallenge(challenge: Challenge, now: Date): { score: number; breakdown: QueueScoreBreakdown } {
+    const { weights, pushRecencyHalfLifeHours } = QUEUE_RANKING_RULES;
+
+    const hoursSinceLastPush = challenge.timestampLastPushAt
+        ? Math.max(0, now.getTime() - challenge.timestampLastPushAt.getTime()) / (60 * 60 * 1000)
+        : null;
+
+    const breakdown: QueueScoreBreakdown = {
+        totalPush: weights.totalPush * Math.sqrt(challenge.totalPush),
+        uniquePusher: weights.uniquePusher * challenge.uniquePusher,
+        archiveUrgency: weights.archiveUrgency * Math.min(challenge.streamDaysSinceActivation / ARCHIVE_AFTER_STREAM_DAYS, 1),
+        pushRecency: hoursSinceLastPush === null
+            ? 0
+            : weights.pushRecency * 0.5 ** (hoursSinceLastPush / pushRecencyHalfLifeHours),
+    };
+
+    const score = Object.values(breakdown).reduce((sum, value) => sum + value, 0);
+    return { score: Math.round(score * 1000) / 1000, breakdown };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// QUEUE
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Builds the execution queue of ACTIVE challenges.
+ * Order: PIN overrides (oldest pin first), ranked challenges (score desc, older submission first
+ * on ties), then SKIP overrides (also by score).
+ * @param limit - Optional number of entries to return.
+ * @returns The rules version used and the ordered entries.
+ */
+export async function getExecutionQueue(limit?: number) {
+    const now = new Date();
+
+    const challenges = await prisma.challenge.findMany({
+        where: { status: ChallengeStatus.ACTIVE },
+        include: { queueOverride: true },
+    });
+
+    const byScore = (a: { score: number; challenge: Challenge }, b: { score: number; challenge: Challenge }) =>
+        b.score - a.score || a.challenge.timestampSubmitted.getTime() - b.challenge.timestampSubmitted.getTime();
+
+    const scored = challenges.map(({ queueOverride, ...challenge }) => ({
+        ...scoreChallenge(challenge, now),
+        challenge,
+        queueOverride,
+    }));
+
+    const pinned = scored
+        .filter(entry => entry.queueOverride?.type === QueueOverrideType.PIN)
+        .sort((a, b) => a.queueOverride!.createdAt.getTime() - b.queueOverride!.createdAt.getTime());
+    const ranked = scored.filter(entry => !entry.queueOverride).sort(byScore);
+    const skipped = scored.filter(entry => entry.queueOverride?.type === QueueOverrideType.SKIP).sort(byScore);
+
+    const ordered = [...pinned, ...ranked, ...skipped].slice(0, limit);
+    const pendingPrerequisites = await getPendingPrerequisites(ordered.map(entry => entry.challenge.challengeId));
+
+    const entries: QueueEntry[] = ordered
+        .map((entry, index) => ({
+            position: index + 1,
+            challengeId: entry.challenge.challengeId,
+            score: entry.score,
+            breakdown: entry.breakdown,
+            override: entry.queueOverride ? { type: entry.queueOverride.type, note: entry.queueOverride.note } : null,
+            pendingPrerequisites: pendingPrerequisites.get(entry.challenge.challengeId) ?? [],
+            challenge: entry.challenge,
+        }));
+
+    return { rulesVersion: QUEUE_RANKING_RULES.version, generatedAt: now, entries };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// GAME MASTER OVERRIDES
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Pins or skips an ACTIVE challenge, replacing any override it already has.
+ * The override is cleared automatically when the challenge is executed.
+ */
+export async function setQueueOverride(
+    gmUserId: number,
+    challengeId: number,
+    type: QueueOverrideType,
+    note?: string
+): Promise<QueueOverride> {
+    const challenge = await prisma.challenge.findUnique({
+        where: { challengeId },
+        select: { status: true },
+    });
+
+    if (!challenge) {
+        throw new Error(`Challenge ID ${challengeId} not found.`);
+    }
+    if (challenge.status !== ChallengeStatus.ACTIVE) {
+        throw new Error(`Challenge #${challengeId} cannot be queued. Status is ${challenge.status}, must be 'ACTIVE'.`);
+    }
+
+    const override = await prisma.queueOverride.upsert({
+        where: { challengeId },
+        create: { challengeId, type, note: note ?? null, createdByUserId: gmUserId },
+        update: { type, note: note ?? null, createdByUserId: gmUserId, createdAt: new Date() },
+    });
+
+    logger.info(`Queue Override: Challenge #${challengeId} set to ${type} by Admin User ${gmUserId}.`, {
+        challengeId,
+        action: 'queue_override_set',
+    });
+
+    return override;
+}
+
+
+
+/**
+ * Removes a challenge's pin or skip, returning it to the ranking.
+ */
+export async function clearQueueOverride(challengeId: number): Promise<QueueOverride> {
+    const override = await prisma.queueOverride.findUnique({ where: { challengeId } });
+
+    if (!override) {
+        throw new Error(`Queue override for Challenge ID ${challengeId} not found.`);
+    }
+
+    return prisma.queueOverride.delete({ where: { challengeId } });
+}
+
+
+
+/**
+ * Lists every current override, oldest first.
+ */
+export async function listQueueOverrides() {
+    return prisma.queueOverride.findMany({
+        include: { challenge: { select: { challengeId: true, status: true } } },
+        orderBy: { createdAt: 'asc' },
+    });
+}
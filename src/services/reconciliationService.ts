@@ -0,0 +1,191 @@
+// src/services/reconciliationService.ts
+// Keeps Account.currentBalance (the local mirror) in line with Lumia (the authority).
+// The mirror is only refreshed when a user spends here, so NUMBERS earned off-platform
+// never show up locally; a reconciliation run reads every balance, records the drift,
+// corrects the mirror and flags large discrepancies for the GM.
+import { PlatformName, ReconciliationTrigger } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { getBalanceViaLumia } from './lumiaService';
+import { RECONCILIATION_BATCH_SIZE, RECONCILIATION_FLAG_THRESHOLD } from '../config/gameConfig';
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// SINGLE ACCOUNT REFRESH
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Writes an authoritative balance to the mirror, but only if the mirror still holds the value
+ * it was read with. A spend that updated the account in the meantime wins (compare-and-set).
+ * @returns True if the mirror was corrected.
+ */
+async function correctMirror(accountId: number, mirroredBalance: number, lumiaBalance: number): Promise<boolean> {
+    const { count } = await prisma.account.updateMany({
+        where: { id: accountId, currentBalance: mirroredBalance },
+        data: { currentBalance: lumiaBalance, lastBalanceUpdate: new Date() },
+    });
+    return count > 0;
+}
+
+/**
+ * Refreshes one account's mirror from Lumia, e.g. before rejecting an optimistic balance check.
+ * Failures are logged and swallowed: the caller keeps the mirrored balance.
+ * @returns The balance to use: Lumia's when it could be read, the mirrored one otherwise.
+ */
+export async function refreshAccountBalance(platformId: string, platformName: PlatformName): Promise<number | null> {
+    const account = await prisma.account.findUnique({
+        where: { platformId_platformName: { platformId, platformName } },
+        select: { id: true, currentBalance: true },
+    });
+
+    if (!account) {
+        return null;
+    }
+
+    try {
+        const lumiaBalance = await getBalanceViaLumia(platformId, platformName);
+
+        if (lumiaBalance !== account.currentBalance) {
+            await correctMirror(account.id, account.currentBalance, lumiaBalance);
+            logger.info(`Balance Refresh: ${platformName} account ${platformId} corrected from ${account.currentBalance} to ${lumiaBalance} NUMBERS.`, {
+                accountId: account.id,
+                action: 'balance_refresh',
+            });
+        }
+
+        return lumiaBalance;
+    } catch (error) {
+        logger.warn(`Balance Refresh Failed for ${platformName} account ${platformId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return account.currentBalance;
+    }
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// FULL RECONCILIATION RUN
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Reconciles every player account against Lumia and stores the run with one result per account.
+ * GAME_MASTER accounts (e.g. the Community Chest) only exist locally and are skipped.
+ * @param trigger - SCHEDULED (cron) or MANUAL (GM route).
+ * @param triggeredByUserId - The GM who requested a manual run.
+ * @returns The finished run summary.
+ */
+export async function runBalanceReconciliation(
+    trigger: ReconciliationTrigger,
+    triggeredByUserId?: number
+) {
+    const run = await prisma.reconciliationRun.create({
+        data: { trigger, triggeredByUserId: triggeredByUserId ?? null },
+    });
+
+    const accounts = await prisma.account.findMany({
+        where: { platformName: { not: PlatformName.GAME_MASTER } },
+        select: { id: true, platformId: true, platformName: true, currentBalance: true },
+        orderBy: { id: 'asc' },
+    });
+
+    let accountsDrifted = 0;
+    let accountsFlagged = 0;
+    let accountsFailed = 0;
+    let totalAbsoluteDrift = 0n;
+
+    // Batches keep the number of parallel Lumia calls bounded.
+    for (let i = 0; i < accounts.length; i += RECONCILIATION_BATCH_SIZE) {
+        const batch = accounts.slice(i, i + RECONCILIATION_BATCH_SIZE);
+
+        const results = await Promise.all(batch.map(async (account) => {
+            try {
+                const lumiaBalance = await getBalanceViaLumia(account.platformId, account.platformName);
+                const drift = lumiaBalance - account.currentBalance;
+                const isFlagged = Math.abs(drift) >= RECONCILIATION_FLAG_THRESHOLD;
+
+                if (drift !== 0) {
+                    await correctMirror(account.id, account.currentBalance, lumiaBalance);
+                }
+
+                return { runId: run.id, accountId: account.id, mirroredBalance: account.currentBalance, lumiaBalance, drift, isFlagged };
+            } catch (error) {
+                return {
+                    runId: run.id,
+                    accountId: account.id,
+                    mirroredBalance: account.currentBalance,
+                    lumiaBalance: null,
+                    drift: 0,
+                    isFlagged: false,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                };
+            }
+        }));
+
+        for (const result of results) {
+            if (result.lumiaBalance === null) accountsFailed++;
+            if (result.drift !== 0) accountsDrifted++;
+            if (result.isFlagged) accountsFlagged++;
+            totalAbsoluteDrift += BigInt(Math.abs(result.drift));
+        }
+
+        await prisma.reconciliationResult.createMany({ data: results });
+    }
+
+    const finishedRun = await prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+            accountsChecked: accounts.length,
+            accountsDrifted,
+            accountsFlagged,
+            accountsFailed,
+            totalAbsoluteDrift,
+            finishedAt: new Date(),
+        },
+    });
+
+    const logLevel = accountsFlagged > 0 || accountsFailed > 0 ? 'warn' : 'info';
+    logger[logLevel](`Reconciliation Run ${run.id} (${trigger}): ${accounts.length} checked, ${accountsDrifted} corrected, ${accountsFlagged} flagged, ${accountsFailed} failed.`, {
+        runId: run.id,
+        action: 'balance_reconciliation',
+    });
+
+    return finishedRun;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// REPORTS
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Report for one run (the latest when no id is given): the summary, plus every flagged
+ * or failed account, largest drift first.
+ */
+export async function getReconciliationReport(runId?: number) {
+    const run = runId !== undefined
+        ? await prisma.reconciliationRun.findUnique({ where: { id: runId } })
+        : await prisma.reconciliationRun.findFirst({ orderBy: { id: 'desc' } });
+
+    if (!run) {
+        throw new Error(runId !== undefined ? `Reconciliation run ${runId} not found.` : 'Reconciliation run not found: none has been recorded yet.');
+    }
+
+    const results = await prisma.reconciliationResult.findMany({
+        where: { runId: run.id, OR: [{ isFlagged: true }, { error: { not: null } }] },
+        include: { account: { select: { userId: true, platformId: true, platformName: true, username: true } } },
+    });
+
+    const flagged = results
+        .filter(result => result.isFlagged)
+        .sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+    const failed = results.filter(result => result.error !== null);
+
+    return { run, flagged, failed };
+}
+
+
+
+/**
+ * Lists recent runs, newest first.
+ */
+export async function listReconciliationRuns(limit: number = 20) {
+    return prisma.reconciliationRun.findMany({
+        orderBy: { id: 'desc' },
+        take: Math.min(limit, 100),
+    });
+}
@@ -0,0 +1,368 @@
+// src/services/refundService.ts
+// Durable queue for NUMBERS owed back to players (e.g. removal refunds).
+// A refund is enqueued inside the transaction that decides it, then paid via Lumia
+// outside of it. Failed attempts are retried by the scheduler with exponential backoff,
+// always with the same idempotency key, so a refund can never be credited twice.
+// Every attempt claims the refund first (PROCESSING), so the worker, a GM retry and a GM cancel
+// never act on the same refund at once.
+import { randomUUID } from 'crypto';
+import { LedgerReason, PendingRefund, PlatformName, Prisma, RefundStatus } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { addNumbersViaLumia } from './lumiaService';
+import { TREASURY, recordLedgerTransfer, userParty } from './ledgerService';
+import {
+    REFUND_CLAIM_LEASE_MS,
+    REFUND_MAX_ATTEMPTS,
+    REFUND_QUEUE_BATCH_SIZE,
+    REFUND_RETRY_BASE_DELAY_MS,
+    REFUND_RETRY_MAX_DELAY_MS,
+} from '../config/gameConfig';
+
+
+export interface RefundRequest {
+    userId: number;
+    amount: number;
+    reason: LedgerReason;
+    challengeId?: number | null;
+    // Explicit target account. When omitted it is resolved from the user's pushes on the challenge.
+    accountId?: number | null;
+    // Deterministic key for credits that must never be queued twice (a duplicate fails the transaction).
+    idempotencyKey?: string;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// ENQUEUE (called inside the deciding transaction)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Picks the platform account a refund should be paid to:
+ * 1. The account the user spent the most with on this challenge.
+ * 2. Otherwise, the user's most recently active player account.
+ * @returns The accountId, or null if the user has no player account.
+ */
+export async function resolveRefundAccountId(
+    tx: Prisma.TransactionClient,
+    userId: number,
+    challengeId?: number | null
+): Promise<number | null> {
+    if (challengeId) {
+        const contributions = await tx.push.groupBy({
+            by: ['accountId'],
+            where: { userId, challengeId, accountId: { not: null } },
+            _sum: { cost: true },
+            orderBy: { _sum: { cost: 'desc' } },
+            take: 1,
+        });
+
+        if (contributions.length > 0 && contributions[0].accountId !== null) {
+            return contributions[0].accountId;
+        }
+    }
+
+    const fallbackAccount = await tx.account.findFirst({
+        where: { userId, platformName: { not: PlatformName.GAME_MASTER } },
+        orderBy: [
+            { lastActivityTimestamp: { sort: 'desc', nulls: 'last' } },
+            { id: 'asc' },
+        ],
+        select: { id: true },
+    });
+
+    return fallbackAccount?.id ?? null;
+}
+
+
+
+/**
+ * Persists a refund in the queue. MUST be called with the transaction client of the action
+ * that owes the money, so the refund exists if and only if that action committed.
+ * @returns The queued refund (PENDING, due immediately).
+ */
+export async function enqueueRefund(
+    tx: Prisma.TransactionClient,
+    request: RefundRequest
+): Promise<PendingRefund> {
+    if (request.amount <= 0) {
+        throw new Error(`Refund amount must be positive (${request.amount}).`);
+    }
+
+    const accountId = request.accountId !== undefined
+        ? request.accountId
+        : await resolveRefundAccountId(tx, request.userId, request.challengeId);
+
+    return tx.pendingRefund.create({
+        data: {
+            idempotencyKey: request.idempotencyKey ?? `refund:${randomUUID()}`,
+            userId: request.userId,
+            accountId,
+            amount: request.amount,
+            reason: request.reason,
+            challengeId: request.challengeId ?? null,
+        },
+    });
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// PROCESSING
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Delay before the next attempt, doubling with every failure.
+ */
+function getRetryDelayMs(attempts: number): number {
+    return Math.min(REFUND_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), REFUND_RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Makes one payment attempt for a PENDING refund.
+ * 1. Claims it (PENDING -> PROCESSING, compare-and-set): a concurrent worker, retry or cancel
+ *    makes this attempt back off. A claim older than REFUND_CLAIM_LEASE_MS may be taken over.
+ * 2. Credits via Lumia, then closes the refund as a compare-and-set on the claim.
+ * On failure the attempt is recorded and the refund is rescheduled, or marked FAILED at the limit.
+ * @returns The refund after this attempt (unchanged when another attempt holds it).
+ */
+export async function processRefund(refundId: number): Promise<PendingRefund> {
+    const claimedAt = new Date();
+
+    // 1. Claim
+    const { count: claimed } = await prisma.pendingRefund.updateMany({
+        where: {
+            id: refundId,
+            OR: [
+                { status: RefundStatus.PENDING },
+                { status: RefundStatus.PROCESSING, claimedAt: { lt: new Date(claimedAt.getTime() - REFUND_CLAIM_LEASE_MS) } },
+            ],
+        },
+        data: { status: RefundStatus.PROCESSING, claimedAt },
+    });
+
+    const refund = await prisma.pendingRefund.findUnique({
+        where: { id: refundId },
+        include: { account: true },
+    });
+
+    if (!refund) {
+        throw new Error(`Refund ID ${refundId} not found.`);
+    }
+    if (claimed === 0) {
+        return refund;
+    }
+
+    const claim: Prisma.PendingRefundWhereInput = { id: refund.id, status: RefundStatus.PROCESSING, claimedAt };
+
+    try {
+        if (!refund.account) {
+            throw new Error(`User ${refund.userId} has no account to receive the refund.`);
+        }
+
+        // 2. Credit via Lumia (the key makes retries of a half-finished attempt harmless).
+        const { newBalance } = await addNumbersViaLumia(refund.account.platformId, refund.account.platformName, refund.amount, {
+            idempotencyKey: refund.idempotencyKey,
+        });
+
+        // 3. Close the refund on our claim, and mirror the authoritative balance.
+        const paidRefund = await prisma.$transaction(async (tx) => {
+            const { count: closed } = await tx.pendingRefund.updateMany({
+                where: claim,
+                data: {
+                    status: RefundStatus.SUCCEEDED,
+                    attempts: refund.attempts + 1,
+                    lastError: null,
+                    claimedAt: null,
+                    completedAt: new Date(),
+                },
+            });
+
+            // The lease ran out and another attempt took over: it closes the refund (same key, credited once).
+            if (closed === 0) {
+                return null;
+            }
+
+            await tx.account.update({
+                where: { id: refund.account!.id },
+                data: { currentBalance: newBalance, lastBalanceUpdate: new Date() },
+            });
+
+            logger.info(`Refund Success: Paid ${refund.amount} NUMBERS to User ${refund.userId} (${refund.account!.platformName}).`, {
+                refundId: refund.id,
+                userId: refund.userId,
+                challengeId: refund.challengeId,
+                action: 'refund_paid',
+            });
+
+            return tx.pendingRefund.findUniqueOrThrow({ where: { id: refund.id } });
+        });
+
+        return paidRefund ?? prisma.pendingRefund.findUniqueOrThrow({ where: { id: refund.id } });
+
+    } catch (error) {
+        const attempts = refund.attempts + 1;
+        const hasGivenUp = attempts >= REFUND_MAX_ATTEMPTS;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown payment error during refund.';
+
+        logger.error(`Refund Attempt Failed (${attempts}/${REFUND_MAX_ATTEMPTS}) for User ${refund.userId} (Amount: ${refund.amount}): ${errorMessage}`, {
+            refundId: refund.id,
+            userId: refund.userId,
+        });
+
+        await prisma.pendingRefund.updateMany({
+            where: claim,
+            data: {
+                attempts,
+                lastError: errorMessage,
+                status: hasGivenUp ? RefundStatus.FAILED : RefundStatus.PENDING,
+                claimedAt: null,
+                nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+            },
+        });
+
+        return prisma.pendingRefund.findUniqueOrThrow({ where: { id: refund.id } });
+    }
+}
+
+
+
+/**
+ * Makes one attempt for each of the given refunds (e.g. right after the deciding transaction).
+ * @returns How many were paid and how many stay queued.
+ */
+export async function processRefundsNow(refundIds: number[]): Promise<{ succeeded: number; queued: number }> {
+    const results = await Promise.all(refundIds.map(id => processRefund(id)));
+    const succeeded = results.filter(refund => refund.status === RefundStatus.SUCCEEDED).length;
+
+    return { succeeded, queued: results.length - succeeded };
+}
+
+
+
+/**
+ * Scheduled worker: attempts every PENDING refund whose backoff has elapsed, oldest first,
+ * and takes over PROCESSING ones whose claim outlived REFUND_CLAIM_LEASE_MS (a crashed attempt).
+ * @returns The number of refunds attempted.
+ */
+export async function processDueRefunds(): Promise<number> {
+    const now = new Date();
+    const dueRefunds = await prisma.pendingRefund.findMany({
+        where: {
+            OR: [
+                { status: RefundStatus.PENDING, nextAttemptAt: { lte: now } },
+                { status: RefundStatus.PROCESSING, claimedAt: { lt: new Date(now.getTime() - REFUND_CLAIM_LEASE_MS) } },
+            ],
+        },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: REFUND_QUEUE_BATCH_SIZE,
+        select: { id: true },
+    });
+
+    // Sequential on purpose: a Lumia outage should not be hit by the whole batch at once.
+    for (const { id } of dueRefunds) {
+        await processRefund(id);
+    }
+
+    return dueRefunds.length;
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// GAME MASTER TOOLS
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Lists refunds for GM review, newest first. Defaults to everything not yet paid or cancelled.
+ */
+export async function listRefunds(filter: { status?: RefundStatus; challengeId?: number } = {}) {
+    return prisma.pendingRefund.findMany({
+        where: {
+            status: filter.status ?? { in: [RefundStatus.PENDING, RefundStatus.PROCESSING, RefundStatus.FAILED] },
+            ...(filter.challengeId !== undefined && { challengeId: filter.challengeId }),
+        },
+        include: { account: { select: { platformId: true, platformName: true, username: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: 200,
+    });
+}
+
+
+
+/**
+ * GM retry: re-arms a PENDING or FAILED refund (optionally to another account of the same user)
+ * and attempts it immediately.
+ */
+export async function retryRefund(refundId: number, accountId?: number): Promise<PendingRefund> {
+    const refund = await prisma.pendingRefund.findUnique({ where: { id: refundId } });
+
+    if (!refund) {
+        throw new Error(`Refund ID ${refundId} not found.`);
+    }
+    if (refund.status !== RefundStatus.PENDING && refund.status !== RefundStatus.FAILED) {
+        throw new Error(`Refund ID ${refundId} is already ${refund.status} and cannot be retried.`);
+    }
+
+    if (accountId !== undefined) {
+        const account = await prisma.account.findUnique({ where: { id: accountId } });
+        if (!account || account.userId !== refund.userId) {
+            throw new Error(`Account ID ${accountId} not found for User ${refund.userId}.`);
+        }
+    }
+
+    // Compare-and-set on the status read: an attempt claiming it meanwhile makes the retry back off.
+    const { count } = await prisma.pendingRefund.updateMany({
+        where: { id: refundId, status: refund.status },
+        data: {
+            status: RefundStatus.PENDING,
+            nextAttemptAt: new Date(),
+            // A FAILED refund gets a fresh set of attempts.
+            ...(refund.status === RefundStatus.FAILED && { attempts: 0 }),
+            ...(accountId !== undefined && { accountId }),
+        },
+    });
+
+    if (count === 0) {
+        throw new Error(`Refund ID ${refundId} is currently being processed. Please try again.`);
+    }
+
+    return processRefund(refundId);
+}
+
+
+
+/**
+ * GM cancel: the refund will never be paid. The credit already written to the Ledger
+ * is reversed, so the NUMBERS remain in the Treasury.
+ */
+export async function cancelRefund(refundId: number, note?: string): Promise<PendingRefund> {
+    return prisma.$transaction(async (tx) => {
+        const refund = await tx.pendingRefund.findUnique({ where: { id: refundId } });
+
+        if (!refund) {
+            throw new Error(`Refund ID ${refundId} not found.`);
+        }
+        if (refund.status !== RefundStatus.PENDING && refund.status !== RefundStatus.FAILED) {
+            throw new Error(`Refund ID ${refundId} is already ${refund.status} and cannot be cancelled.`);
+        }
+
+        // Compare-and-set on the status read: an attempt claiming it meanwhile wins, and the cancel backs off.
+        const { count } = await tx.pendingRefund.updateMany({
+            where: { id: refundId, status: refund.status },
+            data: {
+                status: RefundStatus.CANCELLED,
+                resolutionNote: note ?? null,
+                completedAt: new Date(),
+            },
+        });
+
+        if (count === 0) {
+            throw new Error(`Refund ID ${refundId} is currently being processed. Please try again.`);
+        }
+
+        await recordLedgerTransfer(tx, {
+            from: userParty(refund.userId),
+            to: TREASURY,
+            amount: refund.amount,
+            reason: LedgerReason.REFUND_REVERSAL,
+            challengeId: refund.challengeId,
+        });
+
+        return tx.pendingRefund.findUniqueOrThrow({ where: { id: refundId } });
+    });
+}
@@ -0,0 +1,227 @@
+// src/services/settlementService.ts
+// Settles the Push history of a challenge that ends without the author's !remove:
+// FAILED (cadence or contiguity), ARCHIVED (stream-day limit) or REMOVED by the GM.
+// The policy for the status (SETTLEMENT_POLICIES) decides which share of each contributor's
+// spend is refunded, who may receive it and what goes to the Community Chest.
+// Only pushes made since the previous settlement count, so a revived challenge is never settled twice.
+import { Challenge, ChallengeStatus, LedgerReason, PlatformName, Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import logger from '../logger';
+import { SETTLEMENT_POLICIES } from '../config/gameConfig';
+import { IllegalChallengeTransitionError, transitionChallenge } from './challengeStateMachine';
+import { publishChallengeEvent, ChallengeEvents } from './eventService';
+import { COMMUNITY_CHEST, TREASURY, recordLedgerTransfer, userParty } from './ledgerService';
+import { enqueueRefund, processRefundsNow } from './refundService';
+import { getCurrentStreamSessionId } from './streamService';
+
+
+export type SettledStatus = keyof typeof SETTLEMENT_POLICIES;
+
+export interface SettlementOutcome {
+    challengeId: number;
+    status: SettledStatus;
+    numbersSettled: number;
+    toPushers: number;
+    toAuthor: number;
+    toCommunityChest: number;
+    // Queued refunds: pay them with processRefundsNow once the transaction has committed.
+    refundIds: number[];
+}
+
+
+/**
+ * True for the terminal statuses that have a settlement policy.
+ */
+export function isSettledStatus(status: ChallengeStatus): status is SettledStatus {
+    return status in SETTLEMENT_POLICIES;
+}
+
+/**
+ * Share of an amount, floored (BigInt math, like the removal refunds).
+ */
+function percentOf(amount: number, percent: number): number {
+    return Number((BigInt(amount) * BigInt(percent)) / 100n);
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// SETTLE (called inside the terminal transition's transaction)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Applies the status's policy to the pushes not settled yet. MUST be called with the transaction
+ * client of the status change, so the refunds exist if and only if the transition committed.
+ * 1. Groups the unsettled pushes per user.
+ * 2. Refunds refundPercent of each spend to the allowed recipients (Ledger + refund queue).
+ * 3. Moves chestPercent of the total to the Community Chest.
+ * 4. Records Challenge.numbersRaised, timestampSettled and the user removal counters.
+ * @param challenge - The challenge as read before the transition.
+ * @param status - The terminal status being entered.
+ * @param settledAt - The transition time (pushes up to it are covered).
+ */
+export async function settleChallenge(
+    tx: Prisma.TransactionClient,
+    challenge: Pick<Challenge, 'challengeId' | 'proposerUserId' | 'timestampSettled'>,
+    status: SettledStatus,
+    settledAt: Date,
+    streamSessionId: number | null = null
+): Promise<SettlementOutcome> {
+    const policy = SETTLEMENT_POLICIES[status];
+    const { challengeId, proposerUserId } = challenge;
+
+    // 1. Unsettled spend per user
+    const contributions = await tx.push.groupBy({
+        by: ['userId'],
+        where: {
+            challengeId,
+            timestamp: { lte: settledAt, ...(challenge.timestampSettled && { gt: challenge.timestampSettled }) },
+        },
+        _sum: { cost: true },
+    });
+
+    let numbersSettled = 0;
+    let toAuthor = 0;
+    const pusherRefunds: { userId: number, refundAmount: number }[] = [];
+
+    for (const contribution of contributions) {
+        const spent = contribution._sum.cost ?? 0;
+        const refund = percentOf(spent, policy.refundPercent);
+        numbersSettled += spent;
+
+        if (refund <= 0) continue;
+
+        if (contribution.userId === proposerUserId) {
+            if (policy.recipients.author) toAuthor = refund;
+        } else if (policy.recipients.pushers) {
+            pusherRefunds.push({ userId: contribution.userId, refundAmount: refund });
+        }
+    }
+
+    const toPushers = pusherRefunds.reduce((sum, refund) => sum + refund.refundAmount, 0);
+    const toCommunityChest = percentOf(numbersSettled, policy.chestPercent);
+    const refundIds: number[] = [];
+
+    // 2. Refunds: Ledger credit now, Lumia payment through the queue
+    const refunds: { userId: number, refundAmount: number, reason: LedgerReason }[] = pusherRefunds.map(refund => ({ ...refund, reason: LedgerReason.REMOVAL_REFUND_PUSHER }));
+    if (toAuthor > 0) {
+        refunds.push({ userId: proposerUserId, refundAmount: toAuthor, reason: LedgerReason.REMOVAL_REFUND_AUTHOR });
+    }
+
+    for (const { userId, refundAmount, reason } of refunds) {
+        await recordLedgerTransfer(tx, {
+            from: TREASURY,
+            to: userParty(userId),
+            amount: refundAmount,
+            reason,
+            challengeId,
+            streamSessionId,
+        });
+
+        const queued = await enqueueRefund(tx, { userId, amount: refundAmount, reason, challengeId });
+        refundIds.push(queued.id);
+
+        if (reason === LedgerReason.REMOVAL_REFUND_PUSHER) {
+            await tx.user.update({
+                where: { id: userId },
+                data: { totalReceivedFromRemovals: { increment: refundAmount } },
+            });
+        }
+    }
+
+    // 3. Community Chest share
+    if (toCommunityChest > 0) {
+        await recordLedgerTransfer(tx, {
+            from: TREASURY,
+            to: COMMUNITY_CHEST,
+            amount: toCommunityChest,
+            reason: LedgerReason.REMOVAL_FORFEIT,
+            challengeId,
+            streamSessionId,
+        });
+
+        await tx.account.updateMany({
+            where: { platformId: 'community_chest', platformName: PlatformName.GAME_MASTER },
+            data: { currentBalance: { increment: toCommunityChest } },
+        });
+    }
+
+    // 4. Records (the author's counters mirror what ledgerService rebuilds from the removal reasons)
+    await tx.challenge.update({
+        where: { challengeId },
+        data: {
+            numbersRaised: { increment: numbersSettled },
+            timestampSettled: settledAt,
+        },
+    });
+
+    const totalReturned = toPushers + toAuthor + toCommunityChest;
+    if (totalReturned > 0) {
+        await tx.user.update({
+            where: { id: proposerUserId },
+            data: {
+                totalCausedByRemovals: { increment: totalReturned },
+                totalToCommunityChest: { increment: toCommunityChest },
+                totalToPushers: { increment: toPushers },
+            },
+        });
+    }
+
+    logger.info(`Settlement: Challenge #${challengeId} ${status}. ${numbersSettled} NUMBERS settled: ${toPushers} to pushers, ${toAuthor} to the author, ${toCommunityChest} to the Community Chest.`, {
+        challengeId,
+        action: 'challenge_settlement',
+    });
+
+    return { challengeId, status, numbersSettled, toPushers, toAuthor, toCommunityChest, refundIds };
+}
+
+
+////////////////////////////////////////////////////////////////////////////////////////
+// TRANSITION + SETTLE (maintenance jobs)
+////////////////////////////////////////////////////////////////////////////////////////
+/**
+ * Moves one challenge into a terminal status and settles it in the same transaction, then
+ * makes the first refund attempt and publishes CHALLENGE_SETTLED.
+ * The status change goes through the state machine, as a compare-and-set on `guard`:
+ * a challenge that changed in the meantime is left alone.
+ * @returns The settled challenge with its settlement, or null if the guard no longer matched.
+ */
+export async function transitionAndSettle(
+    challenge: Pick<Challenge, 'challengeId' | 'proposerUserId' | 'timestampSettled'>,
+    status: SettledStatus,
+    guard: Prisma.ChallengeWhereInput,
+    data: Prisma.ChallengeUpdateManyMutationInput,
+    settledAt: Date = new Date()
+): Promise<{ challenge: Challenge, settlement: SettlementOutcome } | null> {
+    const streamSessionId = getCurrentStreamSessionId();
+
+    const result = await prisma.$transaction(async (tx) => {
+        let transitioned: Challenge | null;
+        try {
+            transitioned = await transitionChallenge(tx, challenge.challengeId, status, {
+                guard,
+                data,
+                at: settledAt,
+                reason: typeof data.failureReason === 'string' ? data.failureReason : undefined,
+            });
+        } catch (error) {
+            // Moved to a status this job may not leave (e.g. COMPLETED meanwhile): same as a lost guard.
+            if (error instanceof IllegalChallengeTransitionError) return null;
+            throw error;
+        }
+
+        if (!transitioned) {
+            return null;
+        }
+
+        const settlement = await settleChallenge(tx, challenge, status, settledAt, streamSessionId);
+        const settledChallenge = await tx.challenge.findUniqueOrThrow({ where: { challengeId: challenge.challengeId } });
+
+        return { challenge: settledChallenge, settlement };
+    });
+
+    if (result) {
+        await processRefundsNow(result.settlement.refundIds);
+        publishChallengeEvent(ChallengeEvents.CHALLENGE_SETTLED, { ...result.challenge, settlement: result.settlement });
+    }
+
+    return result;
+}
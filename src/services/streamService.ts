@@ -5,6 +5,7 @@
 import prisma from '../prisma';
 import { ChallengeStatus } from '@prisma/client';
 import { archiveExpiredChallenges, finalizeInProgressChallenge } from './challengeService';
+import { runStreamMatchingRound } from './matchingService';
 
 // Use string literals for better state management and scaling (e.g., 'BREAK', 'PRE-STREAM' later)
 type StreamStatus = 'OFFLINE' | 'LIVE';
@@ -192,6 +193,12 @@ export async function processStreamOfflineEvent(streamEndTime: Date): Promise<vo
     const archivedCount = await archiveExpiredChallenges();
     const completedChallenge = await finalizeInProgressChallenge();
 
+    // Quadratic matching for the pushes made during this stream (a failure must not block going offline)
+    const matchingRound = await runStreamMatchingRound(result.finalized).catch((error) => {
+        console.error(`[StreamService] Matching round failed for session ${result.finalized.streamSessionId}:`, error instanceof Error ? error.message : error);
+        return null;
+    });
+
     // 4. Update memory and log
     currentStreamStatus = 'OFFLINE';
     
@@ -206,6 +213,7 @@ export async function processStreamOfflineEvent(streamEndTime: Date): Promise<vo
   
   ACTIVITY:
   Archived:  ${archivedCount} | Completed: ${completedChallenge ? `#${completedChallenge.challengeId}` : 'None'}
+  Matched:   ${matchingRound ? `${matchingRound.totalMatched} NUMBERS (Round ${matchingRound.id})` : 'None'}
 ╚═══════════════════════════════════════════════════╝
     `);
 
@@ -2,9 +2,10 @@
 // centralize all database interactions related to the User model into a dedicated service file.
 // add other user-related database functions here (e.g., getUserStats, updateUserBalance)
 import prisma from '../prisma';
-import { User, PlatformName } from '@prisma/client';
+import { User, PlatformName, Prisma } from '@prisma/client';
 import { getNextDailyResetTime } from './challengeService';
 import { getCurrentStreamSessionId} from './streamService';
+import { getUserLedgerTotals } from './ledgerService';
 
 
 // --- CONFIGURATION IMPORTS ---
@@ -84,10 +85,11 @@ export async function isGameMaster(platformName: PlatformName, platformId: strin
 
 /**
  * Ensures a central User identity exists for a new platform account.
- * This is ONLY called when an Account is created for the very first time.
+ * This is ONLY called when an Account is created for the very first time,
+ * or when an Account is unlinked from its User (see accountLinkService).
  */
-async function createNewCentralUser(): Promise<User> {
-    const user = await prisma.user.create({
+export async function createNewCentralUser(db: Prisma.TransactionClient = prisma): Promise<User> {
+    const user = await db.user.create({
         data: {
             // These are the only required fields for a brand new user
             dailyChallengeResetAt: getNextDailyResetTime(),
@@ -184,14 +186,12 @@ export async function processUserStats(userId: number): Promise<string> {
             },
             
             // Core Game Stats (remain on the User table)
-            totalNumbersSpent: true,
+            // NOTE: Financial totals are derived from the Ledger below, not from the cached counters.
             totalChallengesSubmitted: true,
             totalRemovalsExecuted: true,
             totalDisruptsExecuted: true,
             totalPushesExecuted: true,
             totalDigoutsExecuted: true, 
-            totalReceivedFromRemovals: true, 
-            totalCausedByRemovals: true, 
             dailySubmissionCount: true,
             activeOfflineDaysCount: true, 
             activeStreamDaysCount: true,
@@ -202,6 +202,8 @@ export async function processUserStats(userId: number): Promise<string> {
         throw new Error("User record not found.");
     }
 
+    const ledgerTotals = await getUserLedgerTotals(userId);
+
     // --- 1. Calculate Unified Balance and Account List ---
     
     let unifiedBalance = 0;
@@ -222,10 +224,12 @@ export async function processUserStats(userId: number): Promise<string> {
 
     // --- 2. Format and Construct Message ---
     
-    // Core Financial Stats
-    const totalSpent = formatNumber(user.totalNumbersSpent);
-    const receivedFromRemovals = formatNumber(user.totalReceivedFromRemovals);
-    const causedByRemovals = formatNumber(user.totalCausedByRemovals); 
+    // Core Financial Stats (Ledger-derived)
+    const totalSpent = formatNumber(ledgerTotals.totalSpent);
+    const receivedFromRemovals = formatNumber(ledgerTotals.receivedFromRemovals);
+    const causedByRemovals = formatNumber(ledgerTotals.causedByRemovals); 
+    const gifted = formatNumber(ledgerTotals.gifted);
+    const receivedFromGifts = formatNumber(ledgerTotals.receivedFromGifts);
     
     // Command Execution Counts
     const submissions = formatNumber(user.totalChallengesSubmitted);
@@ -250,6 +254,7 @@ export async function processUserStats(userId: number): Promise<string> {
         `\n` +
         `  SPENT (Total): ${totalSpent} | RECEIVED from !remove: ${receivedFromRemovals}\n` +
         `  WAIVED (Refunds from your !remove): ${causedByRemovals}\n` +
+        `  GIFTED: ${gifted} | RECEIVED as gifts: ${receivedFromGifts}\n` +
         `\n` +
         `🛠️ **[ACTIVITY]**\n` +
         `  DAYS ACTIVE: ${totalActiveDays} (Stream: ${activeStream} | Offline: ${activeOffline})\n` +
@@ -8,7 +8,20 @@
 import logger from '../logger';
 import * as userService from '../services/userService';
 import * as challengeService from '../services/challengeService';
-import { PlatformName } from '@prisma/client'; 
+import * as auctionService from '../services/auctionService';
+import * as queueService from '../services/queueService';
+import * as predictionService from '../services/predictionService';
+import * as giftService from '../services/giftService';
+import * as accountLinkService from '../services/accountLinkService';
+import * as accountTransferService from '../services/accountTransferService';
+import * as priceService from '../services/priceService';
+import * as moderationService from '../services/moderationService';
+import * as challengeRevisionService from '../services/challengeRevisionService';
+import * as challengeCategoryService from '../services/challengeCategoryService';
+import * as challengeSeriesService from '../services/challengeSeriesService';
+import { getActiveEconomyConfig } from '../services/economyConfigService';
+import { PlatformName, PredictionOutcome } from '@prisma/client'; 
+import { ADMIN_USER_ID, LINK_CODE_TTL_MS, MODERATION_QUEUE_CHAT_LIMIT, PUSH_QUOTE_EXPIRATION_MS, PUSHER_LEADERBOARD_CHAT_LIMIT, QUEUE_CHAT_LIMIT } from '../config/gameConfig';
 
 // Define the structure of the data expected from the external system (Lumia Stream)
 interface CommandPayload {
@@ -76,7 +89,7 @@ export async function dispatchCommand(
         // ------------------------------------------------------------------
         // Match multi-word commands (e.g., !push confirm)
         // ------------------------------------------------------------------
-        if (command.startsWith('!push')) {
+        if (command.startsWith('!push') && command !== '!pushers') {
             const firstArg = parsedArgs[0]?.toLowerCase();
             
             if (firstArg === 'confirm') {
@@ -89,8 +102,61 @@ export async function dispatchCommand(
                     platformName, 
                     quoteId
                 );
+
+                if (result.lines.length === 1) {
+                    return {
+                        message: `✅ Pushed ${result.quantity}x to Challenge #${result.updatedChallenge.challengeId}! Cost: ${result.transactionCost} NUMBERS.`
+                    };
+                }
+
+                // Basket: report every line, including the ones that were skipped
+                const confirmedLines = result.lines
+                    .filter(line => line.status === 'CONFIRMED')
+                    .map(line => `#${line.challengeId} ${line.quantity}x`);
+                const skippedLines = result.lines
+                    .filter(line => line.status === 'SKIPPED')
+                    .map(line => `#${line.challengeId} (${line.reason})`);
+
+                return {
+                    message: `✅ Basket pushed: ${confirmedLines.join(', ')}. Cost: ${result.transactionCost} NUMBERS.${skippedLines.length > 0 ? ` Skipped, not charged: ${skippedLines.join(', ')}` : ''}`
+                };
+            }
+
+            if (firstArg === 'cancel') {
+                // COMMAND: !push cancel [optional quoteId] (no ID cancels every outstanding quote)
+                const cancelReference = parsedArgs[1];
+                const cancelledCount = await challengeService.cancelPushQuotes(centralUserId, cancelReference);
+
+                return {
+                    message: `🗑️ Cancelled ${cancelledCount} quote line(s)${cancelReference ? ` for ${cancelReference}` : ''}. Nothing was charged.`
+                };
+            }
+
+            if (parsedArgs.length > 2) {
+                // COMMAND: !push [ID] [quantity] [ID] [quantity]... (Basket Quote)
+                const basketArgs = parsedArgs.map(arg => parseInt(arg));
+
+                if (parsedArgs.length % 2 !== 0 || basketArgs.some(value => isNaN(value) || value <= 0)) {
+                    return {
+                        message: `Invalid !push basket format. Use: !push [ID] [Quantity] [ID] [Quantity]... Example: !push 12 3 40 2`
+                    };
+                }
+
+                const basketLines: challengeService.PushBasketLine[] = [];
+                for (let i = 0; i < basketArgs.length; i += 2) {
+                    basketLines.push({ challengeId: basketArgs[i], quantity: basketArgs[i + 1] });
+                }
+
+                const basket = await challengeService.processPushBasketQuote(
+                    centralUserId,
+                    platformId,
+                    platformName,
+                    basketLines
+                );
+
+                const quotedLines = basket.lines.map(line => `#${line.challengeId} ${line.quantity}x = ${line.quotedCost}`);
                 return {
-                    message: `✅ Pushed ${result.quantity}x to Challenge #${result.updatedChallenge.challengeId}! Cost: ${result.transactionCost} NUMBERS.`
+                    message: `[PUSH BASKET] ${quotedLines.join(' | ')}. Total: ${basket.totalCost} NUMBERS. Confirm all with **!push confirm** within ${PUSH_QUOTE_EXPIRATION_MS / 1000} seconds.`
                 };
             }
 
@@ -113,7 +179,7 @@ export async function dispatchCommand(
             );
             
             return {
-                message: `[PUSH QUOTE] Challenge #${challengeId}: Pushing ${quantity}x will cost ${result.quotedCost} NUMBERS. Confirm with **!push confirm** within 30 seconds.`
+                message: `[PUSH QUOTE] Challenge #${challengeId}: Pushing ${quantity}x will cost ${result.quotedCost} NUMBERS. Confirm with **!push confirm** within ${PUSH_QUOTE_EXPIRATION_MS / 1000} seconds.`
             };
         } 
         
@@ -142,6 +208,32 @@ export async function dispatchCommand(
                     action: 'submission_link_generated'
                 };
 
+            case '!challengeedit':
+                // COMMAND: !challengeedit [ID] [duration]
+                // Secure link to the edit form, for the author of a challenge nobody has pushed yet.
+                const editChallengeId = parseInt(parsedArgs[0]);
+
+                if (isNaN(editChallengeId) || editChallengeId <= 0) {
+                    return { message: `Invalid !challengeedit format. Use: !challengeedit [Challenge ID] [duration]` };
+                }
+
+                const editLinkResult = await challengeRevisionService.processEditLinkGeneration(
+                    centralUserId,
+                    platformId,
+                    platformName,
+                    usernameToStore,
+                    editChallengeId,
+                    parsedArgs[1],
+                    hostname
+                );
+
+                logger.info('Challenge edit link generated.', editLinkResult.details);
+
+                return {
+                    message: editLinkResult.chatResponse,
+                    action: 'edit_link_generated'
+                };
+
             case '!challengeexplorer':
                 // COMMAND: !challengeexplorer [tier]
                 // We extract the first argument (e.g., 'day', 'month') from parsedArgs
@@ -208,14 +300,403 @@ export async function dispatchCommand(
                 return { message: removeMessage };
 
             case '!disrupt':
-                // COMMAND: !disrupt
-                const disruptMessage = await challengeService.processDisrupt(
+                // COMMAND: !disrupt constraint [text] | !disrupt shorten | !disrupt extend | !disrupt swap [Challenge ID]
+                const disruptEffect = parsedArgs[0]?.toLowerCase();
+                const { disruptCost } = await getActiveEconomyConfig();
+                const disruptUsage = `Use: !disrupt constraint [text] | !disrupt shorten | !disrupt extend | !disrupt swap [Challenge ID]. Each costs ${disruptCost} NUMBERS and hits the challenge being played.`;
+                let disruptRequest: challengeService.DisruptRequest;
+
+                if (disruptEffect === 'constraint') {
+                    // Everything after the effect keyword is the constraint text
+                    const constraintText = parsedArgs.slice(1).join(' ');
+                    if (!constraintText) {
+                        return { message: `Missing constraint text. Example: !disrupt constraint Left hand only` };
+                    }
+                    disruptRequest = { effect: 'constraint', text: constraintText };
+                } else if (disruptEffect === 'shorten' || disruptEffect === 'extend') {
+                    disruptRequest = { effect: disruptEffect };
+                } else if (disruptEffect === 'swap') {
+                    const swapChallengeId = parseInt(parsedArgs[1]);
+                    if (isNaN(swapChallengeId) || swapChallengeId <= 0) {
+                        return { message: `Invalid !disrupt swap format. Use: !disrupt swap [Challenge ID]. Example: !disrupt swap 42` };
+                    }
+                    disruptRequest = { effect: 'swap', targetChallengeId: swapChallengeId };
+                } else {
+                    // No (or unknown) effect: explain instead of charging
+                    return { message: `💥 ${disruptUsage}` };
+                }
+
+                const disruptResult = await challengeService.processDisrupt(
                     centralUserId, 
                     platformId, 
-                    platformName
+                    platformName,
+                    disruptRequest
                 );
-                return { message: disruptMessage };
+                return { message: disruptResult.message };
             
+            case '!bid':
+                // COMMAND: !bid [Challenge ID] [amount]  |  !bid [Challenge ID] (auction status)
+                const bidChallengeId = parseInt(parsedArgs[0]);
+
+                if (isNaN(bidChallengeId) || bidChallengeId <= 0) {
+                    return {
+                        message: `Invalid !bid format. Use: !bid [Challenge ID] [Amount]. Example: !bid 42 5000`
+                    };
+                }
+
+                if (parsedArgs[1] === undefined) {
+                    const openAuction = await auctionService.getOpenAuctionForChallenge(bidChallengeId);
+                    if (!openAuction) {
+                        return { message: `Challenge #${bidChallengeId} has no open auction.` };
+                    }
+                    const leader = openAuction.leadingBid
+                        ? `Leading bid: ${openAuction.leadingBid.amount} NUMBERS by ${openAuction.leadingBid.account.username ?? 'a viewer'}.`
+                        : 'No bids yet.';
+                    return {
+                        message: `🔨 Auction for Challenge #${bidChallengeId}: ${leader} Minimum next bid: ${openAuction.minimumNextBid} NUMBERS.`
+                    };
+                }
+
+                const bidAmount = parseInt(parsedArgs[1]);
+                if (isNaN(bidAmount) || bidAmount <= 0) {
+                    return {
+                        message: `Invalid !bid format. Use: !bid [Challenge ID] [Amount]. Example: !bid 42 5000`
+                    };
+                }
+
+                const bidResult = await auctionService.placeBid(
+                    centralUserId,
+                    platformId,
+                    platformName,
+                    bidChallengeId,
+                    bidAmount
+                );
+
+                return {
+                    message: `🔨 You lead the auction for Challenge #${bidChallengeId} with ${bidResult.bid.amount} NUMBERS!`
+                };
+
+            case '!predict':
+                // COMMAND: !predict [Challenge ID] [completes|fails] [amount]  |  !predict [Challenge ID] (odds)
+                const predictChallengeId = parseInt(parsedArgs[0]);
+                const predictUsage = `Use: !predict [Challenge ID] [completes|fails] [Amount]. Example: !predict 42 fails 500`;
+
+                if (isNaN(predictChallengeId) || predictChallengeId <= 0) {
+                    return { message: `Invalid !predict format. ${predictUsage}` };
+                }
+
+                if (parsedArgs[1] === undefined) {
+                    const market = await predictionService.getPredictionMarket(predictChallengeId);
+                    if (!market) {
+                        return { message: `Nobody has predicted Challenge #${predictChallengeId} yet. ${predictUsage}` };
+                    }
+                    const formatSide = (side: { pool: number; multiplier: number | null }) =>
+                        `${side.pool} NUMBERS${side.multiplier !== null ? ` (pays x${side.multiplier})` : ''}`;
+                    return {
+                        message: `🔮 Challenge #${predictChallengeId}: Completes ${formatSide(market.odds.completes)} | Fails ${formatSide(market.odds.fails)}. ${market.isOpen ? 'Stakes are open.' : 'Stakes are closed.'}`
+                    };
+                }
+
+                const predictOutcomes: Record<string, PredictionOutcome> = {
+                    completes: PredictionOutcome.COMPLETES,
+                    fails: PredictionOutcome.FAILS,
+                };
+                const predictOutcome = predictOutcomes[parsedArgs[1].toLowerCase()];
+                const predictAmount = parseInt(parsedArgs[2]);
+
+                if (!predictOutcome || isNaN(predictAmount) || predictAmount <= 0) {
+                    return { message: `Invalid !predict format. ${predictUsage}` };
+                }
+
+                const predictResult = await predictionService.placePrediction(
+                    centralUserId,
+                    platformId,
+                    platformName,
+                    predictChallengeId,
+                    predictOutcome,
+                    predictAmount
+                );
+                const predictSide = predictOutcome === PredictionOutcome.COMPLETES ? predictResult.odds.completes : predictResult.odds.fails;
+
+                return {
+                    message: `🔮 You staked ${predictResult.stake.amount} NUMBERS that Challenge #${predictChallengeId} ${parsedArgs[1].toLowerCase()}. Current payout: x${predictSide.multiplier}.`
+                };
+
+            case '!gift':
+                // COMMAND: !gift @username [amount]  |  !gift community_chest [amount] (donation)
+                const giftRecipient = parsedArgs[0];
+                const giftAmount = parseInt(parsedArgs[1]);
+
+                if (!giftRecipient || isNaN(giftAmount) || giftAmount <= 0) {
+                    return {
+                        message: `Invalid !gift format. Use: !gift @username [Amount], or !gift community_chest [Amount] to donate. Example: !gift @drumfan 100`
+                    };
+                }
+
+                const giftResult = await giftService.processGift(
+                    centralUserId,
+                    platformId,
+                    platformName,
+                    giftRecipient,
+                    giftAmount
+                );
+
+                if (giftResult.isDonation) {
+                    return { message: `💝 Thank you! ${giftResult.gift.amount} NUMBERS were donated to the Community Chest.` };
+                }
+                return {
+                    message: `🎁 You gifted ${giftResult.gift.amount} NUMBERS to @${giftResult.recipientUsername}!${giftResult.recipientCredited ? '' : ' Their credit is queued and will arrive shortly.'}`
+                };
+
+            case '!link':
+                // COMMAND: !link (issue a code)  |  !link [code] (ask to join, from another platform account)
+                //          !link confirm [username] (accept that request, from the account that issued the code)
+                const linkCode = parsedArgs[0];
+
+                if (!linkCode) {
+                    const issued = await accountLinkService.issueLinkCode(centralUserId, platformId, platformName);
+                    return {
+                        message: `🔗 Your link code is ${issued.code}. Within ${Math.round(LINK_CODE_TTL_MS / 60000)} minutes, type !link ${issued.code} from your other platform account, then confirm it here with !link confirm [that account's username].`
+                    };
+                }
+
+                if (linkCode.toLowerCase() === 'confirm') {
+                    const linkRequesterName = parsedArgs[1];
+
+                    if (!linkRequesterName) {
+                        return { message: `Invalid !link confirm format. Use: !link confirm [username of your other account].` };
+                    }
+
+                    const linkConfirmation = await accountLinkService.confirmLinkRequest(centralUserId, platformId, platformName, linkRequesterName);
+                    return {
+                        message: `🔗 Linked! @${linkRequesterName.replace(/^@+/, '')} now belongs to User ID ${linkConfirmation.userId} (${linkConfirmation.linkedAccounts} accounts linked). Your stats were merged.`
+                    };
+                }
+
+                const linkRequest = await accountLinkService.redeemLinkCode(centralUserId, platformId, platformName, linkCode);
+                return {
+                    message: `🔗 Link requested. Confirm it from your ${linkRequest.issuerPlatformName} account with !link confirm ${linkRequest.requesterName} before the code expires.`
+                };
+
+            case '!unlink':
+                // COMMAND: !unlink (detaches the account the command is sent from)
+                const unlinkResult = await accountLinkService.unlinkAccount(centralUserId, platformId, platformName);
+                return {
+                    message: `✂️ This ${platformName} account was unlinked and is now User ID ${unlinkResult.newUserId}. Its balance stays with it; past stats remain with User ID ${unlinkResult.previousUserId}.`
+                };
+
+            case '!transfer':
+                // COMMAND: !transfer [platform] [amount]  |  !transfer auto on|off (let linked accounts spend THIS account's balance)
+                const transferTarget = parsedArgs[0]?.toUpperCase();
+
+                if (transferTarget === 'AUTO') {
+                    const autoMode = parsedArgs[1]?.toLowerCase();
+
+                    if (autoMode !== 'on' && autoMode !== 'off') {
+                        return { message: `Invalid !transfer auto format. Use: !transfer auto on, or !transfer auto off.` };
+                    }
+
+                    const balanceShared = await accountTransferService.setAccountBalanceShared(centralUserId, platformId, platformName, autoMode === 'on');
+                    return {
+                        message: balanceShared
+                            ? `💳 Balance sharing is ON for this ${platformName} account: your linked accounts can spend its balance when they run short.`
+                            : `💳 Balance sharing is OFF for this ${platformName} account: only this account spends its balance.`
+                    };
+                }
+
+                const transferAmount = parseInt(parsedArgs[1]);
+
+                if (!transferTarget || !(transferTarget in PlatformName) || isNaN(transferAmount) || transferAmount <= 0) {
+                    return {
+                        message: `Invalid !transfer format. Use: !transfer [Platform] [Amount] to move NUMBERS to your linked account. Example: !transfer YOUTUBE 500`
+                    };
+                }
+
+                const transferResult = await accountTransferService.transferBetweenAccounts(
+                    centralUserId,
+                    platformId,
+                    platformName,
+                    transferTarget as PlatformName,
+                    transferAmount
+                );
+
+                return {
+                    message: `🔁 Moved ${transferResult.amount} NUMBERS from ${platformName} to ${transferResult.targetAccount.platformName}. ${platformName} balance: ${transferResult.sourceAccount.currentBalance} NUMBERS.${transferResult.targetCredited ? '' : ' The credit is queued and will arrive shortly.'}`
+                };
+
+            case '!price':
+                // COMMAND: !price  |  !price submit  |  !price push [ID] [quantity]  |  !price digout [ID]  |  !price disrupt
+                const priceAction = parsedArgs[0]?.toLowerCase() as priceService.PricedAction | undefined;
+
+                if (priceAction && !priceService.PRICED_ACTIONS.includes(priceAction)) {
+                    return {
+                        message: `Invalid !price format. Use: !price, !price submit, !price push [ID] [Quantity], !price digout [ID] or !price disrupt.`
+                    };
+                }
+
+                const priceChallengeId = parsedArgs[1] !== undefined ? parseInt(parsedArgs[1]) : undefined;
+                const priceQuantity = parsedArgs[2] !== undefined ? parseInt(parsedArgs[2]) : undefined;
+
+                if ((priceChallengeId !== undefined && (isNaN(priceChallengeId) || priceChallengeId <= 0))
+                    || (priceQuantity !== undefined && (isNaN(priceQuantity) || priceQuantity <= 0))) {
+                    return {
+                        message: `Invalid !price format. Example: !price push 42 3, or !price digout 42`
+                    };
+                }
+
+                const priceSheet = await priceService.getPriceSheet({
+                    platformId,
+                    platformName,
+                    challengeId: priceChallengeId,
+                    quantity: priceQuantity,
+                    actions: priceAction ? [priceAction] : ['submit', 'disrupt'],
+                });
+
+                const priceLines = priceSheet.prices.map(preview => {
+                    const label = preview.action === 'push'
+                        ? `push #${preview.details.challengeId} ${preview.details.quantity}x`
+                        : preview.action === 'digout' ? `digout #${preview.details.challengeId}` : preview.action;
+
+                    if (preview.cost === null) return `${preview.action}: ${preview.reason}`;
+                    return `${label}: ${preview.cost} NUMBERS${preview.liveDiscountApplied ? ` (-${priceSheet.liveDiscountPercent}% live)` : ''}${preview.available ? '' : ` (unavailable: ${preview.reason})`}`;
+                });
+                return {
+                    message: `🏷️ Prices (v${priceSheet.economyConfigVersion}): ${priceLines.join(' | ')}${priceAction ? '' : '. For pushes and digouts: !price push [ID] [Quantity], !price digout [ID].'}`
+                };
+
+            case '!review':
+            case '!approve':
+            case '!reject':
+                // COMMAND (GM): !review (queue)  |  !review [ID] (flagged references)  |  !approve [ID] [note]  |  !reject [ID] [reason]
+                if (centralUserId !== ADMIN_USER_ID) {
+                    return { message: `Access Denied. ${command} is restricted to the Game Master.` };
+                }
+
+                const reviewChallengeId = parsedArgs[0] !== undefined ? parseInt(parsedArgs[0]) : undefined;
+                const reviewText = parsedArgs.slice(1).join(' ');
+
+                if (reviewChallengeId !== undefined && (isNaN(reviewChallengeId) || reviewChallengeId <= 0)) {
+                    return { message: `Invalid ${command} format. Use: !review, !review [ID], !approve [ID] [Note], or !reject [ID] [Reason].` };
+                }
+
+                if (command === '!review' && reviewChallengeId === undefined) {
+                    const pendingReviews = await moderationService.listPendingSubmissions(MODERATION_QUEUE_CHAT_LIMIT);
+
+                    if (pendingReviews.length === 0) {
+                        return { message: `🛡️ No submissions are waiting for review.` };
+                    }
+
+                    const reviewLines = pendingReviews.map(pending =>
+                        `#${pending.challengeId} by ${pending.proposerUsername ?? `User ${pending.proposerUserId}`} (${pending.flaggedReferences.length} flagged)`
+                    );
+                    return { message: `🛡️ Waiting for review: ${reviewLines.join(' | ')}. Inspect with !review [ID].` };
+                }
+
+                if (reviewChallengeId === undefined) {
+                    return { message: `Invalid ${command} format. Use: ${command} [Challenge ID]${command === '!reject' ? ' [Reason]' : ' [Note]'}.` };
+                }
+
+                if (command === '!review') {
+                    const submission = await moderationService.getSubmissionForReview(reviewChallengeId);
+                    const flaggedLines = submission.flaggedReferences.map(reference =>
+                        `${reference.type}${reference.isTrusted ? '' : ' (untrusted)'}: ${reference.url ?? reference.title}`
+                    );
+                    return {
+                        message: `🛡️ #${submission.challengeId} [${submission.status}] "${submission.goal}" by ${submission.proposerUsername ?? `User ${submission.proposerUserId}`}. Flagged: ${flaggedLines.length > 0 ? flaggedLines.join(' | ') : 'none'}.`
+                    };
+                }
+
+                if (command === '!approve') {
+                    await moderationService.approveSubmission(centralUserId, reviewChallengeId, reviewText || undefined);
+                    return { message: `✅ Challenge #${reviewChallengeId} approved and now ACTIVE.` };
+                }
+
+                const rejection = await moderationService.rejectSubmission(centralUserId, reviewChallengeId, reviewText);
+                return {
+                    message: `🚫 Challenge #${reviewChallengeId} rejected: ${rejection.decision.reason}. ${rejection.decision.refundAmount} NUMBERS refunded to the proposer${rejection.refundPaid ? '' : ' (queued)'}.`
+                };
+
+            case '!categories':
+                // COMMAND: !categories (the categories a submission can be filed under)
+                const offeredCategories = await challengeCategoryService.listCategories();
+                const categoryLines = offeredCategories.map(category => `${category.slug} (${category.challengeCount})`);
+
+                return {
+                    message: `🗂️ Categories: ${categoryLines.join(' | ')}. Pick one on the !challengesubmit form.`
+                };
+
+            case '!series':
+                // COMMAND: !series [ID] (progress of a challenge series)
+                const seriesId = parseInt(parsedArgs[0]);
+
+                if (isNaN(seriesId) || seriesId <= 0) {
+                    return { message: `Invalid !series format. Use: !series [Series ID]` };
+                }
+
+                const series = await challengeSeriesService.getSeries(seriesId);
+                const seriesLines = series.challenges.map(member =>
+                    `#${member.challengeId}${member.status === 'COMPLETED' ? ' ✅' : ` [${member.status}]`}`
+                );
+
+                return {
+                    message: `🧗 Series #${series.id} "${series.name}": ${series.completedChallenges}/${series.totalChallenges} completed${series.timestampCompleted ? ' 🏆' : ''}. ${seriesLines.join(' → ')}`
+                };
+
+            case '!quotes':
+                // COMMAND: !quotes
+                const pendingQuotes = await challengeService.listPushQuotes(centralUserId);
+
+                if (pendingQuotes.length === 0) {
+                    return { message: `You have no outstanding push quotes.` };
+                }
+
+                const pendingLines = pendingQuotes.map(pending => {
+                    const secondsLeft = Math.max(0, Math.ceil((pending.expiresAt.getTime() - Date.now()) / 1000));
+                    const items = pending.lines.map(line => `#${line.challengeId} ${line.quantity}x`).join(', ');
+                    return `${pending.reference.slice(0, 8)}: ${items} = ${pending.totalCost} NUMBERS (${secondsLeft}s)`;
+                });
+                return {
+                    message: `🧾 Your quotes: ${pendingLines.join(' | ')}. Use !push confirm [ID] or !push cancel [ID].`
+                };
+
+            case '!pushers':
+                // COMMAND: !pushers [ID]
+                const pushersChallengeId = parseInt(parsedArgs[0]);
+
+                if (isNaN(pushersChallengeId) || pushersChallengeId <= 0) {
+                    return {
+                        message: `Invalid !pushers format. Use: !pushers [Challenge ID]. Example: !pushers 42`
+                    };
+                }
+
+                const leaderboard = await challengeService.getChallengePushers(pushersChallengeId, PUSHER_LEADERBOARD_CHAT_LIMIT);
+
+                if (leaderboard.pushers.length === 0) {
+                    return { message: `Challenge #${pushersChallengeId} has no pushers yet. Be the first with !push ${pushersChallengeId} [Quantity].` };
+                }
+
+                const leaderboardLines = leaderboard.pushers.map(pusher =>
+                    `#${pusher.rank} ${pusher.username ?? `User ${pusher.userId}`} (${pusher.quantity}x, ${pusher.numbersSpent} NUMBERS)`
+                );
+                return {
+                    message: `🏆 Top pushers of Challenge #${pushersChallengeId} (${leaderboard.uniquePushers} unique): ${leaderboardLines.join(' | ')}`
+                };
+
+            case '!queue':
+                // COMMAND: !queue
+                const queue = await queueService.getExecutionQueue(QUEUE_CHAT_LIMIT);
+
+                if (queue.entries.length === 0) {
+                    return { message: `The queue is empty. Submit a challenge with !challengesubmit.` };
+                }
+
+                const queueLines = queue.entries.map(entry =>
+                    `${entry.position}. #${entry.challengeId}${entry.override?.type === 'PIN' ? ' 📌' : ''}${entry.override?.type === 'SKIP' ? ' ⏭️' : ''}${entry.pendingPrerequisites.length > 0 ? ' 🔒' : ''} (${entry.score} pts)`
+                );
+                return {
+                    message: `📋 Up next (rules v${queue.rulesVersion}): ${queueLines.join(' | ')}`
+                };
+
             case '!qlogic':
                 return {
                     message: `The cost is quadratic, which means strategic influence is EXPENSIVE. It applies to !challengesubmit (daily reset) and !push (never resets).`
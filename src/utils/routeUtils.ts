@@ -11,11 +11,74 @@ export function getServiceErrorStatus(errorMessage: string): number {
         errorMessage.includes("Status is") ||
         errorMessage.includes("cannot be executed. Status must be 'Active'") ||
         errorMessage.includes("Insufficient balance") || 
+        errorMessage.includes("Insufficient funds") || 
         errorMessage.includes("Quote has expired") || 
         errorMessage.includes("Multiple active quotes") ||
         errorMessage.includes("cannot be dug out") ||
         errorMessage.includes("already been digged out") ||
-        errorMessage.includes("currently being processed")
+        errorMessage.includes("currently being processed") ||
+        errorMessage.includes("cannot be resolved") ||
+        errorMessage.includes("cannot be retried") ||
+        errorMessage.includes("cannot be cancelled") ||
+        errorMessage.includes("cannot be auctioned") ||
+        errorMessage.includes("has no open auction") ||
+        errorMessage.includes("Bid too low") ||
+        errorMessage.includes("has ended") ||
+        errorMessage.includes("cannot be closed") ||
+        errorMessage.includes("No challenge is currently executing") ||
+        errorMessage.includes("Disrupt constraint must be") ||
+        errorMessage.includes("Disrupt cannot extend") ||
+        errorMessage.includes("no running session clock") ||
+        errorMessage.includes("is already executing") ||
+        errorMessage.includes("cannot be swapped in") ||
+        errorMessage.includes("cannot be queued") ||
+        errorMessage.includes("Invalid matching period") ||
+        errorMessage.includes("overlaps Matching Round") ||
+        errorMessage.includes("Push basket") ||
+        errorMessage.includes("No active quote found") ||
+        errorMessage.includes("not open for predictions") ||
+        errorMessage.includes("Predictions for Challenge") ||
+        errorMessage.includes("Prediction stake must") ||
+        errorMessage.includes("already predicted") ||
+        errorMessage.includes("has no open prediction market") ||
+        errorMessage.includes("Gift recipient") ||
+        errorMessage.includes("Gift amount must") ||
+        errorMessage.includes("Daily gift cap") ||
+        errorMessage.includes("Link code is invalid") ||
+        errorMessage.includes("already linked") ||
+        errorMessage.includes("No link request is waiting") ||
+        errorMessage.includes("Balance sharing is not available") ||
+        errorMessage.includes("pending link request comes from another account") ||
+        errorMessage.includes("nothing to unlink") ||
+        errorMessage.includes("Account linking is not available") ||
+        errorMessage.includes("Transfer amount must") ||
+        errorMessage.includes("Transfer target must") ||
+        errorMessage.includes("Link it first with !link") ||
+        errorMessage.includes("Economy config") ||
+        errorMessage.includes("Illegal status transition") ||
+        errorMessage.includes("is not under review") ||
+        errorMessage.includes("Moderation rejection needs") ||
+        errorMessage.includes("Moderation refund percent") ||
+        errorMessage.includes("can no longer be edited") ||
+        errorMessage.includes("Challenge text must") ||
+        errorMessage.includes("Unknown challenge category") ||
+        errorMessage.includes("Challenge tags:") ||
+        errorMessage.includes("Category slug must") ||
+        errorMessage.includes("Category name is required") ||
+        errorMessage.includes("Category sortOrder must") ||
+        errorMessage.includes("already exists") ||
+        errorMessage.includes("cannot be deactivated") ||
+        errorMessage.includes("cannot be its own prerequisite") ||
+        errorMessage.includes("cannot be a prerequisite") ||
+        errorMessage.includes("is already a prerequisite") ||
+        errorMessage.includes("is not a prerequisite") ||
+        errorMessage.includes("prerequisites can no longer change") ||
+        errorMessage.includes("cannot start: prerequisite") ||
+        errorMessage.includes("Series name is required") ||
+        errorMessage.includes("Series position must") ||
+        errorMessage.includes("already belongs to Series") ||
+        errorMessage.includes("is not in Series") ||
+        errorMessage.includes("is already completed")
     ) {
         return 400;
     }
@@ -24,6 +87,9 @@ export function getServiceErrorStatus(errorMessage: string): number {
     if (
         errorMessage.includes("only be removed by the author") || 
         errorMessage.includes("cannot be removed while in status") ||
+        errorMessage.includes("Game Master identity cannot be merged") ||
+        errorMessage.includes("can only be edited by the author") ||
+        errorMessage.includes("can only be set by the author") ||
         // Catch generic unauthorized/access denied messages (e.g., from execute endpoint)
         errorMessage.includes("Access Denied") || 
         errorMessage.includes("unauthorized")